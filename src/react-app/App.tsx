@@ -1,17 +1,118 @@
 import { useState } from "react";
+import type { ClipboardEvent } from "react";
+import type { DiffResult } from "./domain/entities/DiffResult";
+import type { JsonDocument } from "./domain/entities/JsonDocument";
+import type { DiffEntry } from "./domain/types/diff";
+import { getLeftPath, getRightPath } from "./domain/functions/differ";
 import { useDiff } from "./presentation/hooks/useDiff";
 import { Button } from "./presentation/components/atoms/Button";
 import { TextArea } from "./presentation/components/atoms/TextArea";
+import type { TextRange } from "./presentation/components/atoms/TextArea";
+import { DialectSelect } from "./presentation/components/molecules/DialectSelect";
+import { FileInput } from "./presentation/components/molecules/FileInput";
 import { DiffViewer } from "./presentation/components/organisms/DiffViewer";
+import { MergeViewer } from "./presentation/components/organisms/MergeViewer";
+import { ComparisonTable } from "./presentation/components/organisms/ComparisonTable";
+import { DocumentInputList } from "./presentation/components/organisms/DocumentInputList";
 import { SettingsPanel } from "./presentation/components/organisms/SettingsPanel";
 import "./presentation/styles/global.css";
 
+/**
+ * Returns the text range of the value at a path in the input of a document
+ */
+const locateValue = (
+	document: JsonDocument | null,
+	path: readonly string[],
+): TextRange | undefined => {
+	const location = document?.getLocation(path);
+	return (
+		location && {
+			line: location.line,
+			start: location.range[0],
+			end: location.range[1],
+		}
+	);
+};
+
 function App() {
 	const { state, actions, settings, setSettings } = useDiff();
 	const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+	// Entries are only selected in the diff they belong to
+	const [selection, setSelection] = useState<{
+		readonly diffResult: DiffResult;
+		readonly entry: DiffEntry;
+	} | null>(null);
+
+	const isPatchMode = state.mode === "patch";
+	const isMergeMode = state.mode === "merge";
+	const isMultiMode = state.mode === "multi";
+	const isCompareMode = state.mode === "compare";
+	const leftLabel = isPatchMode
+		? "Document"
+		: isMergeMode
+			? "Ours"
+			: "Left JSON";
+	const rightLabel = isPatchMode
+		? "JSON Patch"
+		: isMergeMode
+			? "Theirs"
+			: "Right JSON";
+
+	// Parse errors are marked in the pane of their input
+	const leftErrorPosition =
+		state.error?.type === "LEFT_PARSE_ERROR"
+			? state.error.error.getPosition()
+			: undefined;
+	const rightErrorPosition =
+		state.error?.type === "RIGHT_PARSE_ERROR"
+			? state.error.error.getPosition()
+			: undefined;
+	const baseErrorPosition =
+		state.error?.type === "BASE_PARSE_ERROR"
+			? state.error.error.getPosition()
+			: undefined;
+
+	// The selected entry is highlighted in the inputs; in a merge, the left
+	// document is the base
+	const selectedEntry =
+		selection && selection.diffResult === state.diffResult
+			? selection.entry
+			: null;
+	const leftHighlight =
+		selectedEntry && selectedEntry.leftValue !== undefined
+			? locateValue(state.leftDocument, getLeftPath(selectedEntry))
+			: undefined;
+	const rightHighlight =
+		selectedEntry && selectedEntry.rightValue !== undefined
+			? locateValue(state.rightDocument, getRightPath(selectedEntry))
+			: undefined;
+
+	const selectEntry = (entry: DiffEntry) => {
+		if (state.diffResult) {
+			setSelection({ diffResult: state.diffResult, entry });
+		}
+	};
+
+	// Only a paste replacing the whole input tells its dialect
+	const handlePaste =
+		(detect: (text: string) => void) =>
+		(e: ClipboardEvent<HTMLTextAreaElement>) => {
+			const { value, selectionStart, selectionEnd } = e.currentTarget;
+			if (selectionEnd - selectionStart === value.length) {
+				detect(e.clipboardData.getData("text"));
+			}
+		};
 
 	const handleCompare = () => {
-		actions.compare();
+		if (isPatchMode) {
+			actions.applyPatch();
+		} else if (isMergeMode) {
+			actions.merge();
+		} else if (isMultiMode) {
+			actions.compareMany();
+		} else {
+			actions.compare();
+		}
 	};
 
 	const styles = {
@@ -34,9 +135,18 @@ function App() {
 			fontSize: "var(--font-md)",
 			color: "var(--fg-secondary)",
 		},
+		modeContainer: {
+			display: "flex",
+			gap: "var(--spacing-sm)",
+			justifyContent: "center",
+			marginBottom: "var(--spacing-lg)",
+		},
+		resultContainer: {
+			marginBottom: "var(--spacing-lg)",
+		},
 		inputContainer: {
 			display: "grid",
-			gridTemplateColumns: "1fr 1fr",
+			gridTemplateColumns: isMergeMode ? "1fr 1fr 1fr" : "1fr 1fr",
 			gap: "var(--spacing-lg)",
 			marginBottom: "var(--spacing-lg)",
 		},
@@ -73,13 +183,50 @@ function App() {
 				<div style={styles.error}>
 					<strong>Error:</strong>{" "}
 					{state.error.type === "LEFT_PARSE_ERROR"
-						? `Left JSON: ${state.error.error.getMessage()}`
+						? `${leftLabel}: ${state.error.error.getMessage()}`
 						: state.error.type === "RIGHT_PARSE_ERROR"
-							? `Right JSON: ${state.error.error.getMessage()}`
-							: state.error.message}
+							? `${rightLabel}: ${state.error.error.getMessage()}`
+							: state.error.type === "BASE_PARSE_ERROR"
+								? `Base: ${state.error.error.getMessage()}`
+								: state.error.type === "DOCUMENT_PARSE_ERROR"
+									? `${state.documentInputs[state.error.index]?.label}: ${state.error.error.getMessage()}`
+									: state.error.type === "PATCH_ERROR"
+										? `JSON Patch operation ${state.error.error.index}: ${state.error.error.message}`
+										: state.error.message}
 				</div>
 			)}
 
+			<div style={styles.modeContainer}>
+				<Button
+					variant={state.mode === "compare" ? "primary" : "secondary"}
+					size="sm"
+					onClick={() => actions.setMode("compare")}
+				>
+					Compare
+				</Button>
+				<Button
+					variant={isPatchMode ? "primary" : "secondary"}
+					size="sm"
+					onClick={() => actions.setMode("patch")}
+				>
+					Apply Patch
+				</Button>
+				<Button
+					variant={isMergeMode ? "primary" : "secondary"}
+					size="sm"
+					onClick={() => actions.setMode("merge")}
+				>
+					Three-way Merge
+				</Button>
+				<Button
+					variant={isMultiMode ? "primary" : "secondary"}
+					size="sm"
+					onClick={() => actions.setMode("multi")}
+				>
+					Compare Many
+				</Button>
+			</div>
+
 			<SettingsPanel
 				settings={settings}
 				onChange={setSettings}
@@ -87,49 +234,196 @@ function App() {
 				onToggle={() => setIsSettingsOpen(!isSettingsOpen)}
 			/>
 
-			<div style={styles.inputContainer}>
-				<div style={styles.inputWrapper}>
-					<TextArea
-						label="Left JSON"
-						placeholder="Paste your first JSON here..."
-						value={state.leftInput}
-						onChange={(e) => actions.setLeftInput(e.target.value)}
-					/>
-				</div>
-				<div style={styles.inputWrapper}>
-					<TextArea
-						label="Right JSON"
-						placeholder="Paste your second JSON here..."
-						value={state.rightInput}
-						onChange={(e) => actions.setRightInput(e.target.value)}
-					/>
+			{isMultiMode ? (
+				<DocumentInputList
+					inputs={state.documentInputs}
+					onChange={actions.setDocumentInput}
+					onAdd={actions.addDocumentInput}
+					onRemove={actions.removeDocumentInput}
+				/>
+			) : (
+				<div style={styles.inputContainer}>
+					<div style={styles.inputWrapper}>
+						<TextArea
+							label={leftLabel}
+							placeholder={
+								isPatchMode
+									? "Paste the document to patch here..."
+									: isMergeMode
+										? "Paste your edit of the base here..."
+										: "Paste your first JSON here..."
+							}
+							value={state.leftInput}
+							onChange={(e) => actions.setLeftInput(e.target.value)}
+							onPaste={handlePaste(actions.detectLeftDialect)}
+							errorPosition={leftErrorPosition}
+							highlight={isMergeMode ? undefined : leftHighlight}
+							disabled={isCompareMode && state.leftFile !== null}
+						/>
+						<DialectSelect
+							id="leftDialect"
+							value={state.leftDialect}
+							onChange={actions.setLeftDialect}
+						/>
+						{isCompareMode && (
+							<FileInput
+								id="leftFile"
+								file={state.leftFile}
+								onChange={actions.setLeftFile}
+								accept=".json,.jsonc,.json5,.ndjson,.jsonl,.yaml,.yml,.txt"
+							/>
+						)}
+					</div>
+					{isMergeMode && (
+						<div style={styles.inputWrapper}>
+							<TextArea
+								label="Base"
+								placeholder="Paste the common base JSON here..."
+								value={state.baseInput}
+								onChange={(e) => actions.setBaseInput(e.target.value)}
+								onPaste={handlePaste(actions.detectBaseDialect)}
+								errorPosition={baseErrorPosition}
+								highlight={leftHighlight}
+							/>
+							<DialectSelect
+								id="baseDialect"
+								value={state.baseDialect}
+								onChange={actions.setBaseDialect}
+							/>
+						</div>
+					)}
+					<div style={styles.inputWrapper}>
+						<TextArea
+							label={rightLabel}
+							placeholder={
+								isPatchMode
+									? '[{ "op": "replace", "path": "/name", "value": "..." }]'
+									: isMergeMode
+										? "Paste their edit of the base here..."
+										: "Paste your second JSON here..."
+							}
+							value={state.rightInput}
+							onChange={(e) => actions.setRightInput(e.target.value)}
+							onPaste={handlePaste(actions.detectRightDialect)}
+							errorPosition={rightErrorPosition}
+							highlight={rightHighlight}
+							disabled={isCompareMode && state.rightFile !== null}
+						/>
+						<DialectSelect
+							id="rightDialect"
+							value={state.rightDialect}
+							onChange={actions.setRightDialect}
+						/>
+						{isCompareMode && (
+							<FileInput
+								id="rightFile"
+								file={state.rightFile}
+								onChange={actions.setRightFile}
+								accept=".json,.jsonc,.json5,.ndjson,.jsonl,.yaml,.yml,.txt"
+							/>
+						)}
+					</div>
 				</div>
-			</div>
+			)}
 
 			<div style={styles.buttonContainer}>
 				<Button
 					variant="primary"
 					size="lg"
 					onClick={handleCompare}
-					disabled={state.isComparing || !state.leftInput || !state.rightInput}
+					disabled={
+						state.isComparing ||
+						(isMultiMode
+							? state.documentInputs.some((input) => !input.json)
+							: isCompareMode
+								? (!state.leftInput && !state.leftFile) ||
+									(!state.rightInput && !state.rightFile)
+								: !state.leftInput ||
+									!state.rightInput ||
+									(isMergeMode && !state.baseInput))
+					}
 				>
-					{state.isComparing ? "Comparing..." : "Compare"}
+					{state.isComparing
+						? state.compareProgress
+							? `Comparing... (${state.compareProgress.stage} ${state.compareProgress.completed}/${state.compareProgress.total})`
+							: "Comparing..."
+						: isPatchMode
+							? "Apply Patch"
+							: isMergeMode
+								? "Merge"
+								: isMultiMode
+									? "Compare All"
+									: "Compare"}
 				</Button>
+				{state.isComparing && (
+					<Button variant="secondary" size="lg" onClick={actions.cancelCompare}>
+						Cancel
+					</Button>
+				)}
+				{isCompareMode && (
+					<Button
+						variant="secondary"
+						size="lg"
+						onClick={actions.swapSides}
+						disabled={
+							state.isComparing ||
+							(!state.leftInput &&
+								!state.rightInput &&
+								!state.leftFile &&
+								!state.rightFile)
+						}
+					>
+						⇄ Swap Sides
+					</Button>
+				)}
 				<Button
 					variant="secondary"
 					size="lg"
 					onClick={actions.clear}
-					disabled={!state.leftInput && !state.rightInput}
+					disabled={
+						!state.leftInput &&
+						!state.rightInput &&
+						!state.baseInput &&
+						!state.leftFile &&
+						!state.rightFile &&
+						state.documentInputs.every((input) => !input.json)
+					}
 				>
 					Clear
 				</Button>
 			</div>
 
+			{isPatchMode && state.rightDocument && (
+				<div style={styles.resultContainer}>
+					<TextArea
+						label="Patched Result"
+						value={state.rightDocument.toString(true)}
+						readOnly
+					/>
+				</div>
+			)}
+
+			{isMergeMode && state.mergeResult && state.rightDocument && (
+				<MergeViewer
+					mergeResult={state.mergeResult}
+					resolutions={state.resolutions}
+					mergedDocument={state.rightDocument}
+					onResolve={actions.resolveConflict}
+				/>
+			)}
+
+			{isMultiMode && state.comparisonMatrix && (
+				<ComparisonTable matrix={state.comparisonMatrix} />
+			)}
+
 			{state.diffResult && (
 				<DiffViewer
 					diffResult={state.diffResult}
 					leftDocument={state.leftDocument}
 					rightDocument={state.rightDocument}
+					onSelectEntry={selectEntry}
+					selectedEntry={selectedEntry}
+					computeDigests={!state.leftFile && !state.rightFile}
 				/>
 			)}
 		</div>
@@ -0,0 +1,48 @@
+import type { Result } from "../../domain/types/result";
+import type {
+	CompareJsonError,
+	CompareJsonInput,
+	CompareJsonOutput,
+	CompareProgress,
+} from "../use-cases/compareJson";
+import type { CompareFilesInput } from "../use-cases/compareFiles";
+
+/**
+ * Compare error types
+ */
+export type CompareError =
+	| CompareJsonError
+	| { type: "CANCELLED" }
+	| { type: "COMPARE_ERROR"; message: string };
+
+/**
+ * Compare options
+ */
+export interface CompareOptions {
+	readonly onProgress?: (progress: CompareProgress) => void;
+	/** Aborting the signal cancels the comparison */
+	readonly signal?: AbortSignal;
+}
+
+/**
+ * Port interface for running comparisons
+ *
+ * Implementations may run the comparison off the main thread.
+ */
+export interface ComparePort {
+	/**
+	 * Compares two JSON documents
+	 */
+	compare(
+		input: CompareJsonInput,
+		options?: CompareOptions,
+	): Promise<Result<CompareJsonOutput, CompareError>>;
+
+	/**
+	 * Compares two files, streaming those that are JSON or NDJSON
+	 */
+	compareFiles(
+		input: CompareFilesInput,
+		options?: CompareOptions,
+	): Promise<Result<CompareJsonOutput, CompareError>>;
+}
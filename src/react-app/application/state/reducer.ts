@@ -1,17 +1,40 @@
 import type { AppState, AppAction } from "./types";
+import type { DocumentInput } from "../use-cases/compareDocuments";
 import { DEFAULT_COMPARE_SETTINGS } from "../../domain/types/diff";
+import { getFileDialect } from "../../domain/functions/parser";
+
+/**
+ * Creates an empty document input for "multi" mode
+ */
+const createDocumentInput = (index: number): DocumentInput => ({
+	label: `Document ${index + 1}`,
+	json: "",
+	dialect: "json",
+});
 
 /**
  * Initial application state
  */
 export const initialState: AppState = {
+	mode: "compare",
 	leftInput: "",
 	rightInput: "",
+	baseInput: "",
+	leftDialect: "json",
+	rightDialect: "json",
+	baseDialect: "json",
+	leftFile: null,
+	rightFile: null,
+	documentInputs: [0, 1, 2].map(createDocumentInput),
 	leftDocument: null,
 	rightDocument: null,
 	diffResult: null,
+	mergeResult: null,
+	resolutions: [],
+	comparisonMatrix: null,
 	settings: DEFAULT_COMPARE_SETTINGS,
 	isComparing: false,
+	compareProgress: null,
 	error: null,
 };
 
@@ -34,6 +57,99 @@ export const appReducer = (state: AppState, action: AppAction): AppState => {
 				error: null,
 			};
 
+		case "SET_FORMATTED_INPUT": {
+			// Text edited since it was formatted is kept
+			const key = action.payload.side === "left" ? "leftInput" : "rightInput";
+			if (state[key] !== action.payload.input) {
+				return state;
+			}
+			return {
+				...state,
+				[key]: action.payload.formatted,
+			};
+		}
+
+		case "SET_BASE_INPUT":
+			return {
+				...state,
+				baseInput: action.payload,
+				error: null,
+			};
+
+		case "SET_LEFT_DIALECT":
+			return {
+				...state,
+				leftDialect: action.payload,
+				error: null,
+			};
+
+		case "SET_RIGHT_DIALECT":
+			return {
+				...state,
+				rightDialect: action.payload,
+				error: null,
+			};
+
+		case "SET_BASE_DIALECT":
+			return {
+				...state,
+				baseDialect: action.payload,
+				error: null,
+			};
+
+		// The dialect of a file follows its extension
+		case "SET_LEFT_FILE":
+			return {
+				...state,
+				leftFile: action.payload,
+				leftDialect: action.payload
+					? getFileDialect(action.payload.name)
+					: state.leftDialect,
+				error: null,
+			};
+
+		case "SET_RIGHT_FILE":
+			return {
+				...state,
+				rightFile: action.payload,
+				rightDialect: action.payload
+					? getFileDialect(action.payload.name)
+					: state.rightDialect,
+				error: null,
+			};
+
+		case "SET_DOCUMENT_INPUT":
+			return {
+				...state,
+				documentInputs: state.documentInputs.map((input, index) =>
+					index === action.payload.index
+						? { ...input, ...action.payload.input }
+						: input,
+				),
+				error: null,
+			};
+
+		case "ADD_DOCUMENT_INPUT":
+			return {
+				...state,
+				documentInputs: [
+					...state.documentInputs,
+					createDocumentInput(state.documentInputs.length),
+				],
+			};
+
+		case "REMOVE_DOCUMENT_INPUT":
+			// At least two documents are needed for a comparison
+			return state.documentInputs.length > 2
+				? {
+						...state,
+						documentInputs: state.documentInputs.filter(
+							(_, index) => index !== action.payload,
+						),
+						error: null,
+					}
+				: state;
+
 		case "SET_SETTINGS":
 			return {
 				...state,
@@ -43,13 +159,46 @@ export const appReducer = (state: AppState, action: AppAction): AppState => {
 				},
 			};
 
+		case "SET_MODE":
+			// Results of the other mode no longer match the inputs
+			return {
+				...initialState,
+				mode: action.payload,
+				leftInput: state.leftInput,
+				rightInput: state.rightInput,
+				baseInput: state.baseInput,
+				leftDialect: state.leftDialect,
+				rightDialect: state.rightDialect,
+				baseDialect: state.baseDialect,
+				leftFile: state.leftFile,
+				rightFile: state.rightFile,
+				documentInputs: state.documentInputs,
+				settings: state.settings,
+			};
+
 		case "COMPARE_START":
 			return {
 				...state,
 				isComparing: true,
+				compareProgress: null,
 				error: null,
 			};
 
+		case "COMPARE_PROGRESS":
+			return state.isComparing
+				? {
+						...state,
+						compareProgress: action.payload,
+					}
+				: state;
+
+		case "COMPARE_CANCEL":
+			return {
+				...state,
+				isComparing: false,
+				compareProgress: null,
+			};
+
 		case "COMPARE_SUCCESS":
 			return {
 				...state,
@@ -57,6 +206,7 @@ export const appReducer = (state: AppState, action: AppAction): AppState => {
 				rightDocument: action.payload.rightDocument,
 				diffResult: action.payload.diffResult,
 				isComparing: false,
+				compareProgress: null,
 				error: null,
 			};
 
@@ -64,12 +214,63 @@ export const appReducer = (state: AppState, action: AppAction): AppState => {
 			return {
 				...state,
 				isComparing: false,
+				compareProgress: null,
 				error: action.payload,
 			};
 
+		case "MERGE_SUCCESS":
+			return {
+				...state,
+				leftDocument: action.payload.leftDocument,
+				rightDocument: action.payload.rightDocument,
+				diffResult: action.payload.diffResult,
+				mergeResult: action.payload.mergeResult,
+				resolutions: action.payload.mergeResult.conflicts.map(() => null),
+				isComparing: false,
+				compareProgress: null,
+				error: null,
+			};
+
+		case "RESOLVE_CONFLICT":
+			return {
+				...state,
+				rightDocument: action.payload.rightDocument,
+				diffResult: action.payload.diffResult,
+				resolutions: action.payload.resolutions,
+			};
+
+		case "COMPARE_MANY_SUCCESS":
+			return {
+				...state,
+				comparisonMatrix: action.payload,
+				isComparing: false,
+				compareProgress: null,
+				error: null,
+			};
+
+		case "SWAP_SIDES":
+			// The last result is inverted rather than compared again
+			return {
+				...state,
+				leftInput: state.rightInput,
+				rightInput: state.leftInput,
+				leftDialect: state.rightDialect,
+				rightDialect: state.leftDialect,
+				leftFile: state.rightFile,
+				rightFile: state.leftFile,
+				leftDocument: state.rightDocument,
+				rightDocument: state.leftDocument,
+				diffResult: state.diffResult?.invert() ?? null,
+				error: null,
+			};
+
 		case "CLEAR":
 			return {
 				...initialState,
+				mode: state.mode,
+				leftDialect: state.leftDialect,
+				rightDialect: state.rightDialect,
+				baseDialect: state.baseDialect,
 				settings: state.settings,
 			};
 
@@ -1,19 +1,52 @@
 import type { JsonDocument } from "../../domain/entities/JsonDocument";
 import type { DiffResult } from "../../domain/entities/DiffResult";
 import type { CompareSettings } from "../../domain/types/diff";
+import type { JsonDialect } from "../../domain/types/json";
 import type { ValidationError } from "../../domain/value-objects/ValidationError";
+import type { JsonPatchError } from "../../domain/types/patch";
+import type { ConflictResolution, MergeResult } from "../../domain/types/merge";
+import type { CompareProgress } from "../use-cases/compareJson";
+import type {
+	ComparisonMatrix,
+	DocumentInput,
+} from "../use-cases/compareDocuments";
+
+/**
+ * Application mode
+ * - "compare": compare the left and right documents
+ * - "patch": apply the JSON Patch on the right to the document on the left
+ * - "merge": merge the left ("ours") and right ("theirs") edits of a base
+ * - "multi": compare any number of documents side by side
+ */
+export type AppMode = "compare" | "patch" | "merge" | "multi";
 
 /**
  * Application state
  */
 export interface AppState {
+	readonly mode: AppMode;
 	readonly leftInput: string;
 	readonly rightInput: string;
+	readonly baseInput: string;
+	/** Syntax of each input */
+	readonly leftDialect: JsonDialect;
+	readonly rightDialect: JsonDialect;
+	readonly baseDialect: JsonDialect;
+	/** Files read instead of the text inputs in "compare" mode */
+	readonly leftFile: File | null;
+	readonly rightFile: File | null;
+	/** Documents compared in "multi" mode */
+	readonly documentInputs: readonly DocumentInput[];
 	readonly leftDocument: JsonDocument | null;
 	readonly rightDocument: JsonDocument | null;
 	readonly diffResult: DiffResult | null;
+	readonly mergeResult: MergeResult | null;
+	/** Choice per conflict of `mergeResult`, null while unresolved */
+	readonly resolutions: readonly (ConflictResolution | null)[];
+	readonly comparisonMatrix: ComparisonMatrix | null;
 	readonly settings: CompareSettings;
 	readonly isComparing: boolean;
+	readonly compareProgress: CompareProgress | null;
 	readonly error: AppError | null;
 }
 
@@ -23,6 +56,9 @@ export interface AppState {
 export type AppError =
 	| { type: "LEFT_PARSE_ERROR"; error: ValidationError }
 	| { type: "RIGHT_PARSE_ERROR"; error: ValidationError }
+	| { type: "BASE_PARSE_ERROR"; error: ValidationError }
+	| { type: "DOCUMENT_PARSE_ERROR"; index: number; error: ValidationError }
+	| { type: "PATCH_ERROR"; error: JsonPatchError }
 	| { type: "COMPARE_ERROR"; message: string };
 
 /**
@@ -31,8 +67,27 @@ export type AppError =
 export type AppAction =
 	| { type: "SET_LEFT_INPUT"; payload: string }
 	| { type: "SET_RIGHT_INPUT"; payload: string }
+	| {
+			type: "SET_FORMATTED_INPUT";
+			payload: { side: "left" | "right"; input: string; formatted: string };
+	  }
+	| { type: "SET_BASE_INPUT"; payload: string }
+	| { type: "SET_LEFT_DIALECT"; payload: JsonDialect }
+	| { type: "SET_RIGHT_DIALECT"; payload: JsonDialect }
+	| { type: "SET_BASE_DIALECT"; payload: JsonDialect }
+	| { type: "SET_LEFT_FILE"; payload: File | null }
+	| { type: "SET_RIGHT_FILE"; payload: File | null }
+	| {
+			type: "SET_DOCUMENT_INPUT";
+			payload: { index: number; input: Partial<DocumentInput> };
+	  }
+	| { type: "ADD_DOCUMENT_INPUT" }
+	| { type: "REMOVE_DOCUMENT_INPUT"; payload: number }
 	| { type: "SET_SETTINGS"; payload: Partial<CompareSettings> }
+	| { type: "SET_MODE"; payload: AppMode }
 	| { type: "COMPARE_START" }
+	| { type: "COMPARE_PROGRESS"; payload: CompareProgress }
+	| { type: "COMPARE_CANCEL" }
 	| {
 			type: "COMPARE_SUCCESS";
 			payload: {
@@ -42,5 +97,24 @@ export type AppAction =
 			};
 	  }
 	| { type: "COMPARE_ERROR"; payload: AppError }
+	| {
+			type: "MERGE_SUCCESS";
+			payload: {
+				leftDocument: JsonDocument;
+				rightDocument: JsonDocument;
+				diffResult: DiffResult;
+				mergeResult: MergeResult;
+			};
+	  }
+	| {
+			type: "RESOLVE_CONFLICT";
+			payload: {
+				resolutions: readonly (ConflictResolution | null)[];
+				rightDocument: JsonDocument;
+				diffResult: DiffResult;
+			};
+	  }
+	| { type: "COMPARE_MANY_SUCCESS"; payload: ComparisonMatrix }
+	| { type: "SWAP_SIDES" }
 	| { type: "CLEAR" }
 	| { type: "CLEAR_ERROR" };
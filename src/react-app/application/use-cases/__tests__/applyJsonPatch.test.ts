@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { applyJsonPatch } from "../applyJsonPatch";
+import { DEFAULT_COMPARE_SETTINGS } from "../../../domain/types/diff";
+
+describe("applyJsonPatch", () => {
+	it("should return the patched document and the diff of what changed", () => {
+		const result = applyJsonPatch({
+			documentJson: '{"name":"John","age":30}',
+			patchJson: '[{"op":"replace","path":"/age","value":31}]',
+			settings: DEFAULT_COMPARE_SETTINGS,
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(result.value.rightDocument.getData()).toEqual({
+				name: "John",
+				age: 31,
+			});
+			expect(result.value.diffResult.getStats().modified).toBe(1);
+		}
+	});
+
+	it("should report invalid patch JSON as a right parse error", () => {
+		const result = applyJsonPatch({
+			documentJson: "{}",
+			patchJson: "[{",
+			settings: DEFAULT_COMPARE_SETTINGS,
+		});
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.type).toBe("RIGHT_PARSE_ERROR");
+		}
+	});
+
+	it("should report failing operations as patch errors", () => {
+		const result = applyJsonPatch({
+			documentJson: '{"name":"John"}',
+			patchJson: '[{"op":"test","path":"/name","value":"Jane"}]',
+			settings: DEFAULT_COMPARE_SETTINGS,
+		});
+
+		expect(result.ok).toBe(false);
+		if (!result.ok && result.error.type === "PATCH_ERROR") {
+			expect(result.error.error.type).toBe("test-failed");
+		} else {
+			expect.unreachable();
+		}
+	});
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect } from "vitest";
+import { compareDocuments, compareDocumentsJson } from "../compareDocuments";
+import { JsonDocument } from "../../../domain/entities/JsonDocument";
+import type { JsonValue } from "../../../domain/types/json";
+import { DEFAULT_COMPARE_SETTINGS } from "../../../domain/types/diff";
+import type { CompareSettings } from "../../../domain/types/diff";
+
+const compare = (
+	values: readonly JsonValue[],
+	settings: CompareSettings = DEFAULT_COMPARE_SETTINGS,
+) =>
+	compareDocuments({
+		documents: values.map((value, index) =>
+			JsonDocument.fromValue(value, `doc${index}`),
+		),
+		settings,
+	});
+
+const findRow = (
+	matrix: ReturnType<typeof compareDocuments>,
+	path: readonly string[],
+) => matrix.rows.find((row) => row.path.join(".") === path.join("."));
+
+describe("compareDocuments", () => {
+	it("should list the value of every document per path", () => {
+		const matrix = compare([
+			{ version: "1.0", region: "eu" },
+			{ version: "1.0", region: "us" },
+			{ version: "1.1", region: "eu" },
+		]);
+
+		expect(matrix.documentIds).toEqual(["doc0", "doc1", "doc2"]);
+		expect(matrix.rows).toEqual([
+			{
+				path: ["version"],
+				isAdded: false,
+				values: ["1.0", "1.0", "1.1"],
+				isDifferent: true,
+			},
+			{
+				path: ["region"],
+				isAdded: false,
+				values: ["eu", "us", "eu"],
+				isDifferent: true,
+			},
+		]);
+	});
+
+	it("should mark rows that match in every document as not different", () => {
+		const matrix = compare([
+			{ a: 1, b: 2 },
+			{ a: 1, b: 2 },
+			{ a: 1, b: 3 },
+		]);
+
+		expect(findRow(matrix, ["a"])).toMatchObject({
+			values: [1, 1, 1],
+			isDifferent: false,
+		});
+		expect(findRow(matrix, ["b"])?.isDifferent).toBe(true);
+	});
+
+	it("should leave values undefined where a path is absent", () => {
+		const matrix = compare([{ a: 1 }, {}, { a: 1, b: true }]);
+
+		expect(findRow(matrix, ["a"])).toMatchObject({
+			values: [1, undefined, 1],
+			isDifferent: true,
+		});
+		expect(findRow(matrix, ["b"])).toMatchObject({
+			isAdded: true,
+			values: [undefined, undefined, true],
+			isDifferent: true,
+		});
+	});
+
+	it("should find values below a location another document changed", () => {
+		const matrix = compare([
+			{ config: { retries: 3 } },
+			{ config: { retries: 5 } },
+			{ config: "disabled" },
+		]);
+
+		expect(findRow(matrix, ["config", "retries"])?.values).toEqual([
+			3,
+			5,
+			undefined,
+		]);
+		expect(findRow(matrix, ["config"])?.values).toEqual([
+			{ retries: 3 },
+			{ retries: 5 },
+			"disabled",
+		]);
+	});
+
+	it("should line up array items by key", () => {
+		const matrix = compare(
+			[
+				{
+					users: [
+						{ id: 1, name: "a" },
+						{ id: 2, name: "b" },
+					],
+				},
+				{
+					users: [
+						{ id: 2, name: "b" },
+						{ id: 1, name: "a" },
+					],
+				},
+				{ users: [{ id: 2, name: "c" }] },
+			],
+			{ ...DEFAULT_COMPARE_SETTINGS, ignoreArrayOrder: true, keyField: "id" },
+		);
+
+		expect(findRow(matrix, ["users", "id=2", "name"])).toMatchObject({
+			values: ["b", "b", "c"],
+			isDifferent: true,
+		});
+		expect(findRow(matrix, ["users", "id=1", "name"])).toMatchObject({
+			values: ["a", "a", undefined],
+			isDifferent: true,
+		});
+	});
+
+	it("should not mix up added array items with items of the reference", () => {
+		const matrix = compare([
+			["a", "b"],
+			["a", "x", "b"],
+			["a", "b"],
+		]);
+
+		const rows = matrix.rows.filter((row) => row.path.join(".") === "1");
+		expect(rows).toHaveLength(2);
+		expect(rows).toContainEqual({
+			path: ["1"],
+			isAdded: false,
+			values: ["b", "b", "b"],
+			isDifferent: false,
+		});
+		expect(rows).toContainEqual({
+			path: ["1"],
+			isAdded: true,
+			values: [undefined, "x", undefined],
+			isDifferent: true,
+		});
+	});
+
+	it("should ignore moved array items", () => {
+		const matrix = compare([
+			[1, 2, 3],
+			[3, 1, 2],
+		]);
+
+		expect(matrix.rows.every((row) => !row.isDifferent)).toBe(true);
+		expect(findRow(matrix, ["0"])?.values).toEqual([1, 1]);
+		expect(findRow(matrix, ["2"])?.values).toEqual([3, 3]);
+	});
+});
+
+describe("compareDocumentsJson", () => {
+	it("should name documents after their labels", () => {
+		const result = compareDocumentsJson({
+			inputs: [
+				{ label: "dev", json: '{"a":1}' },
+				{ label: "prod", json: '{"a":2}' },
+			],
+			settings: DEFAULT_COMPARE_SETTINGS,
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(result.value.documentIds).toEqual(["dev", "prod"]);
+		}
+	});
+
+	it("should report which document failed to parse", () => {
+		const result = compareDocumentsJson({
+			inputs: [
+				{ label: "dev", json: "{}" },
+				{ label: "stg", json: "{}" },
+				{ label: "prod", json: "{" },
+			],
+			settings: DEFAULT_COMPARE_SETTINGS,
+		});
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error).toMatchObject({
+				type: "DOCUMENT_PARSE_ERROR",
+				index: 2,
+			});
+		}
+	});
+
+	it("should parse each document with its own syntax", () => {
+		const result = compareDocumentsJson({
+			inputs: [
+				{ label: "dev", json: '{"a": 1, "b": [1]}' },
+				{ label: "stg", json: "a: 1\nb:\n  - 2\n", dialect: "yaml" },
+				{ label: "prod", json: "{a: 1, b: [1,],}", dialect: "json5" },
+			],
+			settings: DEFAULT_COMPARE_SETTINGS,
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(findRow(result.value, ["b", "0"])?.values).toEqual([1, 2, 1]);
+			expect(findRow(result.value, ["a"])?.isDifferent).toBe(false);
+		}
+	});
+
+	it("should require at least two documents", () => {
+		const result = compareDocumentsJson({
+			inputs: [{ label: "dev", json: "{}" }],
+			settings: DEFAULT_COMPARE_SETTINGS,
+		});
+
+		expect(result.ok).toBe(false);
+	});
+});
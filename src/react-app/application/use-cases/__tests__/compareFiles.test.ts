@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { compareFiles } from "../compareFiles";
+import type { CompareProgress } from "../compareJson";
+import { DEFAULT_COMPARE_SETTINGS } from "../../../domain/types/diff";
+
+const ndjson = (...records: unknown[]) =>
+	new Blob(records.map((record) => `${JSON.stringify(record)}\n`));
+
+describe("compareFiles", () => {
+	it("should compare the records of two files", async () => {
+		const leftFile = ndjson({ id: 1, v: "a" }, { id: 2, v: "b" });
+		const rightFile = ndjson({ id: 1, v: "a" }, { id: 2, v: "c" });
+
+		const result = await compareFiles({
+			leftFile,
+			rightFile,
+			settings: DEFAULT_COMPARE_SETTINGS,
+			leftDialect: "ndjson",
+			rightDialect: "ndjson",
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(result.value.leftDocument.getSize()).toBe(leftFile.size);
+			expect(result.value.diffResult.getStats().modified).toBe(1);
+		}
+	});
+
+	it("should match records by key", async () => {
+		const result = await compareFiles({
+			leftFile: ndjson({ id: 1, v: "a" }, { id: 2, v: "b" }),
+			rightFile: ndjson({ id: 2, v: "b" }, { id: 1, v: "z" }),
+			settings: {
+				...DEFAULT_COMPARE_SETTINGS,
+				ignoreArrayOrder: true,
+				keyField: "id",
+			},
+			leftDialect: "ndjson",
+			rightDialect: "ndjson",
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			const modified = result.value.diffResult
+				.getEntries()
+				.filter((entry) => entry.type === "modified");
+			expect(modified.map((entry) => entry.path)).toEqual([["id=1", "v"]]);
+			expect(modified[0].leftPath).toEqual(["0", "v"]);
+			expect(modified[0].rightPath).toEqual(["1", "v"]);
+		}
+	});
+
+	it("should report the side and line of a parse error", async () => {
+		const result = await compareFiles({
+			leftFile: ndjson({ id: 1 }),
+			rightFile: new Blob(['{"id":1}\n{"id":2\n']),
+			settings: DEFAULT_COMPARE_SETTINGS,
+			leftDialect: "ndjson",
+			rightDialect: "ndjson",
+		});
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.type).toBe("RIGHT_PARSE_ERROR");
+			expect(result.error.error.getPosition()?.line).toBe(2);
+		}
+	});
+
+	it("should report parsing, comparing and done", async () => {
+		const stages: CompareProgress["stage"][] = [];
+
+		await compareFiles(
+			{
+				leftFile: ndjson(1),
+				rightFile: ndjson(2),
+				settings: DEFAULT_COMPARE_SETTINGS,
+				leftDialect: "ndjson",
+				rightDialect: "ndjson",
+			},
+			(progress) => stages.push(progress.stage),
+		);
+
+		expect(stages).toEqual(["parsing", "comparing", "done"]);
+	});
+
+	it("should stream JSON files and collapse unchanged subtrees", async () => {
+		const items = Array.from({ length: 1000 }, (_, id) => ({ id, tags: [id] }));
+		const result = await compareFiles({
+			leftFile: new Blob([JSON.stringify({ items, v: 1 })]),
+			rightFile: new Blob([JSON.stringify({ items, v: 2 })]),
+			settings: DEFAULT_COMPARE_SETTINGS,
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(
+				result.value.diffResult
+					.getEntries()
+					.map((entry) => [entry.type, entry.path.join(".")]),
+			).toEqual([
+				["unchanged", "items"],
+				["modified", "v"],
+			]);
+		}
+	});
+
+	it("should read files of other dialects as a whole", async () => {
+		const result = await compareFiles({
+			leftFile: new Blob(["a: 1\n"]),
+			rightFile: new Blob(['{"a": 2}']),
+			settings: DEFAULT_COMPARE_SETTINGS,
+			leftDialect: "yaml",
+		});
+
+		expect(result.ok && result.value.diffResult.getStats().modified).toBe(1);
+	});
+
+	it("should reject files above the maximum size", async () => {
+		const result = await compareFiles({
+			leftFile: new Blob(["[1]"]),
+			rightFile: new Blob(["[1, 2]"]),
+			settings: { ...DEFAULT_COMPARE_SETTINGS, maxFileSize: 4 },
+		});
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.type).toBe("RIGHT_PARSE_ERROR");
+			expect(result.error.error.getType()).toBe("too-large");
+		}
+	});
+});
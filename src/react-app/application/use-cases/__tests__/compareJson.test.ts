@@ -72,6 +72,83 @@ describe("compareJson", () => {
 		});
 	});
 
+	describe("input dialects", () => {
+		it("should parse each side with its own dialect", () => {
+			const result = compareJson({
+				leftJson: '{\n  // port\n  "port": 80,\n}',
+				rightJson: "{port: 0x51}",
+				settings: DEFAULT_COMPARE_SETTINGS,
+				leftDialect: "jsonc",
+				rightDialect: "json5",
+			});
+
+			expect(result.ok).toBe(true);
+			if (result.ok) {
+				expect(result.value.leftDocument.getData()).toEqual({ port: 80 });
+				expect(result.value.rightDocument.getData()).toEqual({ port: 81 });
+				expect(result.value.diffResult.getStats().modified).toBe(1);
+			}
+		});
+
+		it("should compare YAML with JSON", () => {
+			const result = compareJson({
+				leftJson: "spec:\n  replicas: 3\n  image: web:1\n",
+				rightJson: '{"spec": {"replicas": 3, "image": "web:2"}}',
+				settings: DEFAULT_COMPARE_SETTINGS,
+				leftDialect: "yaml",
+			});
+
+			expect(result.ok).toBe(true);
+			if (result.ok) {
+				expect(result.value.diffResult.getStats().modified).toBe(1);
+			}
+		});
+
+		it("should reject comments in strict JSON", () => {
+			const result = compareJson({
+				leftJson: '{"a": 1}',
+				rightJson: '{"a": 1} // note',
+				settings: DEFAULT_COMPARE_SETTINGS,
+				leftDialect: "jsonc",
+			});
+
+			expect(result.ok).toBe(false);
+			if (!result.ok) {
+				expect(result.error.type).toBe("RIGHT_PARSE_ERROR");
+			}
+		});
+	});
+
+	describe("lossless numbers", () => {
+		it("should only tell apart big integers in lossless mode", () => {
+			const input: CompareJsonInput = {
+				leftJson: '{"id": 9007199254740993}',
+				rightJson: '{"id": 9007199254740992}',
+				settings: DEFAULT_COMPARE_SETTINGS,
+			};
+
+			const rounded = compareJson(input);
+			const lossless = compareJson({
+				...input,
+				settings: {
+					...DEFAULT_COMPARE_SETTINGS,
+					losslessNumbers: true,
+					formatBeforeCompare: true,
+				},
+			});
+
+			expect(rounded.ok && rounded.value.diffResult.getStats().modified).toBe(
+				0,
+			);
+			expect(lossless.ok && lossless.value.diffResult.getStats().modified).toBe(
+				1,
+			);
+			expect(lossless.ok && lossless.value.leftDocument.toString()).toBe(
+				'{"id":9007199254740993}',
+			);
+		});
+	});
+
 	describe("format before compare", () => {
 		it("should format both JSONs before comparison when enabled", () => {
 			const input: CompareJsonInput = {
@@ -119,9 +196,29 @@ describe("compareJson", () => {
 				// Without sorting, order is preserved, but values are still the same
 				// The differ compares values, not structure, so no differences
 				expect(result.value.diffResult.getStats().modified).toBe(0);
+				expect(result.value.leftJson).toBeUndefined();
 			}
 		});
 
+		it("should return the inputs formatted when asked to", () => {
+			const result = compareJson({
+				leftJson: '{"a":1}',
+				rightJson: '{"a":',
+				settings: DEFAULT_COMPARE_SETTINGS,
+				formatInputs: true,
+			});
+			const valid = compareJson({
+				leftJson: '{"a":1}',
+				rightJson: "[ 1 ]",
+				settings: DEFAULT_COMPARE_SETTINGS,
+				formatInputs: true,
+			});
+
+			expect(result.ok).toBe(false);
+			expect(valid.ok && valid.value.leftJson).toBe('{\n  "a": 1\n}');
+			expect(valid.ok && valid.value.rightJson).toBe("[\n  1\n]");
+		});
+
 		it("should handle minified JSON with formatting", () => {
 			const input: CompareJsonInput = {
 				leftJson: '{"name":"Alice","scores":[95,87,92]}',
@@ -380,4 +477,36 @@ describe("compareJson", () => {
 			}
 		});
 	});
+
+	describe("progress", () => {
+		it("should report each stage in order", () => {
+			const stages: string[] = [];
+
+			compareJson(
+				{
+					leftJson: '{"a":1}',
+					rightJson: '{"a":2}',
+					settings: { ...DEFAULT_COMPARE_SETTINGS, formatBeforeCompare: true },
+				},
+				(progress) => stages.push(progress.stage),
+			);
+
+			expect(stages).toEqual(["formatting", "parsing", "comparing", "done"]);
+		});
+
+		it("should not report comparing when parsing fails", () => {
+			const stages: string[] = [];
+
+			compareJson(
+				{
+					leftJson: "{invalid}",
+					rightJson: '{"a":2}',
+					settings: DEFAULT_COMPARE_SETTINGS,
+				},
+				(progress) => stages.push(progress.stage),
+			);
+
+			expect(stages).toEqual(["parsing"]);
+		});
+	});
 });
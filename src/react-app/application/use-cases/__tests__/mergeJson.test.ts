@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { mergeJson, resolveMerge } from "../mergeJson";
+import { DEFAULT_COMPARE_SETTINGS } from "../../../domain/types/diff";
+
+describe("mergeJson", () => {
+	it("should return the merged document and the diff from the base", () => {
+		const result = mergeJson({
+			baseJson: '{"a":1,"b":1}',
+			oursJson: '{"a":2,"b":1}',
+			theirsJson: '{"a":1,"b":2}',
+			settings: DEFAULT_COMPARE_SETTINGS,
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(result.value.rightDocument.getData()).toEqual({ a: 2, b: 2 });
+			expect(result.value.mergeResult.conflicts).toEqual([]);
+			expect(result.value.diffResult.getStats().modified).toBe(2);
+		}
+	});
+
+	it("should report which input failed to parse", () => {
+		const result = mergeJson({
+			baseJson: "{}",
+			oursJson: "{}",
+			theirsJson: "{",
+			settings: DEFAULT_COMPARE_SETTINGS,
+		});
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.type).toBe("RIGHT_PARSE_ERROR");
+		}
+	});
+
+	it("should apply conflict resolutions to the merged document", () => {
+		const result = mergeJson({
+			baseJson: '{"a":1}',
+			oursJson: '{"a":2}',
+			theirsJson: '{"a":3}',
+			settings: DEFAULT_COMPARE_SETTINGS,
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(result.value.rightDocument.getData()).toEqual({ a: 2 });
+
+			const resolved = resolveMerge({
+				baseDocument: result.value.leftDocument,
+				mergeResult: result.value.mergeResult,
+				resolutions: [{ type: "theirs" }],
+				settings: DEFAULT_COMPARE_SETTINGS,
+			});
+			expect(resolved.rightDocument.getData()).toEqual({ a: 3 });
+		}
+	});
+});
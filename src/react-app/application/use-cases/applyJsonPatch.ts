@@ -0,0 +1,98 @@
+import type { Result } from "../../domain/types/result";
+import { ok, err } from "../../domain/types/result";
+import type { CompareSettings } from "../../domain/types/diff";
+import type { JsonDialect } from "../../domain/types/json";
+import type { JsonPatchError } from "../../domain/types/patch";
+import { JsonDocument } from "../../domain/entities/JsonDocument";
+import { DiffResult } from "../../domain/entities/DiffResult";
+import { computeDiffWithWarnings } from "../../domain/functions/differ";
+import { applyPatch, parsePatch } from "../../domain/functions/patch";
+import type { ValidationError } from "../../domain/value-objects/ValidationError";
+import type { CompareJsonOutput } from "./compareJson";
+import { getParseOptions } from "./compareJson";
+
+/**
+ * Input for applying a JSON Patch
+ */
+export interface ApplyJsonPatchInput {
+	readonly documentJson: string;
+	readonly patchJson: string;
+	readonly settings: CompareSettings;
+	/** Syntax of each input, strict JSON by default */
+	readonly documentDialect?: JsonDialect;
+	readonly patchDialect?: JsonDialect;
+}
+
+/**
+ * Error types for applying a JSON Patch
+ */
+export type ApplyJsonPatchError =
+	| { type: "LEFT_PARSE_ERROR"; error: ValidationError }
+	| { type: "RIGHT_PARSE_ERROR"; error: ValidationError }
+	| { type: "PATCH_ERROR"; error: JsonPatchError };
+
+/**
+ * Use case for applying a JSON Patch (RFC 6902) to a document
+ *
+ * The patched document becomes the right document, so the output can be
+ * shown like any comparison: the diff lists what the patch changed.
+ */
+export const applyJsonPatch = (
+	input: ApplyJsonPatchInput,
+): Result<CompareJsonOutput, ApplyJsonPatchError> => {
+	// 1. Parse document
+	const leftResult = JsonDocument.fromString(
+		input.documentJson,
+		"left",
+		input.documentDialect,
+		getParseOptions(input.settings),
+	);
+	if (!leftResult.ok) {
+		return err({ type: "LEFT_PARSE_ERROR", error: leftResult.error });
+	}
+
+	// 2. Parse and validate patch
+	const patchResult = JsonDocument.fromString(
+		input.patchJson,
+		"patch",
+		input.patchDialect,
+		getParseOptions(input.settings),
+	);
+	if (!patchResult.ok) {
+		return err({ type: "RIGHT_PARSE_ERROR", error: patchResult.error });
+	}
+	const patch = parsePatch(patchResult.value.getData());
+	if (!patch.ok) {
+		return err({ type: "PATCH_ERROR", error: patch.error });
+	}
+
+	// 3. Apply patch
+	const leftDocument = leftResult.value;
+	const patched = applyPatch(leftDocument.getData(), patch.value);
+	if (!patched.ok) {
+		return err({ type: "PATCH_ERROR", error: patched.error });
+	}
+	const rightDocument = JsonDocument.fromValue(patched.value, "right");
+
+	// 4. Diff the original against the patched document
+	const { entries, warnings } = computeDiffWithWarnings(
+		leftDocument.getData(),
+		rightDocument.getData(),
+		input.settings,
+	);
+
+	const diffResult = DiffResult.fromEntries(
+		entries,
+		leftDocument.getId(),
+		rightDocument.getId(),
+		input.settings,
+		undefined,
+		warnings,
+	);
+
+	return ok({
+		leftDocument,
+		rightDocument,
+		diffResult,
+	});
+};
@@ -0,0 +1,372 @@
+import type { Result } from "../../domain/types/result";
+import { ok, err } from "../../domain/types/result";
+import type { CompareSettings, DiffEntry } from "../../domain/types/diff";
+import type { JsonDialect, JsonValue } from "../../domain/types/json";
+import { isJsonArray, isJsonObject } from "../../domain/types/json";
+import { JsonDocument } from "../../domain/entities/JsonDocument";
+import { computeDiff } from "../../domain/functions/differ";
+import type { ValidationError } from "../../domain/value-objects/ValidationError";
+import { getParseOptions } from "./compareJson";
+
+/**
+ * Input for comparing several documents
+ */
+export interface CompareDocumentsInput {
+	/** Documents to compare; the first one is the reference */
+	readonly documents: readonly JsonDocument[];
+	readonly settings: CompareSettings;
+}
+
+/**
+ * Document text to compare, with the name shown for it
+ */
+export interface DocumentInput {
+	readonly label: string;
+	readonly json: string;
+	/** Syntax of the text, strict JSON by default */
+	readonly dialect?: JsonDialect;
+}
+
+/**
+ * Input for comparing several documents from their text
+ */
+export interface CompareDocumentsJsonInput {
+	readonly inputs: readonly DocumentInput[];
+	readonly settings: CompareSettings;
+}
+
+/**
+ * Error types for comparing several documents
+ */
+export type CompareDocumentsError =
+	| { type: "DOCUMENT_PARSE_ERROR"; index: number; error: ValidationError }
+	| { type: "COMPARE_ERROR"; message: string };
+
+/**
+ * Location compared across documents
+ */
+export interface ComparisonRow {
+	/** Human-readable path, as in `DiffEntry.path` */
+	readonly path: readonly string[];
+	/** Whether the location is missing from the reference document */
+	readonly isAdded: boolean;
+	/** Value in each document, undefined where the location is absent */
+	readonly values: readonly (JsonValue | undefined)[];
+	readonly isDifferent: boolean;
+}
+
+/**
+ * Matrix of locations × documents
+ */
+export interface ComparisonMatrix {
+	readonly documentIds: readonly string[];
+	readonly rows: readonly ComparisonRow[];
+}
+
+/**
+ * Locations one diff against the reference reveals, by serialized path
+ */
+interface DiffIndex {
+	/** Entries by readable path and whether they are additions */
+	readonly entries: Map<string, DiffEntry>;
+	/** Real locations in the reference document */
+	readonly leftPaths: Map<string, readonly string[]>;
+	/** Real locations in the compared document */
+	readonly rightPaths: Map<string, readonly string[]>;
+}
+
+/**
+ * Use case for comparing several documents at once
+ *
+ * Every document is diffed against the first one with `computeDiff`, so rows
+ * follow the structure of the reference document and array items line up the
+ * way the settings match them. Items added in other documents get rows of
+ * their own. Moves are not reported: only values are compared.
+ */
+export const compareDocuments = (
+	input: CompareDocumentsInput,
+): ComparisonMatrix => {
+	const [reference, ...others] = input.documents;
+	if (!reference) {
+		return { documentIds: [], rows: [] };
+	}
+
+	const indexes = others.map((document) =>
+		indexDiff(
+			computeDiff(reference.getData(), document.getData(), input.settings),
+		),
+	);
+
+	// Rows in order of first appearance
+	const rows = new Map<string, { path: readonly string[]; isAdded: boolean }>();
+	for (const index of indexes) {
+		for (const [key, entry] of index.entries) {
+			if (!rows.has(key)) {
+				rows.set(key, {
+					path: getRowPath(entry),
+					isAdded: entry.type === "added",
+				});
+			}
+		}
+	}
+
+	const matrixRows: ComparisonRow[] = [];
+	const replacedRows = new Set<ComparisonRow>();
+	// Rows with rows below them, keyed like the rows of the matrix
+	const parentKeys = new Set<string>();
+	for (const { path, isAdded } of rows.values()) {
+		const values = [
+			isAdded
+				? undefined
+				: getReferenceValue(reference.getData(), indexes, path),
+			...others.map((document, i) =>
+				getDocumentValue(document.getData(), indexes[i], path, isAdded),
+			),
+		];
+		const row: ComparisonRow = {
+			path,
+			isAdded,
+			values,
+			isDifferent: isAdded || indexes.some((index) => isChanged(index, path)),
+		};
+		matrixRows.push(row);
+		for (let length = 0; length < path.length; length++) {
+			parentKeys.add(rowKey(path.slice(0, length), false));
+			if (isAdded) {
+				parentKeys.add(rowKey(path.slice(0, length), true));
+			}
+		}
+		if (
+			indexes.some(
+				(index) =>
+					index.entries.get(rowKey(path, isAdded))?.type === "modified",
+			)
+		) {
+			replacedRows.add(row);
+		}
+	}
+
+	// Containers are shown through their content unless a document replaced them
+	return {
+		documentIds: input.documents.map((document) => document.getId()),
+		rows: matrixRows.filter(
+			(row) => replacedRows.has(row) || !isBrokenDown(row, parentKeys),
+		),
+	};
+};
+
+/**
+ * Use case for comparing several documents given as text
+ *
+ * Documents are identified by their labels.
+ */
+export const compareDocumentsJson = (
+	input: CompareDocumentsJsonInput,
+): Result<ComparisonMatrix, CompareDocumentsError> => {
+	if (input.inputs.length < 2) {
+		return err({
+			type: "COMPARE_ERROR",
+			message: "At least two documents are required",
+		});
+	}
+
+	const documents: JsonDocument[] = [];
+	for (const [index, { label, json, dialect }] of input.inputs.entries()) {
+		const result = JsonDocument.fromString(
+			json,
+			label,
+			dialect,
+			getParseOptions(input.settings),
+		);
+		if (!result.ok) {
+			return err({ type: "DOCUMENT_PARSE_ERROR", index, error: result.error });
+		}
+		documents.push(result.value);
+	}
+
+	return ok(compareDocuments({ documents, settings: input.settings }));
+};
+
+/**
+ * Returns the row an entry belongs to
+ *
+ * Moved values are compared where they were in the reference document.
+ */
+const getRowPath = (entry: DiffEntry): readonly string[] =>
+	entry.type === "moved" ? (entry.fromPath ?? entry.path) : entry.path;
+
+/**
+ * Serializes a row path; additions never share rows with reference locations
+ */
+const rowKey = (path: readonly string[], isAdded: boolean): string =>
+	`${isAdded ? "+" : ""}${JSON.stringify(path)}`;
+
+/**
+ * Indexes the entries of a diff against the reference document
+ */
+const indexDiff = (entries: readonly DiffEntry[]): DiffIndex => {
+	const index: DiffIndex = {
+		entries: new Map(),
+		leftPaths: new Map(),
+		rightPaths: new Map(),
+	};
+
+	for (const entry of entries) {
+		const path = getRowPath(entry);
+		const isAdded = entry.type === "added";
+		const key = rowKey(path, isAdded);
+		// Keyed moves come with entries for the content of the moved item
+		if (!index.entries.has(key) || entry.type !== "moved") {
+			index.entries.set(key, entry);
+		}
+
+		const addPrefixes = (
+			paths: Map<string, readonly string[]>,
+			realPath: readonly string[] | undefined,
+			depth: number,
+			overwrite = true,
+		) => {
+			if (!realPath || realPath.length !== path.length) {
+				return;
+			}
+			for (let length = 0; length <= depth; length++) {
+				const prefixKey = rowKey(path.slice(0, length), false);
+				if (overwrite || !paths.has(prefixKey)) {
+					paths.set(prefixKey, realPath.slice(0, length));
+				}
+			}
+		};
+		// Added locations only exist below their parent in the reference
+		const depth = isAdded ? path.length - 1 : path.length;
+		addPrefixes(index.leftPaths, entry.leftPath, depth);
+		if (entry.type === "removed") {
+			// The parent of a removed value is still there, and entries with a
+			// location in the compared document take precedence
+			addPrefixes(index.rightPaths, entry.leftPath, path.length - 1, false);
+		} else {
+			addPrefixes(index.rightPaths, entry.rightPath, depth);
+		}
+	}
+
+	return index;
+};
+
+/**
+ * Returns the value at a real location of a document
+ */
+const getValueAt = (
+	data: JsonValue,
+	path: readonly string[],
+): JsonValue | undefined => {
+	let current: JsonValue | undefined = data;
+	for (const segment of path) {
+		if (current !== undefined && isJsonArray(current)) {
+			current = /^(0|[1-9]\d*)$/.test(segment)
+				? current[Number(segment)]
+				: undefined;
+		} else if (current !== undefined && isJsonObject(current)) {
+			current = Object.prototype.hasOwnProperty.call(current, segment)
+				? current[segment]
+				: undefined;
+		} else {
+			return undefined;
+		}
+	}
+	return current;
+};
+
+/**
+ * Resolves the real location of a row in one document
+ *
+ * Rows below the entries of a diff are found inside the value of the nearest
+ * entry above them.
+ */
+const resolvePath = (
+	index: DiffIndex,
+	realPaths: Map<string, readonly string[]>,
+	path: readonly string[],
+): readonly string[] | undefined => {
+	const exact = realPaths.get(rowKey(path, false));
+	if (exact) {
+		return exact;
+	}
+	for (let length = path.length - 1; length >= 0; length--) {
+		const prefix = path.slice(0, length);
+		const realPrefix = realPaths.get(rowKey(prefix, false));
+		if (realPrefix && index.entries.has(rowKey(prefix, false))) {
+			return [...realPrefix, ...path.slice(length)];
+		}
+	}
+	return undefined;
+};
+
+/**
+ * Returns the value of a row in the reference document
+ */
+const getReferenceValue = (
+	data: JsonValue,
+	indexes: readonly DiffIndex[],
+	path: readonly string[],
+): JsonValue | undefined => {
+	for (const index of indexes) {
+		const realPath = resolvePath(index, index.leftPaths, path);
+		if (realPath) {
+			return getValueAt(data, realPath);
+		}
+	}
+	return undefined;
+};
+
+/**
+ * Returns the value of a row in a compared document
+ */
+const getDocumentValue = (
+	data: JsonValue,
+	index: DiffIndex,
+	path: readonly string[],
+	isAdded: boolean,
+): JsonValue | undefined => {
+	if (isAdded) {
+		return index.entries.get(rowKey(path, true))?.rightValue;
+	}
+	for (let length = 0; length <= path.length; length++) {
+		const entry = index.entries.get(rowKey(path.slice(0, length), false));
+		if (entry?.type === "removed") {
+			return undefined;
+		}
+	}
+	const realPath = resolvePath(index, index.rightPaths, path);
+	return realPath ? getValueAt(data, realPath) : undefined;
+};
+
+/**
+ * Checks if a diff changed a row or a location containing it
+ */
+const isChanged = (index: DiffIndex, path: readonly string[]): boolean => {
+	for (let length = 0; length <= path.length; length++) {
+		const entry = index.entries.get(rowKey(path.slice(0, length), false));
+		if (
+			entry &&
+			(entry.type === "removed" ||
+				entry.type === "modified" ||
+				(entry.type === "added" && length < path.length))
+		) {
+			return true;
+		}
+	}
+	return false;
+};
+
+/**
+ * Checks if a row only holds containers whose content has rows of its own
+ *
+ * @param parentKeys - Keys of the rows other rows lie below; content added to
+ * the reference only breaks down rows that are additions themselves
+ */
+const isBrokenDown = (
+	row: ComparisonRow,
+	parentKeys: ReadonlySet<string>,
+): boolean =>
+	row.values.every(
+		(value) => value === undefined || isJsonObject(value) || isJsonArray(value),
+	) && parentKeys.has(rowKey(row.path, row.isAdded));
@@ -0,0 +1,165 @@
+import type { Result } from "../../domain/types/result";
+import { ok, err } from "../../domain/types/result";
+import type { CompareSettings } from "../../domain/types/diff";
+import type {
+	JsonDialect,
+	JsonValue,
+	ParseOptions,
+} from "../../domain/types/json";
+import { JsonDocument } from "../../domain/entities/JsonDocument";
+import { DiffResult } from "../../domain/entities/DiffResult";
+import { computeDiffWithWarnings } from "../../domain/functions/differ";
+import { createNdjsonParser } from "../../domain/functions/ndjson";
+import { createJsonStreamParser } from "../../domain/functions/jsonStream";
+import { parseJsonText } from "../../domain/functions/parser";
+import { ValidationError } from "../../domain/value-objects/ValidationError";
+import type {
+	CompareJsonError,
+	CompareJsonOutput,
+	CompareProgress,
+} from "./compareJson";
+import { createProgressReporter, getParseOptions } from "./compareJson";
+
+/**
+ * Input for comparing two files
+ */
+export interface CompareFilesInput {
+	readonly leftFile: Blob;
+	readonly rightFile: Blob;
+	readonly settings: CompareSettings;
+	/** Syntax of each file, strict JSON by default */
+	readonly leftDialect?: JsonDialect;
+	readonly rightDialect?: JsonDialect;
+}
+
+/**
+ * Parser fed with a file chunk by chunk
+ */
+interface ChunkParser {
+	push(chunk: string): Result<void, ValidationError>;
+	end(): Result<JsonValue, ValidationError>;
+}
+
+/**
+ * Reads a file of a dialect into a document
+ *
+ * JSON and NDJSON files are parsed chunk by chunk and never held in memory
+ * as one string; files of other dialects are read as a whole. Files larger
+ * than `settings.maxFileSize` are rejected before they are read.
+ */
+const readFile = async (
+	file: Blob,
+	id: string,
+	dialect: JsonDialect,
+	settings: CompareSettings,
+): Promise<Result<JsonDocument, ValidationError>> => {
+	if (file.size > settings.maxFileSize) {
+		return err(ValidationError.tooLarge(settings.maxFileSize, file.size));
+	}
+
+	const warnings: ValidationError[] = [];
+	const options: ParseOptions = {
+		...getParseOptions(settings),
+		maxSize: settings.maxFileSize,
+		onWarning: (warning) => warnings.push(warning),
+	};
+	const toDocument = (value: JsonValue) =>
+		JsonDocument.fromValue(value, id, file.size, warnings);
+
+	let parser: ChunkParser;
+	if (dialect === "json") {
+		parser = createJsonStreamParser(options);
+	} else if (dialect === "ndjson") {
+		parser = createNdjsonParser(options);
+	} else {
+		const result = parseJsonText(await file.text(), dialect, options);
+		return result.ok ? ok(toDocument(result.value)) : result;
+	}
+
+	const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) {
+			const result = parser.end();
+			return result.ok ? ok(toDocument(result.value)) : result;
+		}
+		const result = parser.push(value);
+		if (!result.ok) {
+			await reader.cancel();
+			return result;
+		}
+	}
+};
+
+/**
+ * Use case for comparing two files
+ *
+ * Meant for documents too large to paste: JSON and NDJSON files are
+ * streamed, and unchanged objects and arrays are always collapsed into one
+ * entry (see `CompareSettings.collapseUnchanged`). An NDJSON file becomes an
+ * array with one item per line, so `keyField` with `ignoreArrayOrder`
+ * matches records by key.
+ *
+ * @param onProgress - Called when the comparison enters a new stage
+ */
+export const compareFiles = async (
+	input: CompareFilesInput,
+	onProgress?: (progress: CompareProgress) => void,
+): Promise<Result<CompareJsonOutput, CompareJsonError>> => {
+	const report = createProgressReporter(onProgress);
+	const settings: CompareSettings = {
+		...input.settings,
+		collapseUnchanged: true,
+	};
+
+	// 1. Read both files
+	report("parsing");
+	const leftResult = await readFile(
+		input.leftFile,
+		"left",
+		input.leftDialect ?? "json",
+		settings,
+	);
+	if (!leftResult.ok) {
+		return err({ type: "LEFT_PARSE_ERROR", error: leftResult.error });
+	}
+
+	const rightResult = await readFile(
+		input.rightFile,
+		"right",
+		input.rightDialect ?? "json",
+		settings,
+	);
+	if (!rightResult.ok) {
+		return err({ type: "RIGHT_PARSE_ERROR", error: rightResult.error });
+	}
+
+	const leftDocument = leftResult.value;
+	const rightDocument = rightResult.value;
+
+	// 2. Compute diff
+	report("comparing");
+	const { entries, warnings } = computeDiffWithWarnings(
+		leftDocument.getData(),
+		rightDocument.getData(),
+		settings,
+	);
+
+	// 3. Create diff result
+	const diffResult = DiffResult.fromEntries(
+		entries,
+		leftDocument.getId(),
+		rightDocument.getId(),
+		settings,
+		undefined,
+		warnings,
+	);
+
+	report("done");
+
+	return ok({
+		leftDocument,
+		rightDocument,
+		diffResult,
+	});
+};
@@ -1,9 +1,10 @@
 import type { Result } from "../../domain/types/result";
 import { ok, err } from "../../domain/types/result";
 import type { CompareSettings } from "../../domain/types/diff";
+import type { JsonDialect, ParseOptions } from "../../domain/types/json";
 import { JsonDocument } from "../../domain/entities/JsonDocument";
 import { DiffResult } from "../../domain/entities/DiffResult";
-import { computeDiff } from "../../domain/functions/differ";
+import { computeDiffWithWarnings } from "../../domain/functions/differ";
 import { formatJson } from "../../domain/functions/formatter";
 import type { ValidationError } from "../../domain/value-objects/ValidationError";
 
@@ -14,6 +15,14 @@ export interface CompareJsonInput {
 	readonly leftJson: string;
 	readonly rightJson: string;
 	readonly settings: CompareSettings;
+	/** Syntax of each input, strict JSON by default */
+	readonly leftDialect?: JsonDialect;
+	readonly rightDialect?: JsonDialect;
+	/**
+	 * Formats the inputs before parsing them also when
+	 * `settings.formatBeforeCompare` is off, e.g. to show them formatted
+	 */
+	readonly formatInputs?: boolean;
 }
 
 /**
@@ -23,6 +32,9 @@ export interface CompareJsonOutput {
 	readonly leftDocument: JsonDocument;
 	readonly rightDocument: JsonDocument;
 	readonly diffResult: DiffResult;
+	/** Inputs as formatted before parsing, where formatting succeeded */
+	readonly leftJson?: string;
+	readonly rightJson?: string;
 }
 
 /**
@@ -32,43 +44,109 @@ export type CompareJsonError =
 	| { type: "LEFT_PARSE_ERROR"; error: ValidationError }
 	| { type: "RIGHT_PARSE_ERROR"; error: ValidationError };
 
+/**
+ * Stage of a running comparison
+ */
+export type CompareStage = "formatting" | "parsing" | "comparing" | "done";
+
+/**
+ * Progress of a running comparison
+ */
+export interface CompareProgress {
+	readonly stage: CompareStage;
+	/** Number of completed stages */
+	readonly completed: number;
+	readonly total: number;
+}
+
+const COMPARE_STAGES: readonly CompareStage[] = [
+	"formatting",
+	"parsing",
+	"comparing",
+	"done",
+];
+
+/**
+ * Creates a function reporting the stage a comparison enters
+ */
+export const createProgressReporter =
+	(onProgress?: (progress: CompareProgress) => void) => (stage: CompareStage) =>
+		onProgress?.({
+			stage,
+			completed: COMPARE_STAGES.indexOf(stage),
+			total: COMPARE_STAGES.length - 1,
+		});
+
+/**
+ * Returns the options for parsing the inputs of a comparison
+ */
+export const getParseOptions = (settings: CompareSettings): ParseOptions => ({
+	losslessNumbers: settings.losslessNumbers,
+	strict: settings.rejectDuplicateKeys,
+	maxSize: settings.maxInputSize,
+});
+
 /**
  * Use case for comparing two JSON documents
+ *
+ * @param onProgress - Called when the comparison enters a new stage
  */
 export const compareJson = (
 	input: CompareJsonInput,
+	onProgress?: (progress: CompareProgress) => void,
 ): Result<CompareJsonOutput, CompareJsonError> => {
+	const report = createProgressReporter(onProgress);
+
 	// 1. Format JSONs if requested
 	let leftJson = input.leftJson;
 	let rightJson = input.rightJson;
+	let formatted: Pick<CompareJsonOutput, "leftJson" | "rightJson"> = {};
 
-	if (input.settings.formatBeforeCompare) {
+	if (input.settings.formatBeforeCompare || input.formatInputs) {
+		report("formatting");
 		const leftFormatResult = formatJson(
 			leftJson,
 			input.settings.formatSettings,
+			input.leftDialect,
+			{ losslessNumbers: input.settings.losslessNumbers },
 		);
 		if (leftFormatResult.ok) {
 			leftJson = leftFormatResult.value;
+			formatted = { ...formatted, leftJson };
 		}
 		// If format fails, use original string (will be caught during parse)
 
 		const rightFormatResult = formatJson(
 			rightJson,
 			input.settings.formatSettings,
+			input.rightDialect,
+			{ losslessNumbers: input.settings.losslessNumbers },
 		);
 		if (rightFormatResult.ok) {
 			rightJson = rightFormatResult.value;
+			formatted = { ...formatted, rightJson };
 		}
 	}
 
 	// 2. Parse left JSON
-	const leftResult = JsonDocument.fromString(leftJson, "left");
+	report("parsing");
+	const leftResult = JsonDocument.fromString(
+		leftJson,
+		"left",
+		input.leftDialect,
+		getParseOptions(input.settings),
+	);
 	if (!leftResult.ok) {
 		return err({ type: "LEFT_PARSE_ERROR", error: leftResult.error });
 	}
 
 	// 3. Parse right JSON
-	const rightResult = JsonDocument.fromString(rightJson, "right");
+	const rightResult = JsonDocument.fromString(
+		rightJson,
+		"right",
+		input.rightDialect,
+		getParseOptions(input.settings),
+	);
 	if (!rightResult.ok) {
 		return err({ type: "RIGHT_PARSE_ERROR", error: rightResult.error });
 	}
@@ -77,7 +155,8 @@ export const compareJson = (
 	const rightDocument = rightResult.value;
 
 	// 4. Compute diff
-	const entries = computeDiff(
+	report("comparing");
+	const { entries, warnings } = computeDiffWithWarnings(
 		leftDocument.getData(),
 		rightDocument.getData(),
 		input.settings,
@@ -89,11 +168,16 @@ export const compareJson = (
 		leftDocument.getId(),
 		rightDocument.getId(),
 		input.settings,
+		undefined,
+		warnings,
 	);
 
+	report("done");
+
 	return ok({
 		leftDocument,
 		rightDocument,
 		diffResult,
+		...formatted,
 	});
 };
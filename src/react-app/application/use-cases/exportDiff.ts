@@ -1,10 +1,19 @@
 import type { Result } from "../../domain/types/result";
 import { err } from "../../domain/types/result";
-import type { ExportFormat } from "../../domain/types/diff";
+import type { ExportFormat, ExportOptions } from "../../domain/types/diff";
 import type { DiffResult } from "../../domain/entities/DiffResult";
+import type { JsonDocument } from "../../domain/entities/JsonDocument";
 import { formatDiff } from "../../domain/functions/formatter";
 import type { ExportPort, ExportError } from "../ports/ExportPort";
 
+/**
+ * Compared documents whose lines are shown next to the paths of an export
+ */
+export interface ExportLineNumbers {
+	readonly leftDocument: JsonDocument;
+	readonly rightDocument: JsonDocument;
+}
+
 /**
  * Input for exporting diff
  */
@@ -12,8 +21,23 @@ export interface ExportDiffInput {
 	readonly diffResult: DiffResult;
 	readonly format: ExportFormat;
 	readonly filename?: string;
+	readonly lineNumbers?: ExportLineNumbers;
 }
 
+/**
+ * Returns the export options locating values in the compared documents
+ */
+const getExportOptions = (lineNumbers?: ExportLineNumbers): ExportOptions =>
+	lineNumbers
+		? {
+				locate: (side, path) =>
+					(side === "left"
+						? lineNumbers.leftDocument
+						: lineNumbers.rightDocument
+					).getLocation(path),
+			}
+		: {};
+
 /**
  * Use case for exporting diff results
  */
@@ -21,7 +45,11 @@ export const createExportDiffUseCase = (exportPort: ExportPort) => {
 	return async (input: ExportDiffInput): Promise<Result<void, ExportError>> => {
 		try {
 			// Format the diff
-			const formatted = formatDiff(input.diffResult.toObject(), input.format);
+			const formatted = formatDiff(
+				input.diffResult.toObject(),
+				input.format,
+				getExportOptions(input.lineNumbers),
+			);
 
 			// Determine filename
 			const filename =
@@ -47,9 +75,14 @@ export const createCopyDiffUseCase = (exportPort: ExportPort) => {
 	return async (
 		diffResult: DiffResult,
 		format: ExportFormat,
+		lineNumbers?: ExportLineNumbers,
 	): Promise<Result<void, ExportError>> => {
 		try {
-			const formatted = formatDiff(diffResult.toObject(), format);
+			const formatted = formatDiff(
+				diffResult.toObject(),
+				format,
+				getExportOptions(lineNumbers),
+			);
 			return await exportPort.copyToClipboard(formatted);
 		} catch (e) {
 			const message = e instanceof Error ? e.message : "Unknown error";
@@ -70,7 +103,11 @@ const getFileExtension = (format: ExportFormat): string => {
 		case "html":
 			return "html";
 		case "json-patch":
+		case "merge-patch":
+		case "canonical-json":
 			return "json";
+		case "yaml":
+			return "yaml";
 		default:
 			return "txt";
 	}
@@ -82,6 +119,7 @@ const getFileExtension = (format: ExportFormat): string => {
 const getMimeType = (format: ExportFormat): string => {
 	switch (format) {
 		case "json":
+		case "canonical-json":
 			return "application/json";
 		case "markdown":
 			return "text/markdown";
@@ -89,6 +127,10 @@ const getMimeType = (format: ExportFormat): string => {
 			return "text/html";
 		case "json-patch":
 			return "application/json-patch+json";
+		case "merge-patch":
+			return "application/merge-patch+json";
+		case "yaml":
+			return "application/yaml";
 		default:
 			return "text/plain";
 	}
@@ -0,0 +1,87 @@
+import type { Result } from "../../domain/types/result";
+import { err, unwrap } from "../../domain/types/result";
+import type { ExportFormat } from "../../domain/types/diff";
+import type { JsonDocument } from "../../domain/entities/JsonDocument";
+import { stringifyYaml } from "../../domain/functions/yaml";
+import { canonicalizeJson } from "../../domain/functions/canonical";
+import type { ExportPort, ExportError } from "../ports/ExportPort";
+
+/**
+ * Format a document can be exported in
+ */
+export type DocumentExportFormat = Extract<
+	ExportFormat,
+	"json" | "yaml" | "canonical-json"
+>;
+
+/**
+ * Input for exporting a document
+ */
+export interface ExportDocumentInput {
+	readonly document: JsonDocument;
+	readonly filename?: string;
+	/** JSON by default */
+	readonly format?: DocumentExportFormat;
+}
+
+/**
+ * Use case for downloading a document as a JSON, YAML or canonical JSON file
+ */
+export const createExportDocumentUseCase = (exportPort: ExportPort) => {
+	return async (
+		input: ExportDocumentInput,
+	): Promise<Result<void, ExportError>> => {
+		try {
+			const format = input.format ?? "json";
+			const extension = format === "yaml" ? "yaml" : "json";
+			const filename =
+				input.filename ??
+				`${input.document.getId()}-${Date.now()}.${extension}`;
+
+			return await exportPort.downloadAsFile(
+				formatDocument(input.document, format),
+				filename,
+				format === "yaml" ? "application/yaml" : "application/json",
+			);
+		} catch (e) {
+			const message = e instanceof Error ? e.message : "Unknown error";
+			return err({ type: "unknown", message });
+		}
+	};
+};
+
+/**
+ * Use case for copying a document to clipboard
+ */
+export const createCopyDocumentUseCase = (exportPort: ExportPort) => {
+	return async (
+		document: JsonDocument,
+		format: DocumentExportFormat = "json",
+	): Promise<Result<void, ExportError>> => {
+		try {
+			return await exportPort.copyToClipboard(formatDocument(document, format));
+		} catch (e) {
+			const message = e instanceof Error ? e.message : "Unknown error";
+			return err({ type: "unknown", message });
+		}
+	};
+};
+
+/**
+ * Formats a document for export
+ *
+ * @throws {Error} If canonical JSON cannot hold a number
+ */
+const formatDocument = (
+	document: JsonDocument,
+	format: DocumentExportFormat,
+): string => {
+	switch (format) {
+		case "yaml":
+			return stringifyYaml(document.getData());
+		case "canonical-json":
+			return unwrap(canonicalizeJson(document.getData()));
+		case "json":
+			return document.toString(true);
+	}
+};
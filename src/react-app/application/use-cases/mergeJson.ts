@@ -0,0 +1,143 @@
+import type { Result } from "../../domain/types/result";
+import { ok, err } from "../../domain/types/result";
+import type { CompareSettings } from "../../domain/types/diff";
+import type { JsonDialect } from "../../domain/types/json";
+import type { ConflictResolution, MergeResult } from "../../domain/types/merge";
+import { JsonDocument } from "../../domain/entities/JsonDocument";
+import { DiffResult } from "../../domain/entities/DiffResult";
+import { computeDiffWithWarnings } from "../../domain/functions/differ";
+import { resolveConflicts, threeWayMerge } from "../../domain/functions/merge";
+import type { ValidationError } from "../../domain/value-objects/ValidationError";
+import type { CompareJsonOutput } from "./compareJson";
+import { getParseOptions } from "./compareJson";
+
+/**
+ * Input for a three-way merge
+ */
+export interface MergeJsonInput {
+	readonly baseJson: string;
+	readonly oursJson: string;
+	readonly theirsJson: string;
+	readonly settings: CompareSettings;
+	/** Syntax of each input, strict JSON by default */
+	readonly baseDialect?: JsonDialect;
+	readonly oursDialect?: JsonDialect;
+	readonly theirsDialect?: JsonDialect;
+}
+
+/**
+ * Output of a three-way merge
+ */
+export interface MergeJsonOutput extends CompareJsonOutput {
+	readonly mergeResult: MergeResult;
+}
+
+/**
+ * Error types for a three-way merge
+ *
+ * "Ours" is the left input and "theirs" the right input.
+ */
+export type MergeJsonError =
+	| { type: "BASE_PARSE_ERROR"; error: ValidationError }
+	| { type: "LEFT_PARSE_ERROR"; error: ValidationError }
+	| { type: "RIGHT_PARSE_ERROR"; error: ValidationError };
+
+/**
+ * Input for resolving the conflicts of a three-way merge
+ */
+export interface ResolveMergeInput {
+	readonly baseDocument: JsonDocument;
+	readonly mergeResult: MergeResult;
+	readonly resolutions: readonly (ConflictResolution | null)[];
+	readonly settings: CompareSettings;
+}
+
+/**
+ * Use case for merging two edits of a base document
+ *
+ * The base becomes the left document and the merged document the right one,
+ * so the diff lists what the merge changed.
+ */
+export const mergeJson = (
+	input: MergeJsonInput,
+): Result<MergeJsonOutput, MergeJsonError> => {
+	// 1. Parse documents
+	const baseResult = JsonDocument.fromString(
+		input.baseJson,
+		"base",
+		input.baseDialect,
+		getParseOptions(input.settings),
+	);
+	if (!baseResult.ok) {
+		return err({ type: "BASE_PARSE_ERROR", error: baseResult.error });
+	}
+	const oursResult = JsonDocument.fromString(
+		input.oursJson,
+		"ours",
+		input.oursDialect,
+		getParseOptions(input.settings),
+	);
+	if (!oursResult.ok) {
+		return err({ type: "LEFT_PARSE_ERROR", error: oursResult.error });
+	}
+	const theirsResult = JsonDocument.fromString(
+		input.theirsJson,
+		"theirs",
+		input.theirsDialect,
+		getParseOptions(input.settings),
+	);
+	if (!theirsResult.ok) {
+		return err({ type: "RIGHT_PARSE_ERROR", error: theirsResult.error });
+	}
+
+	// 2. Merge
+	const mergeResult = threeWayMerge(
+		baseResult.value.getData(),
+		oursResult.value.getData(),
+		theirsResult.value.getData(),
+		input.settings,
+	);
+
+	// 3. Diff the base against the merged document
+	return ok({
+		...resolveMerge({
+			baseDocument: baseResult.value,
+			mergeResult,
+			resolutions: [],
+			settings: input.settings,
+		}),
+		mergeResult,
+	});
+};
+
+/**
+ * Use case for applying conflict resolutions to a three-way merge
+ */
+export const resolveMerge = (input: ResolveMergeInput): CompareJsonOutput => {
+	const leftDocument = input.baseDocument;
+	const rightDocument = JsonDocument.fromValue(
+		resolveConflicts(input.mergeResult, input.resolutions),
+		"merged",
+	);
+
+	const { entries, warnings } = computeDiffWithWarnings(
+		leftDocument.getData(),
+		rightDocument.getData(),
+		input.settings,
+	);
+
+	const diffResult = DiffResult.fromEntries(
+		entries,
+		leftDocument.getId(),
+		rightDocument.getId(),
+		input.settings,
+		undefined,
+		warnings,
+	);
+
+	return {
+		leftDocument,
+		rightDocument,
+		diffResult,
+	};
+};
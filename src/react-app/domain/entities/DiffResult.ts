@@ -1,5 +1,6 @@
 import type {
 	DiffEntry,
+	DiffWarning,
 	DiffStats,
 	DiffMetadata,
 	DiffResult as DiffResultType,
@@ -15,6 +16,7 @@ export class DiffResult {
 		private readonly entries: readonly DiffEntry[],
 		private readonly stats: DiffStats,
 		private readonly metadata: DiffMetadata,
+		private readonly warnings: readonly DiffWarning[] = [],
 	) {}
 
 	/**
@@ -26,6 +28,7 @@ export class DiffResult {
 		rightDocumentId: string,
 		settings: CompareSettings,
 		id?: string,
+		warnings: readonly DiffWarning[] = [],
 	): DiffResult {
 		// Calculate statistics
 		const stats = entries.reduce(
@@ -34,7 +37,15 @@ export class DiffResult {
 				acc.total++;
 				return acc;
 			},
-			{ added: 0, removed: 0, modified: 0, unchanged: 0, total: 0 },
+			{
+				added: 0,
+				removed: 0,
+				modified: 0,
+				moved: 0,
+				unchanged: 0,
+				ignored: 0,
+				total: 0,
+			},
 		);
 
 		// Create metadata
@@ -47,7 +58,20 @@ export class DiffResult {
 
 		const resultId = id ?? crypto.randomUUID();
 
-		return new DiffResult(resultId, entries, stats, metadata);
+		return new DiffResult(resultId, entries, stats, metadata, warnings);
+	}
+
+	/**
+	 * Restores a DiffResult from its plain object representation
+	 */
+	static fromObject(object: DiffResultType): DiffResult {
+		return new DiffResult(
+			object.id,
+			object.entries,
+			object.stats,
+			object.metadata,
+			object.warnings,
+		);
 	}
 
 	/**
@@ -64,6 +88,13 @@ export class DiffResult {
 		return this.entries;
 	}
 
+	/**
+	 * Returns warnings raised while computing the diff
+	 */
+	getWarnings(): readonly DiffWarning[] {
+		return this.warnings;
+	}
+
 	/**
 	 * Returns diff statistics
 	 */
@@ -90,7 +121,30 @@ export class DiffResult {
 	 */
 	hasChanges(): boolean {
 		return (
-			this.stats.added > 0 || this.stats.removed > 0 || this.stats.modified > 0
+			this.stats.added > 0 ||
+			this.stats.removed > 0 ||
+			this.stats.modified > 0 ||
+			this.stats.moved > 0
+		);
+	}
+
+	/**
+	 * Returns the diff from the right document to the left one
+	 *
+	 * Added and removed entries trade places and every entry exchanges its
+	 * left and right sides, so the result exports as the rollback of this diff.
+	 */
+	invert(): DiffResult {
+		return DiffResult.fromEntries(
+			this.entries.map(invertEntry),
+			this.metadata.rightDocumentId,
+			this.metadata.leftDocumentId,
+			this.metadata.settings,
+			undefined,
+			this.warnings.map((warning) => ({
+				...warning,
+				side: warning.side === "left" ? "right" : "left",
+			})),
 		);
 	}
 
@@ -101,6 +155,7 @@ export class DiffResult {
 		return {
 			id: this.id,
 			entries: this.entries,
+			warnings: this.warnings,
 			stats: this.stats,
 			metadata: this.metadata,
 		};
@@ -113,3 +168,61 @@ export class DiffResult {
 		return this.metadata.settings;
 	}
 }
+
+/**
+ * Exchanges the sides of a diff entry
+ *
+ * Readable paths keep their key labels; index segments follow the new left
+ * side wherever the entry is located on both sides.
+ */
+const invertEntry = (entry: DiffEntry): DiffEntry => {
+	const type =
+		entry.type === "added"
+			? "removed"
+			: entry.type === "removed"
+				? "added"
+				: entry.type;
+
+	if (entry.type === "moved") {
+		return {
+			type,
+			path: entry.fromPath ?? entry.path,
+			fromPath: entry.path,
+			leftPath: entry.rightPath,
+			rightPath: entry.leftPath,
+			...invertIndexSegments(entry),
+			leftValue: entry.rightValue,
+			rightValue: entry.leftValue,
+		};
+	}
+
+	const { leftPath, rightPath } = entry;
+	return {
+		type,
+		path:
+			leftPath && rightPath
+				? entry.path.map((segment, index) =>
+						segment === leftPath[index] ? rightPath[index] : segment,
+					)
+				: entry.path,
+		...(rightPath && { leftPath: rightPath }),
+		...(leftPath && { rightPath: leftPath }),
+		...invertIndexSegments(entry),
+		...(entry.rightValue !== undefined && { leftValue: entry.rightValue }),
+		...(entry.leftValue !== undefined && { rightValue: entry.leftValue }),
+	};
+};
+
+/**
+ * Exchanges the array index segments of the sides of a diff entry
+ */
+const invertIndexSegments = (
+	entry: DiffEntry,
+): Pick<DiffEntry, "leftIndexSegments" | "rightIndexSegments"> => ({
+	...(entry.rightIndexSegments && {
+		leftIndexSegments: entry.rightIndexSegments,
+	}),
+	...(entry.leftIndexSegments && {
+		rightIndexSegments: entry.leftIndexSegments,
+	}),
+});
@@ -1,10 +1,68 @@
-import type { JsonValue } from "../types/json";
+import type {
+	JsonDialect,
+	JsonValue,
+	ParseOptions,
+	SourceLocation,
+} from "../types/json";
 import { ValidationError } from "../value-objects/ValidationError";
+import { JsonPointer } from "../value-objects/JsonPointer";
 import type { Result } from "../types/result";
 import { ok, err } from "../types/result";
+import { parseJsonText } from "../functions/parser";
+import { stringifyLossless } from "../functions/stringify";
+
+/**
+ * Text a JSON document was parsed from
+ */
+export interface JsonDocumentSource {
+	readonly text: string;
+	readonly dialect: JsonDialect;
+}
+
+/**
+ * Plain object representation of a JSON document
+ */
+export interface JsonDocumentObject {
+	readonly id: string;
+	readonly data: JsonValue;
+	readonly metadata: {
+		readonly createdAt: Date;
+		readonly size: number;
+	};
+	readonly warnings?: readonly ReturnType<ValidationError["toObject"]>[];
+	readonly source?: JsonDocumentSource;
+	/** Locations of the values in the source by JSON Pointer */
+	readonly locations?: ReadonlyMap<string, SourceLocation>;
+}
+
+/**
+ * Finds the locations of the values in a source by JSON Pointer
+ *
+ * Values are left unlocated when the source cannot be parsed again, e.g.
+ * when it is nested too deeply for the syntax tree parser.
+ */
+const findLocations = (
+	source: JsonDocumentSource,
+): ReadonlyMap<string, SourceLocation> => {
+	const locations = new Map<string, SourceLocation>();
+	try {
+		parseJsonText(source.text, source.dialect, {
+			onLocation: (path, location) => {
+				locations.set(JsonPointer.fromTokens(path).toString(), location);
+			},
+		});
+	} catch {
+		// Keep the values located so far
+	}
+	return locations;
+};
 
 /**
  * Entity representing a JSON document
+ *
+ * `warnings` are the non-fatal issues found while parsing, such as duplicate
+ * keys. Documents parsed from text keep it as their `source` to locate their
+ * values in it.
  */
 export class JsonDocument {
 	constructor(
@@ -14,52 +72,101 @@ export class JsonDocument {
 			readonly createdAt: Date;
 			readonly size: number;
 		},
+		private readonly warnings: readonly ValidationError[] = [],
+		private readonly source?: JsonDocumentSource,
+		// Found on first use
+		private locations?: ReadonlyMap<string, SourceLocation>,
 	) {}
 
 	/**
 	 * Creates a JsonDocument from a string
+	 *
+	 * @param dialect - Syntax of the input; comments are not kept
+	 * @param options - E.g. whether numbers keep their source text; warnings
+	 *   are kept with the document
 	 */
 	static fromString(
 		input: string,
 		id?: string,
+		dialect: JsonDialect = "json",
+		options: ParseOptions = {},
 	): Result<JsonDocument, ValidationError> {
 		// Check if empty
 		if (!input || input.trim().length === 0) {
 			return err(ValidationError.empty());
 		}
 
+		// Check size
+		const size = new Blob([input]).size;
+		if (options.maxSize !== undefined && size > options.maxSize) {
+			return err(ValidationError.tooLarge(options.maxSize, size));
+		}
+
 		// Parse JSON
-		let data: JsonValue;
-		try {
-			data = JSON.parse(input);
-		} catch (e) {
-			const message = e instanceof Error ? e.message : "Unknown parse error";
-			return err(ValidationError.parse(message, e));
+		const warnings: ValidationError[] = [];
+		const parseResult = parseJsonText(input, dialect, {
+			...options,
+			onWarning: (warning) => {
+				warnings.push(warning);
+				options.onWarning?.(warning);
+			},
+		});
+		if (!parseResult.ok) {
+			return parseResult;
 		}
+		const data = parseResult.value;
 
 		// Create metadata
 		const metadata = {
 			createdAt: new Date(),
-			size: new Blob([input]).size,
+			size,
 		};
 
 		// Generate ID if not provided
 		const documentId = id ?? crypto.randomUUID();
 
-		return ok(new JsonDocument(documentId, data, metadata));
+		return ok(
+			new JsonDocument(documentId, data, metadata, warnings, {
+				text: input,
+				dialect,
+			}),
+		);
 	}
 
 	/**
 	 * Creates a JsonDocument from a JsonValue
+	 *
+	 * @param size - Size of the source in bytes; measured from the compact JSON
+	 *   of `data` when omitted
+	 * @param warnings - Issues found while parsing the source
 	 */
-	static fromValue(data: JsonValue, id?: string): JsonDocument {
+	static fromValue(
+		data: JsonValue,
+		id?: string,
+		size?: number,
+		warnings: readonly ValidationError[] = [],
+	): JsonDocument {
 		const documentId = id ?? crypto.randomUUID();
 		const metadata = {
 			createdAt: new Date(),
-			size: new Blob([JSON.stringify(data)]).size,
+			size: size ?? new Blob([stringifyLossless(data)]).size,
 		};
 
-		return new JsonDocument(documentId, data, metadata);
+		return new JsonDocument(documentId, data, metadata, warnings);
+	}
+
+	/**
+	 * Restores a JsonDocument from its plain object representation
+	 */
+	static fromObject(object: JsonDocumentObject): JsonDocument {
+		return new JsonDocument(
+			object.id,
+			object.data,
+			object.metadata,
+			(object.warnings ?? []).map(ValidationError.fromObject),
+			object.source,
+			object.locations,
+		);
 	}
 
 	/**
@@ -83,11 +190,52 @@ export class JsonDocument {
 		return this.metadata;
 	}
 
+	/**
+	 * Returns the issues found while parsing the document
+	 */
+	getWarnings(): readonly ValidationError[] {
+		return this.warnings;
+	}
+
+	/**
+	 * Returns the location of the value at a path in the source
+	 *
+	 * The source is parsed again on first use, unless the locations came with
+	 * the plain object representation; documents without a source locate no
+	 * values.
+	 */
+	getLocation(path: readonly string[]): SourceLocation | undefined {
+		if (!this.source) {
+			return undefined;
+		}
+		this.locations ??= findLocations(this.source);
+		return this.locations.get(JsonPointer.fromTokens(path).toString());
+	}
+
+	/**
+	 * Returns a plain object representation
+	 *
+	 * Documents with a source include the locations of their values, so that
+	 * documents parsed in a worker are not parsed again where they are shown.
+	 */
+	toObject(): JsonDocumentObject {
+		if (this.source) {
+			this.locations ??= findLocations(this.source);
+		}
+		return {
+			id: this.id,
+			data: this.data,
+			metadata: this.metadata,
+			warnings: this.warnings.map((warning) => warning.toObject()),
+			...(this.source && { source: this.source, locations: this.locations }),
+		};
+	}
+
 	/**
 	 * Returns the document as a JSON string
 	 */
 	toString(pretty = false): string {
-		return JSON.stringify(this.data, null, pretty ? 2 : 0);
+		return stringifyLossless(this.data, pretty ? 2 : 0);
 	}
 
 	/**
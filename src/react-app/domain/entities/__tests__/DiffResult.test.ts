@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { DiffResult } from "../DiffResult";
+import { computeDiffWithWarnings } from "../../functions/differ";
+import { formatDiff } from "../../functions/formatter";
+import { generatePatch } from "../../functions/patchGenerator";
+import { applyPatch } from "../../functions/patch";
+import {
+	applyMergePatch,
+	generateMergePatch,
+} from "../../functions/mergePatch";
+import { DEFAULT_COMPARE_SETTINGS } from "../../types/diff";
+import type { CompareSettings, ExportFormat } from "../../types/diff";
+import type { JsonValue } from "../../types/json";
+
+const diffOf = (
+	left: JsonValue,
+	right: JsonValue,
+	settings: Partial<CompareSettings> = {},
+) => {
+	const merged = { ...DEFAULT_COMPARE_SETTINGS, ...settings };
+	const { entries, warnings } = computeDiffWithWarnings(left, right, merged);
+	return DiffResult.fromEntries(
+		entries,
+		"left",
+		"right",
+		merged,
+		undefined,
+		warnings,
+	);
+};
+
+describe("DiffResult", () => {
+	describe("invert", () => {
+		const left: JsonValue = {
+			name: "Alice",
+			role: "user",
+			tags: ["a", "b", "c"],
+			users: [
+				{ id: 1, name: "One" },
+				{ id: 2, name: "Two" },
+			],
+		};
+		const right: JsonValue = {
+			name: "Bob",
+			email: "a@b.c",
+			tags: ["c", "a", "x"],
+			users: [
+				{ id: 2, name: "Two" },
+				{ id: 3, name: "Three" },
+				{ id: 1, name: "Uno" },
+			],
+		};
+
+		it("should swap added and removed entries and their values", () => {
+			const inverted = diffOf({ a: 1, b: 2 }, { a: 3, c: 4 }).invert();
+
+			expect(inverted.getEntries()).toEqual([
+				{
+					type: "modified",
+					path: ["a"],
+					leftPath: ["a"],
+					rightPath: ["a"],
+					leftValue: 3,
+					rightValue: 1,
+				},
+				{ type: "added", path: ["b"], rightPath: ["b"], rightValue: 2 },
+				{ type: "removed", path: ["c"], leftPath: ["c"], leftValue: 4 },
+			]);
+			expect(inverted.getStats()).toMatchObject({
+				added: 1,
+				removed: 1,
+				modified: 1,
+			});
+		});
+
+		it("should swap the document ids and warning sides", () => {
+			const diff = diffOf([{ id: 1 }, {}], [{ id: 1 }], {
+				ignoreArrayOrder: true,
+				keyField: "id",
+			});
+			const inverted = diff.invert();
+
+			expect(inverted.getMetadata()).toMatchObject({
+				leftDocumentId: "right",
+				rightDocumentId: "left",
+			});
+			expect(diff.getWarnings().map((warning) => warning.side)).toEqual([
+				"left",
+			]);
+			expect(inverted.getWarnings().map((warning) => warning.side)).toEqual([
+				"right",
+			]);
+		});
+
+		it("should swap source and destination of moved entries", () => {
+			const inverted = diffOf([1, 2, 3], [3, 1, 2]).invert();
+
+			expect(inverted.getEntriesByType("moved")).toEqual([
+				{
+					type: "moved",
+					path: ["2"],
+					fromPath: ["0"],
+					leftPath: ["0"],
+					leftIndexSegments: [0],
+					rightPath: ["2"],
+					rightIndexSegments: [0],
+					leftValue: 3,
+					rightValue: 3,
+				},
+			]);
+		});
+
+		it("should restore the original entries when inverted twice", () => {
+			const diff = diffOf(left, right, {
+				ignoreArrayOrder: true,
+				keyField: "id",
+			});
+
+			expect(diff.invert().invert().getEntries()).toEqual(diff.getEntries());
+		});
+
+		it.each<[string, Partial<CompareSettings>]>([
+			["lcs", {}],
+			["index", { arrayDiffAlgorithm: "index" }],
+			["keyed", { ignoreArrayOrder: true, keyField: "id" }],
+		])("should generate patches from right to left (%s)", (_, settings) => {
+			const entries = diffOf(left, right, settings).invert().getEntries();
+
+			expect(applyPatch(right, generatePatch(entries))).toEqual({
+				ok: true,
+				value: left,
+			});
+			expect(applyMergePatch(right, generateMergePatch(entries).patch)).toEqual(
+				left,
+			);
+		});
+
+		it.each<ExportFormat>([
+			"json",
+			"markdown",
+			"html",
+			"json-patch",
+			"merge-patch",
+		])("should export in %s", (format) => {
+			const inverted = diffOf(left, right).invert().toObject();
+
+			expect(formatDiff(inverted, format).length).toBeGreaterThan(0);
+		});
+	});
+});
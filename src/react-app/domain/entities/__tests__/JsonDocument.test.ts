@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { JsonDocument } from "../JsonDocument";
+
+describe("JsonDocument", () => {
+	describe("getLocation", () => {
+		it("should locate values in the source", () => {
+			const result = JsonDocument.fromString('{\n  "a": [1, 2]\n}');
+
+			expect(result.ok && result.value.getLocation(["a", "1"])).toEqual({
+				line: 2,
+				column: 12,
+				range: [13, 14],
+			});
+		});
+
+		it("should use the locations of the plain object representation", () => {
+			const result = JsonDocument.fromString('{"a": 1}');
+			if (!result.ok) {
+				throw new Error("Invalid test input");
+			}
+			const object = result.value.toObject();
+			const document = JsonDocument.fromObject({
+				...object,
+				source: { text: "", dialect: "json" },
+			});
+
+			expect(document.getLocation(["a"])).toEqual({
+				line: 1,
+				column: 7,
+				range: [6, 7],
+			});
+		});
+
+		it("should not locate values of input nested too deeply to locate", () => {
+			const depth = 3000;
+			const result = JsonDocument.fromString(
+				"[".repeat(depth) + "]".repeat(depth),
+			);
+
+			expect(result.ok).toBe(true);
+			expect(result.ok && result.value.getLocation([])).toBe(undefined);
+			expect(result.ok && result.value.toObject().locations?.size).toBe(0);
+		});
+	});
+});
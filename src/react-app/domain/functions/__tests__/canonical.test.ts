@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from "vitest";
+import { canonicalizeJson, computeCanonicalDigest } from "../canonical";
+import { formatDiff, formatJson } from "../formatter";
+import { parseJson } from "../parser";
+import { computeDiff } from "../differ";
+import { DiffResult } from "../../entities/DiffResult";
+import type { FormatSettings } from "../../types/diff";
+import {
+	DEFAULT_COMPARE_SETTINGS,
+	DEFAULT_FORMAT_SETTINGS,
+} from "../../types/diff";
+import type { JsonValue } from "../../types/json";
+import { LosslessNumber } from "../../value-objects/LosslessNumber";
+
+const canonical: FormatSettings = {
+	...DEFAULT_FORMAT_SETTINGS,
+	indent: 4,
+	sortKeys: false,
+	canonical: true,
+};
+
+const canonicalize = (value: JsonValue) => {
+	const result = canonicalizeJson(value);
+	return result.ok ? result.value : result.error.getMessage();
+};
+
+describe("canonicalizeJson", () => {
+	it("should write numbers as ECMAScript does", () => {
+		expect(
+			canonicalize([
+				-0, 5e-324, 1.7976931348623157e308, 9007199254740992, 1e21, 1e-7,
+				333333333.3333333, 4.5,
+			]),
+		).toBe(
+			"[0,5e-324,1.7976931348623157e+308,9007199254740992,1e+21,1e-7,333333333.3333333,4.5]",
+		);
+	});
+
+	it("should sort keys by their UTF-16 code units", () => {
+		const value = Object.fromEntries(
+			[
+				"\u20ac",
+				"\r",
+				"\ufb33",
+				"1",
+				"\ud83d\ude00",
+				"\u0080",
+				"\u00f6",
+				"10",
+			].map((key) => [key, null]),
+		);
+		const sorted = [
+			"\r",
+			"1",
+			"10",
+			"\u0080",
+			"\u00f6",
+			"\u20ac",
+			"\ud83d\ude00",
+			"\ufb33",
+		];
+
+		expect(canonicalize(value)).toBe(
+			`{${sorted.map((key) => `${JSON.stringify(key)}:null`).join(",")}}`,
+		);
+		expect(canonicalize({ 9: 1, 10: 2 })).toBe('{"10":2,"9":1}');
+	});
+
+	it("should escape only what JSON requires", () => {
+		expect(canonicalize("€$\u000f\nA'B\"\\/ \u007f")).toBe(
+			'"€$\\u000f\\nA\'B\\"\\\\/ \u007f"',
+		);
+	});
+
+	it("should write lossless numbers as their nearest double", () => {
+		expect(
+			canonicalize([
+				LosslessNumber.fromText("1.50"),
+				LosslessNumber.fromText("1E30"),
+			]),
+		).toBe("[1.5,1e+30]");
+		expect(canonicalize([LosslessNumber.fromText("1e400")])).toBe(
+			"Number 1e400 cannot be written as canonical JSON",
+		);
+	});
+});
+
+describe("computeCanonicalDigest", () => {
+	it("should hash the canonical form", async () => {
+		const result = await computeCanonicalDigest({ a: [1.0, "x"] });
+
+		expect(result.ok && result.value).toBe(
+			"5e49f471d8b615a8ae0ecf0a53dbe2f5f617abb2dfe6246974aa6e4bdeb89725",
+		);
+	});
+
+	it("should reject outside of secure contexts", async () => {
+		vi.stubGlobal("crypto", {});
+		try {
+			await expect(computeCanonicalDigest({})).rejects.toThrow(/HTTPS/);
+		} finally {
+			vi.unstubAllGlobals();
+		}
+	});
+});
+
+describe("formatJson in canonical mode", () => {
+	it("should match the example of RFC 8785", () => {
+		const input = String.raw`{
+  "numbers": [333333333.33333329, 1E30, 4.50, 2e-3, 0.000000000000000000000000001],
+  "string": "\u20ac$\u000F\u000aA'\u0042\u0022\u005c\\\"\/",
+  "literals": [null, true, false]
+}`;
+
+		const result = formatJson(input, canonical);
+
+		expect(result.ok && result.value).toBe(
+			String.raw`{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],"string":"€$\u000f\nA'B\"\\\\\"/"}`,
+		);
+	});
+
+	it("should write every dialect as canonical JSON", () => {
+		expect(formatJson("b: 1\na: [x]\n", canonical, "yaml")).toEqual({
+			ok: true,
+			value: '{"a":["x"],"b":1}',
+		});
+		expect(formatJson('{"b": 1}\n\n{"a": 2.0}\n', canonical, "ndjson")).toEqual(
+			{ ok: true, value: '{"b":1}\n{"a":2}' },
+		);
+	});
+
+	it("should reject duplicate keys", () => {
+		const result = formatJson('{"a": 1, "a": 2}', canonical);
+
+		expect(!result.ok && result.error.getType()).toBe("duplicate-key");
+	});
+});
+
+describe("formatDiff as canonical JSON", () => {
+	it("should export the content of the JSON export canonically", () => {
+		const diffResult = DiffResult.fromEntries(
+			computeDiff({ a: 1 }, { a: 2 }, DEFAULT_COMPARE_SETTINGS),
+			"left",
+			"right",
+			DEFAULT_COMPARE_SETTINGS,
+		).toObject();
+		const json = parseJson(formatDiff(diffResult, "json"));
+
+		expect(json.ok && formatDiff(diffResult, "canonical-json")).toBe(
+			json.ok && canonicalize(json.value),
+		);
+	});
+});
@@ -0,0 +1,737 @@
+import { describe, it, expect } from "vitest";
+import { computeDiff, computeDiffWithWarnings } from "../differ";
+import { parseJson } from "../parser";
+import type { CompareSettings, DiffEntry } from "../../types/diff";
+import { DEFAULT_COMPARE_SETTINGS } from "../../types/diff";
+import type { JsonArray, JsonObject } from "../../types/json";
+
+const changesOf = (entries: readonly DiffEntry[]) =>
+	entries.filter((entry) => entry.type !== "unchanged");
+
+describe("computeDiff", () => {
+	describe("ordered arrays (lcs)", () => {
+		const settings: CompareSettings = DEFAULT_COMPARE_SETTINGS;
+
+		it("should report a single addition when inserting at the front", () => {
+			const left = Array.from({ length: 500 }, (_, i) => i);
+			const right = [-1, ...left];
+
+			const changes = changesOf(computeDiff(left, right, settings));
+
+			expect(changes).toEqual([
+				{
+					type: "added",
+					path: ["0"],
+					rightPath: ["0"],
+					rightIndexSegments: [0],
+					rightValue: -1,
+				},
+			]);
+		});
+
+		it("should report a single removal when deleting from the middle", () => {
+			const left = [{ id: 1 }, { id: 2 }, { id: 3 }];
+			const right = [{ id: 1 }, { id: 3 }];
+
+			const changes = changesOf(computeDiff(left, right, settings));
+
+			expect(changes).toEqual([
+				{
+					type: "removed",
+					path: ["1"],
+					leftPath: ["1"],
+					leftIndexSegments: [0],
+					leftValue: { id: 2 },
+				},
+			]);
+		});
+
+		it("should pair replaced elements and diff them recursively", () => {
+			const left: JsonArray = [{ id: 1, name: "a" }, { id: 2 }];
+			const right: JsonArray = [{ id: 1, name: "b" }, { id: 2 }];
+
+			const changes = changesOf(computeDiff(left, right, settings));
+
+			expect(changes).toEqual([
+				{
+					type: "modified",
+					path: ["0", "name"],
+					leftPath: ["0", "name"],
+					leftIndexSegments: [0],
+					rightPath: ["0", "name"],
+					rightIndexSegments: [0],
+					leftValue: "a",
+					rightValue: "b",
+				},
+			]);
+		});
+
+		it("should keep unchanged elements unchanged", () => {
+			const entries = computeDiff([1, 2, 3], [0, 1, 2, 3, 4], settings);
+
+			expect(entries.filter((e) => e.type === "unchanged")).toHaveLength(3);
+			expect(entries.filter((e) => e.type === "added")).toHaveLength(2);
+		});
+
+		it("should respect float tolerance when aligning", () => {
+			const entries = computeDiff([1.0, 2.0], [0, 1.00001, 2.0], {
+				...settings,
+				floatTolerance: 0.001,
+			});
+
+			expect(changesOf(entries)).toEqual([
+				{
+					type: "added",
+					path: ["0"],
+					rightPath: ["0"],
+					rightIndexSegments: [0],
+					rightValue: 0,
+				},
+			]);
+		});
+	});
+
+	describe("ordered arrays (index)", () => {
+		const settings: CompareSettings = {
+			...DEFAULT_COMPARE_SETTINGS,
+			arrayDiffAlgorithm: "index",
+		};
+
+		it("should pair elements by index", () => {
+			const changes = changesOf(computeDiff([1, 2], [0, 1, 2], settings));
+
+			expect(changes).toEqual([
+				{
+					type: "modified",
+					path: ["0"],
+					leftPath: ["0"],
+					leftIndexSegments: [0],
+					rightPath: ["0"],
+					rightIndexSegments: [0],
+					leftValue: 1,
+					rightValue: 0,
+				},
+				{
+					type: "modified",
+					path: ["1"],
+					leftPath: ["1"],
+					leftIndexSegments: [0],
+					rightPath: ["1"],
+					rightIndexSegments: [0],
+					leftValue: 2,
+					rightValue: 1,
+				},
+				{
+					type: "added",
+					path: ["2"],
+					rightPath: ["2"],
+					rightIndexSegments: [0],
+					rightValue: 2,
+				},
+			]);
+		});
+	});
+
+	describe("move detection", () => {
+		const settings: CompareSettings = DEFAULT_COMPARE_SETTINGS;
+
+		it("should report a relocated array element as moved", () => {
+			const left: JsonArray = [{ id: 1 }, { id: 2 }, { id: 3 }];
+			const right: JsonArray = [{ id: 3 }, { id: 1 }, { id: 2 }];
+
+			const changes = changesOf(computeDiff(left, right, settings));
+
+			expect(changes).toEqual([
+				{
+					type: "moved",
+					fromPath: ["2"],
+					path: ["0"],
+					leftPath: ["2"],
+					leftIndexSegments: [0],
+					rightPath: ["0"],
+					rightIndexSegments: [0],
+					leftValue: { id: 3 },
+					rightValue: { id: 3 },
+				},
+			]);
+		});
+
+		it("should report keyed items whose order changed as moved", () => {
+			const left: JsonArray = [
+				{ id: "a", v: 1 },
+				{ id: "b", v: 2 },
+			];
+			const right: JsonArray = [
+				{ id: "b", v: 2 },
+				{ id: "a", v: 1 },
+			];
+
+			const changes = changesOf(
+				computeDiff(left, right, {
+					...settings,
+					ignoreArrayOrder: true,
+					keyField: "id",
+				}),
+			);
+
+			expect(changes).toEqual([
+				{
+					type: "moved",
+					fromPath: ["id=a"],
+					path: ["id=a"],
+					leftPath: ["0"],
+					leftIndexSegments: [0],
+					rightPath: ["1"],
+					rightIndexSegments: [0],
+					leftValue: { id: "a", v: 1 },
+					rightValue: { id: "a", v: 1 },
+				},
+			]);
+		});
+
+		it("should report an identical subtree moved between keys", () => {
+			const left = { old: { a: 1, b: [1, 2] }, other: 1 };
+			const right = { other: 1, renamed: { a: 1, b: [1, 2] } };
+
+			const changes = changesOf(computeDiff(left, right, settings));
+
+			expect(changes).toEqual([
+				{
+					type: "moved",
+					fromPath: ["old"],
+					path: ["renamed"],
+					leftPath: ["old"],
+					rightPath: ["renamed"],
+					leftValue: { a: 1, b: [1, 2] },
+					rightValue: { a: 1, b: [1, 2] },
+				},
+			]);
+		});
+
+		it("should not pair equal primitives under different keys", () => {
+			const changes = changesOf(
+				computeDiff({ a: true }, { b: true }, settings),
+			);
+
+			expect(changes.map((entry) => entry.type)).toEqual(["removed", "added"]);
+		});
+
+		it("should not detect moves when disabled", () => {
+			const changes = changesOf(
+				computeDiff([[1], [2]], [[2], [1]], {
+					...settings,
+					detectMoves: false,
+				}),
+			);
+
+			expect(changes.some((entry) => entry.type === "moved")).toBe(false);
+		});
+	});
+
+	describe("ignore paths", () => {
+		const left = {
+			requestId: "a",
+			items: [
+				{ id: 1, updatedAt: "2024-01-01" },
+				{ id: 2, updatedAt: "2024-01-01" },
+			],
+			meta: { trace: { traceId: "x" } },
+		};
+		const right = {
+			requestId: "b",
+			items: [
+				{ id: 1, updatedAt: "2024-02-02" },
+				{ id: 2, updatedAt: "2024-02-02" },
+			],
+			meta: { trace: { traceId: "y" } },
+		};
+
+		it("should skip subtrees matching wildcard and descendant patterns", () => {
+			const entries = computeDiff(left, right, {
+				...DEFAULT_COMPARE_SETTINGS,
+				ignorePaths: ["$.requestId", "$.items[*].updatedAt", "$..traceId"],
+			});
+
+			expect(changesOf(entries).filter((e) => e.type !== "ignored")).toEqual(
+				[],
+			);
+			expect(
+				entries.filter((e) => e.type === "ignored").map((e) => e.path),
+			).toEqual([
+				["requestId"],
+				["items", "0", "updatedAt"],
+				["items", "1", "updatedAt"],
+				["meta", "trace", "traceId"],
+			]);
+		});
+
+		it("should mark keys present on one side only as ignored", () => {
+			const entries = computeDiff(
+				{ a: 1 },
+				{ a: 1, requestId: "x" },
+				{ ...DEFAULT_COMPARE_SETTINGS, ignorePaths: ["$.requestId"] },
+			);
+
+			expect(changesOf(entries)).toEqual([
+				{
+					type: "ignored",
+					path: ["requestId"],
+					rightPath: ["requestId"],
+					leftValue: undefined,
+					rightValue: "x",
+				},
+			]);
+		});
+
+		it("should still report changes outside ignored paths", () => {
+			const entries = computeDiff(
+				{ updatedAt: 1, name: "a" },
+				{ updatedAt: 2, name: "b" },
+				{ ...DEFAULT_COMPARE_SETTINGS, ignorePaths: ["$..updatedAt", ""] },
+			);
+
+			expect(entries.filter((e) => e.type === "modified")).toHaveLength(1);
+		});
+	});
+
+	describe("per-path rules", () => {
+		const left = {
+			users: [
+				{ id: 1, name: "a" },
+				{ id: 2, name: "b" },
+			],
+			orders: [
+				{ orderNo: "x", total: 1 },
+				{ orderNo: "y", total: 2 },
+			],
+			prices: [1.0, 2.0],
+			ratios: [0.5],
+		};
+		const right = {
+			users: [
+				{ id: 2, name: "b" },
+				{ id: 1, name: "a" },
+			],
+			orders: [
+				{ orderNo: "y", total: 2 },
+				{ orderNo: "x", total: 1 },
+			],
+			prices: [1.005, 2.0],
+			ratios: [0.5000001],
+		};
+		const settings: CompareSettings = {
+			...DEFAULT_COMPARE_SETTINGS,
+			detectMoves: false,
+			rules: [
+				{ path: "$.users", keyField: "id" },
+				{ path: "$.orders", keyField: "orderNo" },
+				{ path: "$.prices", floatTolerance: 0.01 },
+				{ path: "$.ratios", floatTolerance: 1e-9 },
+			],
+		};
+
+		it("should apply rule overrides to matching subtrees only", () => {
+			const changes = changesOf(computeDiff(left, right, settings));
+
+			expect(changes).toEqual([
+				{
+					type: "modified",
+					path: ["ratios", "0"],
+					leftPath: ["ratios", "0"],
+					leftIndexSegments: [1],
+					rightPath: ["ratios", "0"],
+					rightIndexSegments: [1],
+					leftValue: 0.5,
+					rightValue: 0.5000001,
+				},
+			]);
+		});
+
+		it("should let later rules override earlier ones", () => {
+			const changes = changesOf(
+				computeDiff(
+					{ prices: [1.0] },
+					{ prices: [1.005] },
+					{
+						...settings,
+						rules: [
+							{ path: "$.prices", floatTolerance: 0.01 },
+							{ path: "$..prices", floatTolerance: 0.001 },
+						],
+					},
+				),
+			);
+
+			expect(changes).toHaveLength(1);
+		});
+
+		it("should allow rules to force ordered comparison", () => {
+			const changes = changesOf(
+				computeDiff(
+					{ tags: [1, 2] },
+					{ tags: [2, 1] },
+					{
+						...settings,
+						ignoreArrayOrder: true,
+						rules: [{ path: "$.tags", ignoreArrayOrder: false }],
+					},
+				),
+			);
+
+			expect(changes.length).toBeGreaterThan(0);
+		});
+	});
+
+	describe("keyed arrays", () => {
+		const keyed = (keyField: CompareSettings["keyField"]): CompareSettings => ({
+			...DEFAULT_COMPARE_SETTINGS,
+			ignoreArrayOrder: true,
+			detectMoves: false,
+			keyField,
+		});
+
+		it("should match items by a composite key", () => {
+			const left: JsonArray = [
+				{ tenant: "a", id: 1, v: 1 },
+				{ tenant: "b", id: 1, v: 2 },
+			];
+			const right: JsonArray = [
+				{ tenant: "b", id: 1, v: 3 },
+				{ tenant: "a", id: 1, v: 1 },
+			];
+
+			const changes = changesOf(
+				computeDiff(left, right, keyed(["tenant", "id"])),
+			);
+
+			expect(changes).toEqual([
+				{
+					type: "modified",
+					path: ["tenant=b,id=1", "v"],
+					leftPath: ["1", "v"],
+					leftIndexSegments: [0],
+					rightPath: ["0", "v"],
+					rightIndexSegments: [0],
+					leftValue: 2,
+					rightValue: 3,
+				},
+			]);
+		});
+
+		it("should match items by a nested key path", () => {
+			const left: JsonArray = [{ meta: { id: "x" }, v: 1 }];
+			const right: JsonArray = [{ meta: { id: "x" }, v: 2 }];
+
+			const changes = changesOf(computeDiff(left, right, keyed("meta.id")));
+
+			expect(changes).toEqual([
+				{
+					type: "modified",
+					path: ["meta.id=x", "v"],
+					leftPath: ["0", "v"],
+					leftIndexSegments: [0],
+					rightPath: ["0", "v"],
+					rightIndexSegments: [0],
+					leftValue: 1,
+					rightValue: 2,
+				},
+			]);
+		});
+
+		it("should keep real indices of nested keyed arrays", () => {
+			const left = { groups: [{ id: "g", users: [{ id: 1 }, { id: 2 }] }] };
+			const right: JsonObject = {
+				groups: [
+					{ id: "h" },
+					{ id: "g", users: [{ id: 2 }, { id: 1, admin: true }] },
+				],
+			};
+
+			const changes = changesOf(computeDiff(left, right, keyed("id")));
+
+			expect(changes).toContainEqual({
+				type: "added",
+				path: ["groups", "id=g", "users", "id=1", "admin"],
+				rightPath: ["groups", "1", "users", "1", "admin"],
+				rightIndexSegments: [1, 3],
+				rightValue: true,
+			});
+		});
+
+		it("should warn about missing keys and compare those items without key", () => {
+			const left: JsonArray = [{ id: 1 }, { name: "no key" }];
+			const right: JsonArray = [{ id: 1 }];
+
+			const { entries, warnings } = computeDiffWithWarnings(
+				left,
+				right,
+				keyed("id"),
+			);
+
+			expect(warnings).toEqual([
+				expect.objectContaining({
+					type: "missing-key",
+					side: "left",
+					path: ["1"],
+				}),
+			]);
+			expect(changesOf(entries)).toEqual([
+				{
+					type: "removed",
+					path: ["1"],
+					leftPath: ["1"],
+					leftIndexSegments: [0],
+					leftValue: { name: "no key" },
+				},
+			]);
+		});
+
+		it("should warn about duplicate keys instead of overwriting items", () => {
+			const left: JsonArray = [
+				{ id: 1, v: "first" },
+				{ id: 1, v: "second" },
+			];
+			const right: JsonArray = [{ id: 1, v: "first" }];
+
+			const { entries, warnings } = computeDiffWithWarnings(
+				left,
+				right,
+				keyed("id"),
+			);
+
+			expect(warnings.map((w) => w.type)).toEqual(["duplicate-key"]);
+			expect(changesOf(entries)).toEqual([
+				{
+					type: "removed",
+					path: ["1"],
+					leftPath: ["1"],
+					leftIndexSegments: [0],
+					leftValue: { id: 1, v: "second" },
+				},
+			]);
+		});
+	});
+
+	describe("unordered arrays", () => {
+		const settings: CompareSettings = {
+			...DEFAULT_COMPARE_SETTINGS,
+			ignoreArrayOrder: true,
+		};
+		const left: JsonArray = [
+			{ name: "alice", role: "admin", active: true },
+			{ name: "bob", role: "user", active: true },
+		];
+		const right: JsonArray = [
+			{ name: "bob", role: "user", active: false },
+			{ name: "alice", role: "admin", active: true },
+		];
+
+		it("should pair near-identical objects and diff them", () => {
+			const changes = changesOf(computeDiff(left, right, settings));
+
+			expect(changes).toEqual([
+				{
+					type: "modified",
+					path: ["1", "active"],
+					leftPath: ["1", "active"],
+					leftIndexSegments: [0],
+					rightPath: ["0", "active"],
+					rightIndexSegments: [0],
+					leftValue: true,
+					rightValue: false,
+				},
+			]);
+		});
+
+		it("should pair each item with its most similar counterpart", () => {
+			const changes = changesOf(
+				computeDiff(
+					[
+						{ a: 1, b: 1, c: 1 },
+						{ a: 2, b: 2, c: 2 },
+					],
+					[
+						{ a: 2, b: 2, c: 3 },
+						{ a: 1, b: 1, c: 3 },
+					],
+					settings,
+				),
+			);
+
+			expect(changes.map((entry) => entry.path)).toEqual([
+				["0", "c"],
+				["1", "c"],
+			]);
+			expect(changes.map((entry) => entry.rightPath)).toEqual([
+				["1", "c"],
+				["0", "c"],
+			]);
+		});
+
+		it("should report correct indices for added duplicate values", () => {
+			const changes = changesOf(computeDiff([1], [1, 2, 2, 1], settings));
+
+			expect(changes).toEqual([
+				{
+					type: "added",
+					path: ["1"],
+					rightPath: ["1"],
+					rightIndexSegments: [0],
+					rightValue: 2,
+				},
+				{
+					type: "added",
+					path: ["2"],
+					rightPath: ["2"],
+					rightIndexSegments: [0],
+					rightValue: 2,
+				},
+				{
+					type: "added",
+					path: ["3"],
+					rightPath: ["3"],
+					rightIndexSegments: [0],
+					rightValue: 1,
+				},
+			]);
+		});
+
+		it("should match objects regardless of key order", () => {
+			const changes = changesOf(
+				computeDiff([{ a: 1, b: 2 }], [{ b: 2, a: 1 }], settings),
+			);
+
+			expect(changes).toEqual([]);
+		});
+
+		it("should match nested numbers within float tolerance", () => {
+			const changes = changesOf(
+				computeDiff(
+					[{ x: 1.0 }, { x: 2.0 }],
+					[{ x: 2.00001 }, { x: 1.00001 }],
+					{ ...settings, floatTolerance: 0.001 },
+				),
+			);
+
+			expect(changes).toEqual([]);
+		});
+
+		it("should match large reordered arrays", () => {
+			const left = Array.from({ length: 20_000 }, (_, i) => ({ id: i }));
+			const right = [...left].reverse();
+
+			const entries = computeDiff(left, right, settings);
+
+			expect(changesOf(entries)).toEqual([]);
+			expect(entries[0].rightPath).toEqual(["19999"]);
+		});
+
+		it("should not pair items below the similarity threshold", () => {
+			const changes = changesOf(
+				computeDiff(left, right, { ...settings, similarityThreshold: 0.9 }),
+			);
+
+			expect(changes.map((entry) => entry.type)).toEqual(["removed", "added"]);
+		});
+	});
+
+	describe("collapsed unchanged values", () => {
+		const settings: CompareSettings = {
+			...DEFAULT_COMPARE_SETTINGS,
+			collapseUnchanged: true,
+		};
+
+		it("should report unchanged containers as one entry", () => {
+			const entries = computeDiff(
+				{ a: { b: [1, 2], c: 3 }, d: [{ e: 1 }, { e: 2 }] },
+				{ a: { b: [1, 2], c: 3 }, d: [{ e: 1 }, { e: 3 }] },
+				settings,
+			);
+
+			expect(entries.map((entry) => [entry.type, entry.path])).toEqual([
+				["unchanged", ["a"]],
+				["unchanged", ["d", "0"]],
+				["modified", ["d", "1", "e"]],
+			]);
+		});
+
+		it("should handle arrays with more items than call arguments", () => {
+			const items = Array.from({ length: 200_000 }, (_, i) => i);
+
+			expect(computeDiff({ items }, { items }, settings)).toHaveLength(1);
+			expect(
+				computeDiff([items], [items], DEFAULT_COMPARE_SETTINGS),
+			).toHaveLength(items.length);
+		});
+	});
+});
+
+describe("computeDiff with lossless numbers", () => {
+	const parse = (input: string) => {
+		const result = parseJson(input, "json", { losslessNumbers: true });
+		if (!result.ok) {
+			throw new Error(result.error.getMessage());
+		}
+		return result.value;
+	};
+
+	it("should tell apart integers beyond double precision", () => {
+		const changes = changesOf(
+			computeDiff(
+				parse('{"id": 9007199254740993}'),
+				parse('{"id": 9007199254740992}'),
+				DEFAULT_COMPARE_SETTINGS,
+			),
+		);
+
+		expect(changes).toHaveLength(1);
+		expect(String(changes[0].leftValue)).toBe("9007199254740993");
+		expect(String(changes[0].rightValue)).toBe("9007199254740992");
+	});
+
+	it("should treat equal decimals written differently as unchanged", () => {
+		const entries = computeDiff(
+			parse('{"price": 1.50}'),
+			parse('{"price": 15e-1}'),
+			DEFAULT_COMPARE_SETTINGS,
+		);
+
+		expect(changesOf(entries)).toEqual([]);
+	});
+
+	it("should apply float tolerance exactly", () => {
+		const settings = { ...DEFAULT_COMPARE_SETTINGS, floatTolerance: 0.1 };
+
+		expect(
+			changesOf(computeDiff(parse("[1.1]"), parse("[1.2]"), settings)),
+		).toEqual([]);
+		expect(
+			changesOf(
+				computeDiff(parse("[1.1]"), parse("[1.2000000000000001]"), settings),
+			),
+		).toHaveLength(1);
+	});
+
+	it("should match array items keyed by big integers", () => {
+		const changes = changesOf(
+			computeDiff(
+				parse(
+					'[{"id": 9007199254740993, "v": 1}, {"id": 9007199254740992, "v": 2}]',
+				),
+				parse(
+					'[{"id": 9007199254740992, "v": 2}, {"id": 9007199254740993, "v": 3}]',
+				),
+				{
+					...DEFAULT_COMPARE_SETTINGS,
+					ignoreArrayOrder: true,
+					keyField: "id",
+				},
+			),
+		);
+
+		expect(changes.map((entry) => [entry.type, entry.path])).toEqual([
+			["moved", ["id=9007199254740993"]],
+			["modified", ["id=9007199254740993", "v"]],
+		]);
+	});
+});
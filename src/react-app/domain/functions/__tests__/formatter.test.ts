@@ -1,6 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { formatJson } from "../formatter";
-import type { FormatSettings } from "../../types/diff";
+import { formatDiff, formatJson } from "../formatter";
+import { computeDiff } from "../differ";
+import { parseJson } from "../parser";
+import { DiffResult } from "../../entities/DiffResult";
+import { JsonDocument } from "../../entities/JsonDocument";
+import { unwrap } from "../../types/result";
+import type { CompareSettings, FormatSettings } from "../../types/diff";
+import { DEFAULT_COMPARE_SETTINGS } from "../../types/diff";
+import type { JsonValue } from "../../types/json";
 
 describe("formatJson", () => {
 	describe("basic formatting", () => {
@@ -290,3 +297,185 @@ describe("formatJson", () => {
 		});
 	});
 });
+
+describe("formatDiff", () => {
+	const keyedSettings: CompareSettings = {
+		...DEFAULT_COMPARE_SETTINGS,
+		ignoreArrayOrder: true,
+		detectMoves: false,
+		keyField: "id",
+	};
+
+	const diffOf = (
+		left: JsonValue,
+		right: JsonValue,
+		settings: CompareSettings,
+	) =>
+		DiffResult.fromEntries(
+			computeDiff(left, right, settings),
+			"left",
+			"right",
+			settings,
+		).toObject();
+
+	describe("keyed arrays", () => {
+		const left = {
+			users: [
+				{ id: 7, name: "a" },
+				{ id: 42, name: "b" },
+			],
+		};
+		const right = { users: [{ id: 42, name: "c" }] };
+
+		it("should use real array indices in JSON Patch paths", () => {
+			const patch = JSON.parse(
+				formatDiff(diffOf(left, right, keyedSettings), "json-patch"),
+			);
+
+			expect(patch).toEqual([
+				{ op: "remove", path: "/users/0" },
+				{ op: "replace", path: "/users/0/name", value: "c" },
+			]);
+		});
+
+		it("should show key-based paths with their real locations in Markdown", () => {
+			const markdown = formatDiff(
+				diffOf(left, right, keyedSettings),
+				"markdown",
+			);
+
+			expect(markdown).toContain("Modified: `$.users.id=42.name`");
+			expect(markdown).toMatch(
+				/Location: left `[^`]*\[1\][^`]*name`, right `[^`]*\[0\][^`]*name`/,
+			);
+		});
+	});
+
+	describe("line numbers", () => {
+		const left = unwrap(JsonDocument.fromString('{\n  "a": 1,\n  "b": 2\n}'));
+		const right = unwrap(JsonDocument.fromString('{\n  "b": 3\n}'));
+		const result = diffOf(
+			left.getData(),
+			right.getData(),
+			DEFAULT_COMPARE_SETTINGS,
+		);
+		const options = {
+			locate: (side: "left" | "right", path: readonly string[]) =>
+				(side === "left" ? left : right).getLocation(path),
+		};
+
+		it("should show the lines of each side next to the paths", () => {
+			const markdown = formatDiff(result, "markdown", options);
+
+			expect(markdown).toContain("Removed: `$.a` (left line 2)");
+			expect(markdown).toContain("Modified: `$.b` (left line 3, right line 2)");
+			expect(formatDiff(result, "html", options)).toContain(
+				"Modified: $.b (left line 3, right line 2)</div>",
+			);
+		});
+
+		it("should add the lines to the entries of JSON", () => {
+			const { entries } = JSON.parse(formatDiff(result, "json", options));
+
+			expect(entries).toContainEqual(
+				expect.objectContaining({ path: ["b"], lines: { left: 3, right: 2 } }),
+			);
+		});
+
+		it("should be left out without a locate option", () => {
+			expect(formatDiff(result, "markdown")).toContain("Modified: `$.b`\n");
+		});
+	});
+
+	describe("string changes", () => {
+		const result = diffOf(
+			{ query: "SELECT id FROM users" },
+			{ query: "SELECT id FROM orders" },
+			DEFAULT_COMPARE_SETTINGS,
+		);
+
+		it("should include the inline diff in Markdown", () => {
+			expect(formatDiff(result, "markdown")).toContain(
+				"<pre>SELECT id FROM <del>users</del><ins>orders</ins></pre>",
+			);
+		});
+
+		it("should include the inline diff in HTML", () => {
+			expect(formatDiff(result, "html")).toContain(
+				'<pre class="inline-diff">SELECT id FROM <del>users</del><ins>orders</ins></pre>',
+			);
+		});
+	});
+});
+
+describe("lossless numbers", () => {
+	const settings: FormatSettings = { indent: 2, sortKeys: true };
+
+	it("should keep the text of numbers when formatting every dialect", () => {
+		const json = formatJson('{"b":1.50,"a":9007199254740993}', settings);
+		const jsonc = formatJson("{b: 1.50, a: 0x10}", settings, "json5");
+		const ndjson = formatJson('{"a":12345678901234567890}', settings, "ndjson");
+		const yaml = formatJson(
+			"a: 12345678901234567890\nb: 1.50\n",
+			settings,
+			"yaml",
+		);
+
+		expect(json.ok && json.value).toBe(
+			'{\n  "a": 9007199254740993,\n  "b": 1.50\n}',
+		);
+		expect(jsonc.ok && jsonc.value).toBe('{\n  "a": 16,\n  "b": 1.50\n}');
+		expect(ndjson.ok && ndjson.value).toBe('{"a":12345678901234567890}');
+		expect(yaml.ok && yaml.value).toBe("a: 12345678901234567890\nb: 1.50\n");
+	});
+
+	it("should format deeply nested input with exact numbers", () => {
+		const depth = 3000;
+		const result = formatJson("[".repeat(depth) + "]".repeat(depth), {
+			indent: 2,
+			sortKeys: false,
+		});
+
+		expect(result.ok).toBe(true);
+	});
+
+	it("should fail instead of throwing on input nested too deeply", () => {
+		const depth = 100_000;
+		const input = `[${"[".repeat(depth)}${"]".repeat(depth)}, 1.50]`;
+
+		expect(formatJson(input, settings).ok).toBe(false);
+		expect(formatJson(input, settings, "jsonc").ok).toBe(false);
+		expect(
+			formatJson(input, settings, "json", { losslessNumbers: true }).ok,
+		).toBe(false);
+	});
+
+	it("should keep the text of numbers in exports", () => {
+		const left = parseJson('{"id": 9007199254740993}', "json", {
+			losslessNumbers: true,
+		});
+		const right = parseJson('{"id": 9007199254740992}', "json", {
+			losslessNumbers: true,
+		});
+		if (!left.ok || !right.ok) {
+			throw new Error("Invalid test input");
+		}
+		const diffResult = DiffResult.fromEntries(
+			computeDiff(left.value, right.value, DEFAULT_COMPARE_SETTINGS),
+			"left",
+			"right",
+			DEFAULT_COMPARE_SETTINGS,
+		).toObject();
+
+		expect(formatDiff(diffResult, "json")).toContain(
+			'"leftValue": 9007199254740993',
+		);
+		expect(formatDiff(diffResult, "yaml")).toContain(
+			"leftValue: 9007199254740993",
+		);
+		expect(formatDiff(diffResult, "json-patch")).toContain(
+			'"value": 9007199254740992',
+		);
+		expect(formatDiff(diffResult, "markdown")).toContain("9007199254740993");
+	});
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { createJsonStreamParser } from "../jsonStream";
+import { parseSyntaxTree } from "../jsonSyntax";
+import type { ParseOptions } from "../../types/json";
+import type { ValidationError } from "../../value-objects/ValidationError";
+import { LosslessNumber } from "../../value-objects/LosslessNumber";
+
+const parseInChunks = (
+	input: string,
+	size: number,
+	options: ParseOptions = {},
+) => {
+	const parser = createJsonStreamParser(options);
+	for (let start = 0; start < input.length; start += size) {
+		const result = parser.push(input.slice(start, start + size));
+		if (!result.ok) {
+			return result;
+		}
+	}
+	return parser.end();
+};
+
+describe("createJsonStreamParser", () => {
+	it("should parse text split anywhere like JSON.parse", () => {
+		const input =
+			'{\r\n  "a": [1, -2.5e+3, true, false, null],\n  "b\\"\\u00e9\\n": {"c": ""},\n  "d": []\n}';
+
+		for (let size = 1; size <= input.length; size++) {
+			const result = parseInChunks(input, size);
+
+			expect(result.ok && result.value).toEqual(JSON.parse(input));
+		}
+	});
+
+	it("should report errors like the syntax tree parser", () => {
+		const inputs = [
+			'{"a": 1,}',
+			"[1, ]",
+			'{"a" 1}',
+			"[1 2]",
+			"[01]",
+			"[-]",
+			"[tru]",
+			'{"a": "b\nc"}',
+			'["a\tb"]',
+			'"\\x"',
+			'"\\u12G4"',
+			'{"a": [1}',
+			"[1]\n x",
+			'{"a": "b',
+			"[1,\r\n",
+		];
+
+		for (const input of inputs) {
+			const expected = parseSyntaxTree(input, "json");
+			const result = parseInChunks(input, 2);
+
+			expect(result.ok).toBe(false);
+			expect(expected.ok).toBe(false);
+			if (!result.ok && !expected.ok) {
+				expect(result.error.getMessage()).toBe(expected.error.getMessage());
+				expect(result.error.getPosition()).toEqual(
+					expected.error.getPosition(),
+				);
+			}
+		}
+	});
+
+	it("should treat whitespace-only text as empty", () => {
+		const result = parseInChunks(" \n ", 1);
+
+		expect(!result.ok && result.error.getType()).toBe("empty");
+	});
+
+	it("should report duplicate keys and keep the last value", () => {
+		const warnings: ValidationError[] = [];
+		const result = parseInChunks('[{"a": 1},\n {"a": 1, "a": 2}]', 3, {
+			onWarning: (warning) => warnings.push(warning),
+		});
+
+		expect(result.ok && result.value).toEqual([{ a: 1 }, { a: 2 }]);
+		expect(warnings.map((warning) => warning.getDuplicateKeyPath())).toEqual([
+			["1", "a"],
+		]);
+		expect(warnings[0].getPosition()).toEqual({
+			line: 2,
+			column: 11,
+			offset: 21,
+		});
+	});
+
+	it("should read lossless numbers", () => {
+		const result = parseInChunks("[9007199254740993]", 5, {
+			losslessNumbers: true,
+		});
+
+		expect(result.ok && String(result.value)).toBe("9007199254740993");
+		expect(
+			result.ok &&
+				Array.isArray(result.value) &&
+				LosslessNumber.isLosslessNumber(result.value[0]),
+		).toBe(true);
+	});
+
+	it("should not be limited by the call stack", () => {
+		const depth = 100_000;
+		const result = parseInChunks(
+			"[".repeat(depth) + "]".repeat(depth),
+			64 * 1024,
+		);
+
+		expect(result.ok).toBe(true);
+	});
+});
@@ -0,0 +1,320 @@
+import { describe, it, expect } from "vitest";
+import {
+	parseStrictJson,
+	parseSyntaxTree,
+	printSyntaxTree,
+	toJsonValue,
+} from "../jsonSyntax";
+import { formatJson } from "../formatter";
+import { parseJson } from "../parser";
+import type { JsonDialect, SourceLocation } from "../../types/json";
+import type { ValidationError } from "../../value-objects/ValidationError";
+import { DEFAULT_FORMAT_SETTINGS } from "../../types/diff";
+
+const parse = (input: string, dialect: JsonDialect) => {
+	const result = parseSyntaxTree(input, dialect);
+	if (!result.ok) {
+		throw new Error(result.error.getMessage());
+	}
+	return toJsonValue(result.value.root.value);
+};
+
+const parseError = (input: string, dialect: JsonDialect) => {
+	const result = parseSyntaxTree(input, dialect);
+	return result.ok ? undefined : result.error.getMessage();
+};
+
+describe("parseSyntaxTree", () => {
+	it("should parse strict JSON like JSON.parse", () => {
+		const input =
+			'{"a":[1,-2.5e3,true,false,null],"b":{"c":"\\u00e9\\n\\"\\/"},"__proto__":1}';
+
+		expect(parse(input, "json")).toEqual(JSON.parse(input));
+		expect(parse(input, "jsonc")).toEqual(JSON.parse(input));
+		expect(parse(input, "json5")).toEqual(JSON.parse(input));
+		expect(Object.keys(parse(input, "json") as object)).toContain("__proto__");
+	});
+
+	it("should keep the last of duplicate keys", () => {
+		expect(parse('{"a":1,"b":2,"a":3}', "jsonc")).toEqual({ a: 3, b: 2 });
+	});
+
+	it("should accept comments and trailing commas in JSONC", () => {
+		const input = `// tsconfig
+{
+	/* compiler */
+	"compilerOptions": {
+		"strict": true, // always
+		"paths": { "@/*": ["src/*",], },
+	},
+}
+`;
+
+		expect(parse(input, "jsonc")).toEqual({
+			compilerOptions: { strict: true, paths: { "@/*": ["src/*"] } },
+		});
+		expect(parseError(input, "json")).toMatch(
+			/^Expected a value but found "\/"/,
+		);
+	});
+
+	it("should reject JSON5 syntax in JSONC", () => {
+		expect(parseError("{a: 1}", "jsonc")).toBe(
+			'Expected a property name but found "a" at line 1, column 2',
+		);
+		expect(parseError("['a']", "jsonc")).toBeDefined();
+		expect(parseError("0x10", "jsonc")).toBeDefined();
+	});
+
+	it("should accept JSON5 syntax", () => {
+		const input = `{
+	unquoted: 'single \\'quoted\\'',
+	$id_1: "line \\
+continued",
+	hex: 0xFF,
+	signs: [+1, -.5, 5., -0x10],
+	special: [Infinity, -Infinity, NaN],
+	escapes: '\\x41\\v\\0\\q',
+}`;
+
+		expect(parse(input, "json5")).toEqual({
+			unquoted: "single 'quoted'",
+			$id_1: "line continued",
+			hex: 255,
+			signs: [1, -0.5, 5, -16],
+			special: [Number.POSITIVE_INFINITY, Number.NEGATIVE_INFINITY, Number.NaN],
+			escapes: "A\v\0q",
+		});
+	});
+
+	it("should report the location of syntax errors", () => {
+		expect(parseError('{\n  "a": 1,\n  "b" 2\n}', "jsonc")).toBe(
+			'Expected ":" but found "2" at line 3, column 7',
+		);
+		expect(parseError("[1, 2", "json5")).toBe(
+			'Expected "," or "]" but found end of input at line 1, column 6',
+		);
+		expect(parseError('{"a": 1} /* open', "jsonc")).toBe(
+			"Unterminated comment at line 1, column 10",
+		);
+		expect(parseError("[1,]", "json")).toBe(
+			"Trailing comma at line 1, column 4",
+		);
+	});
+
+	it("should keep the position and the expected token in the details", () => {
+		const result = parseSyntaxTree('{\n  "a": 1\n  "b": 2\n}', "json");
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.getDetails()).toEqual({
+				line: 3,
+				column: 3,
+				offset: 13,
+				expected: '"," or "}"',
+				found: '"\\""',
+			});
+			expect(result.error.getPosition()).toEqual({
+				line: 3,
+				column: 3,
+				offset: 13,
+			});
+		}
+	});
+});
+
+describe("parseStrictJson", () => {
+	it("should parse valid JSON with JSON.parse", () => {
+		const result = parseStrictJson('{"a": [1, "x"]}');
+
+		expect(result.ok && result.value).toEqual({ a: [1, "x"] });
+	});
+
+	it("should locate errors independently of the engine", () => {
+		const result = parseStrictJson("[1, 2,\n  3 4]");
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.getMessage()).toBe(
+				'Expected "," or "]" but found "4" at line 2, column 5',
+			);
+			expect(result.error.getPosition()).toEqual({
+				line: 2,
+				column: 5,
+				offset: 11,
+			});
+		}
+	});
+});
+
+describe("duplicate keys", () => {
+	const warningsOf = (input: string, dialect: JsonDialect) => {
+		const warnings: ValidationError[] = [];
+		const result = parseJson(input, dialect, {
+			onWarning: (warning) => warnings.push(warning),
+		});
+		return { result, warnings };
+	};
+
+	it("should keep the last value and report where the key repeats", () => {
+		for (const dialect of ["json", "jsonc", "json5"] as const) {
+			const { result, warnings } = warningsOf(
+				'{"a": [{"b": 1,\n "b": 2}], "a": [{"b": 3}]}',
+				dialect,
+			);
+
+			expect(result.ok && result.value).toEqual({ a: [{ b: 3 }] });
+			expect(
+				warnings.map((warning) => [
+					warning.getDuplicateKeyPath(),
+					warning.getPosition(),
+				]),
+			).toEqual([
+				[["a", "0", "b"], { line: 2, column: 2, offset: 17 }],
+				[["a"], { line: 2, column: 12, offset: 27 }],
+			]);
+		}
+	});
+
+	it("should not report keys repeated in different objects", () => {
+		const { warnings } = warningsOf(
+			'[{"a": 1}, {"a": 1, "b": {"a": ":"}}]',
+			"json",
+		);
+
+		expect(warnings).toEqual([]);
+	});
+
+	it("should reject duplicate keys when strict", () => {
+		const result = parseStrictJson('{"a": 1, "a": 2}', { strict: true });
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.getType()).toBe("duplicate-key");
+			expect(result.error.getMessage()).toBe(
+				'Duplicate key "a" at line 1, column 10',
+			);
+		}
+	});
+});
+
+describe("source locations", () => {
+	const locationsOf = (input: string, dialect: JsonDialect) => {
+		const locations: Record<string, SourceLocation> = {};
+		parseJson(input, dialect, {
+			onLocation: (path, location) => {
+				locations[path.join(".")] = location;
+			},
+		});
+		return locations;
+	};
+
+	it("should locate every value by its path", () => {
+		for (const dialect of ["json", "jsonc", "json5"] as const) {
+			const input = '{\n  "a": [1, {"b": true}],\n  "c": "x"\n}';
+			const locations = locationsOf(input, dialect);
+
+			expect(locations).toEqual({
+				"": { line: 1, column: 1, range: [0, input.length] },
+				a: { line: 2, column: 8, range: [9, 25] },
+				"a.0": { line: 2, column: 9, range: [10, 11] },
+				"a.1": { line: 2, column: 12, range: [13, 24] },
+				"a.1.b": { line: 2, column: 18, range: [19, 23] },
+				c: { line: 3, column: 8, range: [34, 37] },
+			});
+			expect(input.slice(...locations["a.1"].range)).toBe('{"b": true}');
+		}
+	});
+
+	it("should locate the last of duplicate keys", () => {
+		const locations = locationsOf('{"a": 1,\r\n"a": 22}', "json");
+
+		expect(locations.a).toEqual({ line: 2, column: 6, range: [15, 17] });
+	});
+});
+
+describe("printSyntaxTree", () => {
+	const format = (input: string, dialect: JsonDialect = "jsonc") => {
+		const result = parseSyntaxTree(input, dialect);
+		if (!result.ok) {
+			throw new Error(result.error.getMessage());
+		}
+		return printSyntaxTree(result.value, DEFAULT_FORMAT_SETTINGS);
+	};
+
+	it("should print like JSON.stringify when there are no comments", () => {
+		const value = { a: [1, { b: null }, []], c: {}, d: "x" };
+
+		expect(format(JSON.stringify(value))).toBe(JSON.stringify(value, null, 2));
+	});
+
+	it("should keep comments next to the values they describe", () => {
+		const input = `// header
+{"a": 1, // one
+/* before b */ "b": [
+  2 /* two */,
+  // end of b
+],
+// end of object
+} // after root
+// footer`;
+
+		expect(format(input)).toBe(`// header
+{
+  "a": 1, // one
+  /* before b */
+  "b": [
+    2 /* two */
+    // end of b
+  ]
+  // end of object
+} // after root
+// footer`);
+	});
+
+	it("should print JSON5 values as JSONC", () => {
+		expect(format("{a: 'x', b: 0x10, c: Infinity,}", "json5")).toBe(
+			'{\n  "a": "x",\n  "b": 16,\n  "c": Infinity\n}',
+		);
+	});
+
+	it("should print its own output unchanged", () => {
+		const input = `{
+  // comment
+  "a": [1, 2,], /* trailing */
+  "b": {/* empty */},
+}`;
+		const once = format(input);
+
+		expect(format(once)).toBe(once);
+	});
+});
+
+describe("formatJson with dialects", () => {
+	it("should sort keys together with their comments", () => {
+		const result = formatJson(
+			'{\n  // about b\n  "b": 1,\n  "a": 2 // about a\n}',
+			{ indent: 4, sortKeys: true },
+			"jsonc",
+		);
+
+		expect(result).toEqual({
+			ok: true,
+			value: '{\n    "a": 2, // about a\n    // about b\n    "b": 1\n}',
+		});
+	});
+
+	it("should reject comments in strict JSON", () => {
+		expect(formatJson("{} // x", DEFAULT_FORMAT_SETTINGS).ok).toBe(false);
+	});
+});
+
+describe("parseJson with dialects", () => {
+	it("should drop comments from the parsed value", () => {
+		expect(parseJson('{"a": 1 /* x */}', "jsonc")).toEqual({
+			ok: true,
+			value: { a: 1 },
+		});
+		expect(parseJson('{"a": 1 /* x */}').ok).toBe(false);
+	});
+});
@@ -0,0 +1,281 @@
+import { describe, it, expect } from "vitest";
+import { resolveConflicts, threeWayMerge } from "../merge";
+import { DEFAULT_COMPARE_SETTINGS } from "../../types/diff";
+import type { CompareSettings } from "../../types/diff";
+import type { JsonValue } from "../../types/json";
+
+const merge = (
+	base: JsonValue,
+	ours: JsonValue,
+	theirs: JsonValue,
+	settings: Partial<CompareSettings> = {},
+) =>
+	threeWayMerge(base, ours, theirs, {
+		...DEFAULT_COMPARE_SETTINGS,
+		...settings,
+	});
+
+describe("threeWayMerge", () => {
+	it("should combine changes made to different members", () => {
+		const result = merge(
+			{ name: "app", port: 80, debug: false, nested: { a: 1, b: 1 } },
+			{ name: "app", port: 8080, debug: false, nested: { a: 2, b: 1 } },
+			{ name: "app", port: 80, nested: { a: 1, b: 1, c: 3 }, log: "info" },
+		);
+
+		expect(result).toEqual({
+			merged: {
+				name: "app",
+				port: 8080,
+				nested: { a: 2, b: 1, c: 3 },
+				log: "info",
+			},
+			conflicts: [],
+		});
+	});
+
+	it("should accept the same change made on both sides", () => {
+		const result = merge(
+			{ a: 1, list: [1] },
+			{ a: 2, list: [1, 2] },
+			{
+				a: 2,
+				list: [1, 2],
+			},
+		);
+
+		expect(result).toEqual({ merged: { a: 2, list: [1, 2] }, conflicts: [] });
+	});
+
+	it("should report different changes to the same member as a conflict", () => {
+		const result = merge({ a: 1, b: 1 }, { a: 2, b: 1 }, { a: 3, b: 2 });
+
+		expect(result.merged).toEqual({ a: 2, b: 2 });
+		expect(result.conflicts).toEqual([
+			{
+				type: "conflict",
+				path: ["a"],
+				baseValue: 1,
+				oursValue: 2,
+				theirsValue: 3,
+			},
+		]);
+	});
+
+	it("should report a change against a removal as a conflict", () => {
+		const result = merge({ a: { b: 1 } }, { a: { b: 2 } }, {});
+
+		expect(result.conflicts).toEqual([
+			{
+				type: "conflict",
+				path: ["a"],
+				baseValue: { b: 1 },
+				oursValue: { b: 2 },
+			},
+		]);
+	});
+
+	it("should report members added with different values as a conflict", () => {
+		const result = merge({}, { a: { x: 1 } }, { a: { y: 1 } });
+
+		expect(result.conflicts.map((conflict) => conflict.path)).toEqual([["a"]]);
+	});
+
+	it("should merge changes to different items of an array", () => {
+		const result = merge(
+			{
+				users: [
+					{ id: 1, role: "user" },
+					{ id: 2, role: "user" },
+				],
+			},
+			{
+				users: [
+					{ id: 1, role: "admin" },
+					{ id: 2, role: "user" },
+				],
+			},
+			{
+				users: [
+					{ id: 1, role: "user" },
+					{ id: 2, role: "owner" },
+				],
+			},
+		);
+
+		expect(result).toEqual({
+			merged: {
+				users: [
+					{ id: 1, role: "admin" },
+					{ id: 2, role: "owner" },
+				],
+			},
+			conflicts: [],
+		});
+	});
+
+	it("should take arrays restructured on one side only", () => {
+		const result = merge(
+			{ list: [1, 2, 3] },
+			{ list: [0, 1, 2, 3] },
+			{
+				list: [1, 2, 3],
+				other: true,
+			},
+		);
+
+		expect(result).toEqual({
+			merged: { list: [0, 1, 2, 3], other: true },
+			conflicts: [],
+		});
+	});
+
+	it("should merge items added on one side with items changed on the other", () => {
+		const result = merge(
+			{
+				hosts: [
+					{ name: "a", port: 80 },
+					{ name: "b", port: 80 },
+				],
+			},
+			{
+				hosts: [
+					{ name: "a", port: 80 },
+					{ name: "b", port: 80 },
+					{ name: "c", port: 80 },
+				],
+			},
+			{
+				hosts: [
+					{ name: "a", port: 80 },
+					{ name: "b", port: 8080 },
+				],
+			},
+		);
+
+		expect(result).toEqual({
+			merged: {
+				hosts: [
+					{ name: "a", port: 80 },
+					{ name: "b", port: 8080 },
+					{ name: "c", port: 80 },
+				],
+			},
+			conflicts: [],
+		});
+	});
+
+	it("should locate conflicts inside items at their merged index", () => {
+		const result = merge(
+			{ list: [{ n: 1 }, { n: 2 }] },
+			{ list: [{ n: 0 }, { n: 1 }, { n: 3 }] },
+			{ list: [{ n: 1 }, { n: 4 }] },
+		);
+
+		expect(result.conflicts.map((conflict) => conflict.path)).toEqual([
+			["list", "2", "n"],
+		]);
+		expect(resolveConflicts(result, [{ type: "theirs" }])).toEqual({
+			list: [{ n: 0 }, { n: 1 }, { n: 4 }],
+		});
+	});
+
+	it("should merge items matched by key", () => {
+		const result = merge(
+			{
+				users: [
+					{ id: 1, role: "user" },
+					{ id: 2, role: "user" },
+				],
+			},
+			{ users: [{ id: 2, role: "admin" }] },
+			{
+				users: [
+					{ id: 1, role: "user" },
+					{ id: 2, role: "user" },
+					{ id: 3, role: "user" },
+				],
+			},
+			{ keyField: "id" },
+		);
+
+		expect(result).toEqual({
+			merged: {
+				users: [
+					{ id: 2, role: "admin" },
+					{ id: 3, role: "user" },
+				],
+			},
+			conflicts: [],
+		});
+	});
+
+	it("should report overlapping changes to array items as a conflict", () => {
+		const inserted = merge(
+			{ list: [1, 2] },
+			{ list: [0, 1, 2] },
+			{ list: [-1, 1, 2] },
+		);
+		const removed = merge(
+			{ list: [{ n: 1 }, { n: 2 }] },
+			{ list: [{ n: 2 }] },
+			{ list: [{ n: 1, x: true }, { n: 2 }] },
+		);
+		const reordered = merge(
+			{ list: [{ id: 1 }, { id: 2 }, { id: 3 }] },
+			{ list: [{ id: 2 }, { id: 1 }, { id: 3 }] },
+			{ list: [{ id: 1 }, { id: 2 }] },
+			{ keyField: "id" },
+		);
+
+		for (const result of [inserted, removed, reordered]) {
+			expect(result.conflicts.map((conflict) => conflict.path)).toEqual([
+				["list"],
+			]);
+		}
+		expect(inserted.merged).toEqual({ list: [0, 1, 2] });
+	});
+
+	it("should not count changes to ignored paths", () => {
+		const result = merge(
+			{ value: 1, updatedAt: "t0" },
+			{ value: 2, updatedAt: "t1" },
+			{ value: 1, updatedAt: "t2" },
+			{ ignorePaths: ["$.updatedAt"] },
+		);
+
+		expect(result).toEqual({
+			merged: { value: 2, updatedAt: "t1" },
+			conflicts: [],
+		});
+	});
+});
+
+describe("resolveConflicts", () => {
+	const result = merge(
+		{ a: 1, b: { c: 1 }, d: [1] },
+		{ a: 2, b: { c: 2 }, d: [1, 2] },
+		{ a: 3, d: [1, 3] },
+	);
+
+	it("should keep ours for conflicts without a choice", () => {
+		expect(result.conflicts).toHaveLength(3);
+		expect(resolveConflicts(result, [])).toEqual(result.merged);
+	});
+
+	it("should apply the chosen values", () => {
+		expect(
+			resolveConflicts(result, [
+				{ type: "theirs" },
+				{ type: "theirs" },
+				{ type: "edit", value: [0, 1, 2] },
+			]),
+		).toEqual({ a: 3, d: [0, 1, 2] });
+	});
+
+	it("should not mutate the merge result", () => {
+		resolveConflicts(result, [{ type: "theirs" }, null, null]);
+
+		expect(result.merged).toEqual({ a: 2, b: { c: 2 }, d: [1, 2] });
+	});
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect } from "vitest";
+import { applyMergePatch, generateMergePatch } from "../mergePatch";
+import { computeDiff } from "../differ";
+import { formatDiff } from "../formatter";
+import { DiffResult } from "../../entities/DiffResult";
+import { DEFAULT_COMPARE_SETTINGS } from "../../types/diff";
+import type { CompareSettings } from "../../types/diff";
+import type { JsonValue } from "../../types/json";
+
+const mergePatchOf = (
+	left: JsonValue,
+	right: JsonValue,
+	settings: Partial<CompareSettings> = {},
+) =>
+	generateMergePatch(
+		computeDiff(left, right, { ...DEFAULT_COMPARE_SETTINGS, ...settings }),
+	);
+
+const expectRoundTrip = (
+	left: JsonValue,
+	right: JsonValue,
+	settings: Partial<CompareSettings> = {},
+) => {
+	const { patch } = mergePatchOf(left, right, settings);
+	expect(applyMergePatch(left, patch)).toEqual(right);
+};
+
+describe("applyMergePatch", () => {
+	// Examples from RFC 7396, Appendix A
+	it.each<[JsonValue, JsonValue, JsonValue]>([
+		[{ a: "b" }, { a: "c" }, { a: "c" }],
+		[{ a: "b" }, { b: "c" }, { a: "b", b: "c" }],
+		[{ a: "b" }, { a: null }, {}],
+		[{ a: "b", b: "c" }, { a: null }, { b: "c" }],
+		[{ a: ["b"] }, { a: "c" }, { a: "c" }],
+		[{ a: "c" }, { a: ["b"] }, { a: ["b"] }],
+		[{ a: { b: "c" } }, { a: { b: "d", c: null } }, { a: { b: "d" } }],
+		[{ a: [{ b: "c" }] }, { a: [1] }, { a: [1] }],
+		[
+			["a", "b"],
+			["c", "d"],
+			["c", "d"],
+		],
+		[{ a: "b" }, ["c"], ["c"]],
+		[{ a: "foo" }, null, null],
+		[{ a: "foo" }, "bar", "bar"],
+		[{ e: null }, { a: 1 }, { e: null, a: 1 }],
+		[[1, 2], { a: "b", c: null }, { a: "b" }],
+		[{}, { a: { bb: { ccc: null } } }, { a: { bb: {} } }],
+	])("should merge %j with %j", (target, patch, expected) => {
+		expect(applyMergePatch(target, patch)).toEqual(expected);
+	});
+
+	it("should not mutate the target", () => {
+		const target = { a: { b: 1 } };
+
+		applyMergePatch(target, { a: { b: null, c: 2 } });
+
+		expect(target).toEqual({ a: { b: 1 } });
+	});
+});
+
+describe("generateMergePatch", () => {
+	it("should set changed members and remove deleted ones with null", () => {
+		const result = mergePatchOf(
+			{ name: "Alice", age: 30, role: "user", address: { city: "Paris" } },
+			{ name: "Alice", age: 31, email: "a@b.c", address: { city: "Lyon" } },
+		);
+
+		expect(result.patch).toEqual({
+			age: 31,
+			role: null,
+			email: "a@b.c",
+			address: { city: "Lyon" },
+		});
+		expect(result.warnings).toEqual([]);
+	});
+
+	it("should return an empty patch for equal documents", () => {
+		expect(mergePatchOf({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual({
+			patch: {},
+			warnings: [],
+		});
+	});
+
+	it("should replace the outermost array around changed items", () => {
+		const result = mergePatchOf(
+			{ users: [{ id: 1, tags: ["a"] }, { id: 2 }], name: "x" },
+			{ users: [{ id: 1, tags: ["b"] }, { id: 2 }], name: "x" },
+		);
+
+		expect(result.patch).toEqual({
+			users: [{ id: 1, tags: ["b"] }, { id: 2 }],
+		});
+		expect(result.warnings).toEqual([
+			expect.objectContaining({ type: "array-replaced", path: ["users"] }),
+		]);
+	});
+
+	it("should leave out members set to null and warn", () => {
+		const result = mergePatchOf(
+			{ a: 1, b: { c: 2 } },
+			{ a: null, b: { c: 2 }, d: { e: null, f: 1 } },
+		);
+
+		expect(result.patch).toEqual({ d: { e: null, f: 1 } });
+		expect(result.warnings.map((warning) => warning.path)).toEqual([
+			["a"],
+			["d", "e"],
+		]);
+		expect(result.warnings.every((w) => w.type === "null-value")).toBe(true);
+	});
+
+	it("should keep nulls inside replaced arrays", () => {
+		const result = mergePatchOf({ items: [1] }, { items: [1, null] });
+
+		expect(result.patch).toEqual({ items: [1, null] });
+		expect(result.warnings.map((warning) => warning.type)).toEqual([
+			"array-replaced",
+		]);
+	});
+
+	it("should replace the whole document when its type changes", () => {
+		expect(mergePatchOf({ a: 1 }, [1]).patch).toEqual([1]);
+		expect(mergePatchOf("text", null).patch).toBe(null);
+	});
+
+	describe("round trip", () => {
+		const left: JsonValue = {
+			name: "Alice",
+			tags: ["a", "b", "c", "d"],
+			users: [
+				{ id: 1, name: "One", roles: ["admin"] },
+				{ id: 2, name: "Two", roles: [] },
+				{ id: 3, name: "Three", roles: ["user", "guest"], meta: { x: 1 } },
+			],
+			matrix: [
+				[1, 2],
+				[3, 4],
+			],
+			settings: { theme: "dark", removed: true },
+		};
+		const right: JsonValue = {
+			name: "Bob",
+			tags: ["d", "a", "x", "c"],
+			users: [
+				{ id: 3, name: "Three", roles: ["guest"], meta: {} },
+				{ id: 4, name: "Four", roles: [] },
+				{ id: 1, name: "Uno", roles: ["admin", "owner"] },
+			],
+			matrix: [[3, 4], [1], []],
+			settings: { theme: "light", added: [1] },
+		};
+
+		it.each<[string, Partial<CompareSettings>]>([
+			["lcs", {}],
+			["index", { arrayDiffAlgorithm: "index" }],
+			["unordered", { ignoreArrayOrder: true }],
+			["keyed", { ignoreArrayOrder: true, keyField: "id" }],
+		])("should turn left into right (%s)", (_, settings) => {
+			expectRoundTrip(left, right, settings);
+			expectRoundTrip(right, left, settings);
+		});
+
+		it("should rebuild array items whose content was only removed", () => {
+			expectRoundTrip([{ a: { b: 1 } }, 2], [{ a: {} }, 2]);
+			expectRoundTrip({ list: [[1, 2], 3] }, { list: [[], 3] });
+			expectRoundTrip([{ a: { c: 1 } }, {}, true], [{}, { b: 1 }, {}, true], {
+				arrayDiffAlgorithm: "index",
+			});
+		});
+
+		it("should keep documents that are not objects", () => {
+			expectRoundTrip([1, 2], [1, 2]);
+			expectRoundTrip([{ a: 1 }], [{ a: 1 }]);
+			expectRoundTrip(3, 3);
+			expectRoundTrip("text", "text");
+			expectRoundTrip(null, null);
+		});
+
+		it("should move subtrees between object members", () => {
+			const left: JsonValue = { a: { x: 1, y: 2 }, k: 1 };
+			const right: JsonValue = { b: { x: 1, y: 2 }, k: 1 };
+
+			expect(mergePatchOf(left, right)).toEqual({
+				patch: { a: null, b: { x: 1, y: 2 } },
+				warnings: [],
+			});
+			expectRoundTrip(left, right);
+			expectRoundTrip(
+				{ list: [{ x: 1, y: 2 }, 3] },
+				{ list: [3], item: { x: 1, y: 2 } },
+			);
+			expectRoundTrip(
+				{ item: { x: 1, y: 2 }, list: [3] },
+				{ list: [3, { x: 1, y: 2 }] },
+			);
+		});
+
+		it("should rebuild both arrays of items moved between them", () => {
+			expectRoundTrip(
+				{ from: [{ a: 1 }, { b: 2 }], to: [] },
+				{ from: [{ b: 2 }], to: [{ a: 1 }] },
+			);
+		});
+	});
+});
+
+describe("exported JSON Merge Patch", () => {
+	it("should turn the left document into the right one", () => {
+		const left: JsonValue = { name: "Alice", tags: ["a"], role: "user" };
+		const right: JsonValue = { name: "Alice", tags: ["a", "b"] };
+		const diff = DiffResult.fromEntries(
+			computeDiff(left, right, DEFAULT_COMPARE_SETTINGS),
+			"left",
+			"right",
+			DEFAULT_COMPARE_SETTINGS,
+		).toObject();
+
+		const patch = JSON.parse(formatDiff(diff, "merge-patch"));
+		expect(applyMergePatch(left, patch)).toEqual(right);
+	});
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { createNdjsonParser, parseNdjson } from "../ndjson";
+import { detectDialect, parseJson } from "../parser";
+import { formatJson } from "../formatter";
+import type { SourceLocation } from "../../types/json";
+import type { ValidationError } from "../../value-objects/ValidationError";
+
+describe("parseNdjson", () => {
+	it("should read one record per line and skip blank lines", () => {
+		const result = parseNdjson('{"id":1}\r\n\n{"id":2}\n  \n[3]\n');
+
+		expect(result.ok && result.value).toEqual([{ id: 1 }, { id: 2 }, [3]]);
+	});
+
+	it("should locate a parse error in the whole text", () => {
+		const result = parseNdjson('{"id":1}\n\n{"id":\n');
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.getMessage()).toBe(
+				"Expected a value but found end of input at line 3, column 7",
+			);
+			expect(result.error.getPosition()).toEqual({
+				line: 3,
+				column: 7,
+				offset: 16,
+			});
+		}
+	});
+
+	it("should locate values in the whole text", () => {
+		const locations: Record<string, SourceLocation> = {};
+		parseNdjson('{"id":1}\n\n{"id":2}', {
+			onLocation: (path, location) => {
+				locations[path.join(".")] = location;
+			},
+		});
+
+		expect(locations["1"]).toEqual({ line: 3, column: 1, range: [10, 18] });
+		expect(locations["1.id"]).toEqual({ line: 3, column: 7, range: [16, 17] });
+	});
+
+	it("should be used by parseJson for the ndjson dialect", () => {
+		const result = parseJson('{"a":1}\n{"a":2}', "ndjson");
+
+		expect(result.ok && result.value).toEqual([{ a: 1 }, { a: 2 }]);
+	});
+
+	it("should be detected from pasted text", () => {
+		expect(detectDialect('{"a":1}\n{"a":2}\n')).toBe("ndjson");
+		expect(detectDialect('{"a":1}\n')).toBe("json");
+	});
+});
+
+describe("createNdjsonParser", () => {
+	it("should join lines split across chunks", () => {
+		const parser = createNdjsonParser();
+
+		expect(parser.push('{"na').ok).toBe(true);
+		expect(parser.push('me":"a"}\n{"name"').ok).toBe(true);
+		expect(parser.push(':"b"}').ok).toBe(true);
+
+		const result = parser.end();
+		expect(result.ok && result.value).toEqual([{ name: "a" }, { name: "b" }]);
+	});
+
+	it("should count lines across chunks", () => {
+		const parser = createNdjsonParser();
+		parser.push("1\n2\n");
+
+		const result = parser.push("3\nx\n");
+		expect(!result.ok && result.error.getPosition()).toEqual({
+			line: 4,
+			column: 1,
+			offset: 6,
+		});
+	});
+});
+
+describe("duplicate keys in NDJSON", () => {
+	it("should locate duplicate keys in the whole text", () => {
+		const warnings: ValidationError[] = [];
+		const result = parseNdjson('{"a": 1}\n{"a": 1, "a": 2}', {
+			onWarning: (warning) => warnings.push(warning),
+		});
+
+		expect(result.ok && result.value).toEqual([{ a: 1 }, { a: 2 }]);
+		expect(warnings.map((warning) => warning.getDuplicateKeyPath())).toEqual([
+			["1", "a"],
+		]);
+		expect(warnings[0].getPosition()).toEqual({
+			line: 2,
+			column: 10,
+			offset: 18,
+		});
+	});
+});
+
+describe("formatJson with ndjson", () => {
+	it("should keep one compact record per line", () => {
+		const result = formatJson(
+			'{ "b": 1, "a": [1, 2] }\n\n{"c": null}',
+			{ indent: 2, sortKeys: true },
+			"ndjson",
+		);
+
+		expect(result.ok && result.value).toBe('{"a":[1,2],"b":1}\n{"c":null}');
+	});
+});
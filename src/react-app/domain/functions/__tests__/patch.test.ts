@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import { applyPatch, parsePatch } from "../patch";
+import { computeDiff } from "../differ";
+import { formatDiff } from "../formatter";
+import { DiffResult } from "../../entities/DiffResult";
+import { DEFAULT_COMPARE_SETTINGS } from "../../types/diff";
+import type { JsonValue } from "../../types/json";
+import type { JsonPatch } from "../../types/patch";
+
+describe("applyPatch", () => {
+	const document: JsonValue = {
+		name: "Alice",
+		tags: ["a", "b", "c"],
+		address: { city: "Paris" },
+	};
+
+	it("should add object members and array items", () => {
+		const result = applyPatch(document, [
+			{ op: "add", path: "/age", value: 30 },
+			{ op: "add", path: "/tags/1", value: "x" },
+			{ op: "add", path: "/tags/-", value: "z" },
+		]);
+
+		expect(result).toEqual({
+			ok: true,
+			value: {
+				name: "Alice",
+				tags: ["a", "x", "b", "c", "z"],
+				address: { city: "Paris" },
+				age: 30,
+			},
+		});
+	});
+
+	it("should remove and replace values", () => {
+		const result = applyPatch(document, [
+			{ op: "remove", path: "/tags/0" },
+			{ op: "replace", path: "/address/city", value: "Lyon" },
+		]);
+
+		expect(result).toEqual({
+			ok: true,
+			value: {
+				name: "Alice",
+				tags: ["b", "c"],
+				address: { city: "Lyon" },
+			},
+		});
+	});
+
+	it("should move and copy values", () => {
+		const result = applyPatch(document, [
+			{ op: "copy", from: "/name", path: "/address/owner" },
+			{ op: "move", from: "/tags/0", path: "/tags/-" },
+		]);
+
+		expect(result).toEqual({
+			ok: true,
+			value: {
+				name: "Alice",
+				tags: ["b", "c", "a"],
+				address: { city: "Paris", owner: "Alice" },
+			},
+		});
+	});
+
+	it("should pass tests of structurally equal values", () => {
+		const result = applyPatch(document, [
+			{ op: "test", path: "/address", value: { city: "Paris" } },
+		]);
+
+		expect(result).toEqual({ ok: true, value: document });
+	});
+
+	it("should replace the whole document at the root pointer", () => {
+		expect(
+			applyPatch(document, [{ op: "replace", path: "", value: 1 }]),
+		).toEqual({ ok: true, value: 1 });
+	});
+
+	it("should unescape pointer tokens", () => {
+		const result = applyPatch({ "a/b": { "m~n": 1 } }, [
+			{ op: "replace", path: "/a~1b/m~0n", value: 2 },
+		]);
+
+		expect(result).toEqual({ ok: true, value: { "a/b": { "m~n": 2 } } });
+	});
+
+	it("should not mutate the input document", () => {
+		const input = { items: [1, 2] };
+
+		applyPatch(input, [{ op: "add", path: "/items/-", value: 3 }]);
+
+		expect(input).toEqual({ items: [1, 2] });
+	});
+
+	it("should report a failed test with the operation index", () => {
+		const result = applyPatch(document, [
+			{ op: "add", path: "/age", value: 30 },
+			{ op: "test", path: "/name", value: "Bob" },
+		]);
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.type).toBe("test-failed");
+			expect(result.error.index).toBe(1);
+		}
+	});
+
+	it.each<[string, JsonPatch, string]>([
+		["missing member", [{ op: "remove", path: "/missing" }], "path-not-found"],
+		[
+			"out of bounds index",
+			[{ op: "replace", path: "/tags/3", value: 1 }],
+			"path-not-found",
+		],
+		[
+			"leading zero index",
+			[{ op: "add", path: "/tags/01", value: 1 }],
+			"invalid-path",
+		],
+		["pointer without slash", [{ op: "remove", path: "name" }], "invalid-path"],
+		["root removal", [{ op: "remove", path: "" }], "invalid-path"],
+		[
+			"move into own child",
+			[{ op: "move", from: "/address", path: "/address/inner" }],
+			"invalid-path",
+		],
+		[
+			"add below a primitive",
+			[{ op: "add", path: "/name/first", value: "A" }],
+			"invalid-path",
+		],
+	])("should reject %s", (_, patch, type) => {
+		const result = applyPatch(document, patch);
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.type).toBe(type);
+			expect(result.error.index).toBe(0);
+		}
+	});
+});
+
+describe("parsePatch", () => {
+	it("should accept valid operations", () => {
+		const result = parsePatch([
+			{ op: "add", path: "/a", value: null },
+			{ op: "copy", from: "/a", path: "/b" },
+		]);
+
+		expect(result).toEqual({
+			ok: true,
+			value: [
+				{ op: "add", path: "/a", value: null },
+				{ op: "copy", from: "/a", path: "/b" },
+			],
+		});
+	});
+
+	it("should reject malformed operations", () => {
+		expect(parsePatch({ op: "add" }).ok).toBe(false);
+
+		const result = parsePatch([
+			{ op: "remove", path: "/a" },
+			{ op: "replace", path: "/b" },
+		]);
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.type).toBe("invalid-operation");
+			expect(result.error.index).toBe(1);
+		}
+	});
+
+	it("should reject unknown operations", () => {
+		const result = parsePatch([{ op: "merge", path: "/a" }]);
+
+		expect(result.ok).toBe(false);
+	});
+});
+
+describe("exported JSON Patch", () => {
+	it("should turn the left document into the right one", () => {
+		const left: JsonValue = { name: "Alice", age: 30, role: "user" };
+		const right: JsonValue = { name: "Alice", age: 31, email: "a@b.c" };
+		const diff = DiffResult.fromEntries(
+			computeDiff(left, right, DEFAULT_COMPARE_SETTINGS),
+			"left",
+			"right",
+			DEFAULT_COMPARE_SETTINGS,
+		).toObject();
+
+		const patch = parsePatch(JSON.parse(formatDiff(diff, "json-patch")));
+		expect(patch.ok).toBe(true);
+		if (patch.ok) {
+			expect(applyPatch(left, patch.value)).toEqual({ ok: true, value: right });
+		}
+	});
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import { generatePatch } from "../patchGenerator";
+import { applyPatch } from "../patch";
+import { computeDiff } from "../differ";
+import { DEFAULT_COMPARE_SETTINGS } from "../../types/diff";
+import type { CompareSettings } from "../../types/diff";
+import type { JsonValue } from "../../types/json";
+
+const patchOf = (
+	left: JsonValue,
+	right: JsonValue,
+	settings: Partial<CompareSettings> = {},
+) =>
+	generatePatch(
+		computeDiff(left, right, { ...DEFAULT_COMPARE_SETTINGS, ...settings }),
+	);
+
+const expectRoundTrip = (
+	left: JsonValue,
+	right: JsonValue,
+	settings: Partial<CompareSettings> = {},
+) => {
+	expect(applyPatch(left, patchOf(left, right, settings))).toEqual({
+		ok: true,
+		value: right,
+	});
+};
+
+describe("generatePatch", () => {
+	describe("pointers", () => {
+		it("should escape '~' and '/' in keys", () => {
+			const patch = patchOf(
+				{ "a/b": 1, "m~n": 1, "~1": 1 },
+				{ "a/b": 2, "m~n": 2, "~1": 2 },
+			);
+
+			expect(patch.map((op) => op.path)).toEqual(["/a~1b", "/m~0n", "/~01"]);
+		});
+
+		it("should round-trip keys that look like pointers", () => {
+			expectRoundTrip(
+				{ "/": { "~": [1, 2] }, "": "empty" },
+				{ "/": { "~": [2] }, "": "still empty", "~0": true },
+			);
+		});
+	});
+
+	describe("array operations", () => {
+		it("should remove items from the highest index down", () => {
+			const patch = patchOf({ items: [1, 2, 3, 4] }, { items: [1, 4] });
+
+			expect(patch).toEqual([
+				{ op: "remove", path: "/items/2" },
+				{ op: "remove", path: "/items/1" },
+			]);
+		});
+
+		it("should add items at increasing indices", () => {
+			const patch = patchOf({ items: [1, 4] }, { items: [1, 2, 3, 4] });
+
+			expect(patch).toEqual([
+				{ op: "add", path: "/items/1", value: 2 },
+				{ op: "add", path: "/items/2", value: 3 },
+			]);
+		});
+
+		it("should use shifted indices for changes after removals", () => {
+			const patch = patchOf(
+				{ items: ["a", "b", { n: 1 }] },
+				{ items: ["b", { n: 2 }] },
+			);
+
+			expect(patch).toEqual([
+				{ op: "remove", path: "/items/0" },
+				{ op: "replace", path: "/items/1/n", value: 2 },
+			]);
+		});
+
+		it("should move items to their new index", () => {
+			const patch = patchOf(
+				[{ id: 1 }, { id: 2 }, { id: 3 }],
+				[{ id: 3 }, { id: 1 }, { id: 2 }],
+			);
+
+			expect(patch).toEqual([{ op: "move", from: "/2", path: "/0" }]);
+		});
+	});
+
+	describe("round trip", () => {
+		const left: JsonValue = {
+			name: "Alice",
+			tags: ["a", "b", "c", "d"],
+			users: [
+				{ id: 1, name: "One", roles: ["admin"] },
+				{ id: 2, name: "Two", roles: [] },
+				{ id: 3, name: "Three", roles: ["user", "guest"] },
+			],
+			matrix: [
+				[1, 2],
+				[3, 4],
+			],
+			empty: {},
+		};
+		const right: JsonValue = {
+			name: "Bob",
+			tags: ["d", "a", "x", "c"],
+			users: [
+				{ id: 3, name: "Three", roles: ["guest"] },
+				{ id: 4, name: "Four", roles: [] },
+				{ id: 1, name: "Uno", roles: ["admin", "owner"] },
+			],
+			matrix: [[3, 4], [1], []],
+			empty: { now: "filled" },
+			extra: [{ nested: true }],
+		};
+
+		it.each<[string, Partial<CompareSettings>]>([
+			["lcs", {}],
+			["lcs without moves", { detectMoves: false }],
+			["index", { arrayDiffAlgorithm: "index" }],
+			["unordered", { ignoreArrayOrder: true }],
+			["keyed", { ignoreArrayOrder: true, keyField: "id" }],
+			[
+				"keyed without moves",
+				{ ignoreArrayOrder: true, keyField: "id", detectMoves: false },
+			],
+		])("should turn left into right (%s)", (_, settings) => {
+			expectRoundTrip(left, right, settings);
+			expectRoundTrip(right, left, settings);
+		});
+
+		it("should round-trip subtrees moved between containers", () => {
+			expectRoundTrip(
+				{ from: [{ a: 1 }, { b: 2 }], to: [] },
+				{ from: [{ b: 2 }], to: [{ a: 1 }] },
+			);
+			expectRoundTrip(
+				{ first: { deep: { x: [1, 2] } }, second: [0] },
+				{ first: {}, second: [0, { x: [1, 2] }] },
+			);
+		});
+
+		it("should round-trip values replaced by another type", () => {
+			expectRoundTrip({ a: [1, 2], b: { c: 1 } }, { a: { c: 1 }, b: "text" });
+			expectRoundTrip([1, 2], { 0: 1 });
+		});
+
+		it("should round-trip objects with index-like keys", () => {
+			expectRoundTrip({ 0: "a", 1: "b", 5: "c" }, { 0: "a", 3: "x", 5: "c" });
+			expectRoundTrip({ 10: "a", 20: "b" }, { 20: "b", 30: "c" });
+		});
+
+		it("should patch objects with numeric keys as objects", () => {
+			expect(patchOf({ 0: "a", 1: "b" }, { 1: "b" })).toEqual([
+				{ op: "remove", path: "/0" },
+			]);
+			expectRoundTrip({ 0: "a", 1: "b", 2: "c" }, { 1: "b", 2: "x" });
+			expectRoundTrip({ list: { 0: [1], 1: [2] } }, { list: { 1: [2, 3] } });
+		});
+
+		it("should round-trip reversed arrays", () => {
+			const items = Array.from({ length: 50 }, (_, i) => ({ id: i }));
+
+			expectRoundTrip(items, [...items].reverse());
+			expectRoundTrip(items, [...items].reverse(), { ignoreArrayOrder: true });
+		});
+	});
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { diffStrings, getEntryStringDiff } from "../stringDiff";
+
+describe("diffStrings", () => {
+	it("should highlight changed words", () => {
+		const segments = diffStrings(
+			"SELECT id FROM users WHERE active = 1",
+			"SELECT id, name FROM users WHERE active = 0",
+		);
+
+		expect(segments).toEqual([
+			{ type: "equal", text: "SELECT id" },
+			{ type: "insert", text: ", name" },
+			{ type: "equal", text: " FROM users WHERE active = " },
+			{ type: "delete", text: "1" },
+			{ type: "insert", text: "0" },
+		]);
+	});
+
+	it("should diff characters of strings without whitespace", () => {
+		const segments = diffStrings("aGVsbG8=", "aGVsbG9=");
+
+		expect(segments).toEqual([
+			{ type: "equal", text: "aGVsbG" },
+			{ type: "delete", text: "8" },
+			{ type: "insert", text: "9" },
+			{ type: "equal", text: "=" },
+		]);
+	});
+
+	it("should reconstruct both strings from the segments", () => {
+		const left = "The quick brown fox jumps over the lazy dog.";
+		const right = "A quick red fox jumped over the dog!";
+
+		const segments = diffStrings(left, right);
+
+		expect(
+			segments
+				.filter((s) => s.type !== "insert")
+				.map((s) => s.text)
+				.join(""),
+		).toBe(left);
+		expect(
+			segments
+				.filter((s) => s.type !== "delete")
+				.map((s) => s.text)
+				.join(""),
+		).toBe(right);
+	});
+});
+
+describe("getEntryStringDiff", () => {
+	it("should only diff modified entries with string values", () => {
+		expect(
+			getEntryStringDiff({
+				type: "modified",
+				path: ["a"],
+				leftValue: 1,
+				rightValue: "1",
+			}),
+		).toBeNull();
+		expect(
+			getEntryStringDiff({
+				type: "modified",
+				path: ["a"],
+				leftValue: "ab",
+				rightValue: "ac",
+			}),
+		).toHaveLength(3);
+	});
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from "vitest";
+import { parse } from "yaml";
+import { formatYaml, parseYaml, stringifyYaml } from "../yaml";
+import { detectDialect, parseJson } from "../parser";
+import { formatDiff, formatJson } from "../formatter";
+import type { SourceLocation } from "../../types/json";
+import type { ValidationError } from "../../value-objects/ValidationError";
+import { computeDiff } from "../differ";
+import { DiffResult } from "../../entities/DiffResult";
+import {
+	DEFAULT_COMPARE_SETTINGS,
+	DEFAULT_FORMAT_SETTINGS,
+} from "../../types/diff";
+
+describe("parseYaml", () => {
+	it("should parse a YAML document into a JsonValue", () => {
+		const input = `# deployment
+apiVersion: apps/v1
+kind: Deployment
+spec:
+  replicas: 3
+  paused: false
+  selector: ~
+  containers:
+    - name: web
+      ports: [80, 443]
+`;
+
+		const result = parseYaml(input);
+
+		expect(result.ok && result.value).toEqual({
+			apiVersion: "apps/v1",
+			kind: "Deployment",
+			spec: {
+				replicas: 3,
+				paused: false,
+				selector: null,
+				containers: [{ name: "web", ports: [80, 443] }],
+			},
+		});
+	});
+
+	it("should read a multi-document stream as an array", () => {
+		const result = parseYaml("---\nkind: Service\n---\nkind: Deployment\n");
+
+		expect(result.ok && result.value).toEqual([
+			{ kind: "Service" },
+			{ kind: "Deployment" },
+		]);
+	});
+
+	it("should keep timestamps as strings", () => {
+		const result = parseYaml("date: 2001-12-14\n");
+
+		expect(result.ok && result.value).toEqual({ date: "2001-12-14" });
+	});
+
+	it("should report syntax errors with their position", () => {
+		const result = parseYaml("a: b: c\n");
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.getType()).toBe("parse");
+			expect(result.error.getMessage()).toMatch(/at line 1, column 4$/);
+			expect(result.error.getPosition()).toEqual({
+				line: 1,
+				column: 4,
+				offset: 3,
+			});
+		}
+	});
+
+	it("should report duplicate keys and keep the last value", () => {
+		const warnings: ValidationError[] = [];
+		const result = parseYaml("---\nb:\n  a: 1\n  a: 2\n---\nc: 3\n", {
+			onWarning: (warning) => warnings.push(warning),
+		});
+
+		expect(result.ok && result.value).toEqual([{ b: { a: 2 } }, { c: 3 }]);
+		expect(warnings.map((warning) => warning.getDuplicateKeyPath())).toEqual([
+			["0", "b", "a"],
+		]);
+		expect(warnings[0].getPosition()).toEqual({
+			line: 4,
+			column: 3,
+			offset: 16,
+		});
+	});
+
+	it("should reject duplicate keys when strict", () => {
+		const result = parseYaml("a: 1\na: 2\n", { strict: true });
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.getType()).toBe("duplicate-key");
+		}
+	});
+
+	it("should locate values by their path", () => {
+		const locations: Record<string, SourceLocation> = {};
+		parseYaml("a:\n  - 1\n  - b: x\n", {
+			onLocation: (path, location) => {
+				locations[path.join(".")] = location;
+			},
+		});
+
+		expect(locations["a.0"]).toEqual({ line: 2, column: 5, range: [7, 8] });
+		expect(locations["a.1.b"]).toEqual({
+			line: 3,
+			column: 8,
+			range: [16, 17],
+		});
+	});
+
+	it("should treat a stream of only comments as empty", () => {
+		const result = parseYaml("# nothing here\n");
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.getType()).toBe("empty");
+		}
+	});
+
+	it("should be used by parseJson for the yaml dialect", () => {
+		const result = parseJson("a: [1, 2]", "yaml");
+
+		expect(result.ok && result.value).toEqual({ a: [1, 2] });
+	});
+});
+
+describe("formatYaml", () => {
+	it("should reindent and keep comments", () => {
+		const result = formatYaml("a:\n  # note\n  b: 1\n", {
+			indent: 4,
+			sortKeys: false,
+		});
+
+		expect(result.ok && result.value).toBe("a:\n    # note\n    b: 1\n");
+	});
+
+	it("should sort keys of every document", () => {
+		const result = formatYaml("b: 1\na: {d: 1, c: 2}\n---\nz: 1\ny: 2\n", {
+			indent: 2,
+			sortKeys: true,
+		});
+
+		expect(result.ok && result.value).toBe(
+			"a: { c: 2, d: 1 }\nb: 1\n---\ny: 2\nz: 1\n",
+		);
+	});
+
+	it("should be used by formatJson for the yaml dialect", () => {
+		const result = formatJson("a:   1", DEFAULT_FORMAT_SETTINGS, "yaml");
+
+		expect(result.ok && result.value).toBe("a: 1\n");
+	});
+});
+
+describe("stringifyYaml", () => {
+	it("should round-trip values", () => {
+		const value = { a: [1, { b: null }], c: "x: y", d: true };
+
+		expect(parse(stringifyYaml(value))).toEqual(value);
+		expect(stringifyYaml(value)).toBe(
+			'a:\n  - 1\n  - b: null\nc: "x: y"\nd: true\n',
+		);
+	});
+});
+
+describe("detectDialect", () => {
+	it("should prefer the most restrictive JSON dialect", () => {
+		expect(detectDialect('{"a": 1}')).toBe("json");
+		expect(detectDialect('{"a": 1, // note\n}')).toBe("jsonc");
+		expect(detectDialect("{a: 'b'}")).toBe("json5");
+	});
+
+	it("should detect YAML mappings, sequences and streams", () => {
+		expect(detectDialect("a: 1\nb: 2\n")).toBe("yaml");
+		expect(detectDialect("- a\n- b\n")).toBe("yaml");
+		expect(detectDialect("---\na\n---\nb\n")).toBe("yaml");
+	});
+
+	it("should not guess for a lone scalar or empty text", () => {
+		expect(detectDialect('{"a": ')).toBeUndefined();
+		expect(detectDialect("just some words")).toBeUndefined();
+		expect(detectDialect("  ")).toBeUndefined();
+	});
+});
+
+describe("formatDiff as YAML", () => {
+	it("should export the same content as JSON", () => {
+		const diffResult = DiffResult.fromEntries(
+			computeDiff({ a: 1 }, { a: 2 }, DEFAULT_COMPARE_SETTINGS),
+			"left",
+			"right",
+			DEFAULT_COMPARE_SETTINGS,
+		).toObject();
+
+		expect(parse(formatDiff(diffResult, "yaml"))).toEqual(
+			JSON.parse(formatDiff(diffResult, "json")),
+		);
+	});
+});
@@ -0,0 +1,102 @@
+import type { JsonValue } from "../types/json";
+import { isJsonArray } from "../types/json";
+import type { Result } from "../types/result";
+import { ok, err } from "../types/result";
+import { ValidationError } from "../value-objects/ValidationError";
+import { LosslessNumber } from "../value-objects/LosslessNumber";
+
+/**
+ * Serializes a value with the JSON Canonicalization Scheme (RFC 8785)
+ *
+ * Object keys are sorted by their UTF-16 code units, numbers are written as
+ * ECMAScript writes doubles and strings with the minimal escaping of
+ * `JSON.stringify`; there is no whitespace. LosslessNumbers are written as
+ * their nearest double, so equal documents canonicalize to the same text
+ * whether their numbers were read losslessly or not. Numbers beyond the
+ * range of doubles are rejected.
+ */
+export const canonicalizeJson = (
+	value: JsonValue,
+): Result<string, ValidationError> => {
+	const parts: string[] = [];
+
+	const write = (value: JsonValue) => {
+		if (value === null || typeof value === "boolean") {
+			parts.push(String(value));
+		} else if (typeof value === "string") {
+			parts.push(JSON.stringify(value));
+		} else if (
+			typeof value === "number" ||
+			LosslessNumber.isLosslessNumber(value)
+		) {
+			const number = Number(value);
+			if (!Number.isFinite(number)) {
+				throw ValidationError.invalidJson(
+					`Number ${value} cannot be written as canonical JSON`,
+				);
+			}
+			// String(-0) is "0", as the scheme requires
+			parts.push(String(number));
+		} else if (isJsonArray(value)) {
+			parts.push("[");
+			value.forEach((item, index) => {
+				if (index > 0) {
+					parts.push(",");
+				}
+				write(item);
+			});
+			parts.push("]");
+		} else {
+			parts.push("{");
+			// The default sort compares UTF-16 code units
+			const keys = Object.keys(value).sort();
+			for (const [index, key] of keys.entries()) {
+				if (index > 0) {
+					parts.push(",");
+				}
+				parts.push(JSON.stringify(key), ":");
+				write(value[key]);
+			}
+			parts.push("}");
+		}
+	};
+
+	try {
+		write(value);
+		return ok(parts.join(""));
+	} catch (e) {
+		if (e instanceof ValidationError) {
+			return err(e);
+		}
+		throw e;
+	}
+};
+
+/**
+ * Returns the hex SHA-256 digest of the canonical JSON of a value
+ *
+ * Values with equal digests are byte-identical when canonicalized.
+ *
+ * @throws {Error} Outside of secure contexts, where browsers do not offer
+ * `crypto.subtle`
+ */
+export const computeCanonicalDigest = async (
+	value: JsonValue,
+): Promise<Result<string, ValidationError>> => {
+	if (!globalThis.crypto?.subtle) {
+		throw new Error("SHA-256 is only available on HTTPS or localhost");
+	}
+	const canonical = canonicalizeJson(value);
+	if (!canonical.ok) {
+		return canonical;
+	}
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(canonical.value),
+	);
+	return ok(
+		Array.from(new Uint8Array(digest), (byte) =>
+			byte.toString(16).padStart(2, "0"),
+		).join(""),
+	);
+};
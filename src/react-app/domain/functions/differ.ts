@@ -1,6 +1,53 @@
 import type { JsonValue, JsonObject, JsonArray } from "../types/json";
-import { isJsonObject, isJsonArray, isJsonPrimitive } from "../types/json";
-import type { DiffEntry, CompareSettings } from "../types/diff";
+import {
+	isJsonObject,
+	isJsonArray,
+	isJsonNumber,
+	isJsonPrimitive,
+} from "../types/json";
+import type { DiffEntry, DiffWarning, CompareSettings } from "../types/diff";
+import { alignSequences } from "./sequence";
+import { computeSimilarity, pairBySimilarity } from "./similarity";
+import { structuralHash } from "./structuralHash";
+import { extractItemKey, formatKeyField, getKeyPaths } from "./keyField";
+import { JsonPathPattern } from "../value-objects/JsonPathPattern";
+import { LosslessNumber } from "../value-objects/LosslessNumber";
+import { memoize } from "../../shared/memoize";
+
+/**
+ * Output of a diff computation
+ */
+export interface DiffOutput {
+	readonly entries: readonly DiffEntry[];
+	readonly warnings: readonly DiffWarning[];
+}
+
+/**
+ * Location of a pair of values being compared
+ *
+ * `path` is the human-readable path reported in entries; `leftPath` and
+ * `rightPath` are the index-based locations in each document, with the
+ * positions of their array index segments.
+ */
+interface DiffLocation {
+	readonly path: readonly string[];
+	readonly leftPath: readonly string[];
+	readonly rightPath: readonly string[];
+	readonly leftIndexSegments: readonly number[];
+	readonly rightIndexSegments: readonly number[];
+}
+
+/**
+ * Returns the location of an entry in the left document
+ */
+export const getLeftPath = (entry: DiffEntry): readonly string[] =>
+	entry.leftPath ?? entry.fromPath ?? entry.path;
+
+/**
+ * Returns the location of an entry in the right document
+ */
+export const getRightPath = (entry: DiffEntry): readonly string[] =>
+	entry.rightPath ?? entry.path;
 
 /**
  * Computes the diff between two JSON values
@@ -11,19 +58,69 @@ export const computeDiff = (
 	settings: CompareSettings,
 	path: readonly string[] = [],
 ): readonly DiffEntry[] => {
+	return computeDiffWithWarnings(left, right, settings, path).entries;
+};
+
+/**
+ * Computes the diff between two JSON values, collecting non-fatal warnings
+ * such as array items with missing or duplicate keys
+ */
+export const computeDiffWithWarnings = (
+	left: JsonValue,
+	right: JsonValue,
+	settings: CompareSettings,
+	path: readonly string[] = [],
+): DiffOutput => {
+	const warnings: DiffWarning[] = [];
+	const location: DiffLocation = {
+		path,
+		leftPath: path,
+		rightPath: path,
+		leftIndexSegments: [],
+		rightIndexSegments: [],
+	};
+	const entries = markIgnoredEntries(
+		diffValues(left, right, settings, location, warnings),
+		settings,
+	);
+
+	return {
+		entries: settings.detectMoves ? detectSubtreeMoves(entries) : entries,
+		warnings,
+	};
+};
+
+/**
+ * Recursively diffs two JSON values
+ */
+const diffValues = (
+	left: JsonValue,
+	right: JsonValue,
+	inheritedSettings: CompareSettings,
+	location: DiffLocation,
+	warnings: DiffWarning[],
+): readonly DiffEntry[] => {
+	// Skip ignored subtrees
+	if (isIgnoredPath(location.path, inheritedSettings)) {
+		return [createIgnoredEntry(location, left, right)];
+	}
+
+	// Apply per-path rules; the result is inherited by the whole subtree
+	const settings = applyRules(location.path, inheritedSettings);
+
 	// Handle null/undefined equivalence
 	if (settings.treatNullAsUndefined) {
 		if (
 			(left === null || left === undefined) &&
 			(right === null || right === undefined)
 		) {
-			return [createUnchangedEntry(path, left, right)];
+			return [createUnchangedEntry(location, left, right)];
 		}
 	}
 
 	// Handle primitives
 	if (isJsonPrimitive(left) && isJsonPrimitive(right)) {
-		return comparePrimitives(left, right, settings, path);
+		return comparePrimitives(left, right, settings, location);
 	}
 
 	// Handle type mismatch
@@ -31,49 +128,98 @@ export const computeDiff = (
 		typeof left !== typeof right ||
 		Array.isArray(left) !== Array.isArray(right)
 	) {
-		return [createModifiedEntry(path, left, right)];
+		return [createModifiedEntry(location, left, right)];
+	}
+
+	// Empty containers have no children to report, so report them as a whole
+	if (isEmptyContainer(left) && isEmptyContainer(right)) {
+		return [createUnchangedEntry(location, left, right)];
 	}
 
 	// Handle objects
 	if (isJsonObject(left) && isJsonObject(right)) {
-		return compareObjects(left, right, settings, path);
+		return collapseUnchanged(
+			compareObjects(left, right, settings, location, warnings),
+			settings,
+			location,
+			left,
+			right,
+		);
 	}
 
 	// Handle arrays
 	if (isJsonArray(left) && isJsonArray(right)) {
-		return compareArrays(left, right, settings, path);
+		return collapseUnchanged(
+			compareArrays(left, right, settings, location, warnings),
+			settings,
+			location,
+			left,
+			right,
+		);
 	}
 
 	// Fallback: treat as modified
-	return [createModifiedEntry(path, left, right)];
+	return [createModifiedEntry(location, left, right)];
+};
+
+/**
+ * Replaces the entries of an unchanged container with a single entry when
+ * `settings.collapseUnchanged` is set
+ */
+const collapseUnchanged = (
+	entries: readonly DiffEntry[],
+	settings: CompareSettings,
+	location: DiffLocation,
+	left: JsonValue,
+	right: JsonValue,
+): readonly DiffEntry[] =>
+	settings.collapseUnchanged &&
+	entries.every((entry) => entry.type === "unchanged")
+		? [createUnchangedEntry(location, left, right)]
+		: entries;
+
+/**
+ * Appends entries one by one; spreading them into `push` overflows the call
+ * stack for large subtrees
+ */
+const appendEntries = (
+	entries: DiffEntry[],
+	childEntries: readonly DiffEntry[],
+): void => {
+	for (const entry of childEntries) {
+		entries.push(entry);
+	}
 };
 
 /**
  * Compares two primitive values
+ *
+ * LosslessNumbers compare as exact decimals, also under float tolerance.
  */
 const comparePrimitives = (
 	left: JsonValue,
 	right: JsonValue,
 	settings: CompareSettings,
-	path: readonly string[],
+	location: DiffLocation,
 ): readonly DiffEntry[] => {
-	// Handle float tolerance
-	if (
-		typeof left === "number" &&
-		typeof right === "number" &&
-		settings.floatTolerance !== undefined
-	) {
-		if (Math.abs(left - right) <= settings.floatTolerance) {
-			return [createUnchangedEntry(path, left, right)];
-		}
+	if (isJsonNumber(left) && isJsonNumber(right)) {
+		const isEqual =
+			settings.floatTolerance === undefined
+				? LosslessNumber.equals(left, right)
+				: LosslessNumber.isWithin(left, right, settings.floatTolerance);
+		return [
+			isEqual
+				? createUnchangedEntry(location, left, right)
+				: createModifiedEntry(location, left, right),
+		];
 	}
 
 	// Strict equality
 	if (left === right) {
-		return [createUnchangedEntry(path, left, right)];
+		return [createUnchangedEntry(location, left, right)];
 	}
 
-	return [createModifiedEntry(path, left, right)];
+	return [createModifiedEntry(location, left, right)];
 };
 
 /**
@@ -83,7 +229,8 @@ const compareObjects = (
 	left: JsonObject,
 	right: JsonObject,
 	settings: CompareSettings,
-	path: readonly string[],
+	location: DiffLocation,
+	warnings: DiffWarning[],
 ): readonly DiffEntry[] => {
 	const entries: DiffEntry[] = [];
 	const allKeys = new Set([...Object.keys(left), ...Object.keys(right)]);
@@ -91,17 +238,20 @@ const compareObjects = (
 	for (const key of allKeys) {
 		const leftValue = left[key];
 		const rightValue = right[key];
-		const newPath = [...path, key];
+		const keyLocation = childLocation(location, key);
 
 		if (!(key in left)) {
 			// Key only in right (added)
-			entries.push(createAddedEntry(newPath, rightValue));
+			entries.push(createAddedEntry(keyLocation, rightValue));
 		} else if (!(key in right)) {
 			// Key only in left (removed)
-			entries.push(createRemovedEntry(newPath, leftValue));
+			entries.push(createRemovedEntry(keyLocation, leftValue));
 		} else {
 			// Key in both, recurse
-			entries.push(...computeDiff(leftValue, rightValue, settings, newPath));
+			appendEntries(
+				entries,
+				diffValues(leftValue, rightValue, settings, keyLocation, warnings),
+			);
 		}
 	}
 
@@ -115,144 +265,779 @@ const compareArrays = (
 	left: JsonArray,
 	right: JsonArray,
 	settings: CompareSettings,
-	path: readonly string[],
+	location: DiffLocation,
+	warnings: DiffWarning[],
 ): readonly DiffEntry[] => {
 	if (settings.ignoreArrayOrder && settings.keyField) {
-		return compareArraysByKey(left, right, settings, path);
+		return compareArraysByKey(left, right, settings, location, warnings);
 	}
 
 	if (settings.ignoreArrayOrder) {
-		return compareArraysUnordered(left, right, settings, path);
+		return compareArraysUnordered(left, right, settings, location, warnings);
 	}
 
-	return compareArraysOrdered(left, right, settings, path);
+	return compareArraysOrdered(left, right, settings, location, warnings);
 };
 
 /**
- * Compares arrays in order (index-based)
+ * Compares arrays in order
  */
 const compareArraysOrdered = (
 	left: JsonArray,
 	right: JsonArray,
 	settings: CompareSettings,
-	path: readonly string[],
+	location: DiffLocation,
+	warnings: DiffWarning[],
+): readonly DiffEntry[] => {
+	if (settings.arrayDiffAlgorithm === "index") {
+		return compareArraysByIndex(left, right, settings, location, warnings);
+	}
+
+	return compareArraysByLcs(left, right, settings, location, warnings);
+};
+
+/**
+ * Compares arrays index by index
+ */
+const compareArraysByIndex = (
+	left: JsonArray,
+	right: JsonArray,
+	settings: CompareSettings,
+	location: DiffLocation,
+	warnings: DiffWarning[],
 ): readonly DiffEntry[] => {
 	const entries: DiffEntry[] = [];
 	const maxLength = Math.max(left.length, right.length);
 
 	for (let i = 0; i < maxLength; i++) {
-		const newPath = [...path, String(i)];
+		const itemLocation = indexLocation(location, i, i);
 
 		if (i >= left.length) {
 			// Item only in right (added)
-			entries.push(createAddedEntry(newPath, right[i]));
+			entries.push(createAddedEntry(itemLocation, right[i]));
 		} else if (i >= right.length) {
 			// Item only in left (removed)
-			entries.push(createRemovedEntry(newPath, left[i]));
+			entries.push(createRemovedEntry(itemLocation, left[i]));
 		} else {
 			// Both present, recurse
-			entries.push(...computeDiff(left[i], right[i], settings, newPath));
+			appendEntries(
+				entries,
+				diffValues(left[i], right[i], settings, itemLocation, warnings),
+			);
 		}
 	}
 
 	return entries;
 };
 
+/**
+ * Compares arrays using a longest common subsequence alignment
+ *
+ * Deleted and inserted items with identical values are reported as moves.
+ * Remaining deleted and inserted runs between two matched elements are
+ * paired up positionally and diffed recursively; unpaired items are reported
+ * as removed or added.
+ */
+const compareArraysByLcs = (
+	left: JsonArray,
+	right: JsonArray,
+	settings: CompareSettings,
+	location: DiffLocation,
+	warnings: DiffWarning[],
+): readonly DiffEntry[] => {
+	const leftKeys = left.map((item) => structuralHash(item));
+	const rightKeys = right.map((item) => structuralHash(item));
+
+	const ops = alignSequences(left.length, right.length, (i, j) =>
+		isJsonPrimitive(left[i]) && isJsonPrimitive(right[j])
+			? areValuesEqual(left[i], right[j], settings)
+			: leftKeys[i] === rightKeys[j],
+	);
+
+	// Pair deleted and inserted items with identical values as moves
+	const moveSources = new Map<number, number>();
+	const movedLeft = new Set<number>();
+	if (settings.detectMoves) {
+		const deletedByKey = new Map<string, number[]>();
+		for (const op of ops) {
+			if (op.type === "delete") {
+				const queue = deletedByKey.get(leftKeys[op.leftIndex]) ?? [];
+				queue.push(op.leftIndex);
+				deletedByKey.set(leftKeys[op.leftIndex], queue);
+			}
+		}
+		for (const op of ops) {
+			if (op.type === "insert") {
+				const source = deletedByKey.get(rightKeys[op.rightIndex])?.shift();
+				if (source !== undefined) {
+					moveSources.set(op.rightIndex, source);
+					movedLeft.add(source);
+				}
+			}
+		}
+	}
+
+	const entries: DiffEntry[] = [];
+	let deleted: number[] = [];
+	let inserted: number[] = [];
+
+	const flushHunk = () => {
+		const paired = Math.min(deleted.length, inserted.length);
+
+		for (let n = 0; n < paired; n++) {
+			const i = deleted[n];
+			const j = inserted[n];
+			appendEntries(
+				entries,
+				diffValues(
+					left[i],
+					right[j],
+					settings,
+					indexLocation(location, i, j),
+					warnings,
+				),
+			);
+		}
+		for (const i of deleted.slice(paired)) {
+			entries.push(createRemovedEntry(indexLocation(location, i, i), left[i]));
+		}
+		for (const j of inserted.slice(paired)) {
+			entries.push(createAddedEntry(indexLocation(location, j, j), right[j]));
+		}
+
+		deleted = [];
+		inserted = [];
+	};
+
+	for (const op of ops) {
+		if (op.type === "delete") {
+			if (!movedLeft.has(op.leftIndex)) {
+				deleted.push(op.leftIndex);
+			}
+		} else if (op.type === "insert") {
+			const source = moveSources.get(op.rightIndex);
+			if (source === undefined) {
+				inserted.push(op.rightIndex);
+			} else {
+				entries.push(
+					createMovedEntry(
+						indexLocation(location, source, source),
+						indexLocation(location, op.rightIndex, op.rightIndex),
+						left[source],
+						right[op.rightIndex],
+					),
+				);
+			}
+		} else {
+			flushHunk();
+			appendEntries(
+				entries,
+				diffValues(
+					left[op.leftIndex],
+					right[op.rightIndex],
+					settings,
+					indexLocation(location, op.leftIndex, op.rightIndex),
+					warnings,
+				),
+			);
+		}
+	}
+	flushHunk();
+
+	return entries;
+};
+
 /**
  * Compares arrays ignoring order (set-based comparison)
+ *
+ * Equal items are matched first through their structural hash, which keeps
+ * matching close to linear. Remaining items whose structural
+ * similarity reaches `settings.similarityThreshold` are paired best match
+ * first and diffed recursively; the rest are reported as removed or added.
+ *
+ * `leftPositions` and `rightPositions` map item indices to the indices
+ * reported in paths, for when only part of an array is compared.
  */
 const compareArraysUnordered = (
 	left: JsonArray,
 	right: JsonArray,
 	settings: CompareSettings,
-	path: readonly string[],
+	location: DiffLocation,
+	warnings: DiffWarning[],
+	leftPositions: readonly number[] = left.map((_, i) => i),
+	rightPositions: readonly number[] = right.map((_, i) => i),
 ): readonly DiffEntry[] => {
 	const entries: DiffEntry[] = [];
-	const rightCopy = [...right];
+	const exactMatches = new Map<number, number>();
+
+	// Bucket right items by hash; with a float tolerance, buckets only group
+	// candidates, which are then confirmed item by item
+	const buckets = new Map<string, number[]>();
+	right.forEach((item, j) => {
+		const hash = structuralHash(item, settings.floatTolerance);
+		const bucket = buckets.get(hash);
+		if (bucket) {
+			bucket.push(j);
+		} else {
+			buckets.set(hash, [j]);
+		}
+	});
 
-	// For each left item, try to find a match in right
+	// For each left item, take the first equal item of its bucket
 	for (let i = 0; i < left.length; i++) {
-		const leftItem = left[i];
-		const matchIndex = rightCopy.findIndex((rightItem) =>
-			areValuesEqual(leftItem, rightItem, settings),
+		const bucket = buckets.get(
+			structuralHash(left[i], settings.floatTolerance),
 		);
+		if (!bucket || bucket.length === 0) {
+			continue;
+		}
+		const matchIndex =
+			settings.floatTolerance === undefined
+				? 0
+				: bucket.findIndex((j) => areValuesEqual(left[i], right[j], settings));
+		if (matchIndex !== -1) {
+			const [j] = bucket.splice(matchIndex, 1);
+			exactMatches.set(i, j);
+		}
+	}
+
+	const matchedRight = new Set(exactMatches.values());
+	const unmatched = right.map((_, j) => j).filter((j) => !matchedRight.has(j));
+
+	// Pair the remaining containers by similarity
+	const leftRest = left
+		.map((_, i) => i)
+		.filter((i) => !exactMatches.has(i) && !isJsonPrimitive(left[i]));
+	const rightRest = unmatched.filter((j) => !isJsonPrimitive(right[j]));
+	const similarMatches = new Map<number, number>();
+	for (const [a, b] of pairBySimilarity(
+		leftRest.length,
+		rightRest.length,
+		(a, b) =>
+			computeSimilarity(left[leftRest[a]], right[rightRest[b]], (l, r) =>
+				areValuesEqual(l, r, settings),
+			),
+		settings.similarityThreshold,
+	)) {
+		similarMatches.set(leftRest[a], rightRest[b]);
+		matchedRight.add(rightRest[b]);
+	}
+
+	for (let i = 0; i < left.length; i++) {
+		const exact = exactMatches.get(i);
+		const similar = similarMatches.get(i);
 
-		if (matchIndex === -1) {
-			// No match found, item removed
-			entries.push(createRemovedEntry([...path, String(i)], leftItem));
+		if (exact !== undefined) {
+			entries.push(
+				createUnchangedEntry(
+					indexLocation(location, leftPositions[i], rightPositions[exact]),
+					left[i],
+					right[exact],
+				),
+			);
+		} else if (similar !== undefined) {
+			appendEntries(
+				entries,
+				diffValues(
+					left[i],
+					right[similar],
+					settings,
+					indexLocation(location, leftPositions[i], rightPositions[similar]),
+					warnings,
+				),
+			);
 		} else {
-			// Match found, remove from rightCopy and mark as unchanged
-			rightCopy.splice(matchIndex, 1);
 			entries.push(
-				createUnchangedEntry([...path, String(i)], leftItem, leftItem),
+				createRemovedEntry(
+					indexLocation(location, leftPositions[i], leftPositions[i]),
+					left[i],
+				),
 			);
 		}
 	}
 
-	// Remaining items in rightCopy are added
-	for (const rightItem of rightCopy) {
+	// Remaining unmatched right items are added
+	for (const j of unmatched) {
+		if (matchedRight.has(j)) {
+			continue;
+		}
 		entries.push(
-			createAddedEntry([...path, String(right.indexOf(rightItem))], rightItem),
+			createAddedEntry(
+				indexLocation(location, rightPositions[j], rightPositions[j]),
+				right[j],
+			),
 		);
 	}
 
 	return entries;
 };
 
+/**
+ * Array items indexed by key
+ */
+interface KeyedItems {
+	readonly items: Map<
+		string,
+		{ readonly index: number; readonly label: string }
+	>;
+	/** Indices of items without a usable key (missing or duplicate) */
+	readonly unkeyed: number[];
+}
+
+/**
+ * Indexes array items by key, recording warnings for missing and duplicate keys
+ *
+ * The first occurrence of a key wins; later duplicates and items without a
+ * key are left for the unordered fallback comparison.
+ */
+const indexItemsByKey = (
+	array: JsonArray,
+	keyPaths: readonly (readonly string[])[],
+	keyLabel: string,
+	side: "left" | "right",
+	arrayPath: readonly string[],
+	warnings: DiffWarning[],
+): KeyedItems => {
+	const items: KeyedItems["items"] = new Map();
+	const unkeyed: number[] = [];
+
+	array.forEach((item, index) => {
+		const itemPath = [...arrayPath, String(index)];
+		const key = extractItemKey(item, keyPaths);
+
+		if (!key) {
+			unkeyed.push(index);
+			warnings.push({
+				type: "missing-key",
+				side,
+				path: itemPath,
+				message: `Item has no key "${keyLabel}"; compared without key`,
+			});
+			return;
+		}
+
+		const existing = items.get(key.id);
+		if (existing) {
+			unkeyed.push(index);
+			warnings.push({
+				type: "duplicate-key",
+				side,
+				path: itemPath,
+				message: `Duplicate key "${key.label}" (first seen at index ${existing.index}); compared without key`,
+			});
+			return;
+		}
+
+		items.set(key.id, { index, label: key.label });
+	});
+
+	return { items, unkeyed };
+};
+
 /**
  * Compares arrays by a key field
+ *
+ * Matched items are reported under a key segment such as "id=42"; items
+ * whose relative order changed are reported as moves before their contents
+ * are compared. Items with a missing or duplicate key
+ * are compared ignoring order and reported as warnings.
  */
 const compareArraysByKey = (
 	left: JsonArray,
 	right: JsonArray,
 	settings: CompareSettings,
-	path: readonly string[],
+	location: DiffLocation,
+	warnings: DiffWarning[],
 ): readonly DiffEntry[] => {
 	if (!settings.keyField) {
-		return compareArraysUnordered(left, right, settings, path);
+		return compareArraysUnordered(left, right, settings, location, warnings);
 	}
 
 	const entries: DiffEntry[] = [];
-	const keyField = settings.keyField;
+	const keyPaths = getKeyPaths(settings.keyField);
+	const keyLabel = formatKeyField(settings.keyField);
+
+	const leftKeyed = indexItemsByKey(
+		left,
+		keyPaths,
+		keyLabel,
+		"left",
+		location.leftPath,
+		warnings,
+	);
+	const rightKeyed = indexItemsByKey(
+		right,
+		keyPaths,
+		keyLabel,
+		"right",
+		location.rightPath,
+		warnings,
+	);
+
+	const movedKeys = settings.detectMoves
+		? findReorderedKeys(leftKeyed.items, rightKeyed.items)
+		: new Set<string>();
+
+	// Compare by key
+	const allKeys = new Set([
+		...leftKeyed.items.keys(),
+		...rightKeyed.items.keys(),
+	]);
+
+	for (const key of allKeys) {
+		const leftMatch = leftKeyed.items.get(key);
+		const rightMatch = rightKeyed.items.get(key);
 
-	// Create maps by key
-	const leftMap = new Map<string, JsonValue>();
-	const rightMap = new Map<string, JsonValue>();
+		if (!leftMatch && rightMatch) {
+			entries.push(
+				createAddedEntry(
+					keyedLocation(
+						location,
+						rightMatch.label,
+						rightMatch.index,
+						rightMatch.index,
+					),
+					right[rightMatch.index],
+				),
+			);
+		} else if (leftMatch && !rightMatch) {
+			entries.push(
+				createRemovedEntry(
+					keyedLocation(
+						location,
+						leftMatch.label,
+						leftMatch.index,
+						leftMatch.index,
+					),
+					left[leftMatch.index],
+				),
+			);
+		} else if (leftMatch && rightMatch) {
+			const leftItem = left[leftMatch.index];
+			const rightItem = right[rightMatch.index];
+			const itemLocation = keyedLocation(
+				location,
+				leftMatch.label,
+				leftMatch.index,
+				rightMatch.index,
+			);
+			if (movedKeys.has(key)) {
+				entries.push(
+					createMovedEntry(itemLocation, itemLocation, leftItem, rightItem),
+				);
+			}
+			appendEntries(
+				entries,
+				diffValues(leftItem, rightItem, settings, itemLocation, warnings),
+			);
+		}
+	}
 
-	for (const item of left) {
-		if (isJsonObject(item) && keyField in item) {
-			leftMap.set(String(item[keyField]), item);
+	// Fall back to unordered comparison for items without a usable key
+	if (leftKeyed.unkeyed.length > 0 || rightKeyed.unkeyed.length > 0) {
+		appendEntries(
+			entries,
+			compareArraysUnordered(
+				leftKeyed.unkeyed.map((index) => left[index]),
+				rightKeyed.unkeyed.map((index) => right[index]),
+				settings,
+				location,
+				warnings,
+				leftKeyed.unkeyed,
+				rightKeyed.unkeyed,
+			),
+		);
+	}
+
+	return entries;
+};
+
+/**
+ * Finds keys present on both sides whose relative order changed
+ *
+ * The longest common subsequence of shared keys stays in place; every other
+ * shared key is considered moved.
+ */
+const findReorderedKeys = (
+	leftMap: ReadonlyMap<string, unknown>,
+	rightMap: ReadonlyMap<string, unknown>,
+): Set<string> => {
+	const leftOrder = [...leftMap.keys()].filter((key) => rightMap.has(key));
+	const rightOrder = [...rightMap.keys()].filter((key) => leftMap.has(key));
+
+	const ops = alignSequences(
+		leftOrder.length,
+		rightOrder.length,
+		(i, j) => leftOrder[i] === rightOrder[j],
+	);
+
+	const moved = new Set<string>();
+	for (const op of ops) {
+		if (op.type === "delete") {
+			moved.add(leftOrder[op.leftIndex]);
 		}
 	}
+	return moved;
+};
+
+/**
+ * Compiles a JSONPath-style ignore pattern (cached per pattern string)
+ */
+const compilePattern = memoize((pattern: string) =>
+	JsonPathPattern.fromString(pattern),
+);
+
+/**
+ * Checks if a path matches one of the ignore patterns
+ */
+const isIgnoredPath = (
+	path: readonly string[],
+	settings: CompareSettings,
+): boolean => {
+	return settings.ignorePaths.some(
+		(pattern) =>
+			pattern.trim().length > 0 && compilePattern(pattern).matches(path),
+	);
+};
 
-	for (const item of right) {
-		if (isJsonObject(item) && keyField in item) {
-			rightMap.set(String(item[keyField]), item);
+/**
+ * Returns the settings with every rule matching the path applied
+ *
+ * A rule that sets `keyField` without `ignoreArrayOrder` enables keyed
+ * matching for its subtree.
+ */
+export const applyRules = (
+	path: readonly string[],
+	settings: CompareSettings,
+): CompareSettings => {
+	let resolved = settings;
+
+	for (const rule of settings.rules) {
+		if (
+			rule.path.trim().length === 0 ||
+			!compilePattern(rule.path).matches(path)
+		) {
+			continue;
 		}
+		resolved = {
+			...resolved,
+			...(rule.keyField !== undefined && {
+				keyField: rule.keyField,
+				ignoreArrayOrder: true,
+			}),
+			...(rule.floatTolerance !== undefined && {
+				floatTolerance: rule.floatTolerance,
+			}),
+			...(rule.ignoreArrayOrder !== undefined && {
+				ignoreArrayOrder: rule.ignoreArrayOrder,
+			}),
+		};
 	}
 
-	// Compare by key
-	const allKeys = new Set([...leftMap.keys(), ...rightMap.keys()]);
+	return resolved;
+};
 
-	for (const key of allKeys) {
-		const leftItem = leftMap.get(key);
-		const rightItem = rightMap.get(key);
-		const newPath = [...path, key];
-
-		if (!leftItem && rightItem) {
-			entries.push(createAddedEntry(newPath, rightItem));
-		} else if (leftItem && !rightItem) {
-			entries.push(createRemovedEntry(newPath, leftItem));
-		} else if (leftItem && rightItem) {
-			entries.push(...computeDiff(leftItem, rightItem, settings, newPath));
+/**
+ * Converts added/removed/moved entries located at ignored paths
+ *
+ * Values present on both sides are already skipped during recursion; this
+ * covers keys and elements that exist on one side only.
+ */
+const markIgnoredEntries = (
+	entries: readonly DiffEntry[],
+	settings: CompareSettings,
+): readonly DiffEntry[] => {
+	if (settings.ignorePaths.length === 0) {
+		return entries;
+	}
+
+	return entries.map((entry) => {
+		if (entry.type === "ignored" || entry.type === "unchanged") {
+			return entry;
+		}
+		if (
+			isIgnoredPath(entry.path, settings) ||
+			(entry.fromPath !== undefined && isIgnoredPath(entry.fromPath, settings))
+		) {
+			return createIgnoredEntry(
+				locationOf(entry),
+				entry.leftValue,
+				entry.rightValue,
+			);
+		}
+		return entry;
+	});
+};
+
+/**
+ * Replaces removed/added pairs of identical subtrees with moved entries
+ *
+ * Only non-empty objects and arrays are matched so that coincidentally equal
+ * primitives elsewhere in the document are not reported as moves.
+ */
+const detectSubtreeMoves = (
+	entries: readonly DiffEntry[],
+): readonly DiffEntry[] => {
+	const removedByValue = new Map<string, number[]>();
+	entries.forEach((entry, index) => {
+		if (entry.type === "removed" && isMovableSubtree(entry.leftValue)) {
+			const key = structuralHash(entry.leftValue);
+			const queue = removedByValue.get(key) ?? [];
+			queue.push(index);
+			removedByValue.set(key, queue);
+		}
+	});
+
+	if (removedByValue.size === 0) {
+		return entries;
+	}
+
+	const movedFrom = new Map<number, DiffEntry>();
+	const consumed = new Set<number>();
+	entries.forEach((entry, index) => {
+		if (entry.type === "added" && isMovableSubtree(entry.rightValue)) {
+			const source = removedByValue
+				.get(structuralHash(entry.rightValue))
+				?.shift();
+			if (source !== undefined) {
+				movedFrom.set(index, entries[source]);
+				consumed.add(source);
+			}
 		}
+	});
+
+	if (consumed.size === 0) {
+		return entries;
 	}
 
-	return entries;
+	return entries.flatMap((entry, index) => {
+		if (consumed.has(index)) {
+			return [];
+		}
+		const source = movedFrom.get(index);
+		if (source?.leftValue !== undefined && entry.rightValue !== undefined) {
+			return [
+				createMovedEntry(
+					locationOf(source),
+					locationOf(entry),
+					source.leftValue,
+					entry.rightValue,
+				),
+			];
+		}
+		return [entry];
+	});
+};
+
+/**
+ * Checks if a value is a subtree worth reporting as a move
+ */
+const isMovableSubtree = (
+	value: JsonValue | undefined,
+): value is JsonObject | JsonArray => {
+	if (value === undefined || isJsonPrimitive(value)) {
+		return false;
+	}
+	return isJsonArray(value) ? value.length > 0 : Object.keys(value).length > 0;
 };
 
+/**
+ * Checks if a value is an empty array or object
+ */
+const isEmptyContainer = (value: JsonValue): boolean =>
+	!isJsonPrimitive(value) && !isMovableSubtree(value);
+
+/**
+ * Returns the location of an object property
+ */
+const childLocation = (location: DiffLocation, key: string): DiffLocation => ({
+	...location,
+	path: [...location.path, key],
+	leftPath: [...location.leftPath, key],
+	rightPath: [...location.rightPath, key],
+});
+
+/**
+ * Returns the location of an array item reported by index
+ *
+ * The human-readable path uses the left index when the item exists on the
+ * left side.
+ */
+const indexLocation = (
+	location: DiffLocation,
+	leftIndex: number,
+	rightIndex: number,
+): DiffLocation => ({
+	path: [...location.path, String(leftIndex)],
+	...itemPaths(location, leftIndex, rightIndex),
+});
+
+/**
+ * Returns the location of an array item matched by key
+ */
+const keyedLocation = (
+	location: DiffLocation,
+	label: string,
+	leftIndex: number,
+	rightIndex: number,
+): DiffLocation => ({
+	path: [...location.path, label],
+	...itemPaths(location, leftIndex, rightIndex),
+});
+
+/**
+ * Returns the index-based locations of an array item in each document
+ */
+const itemPaths = (
+	location: DiffLocation,
+	leftIndex: number,
+	rightIndex: number,
+): Omit<DiffLocation, "path"> => ({
+	leftPath: [...location.leftPath, String(leftIndex)],
+	rightPath: [...location.rightPath, String(rightIndex)],
+	leftIndexSegments: [...location.leftIndexSegments, location.leftPath.length],
+	rightIndexSegments: [
+		...location.rightIndexSegments,
+		location.rightPath.length,
+	],
+});
+
+/**
+ * Reconstructs the location of an existing entry
+ */
+const locationOf = (entry: DiffEntry): DiffLocation => ({
+	path: entry.path,
+	leftPath: getLeftPath(entry),
+	rightPath: getRightPath(entry),
+	leftIndexSegments: entry.leftIndexSegments ?? [],
+	rightIndexSegments: entry.rightIndexSegments ?? [],
+});
+
+/**
+ * Returns the array index segments of the left location, if there are any
+ */
+const leftIndexSegmentsOf = (
+	location: DiffLocation,
+): Pick<DiffEntry, "leftIndexSegments"> =>
+	location.leftIndexSegments.length > 0
+		? { leftIndexSegments: location.leftIndexSegments }
+		: {};
+
+/**
+ * Returns the array index segments of the right location, if there are any
+ */
+const rightIndexSegmentsOf = (
+	location: DiffLocation,
+): Pick<DiffEntry, "rightIndexSegments"> =>
+	location.rightIndexSegments.length > 0
+		? { rightIndexSegments: location.rightIndexSegments }
+		: {};
+
 /**
  * Checks if two values are equal according to settings
+ *
+ * Object key order is not significant. Float tolerance and null/undefined
+ * equivalence apply at any depth.
  */
 const areValuesEqual = (
 	left: JsonValue,
@@ -268,26 +1053,47 @@ const areValuesEqual = (
 		}
 	}
 
-	if (
-		typeof left === "number" &&
-		typeof right === "number" &&
-		settings.floatTolerance !== undefined
-	) {
-		return Math.abs(left - right) <= settings.floatTolerance;
+	if (settings.floatTolerance === undefined) {
+		return structuralHash(left) === structuralHash(right);
+	}
+
+	if (isJsonNumber(left) && isJsonNumber(right)) {
+		return LosslessNumber.isWithin(left, right, settings.floatTolerance);
+	}
+
+	// Tolerance applies at any depth, so containers are compared item by item
+	if (isJsonArray(left) && isJsonArray(right)) {
+		return (
+			left.length === right.length &&
+			left.every((item, i) => areValuesEqual(item, right[i], settings))
+		);
 	}
 
-	return JSON.stringify(left) === JSON.stringify(right);
+	if (isJsonObject(left) && isJsonObject(right)) {
+		const keys = Object.keys(left);
+		return (
+			keys.length === Object.keys(right).length &&
+			keys.every(
+				(key) =>
+					key in right && areValuesEqual(left[key], right[key], settings),
+			)
+		);
+	}
+
+	return left === right;
 };
 
 /**
  * Creates an added entry
  */
 const createAddedEntry = (
-	path: readonly string[],
+	location: DiffLocation,
 	value: JsonValue,
 ): DiffEntry => ({
 	type: "added",
-	path,
+	path: location.path,
+	rightPath: location.rightPath,
+	...rightIndexSegmentsOf(location),
 	rightValue: value,
 });
 
@@ -295,11 +1101,13 @@ const createAddedEntry = (
  * Creates a removed entry
  */
 const createRemovedEntry = (
-	path: readonly string[],
+	location: DiffLocation,
 	value: JsonValue,
 ): DiffEntry => ({
 	type: "removed",
-	path,
+	path: location.path,
+	leftPath: location.leftPath,
+	...leftIndexSegmentsOf(location),
 	leftValue: value,
 });
 
@@ -307,12 +1115,58 @@ const createRemovedEntry = (
  * Creates a modified entry
  */
 const createModifiedEntry = (
-	path: readonly string[],
+	location: DiffLocation,
 	leftValue: JsonValue,
 	rightValue: JsonValue,
 ): DiffEntry => ({
 	type: "modified",
-	path,
+	path: location.path,
+	leftPath: location.leftPath,
+	rightPath: location.rightPath,
+	...leftIndexSegmentsOf(location),
+	...rightIndexSegmentsOf(location),
+	leftValue,
+	rightValue,
+});
+
+/**
+ * Creates a moved entry
+ */
+const createMovedEntry = (
+	from: DiffLocation,
+	to: DiffLocation,
+	leftValue: JsonValue,
+	rightValue: JsonValue,
+): DiffEntry => ({
+	type: "moved",
+	path: to.path,
+	fromPath: from.path,
+	leftPath: from.leftPath,
+	rightPath: to.rightPath,
+	...leftIndexSegmentsOf(from),
+	...rightIndexSegmentsOf(to),
+	leftValue,
+	rightValue,
+});
+
+/**
+ * Creates an ignored entry
+ */
+const createIgnoredEntry = (
+	location: DiffLocation,
+	leftValue: JsonValue | undefined,
+	rightValue: JsonValue | undefined,
+): DiffEntry => ({
+	type: "ignored",
+	path: location.path,
+	...(leftValue !== undefined && {
+		leftPath: location.leftPath,
+		...leftIndexSegmentsOf(location),
+	}),
+	...(rightValue !== undefined && {
+		rightPath: location.rightPath,
+		...rightIndexSegmentsOf(location),
+	}),
 	leftValue,
 	rightValue,
 });
@@ -321,12 +1175,16 @@ const createModifiedEntry = (
  * Creates an unchanged entry
  */
 const createUnchangedEntry = (
-	path: readonly string[],
+	location: DiffLocation,
 	leftValue: JsonValue,
 	rightValue: JsonValue,
 ): DiffEntry => ({
 	type: "unchanged",
-	path,
+	path: location.path,
+	leftPath: location.leftPath,
+	rightPath: location.rightPath,
+	...leftIndexSegmentsOf(location),
+	...rightIndexSegmentsOf(location),
 	leftValue,
 	rightValue,
 });
@@ -1,13 +1,32 @@
 import type {
+	CompareRule,
 	DiffEntry,
 	DiffResult,
 	ExportFormat,
+	ExportOptions,
 	FormatSettings,
 } from "../types/diff";
-import type { JsonValue } from "../types/json";
+import type { JsonDialect, ParseOptions } from "../types/json";
 import type { Result } from "../types/result";
-import { ok, err } from "../types/result";
-import { ValidationError } from "../value-objects/ValidationError";
+import { ok, unwrap } from "../types/result";
+import type { ValidationError } from "../value-objects/ValidationError";
+import { LosslessNumber } from "../value-objects/LosslessNumber";
+import { formatKeyField } from "./keyField";
+import {
+	parseStrictJson,
+	parseSyntaxTree,
+	printSyntaxTree,
+} from "./jsonSyntax";
+import { getLeftPath, getRightPath } from "./differ";
+import { generatePatch } from "./patchGenerator";
+import { generateMergePatch } from "./mergePatch";
+import { getEntryStringDiff } from "./stringDiff";
+import { formatYaml, stringifyYaml } from "./yaml";
+import { parseNdjson } from "./ndjson";
+import { stringifyLossless } from "./stringify";
+import { canonicalizeJson } from "./canonical";
+import { parseJsonText } from "./parser";
+import type { StringDiffSegment } from "./stringDiff";
 
 /**
  * Formats diff entries for export
@@ -15,32 +34,94 @@ import { ValidationError } from "../value-objects/ValidationError";
 export const formatDiff = (
 	diffResult: DiffResult,
 	format: ExportFormat,
+	options: ExportOptions = {},
 ): string => {
 	switch (format) {
 		case "json":
-			return formatAsJson(diffResult);
+			return formatAsJson(diffResult, options);
 		case "markdown":
-			return formatAsMarkdown(diffResult);
+			return formatAsMarkdown(diffResult, options);
 		case "html":
-			return formatAsHtml(diffResult);
+			return formatAsHtml(diffResult, options);
 		case "json-patch":
 			return formatAsJsonPatch(diffResult.entries);
+		case "merge-patch":
+			return formatAsMergePatch(diffResult.entries);
+		case "yaml":
+			return formatAsYaml(diffResult, options);
+		case "canonical-json":
+			return formatAsCanonicalJson(diffResult, options);
 		default:
 			throw new Error(`Unsupported format: ${format}`);
 	}
 };
 
 /**
- * Formats diff as JSON
+ * Formats diff as JSON; located entries get the `lines` of their values
  */
-const formatAsJson = (diffResult: DiffResult): string => {
-	return JSON.stringify(diffResult, null, 2);
+const formatAsJson = (
+	diffResult: DiffResult,
+	{ locate }: ExportOptions,
+): string => {
+	if (!locate) {
+		return stringifyLossless(diffResult, 2);
+	}
+	return stringifyLossless(
+		{
+			...diffResult,
+			entries: diffResult.entries.map((entry) => {
+				const lines = getEntryLines(entry, locate);
+				return lines.left === undefined && lines.right === undefined
+					? entry
+					: { ...entry, lines };
+			}),
+		},
+		2,
+	);
+};
+
+/**
+ * Formats diff as YAML, with the same content as the JSON export
+ */
+const formatAsYaml = (
+	diffResult: DiffResult,
+	options: ExportOptions,
+): string => {
+	return stringifyYaml(
+		unwrap(
+			parseStrictJson(formatAsJson(diffResult, options), {
+				losslessNumbers: true,
+			}),
+		),
+	);
+};
+
+/**
+ * Formats diff as canonical JSON (RFC 8785), with the same content as the
+ * JSON export
+ */
+const formatAsCanonicalJson = (
+	diffResult: DiffResult,
+	options: ExportOptions,
+): string => {
+	return unwrap(
+		canonicalizeJson(
+			unwrap(
+				parseStrictJson(formatAsJson(diffResult, options), {
+					losslessNumbers: true,
+				}),
+			),
+		),
+	);
 };
 
 /**
  * Formats diff as Markdown
  */
-const formatAsMarkdown = (diffResult: DiffResult): string => {
+const formatAsMarkdown = (
+	diffResult: DiffResult,
+	{ locate }: ExportOptions,
+): string => {
 	const lines: string[] = [];
 
 	lines.push("# JSON Diff Report");
@@ -50,48 +131,102 @@ const formatAsMarkdown = (diffResult: DiffResult): string => {
 	lines.push(`- **Added**: ${diffResult.stats.added}`);
 	lines.push(`- **Removed**: ${diffResult.stats.removed}`);
 	lines.push(`- **Modified**: ${diffResult.stats.modified}`);
+	lines.push(`- **Moved**: ${diffResult.stats.moved}`);
 	lines.push(`- **Unchanged**: ${diffResult.stats.unchanged}`);
+	lines.push(`- **Ignored**: ${diffResult.stats.ignored}`);
 	lines.push(`- **Total**: ${diffResult.stats.total}`);
 	lines.push("");
 
+	const { rules } = diffResult.metadata.settings;
+	if (rules.length > 0) {
+		lines.push("## Comparison Rules");
+		lines.push("");
+		for (const rule of rules) {
+			lines.push(`- \`${rule.path}\`: ${describeRule(rule)}`);
+		}
+		lines.push("");
+	}
+
+	if (diffResult.warnings.length > 0) {
+		lines.push("## Warnings");
+		lines.push("");
+		for (const warning of diffResult.warnings) {
+			lines.push(
+				`- ⚠️ \`${formatPath(warning.path)}\` (${warning.side}): ${warning.message}`,
+			);
+		}
+		lines.push("");
+	}
+
 	lines.push("## Changes");
 	lines.push("");
 
 	for (const entry of diffResult.entries) {
-		if (entry.type === "unchanged") continue;
+		if (entry.type === "unchanged" || entry.type === "ignored") continue;
 
 		const pathStr = formatPath(entry.path);
+		const lineNumbers = formatLineNumbers(getEntryLines(entry, locate));
+		const locations = getIndexLocations(entry);
+		const stringDiff = getEntryStringDiff(entry);
+		const locationLines =
+			locations.length > 0
+				? [
+						`Location: ${locations.map((l) => `${l.side} \`${l.path}\``).join(", ")}`,
+						"",
+					]
+				: [];
 
 		switch (entry.type) {
 			case "added":
-				lines.push(`### ➕ Added: \`${pathStr}\``);
+				lines.push(`### ➕ Added: \`${pathStr}\`${lineNumbers}`);
 				lines.push("");
+				lines.push(...locationLines);
 				lines.push("```json");
-				lines.push(JSON.stringify(entry.rightValue, null, 2));
+				lines.push(stringifyLossless(entry.rightValue, 2));
 				lines.push("```");
 				lines.push("");
 				break;
 
 			case "removed":
-				lines.push(`### ➖ Removed: \`${pathStr}\``);
+				lines.push(`### ➖ Removed: \`${pathStr}\`${lineNumbers}`);
 				lines.push("");
+				lines.push(...locationLines);
 				lines.push("```json");
-				lines.push(JSON.stringify(entry.leftValue, null, 2));
+				lines.push(stringifyLossless(entry.leftValue, 2));
 				lines.push("```");
 				lines.push("");
 				break;
 
 			case "modified":
-				lines.push(`### ✏️ Modified: \`${pathStr}\``);
+				lines.push(`### ✏️ Modified: \`${pathStr}\`${lineNumbers}`);
 				lines.push("");
+				lines.push(...locationLines);
 				lines.push("**Before:**");
 				lines.push("```json");
-				lines.push(JSON.stringify(entry.leftValue, null, 2));
+				lines.push(stringifyLossless(entry.leftValue, 2));
 				lines.push("```");
 				lines.push("");
 				lines.push("**After:**");
 				lines.push("```json");
-				lines.push(JSON.stringify(entry.rightValue, null, 2));
+				lines.push(stringifyLossless(entry.rightValue, 2));
+				lines.push("```");
+				lines.push("");
+				if (stringDiff) {
+					lines.push("**Changes:**");
+					lines.push("");
+					lines.push(`<pre>${formatStringDiffHtml(stringDiff)}</pre>`);
+					lines.push("");
+				}
+				break;
+
+			case "moved":
+				lines.push(
+					`### 🔀 Moved: ${formatMovePaths(entry, (path) => `\`${path}\``)}${lineNumbers}`,
+				);
+				lines.push("");
+				lines.push(...locationLines);
+				lines.push("```json");
+				lines.push(stringifyLossless(entry.rightValue, 2));
 				lines.push("```");
 				lines.push("");
 				break;
@@ -104,7 +239,10 @@ const formatAsMarkdown = (diffResult: DiffResult): string => {
 /**
  * Formats diff as HTML
  */
-const formatAsHtml = (diffResult: DiffResult): string => {
+const formatAsHtml = (
+	diffResult: DiffResult,
+	{ locate }: ExportOptions,
+): string => {
 	const lines: string[] = [];
 
 	lines.push("<!DOCTYPE html>");
@@ -136,7 +274,14 @@ const formatAsHtml = (diffResult: DiffResult): string => {
 	lines.push(
 		"    .modified { background: #fff3e6; border-left: 4px solid #ffb86c; }",
 	);
+	lines.push(
+		"    .inline-diff del { background: #ffd7d7; } .inline-diff ins { background: #d4f8db; text-decoration: none; }",
+	);
+	lines.push(
+		"    .moved { background: #f3ecff; border-left: 4px solid #bd93f9; }",
+	);
 	lines.push("    .path { font-family: monospace; font-weight: bold; }");
+	lines.push("    .location { font-size: 0.9em; color: #666; }");
 	lines.push(
 		"    pre { background: #282a36; color: #f8f8f2; padding: 10px; border-radius: 3px; overflow-x: auto; }",
 	);
@@ -155,27 +300,69 @@ const formatAsHtml = (diffResult: DiffResult): string => {
 	lines.push(
 		`    <div class="stat">Modified: <strong>${diffResult.stats.modified}</strong></div>`,
 	);
+	lines.push(
+		`    <div class="stat">Moved: <strong>${diffResult.stats.moved}</strong></div>`,
+	);
 	lines.push(
 		`    <div class="stat">Unchanged: <strong>${diffResult.stats.unchanged}</strong></div>`,
 	);
+	lines.push(
+		`    <div class="stat">Ignored: <strong>${diffResult.stats.ignored}</strong></div>`,
+	);
 	lines.push(
 		`    <div class="stat">Total: <strong>${diffResult.stats.total}</strong></div>`,
 	);
 	lines.push("  </div>");
+
+	const { rules } = diffResult.metadata.settings;
+	if (rules.length > 0) {
+		lines.push("  <h2>Comparison Rules</h2>");
+		lines.push("  <ul>");
+		for (const rule of rules) {
+			lines.push(
+				`    <li><span class="path">${escapeHtml(rule.path)}</span>: ${escapeHtml(describeRule(rule))}</li>`,
+			);
+		}
+		lines.push("  </ul>");
+	}
+
+	if (diffResult.warnings.length > 0) {
+		lines.push("  <h2>Warnings</h2>");
+		lines.push("  <ul>");
+		for (const warning of diffResult.warnings) {
+			lines.push(
+				`    <li>⚠️ <span class="path">${escapeHtml(formatPath(warning.path))}</span> (${warning.side}): ${escapeHtml(warning.message)}</li>`,
+			);
+		}
+		lines.push("  </ul>");
+	}
+
 	lines.push("  <h2>Changes</h2>");
 
 	for (const entry of diffResult.entries) {
-		if (entry.type === "unchanged") continue;
+		if (entry.type === "unchanged" || entry.type === "ignored") continue;
 
 		const pathStr = escapeHtml(formatPath(entry.path));
+		const lineNumbers = formatLineNumbers(getEntryLines(entry, locate));
+		const locations = getIndexLocations(entry);
+		const stringDiff = getEntryStringDiff(entry);
+		const locationHtml =
+			locations.length > 0
+				? [
+						`    <div class="location">Location: ${locations.map((l) => `${l.side} <code>${escapeHtml(l.path)}</code>`).join(", ")}</div>`,
+					]
+				: [];
 
 		switch (entry.type) {
 			case "added":
 				lines.push(`  <div class="change added">`);
-				lines.push(`    <div class="path">➕ Added: ${pathStr}</div>`);
+				lines.push(
+					`    <div class="path">➕ Added: ${pathStr}${lineNumbers}</div>`,
+				);
+				lines.push(...locationHtml);
 				lines.push(
 					"    <pre>" +
-						escapeHtml(JSON.stringify(entry.rightValue, null, 2)) +
+						escapeHtml(stringifyLossless(entry.rightValue, 2)) +
 						"</pre>",
 				);
 				lines.push("  </div>");
@@ -183,10 +370,13 @@ const formatAsHtml = (diffResult: DiffResult): string => {
 
 			case "removed":
 				lines.push(`  <div class="change removed">`);
-				lines.push(`    <div class="path">➖ Removed: ${pathStr}</div>`);
+				lines.push(
+					`    <div class="path">➖ Removed: ${pathStr}${lineNumbers}</div>`,
+				);
+				lines.push(...locationHtml);
 				lines.push(
 					"    <pre>" +
-						escapeHtml(JSON.stringify(entry.leftValue, null, 2)) +
+						escapeHtml(stringifyLossless(entry.leftValue, 2)) +
 						"</pre>",
 				);
 				lines.push("  </div>");
@@ -194,17 +384,40 @@ const formatAsHtml = (diffResult: DiffResult): string => {
 
 			case "modified":
 				lines.push(`  <div class="change modified">`);
-				lines.push(`    <div class="path">✏️ Modified: ${pathStr}</div>`);
+				lines.push(
+					`    <div class="path">✏️ Modified: ${pathStr}${lineNumbers}</div>`,
+				);
+				lines.push(...locationHtml);
 				lines.push("    <strong>Before:</strong>");
 				lines.push(
 					"    <pre>" +
-						escapeHtml(JSON.stringify(entry.leftValue, null, 2)) +
+						escapeHtml(stringifyLossless(entry.leftValue, 2)) +
 						"</pre>",
 				);
 				lines.push("    <strong>After:</strong>");
 				lines.push(
 					"    <pre>" +
-						escapeHtml(JSON.stringify(entry.rightValue, null, 2)) +
+						escapeHtml(stringifyLossless(entry.rightValue, 2)) +
+						"</pre>",
+				);
+				if (stringDiff) {
+					lines.push("    <strong>Changes:</strong>");
+					lines.push(
+						`    <pre class="inline-diff">${formatStringDiffHtml(stringDiff)}</pre>`,
+					);
+				}
+				lines.push("  </div>");
+				break;
+
+			case "moved":
+				lines.push(`  <div class="change moved">`);
+				lines.push(
+					`    <div class="path">🔀 Moved: ${formatMovePaths(entry, escapeHtml)}${lineNumbers}</div>`,
+				);
+				lines.push(...locationHtml);
+				lines.push(
+					"    <pre>" +
+						escapeHtml(stringifyLossless(entry.rightValue, 2)) +
 						"</pre>",
 				);
 				lines.push("  </div>");
@@ -222,44 +435,17 @@ const formatAsHtml = (diffResult: DiffResult): string => {
  * Formats diff as JSON Patch (RFC 6902)
  */
 const formatAsJsonPatch = (entries: readonly DiffEntry[]): string => {
-	const operations: Array<{
-		op: "add" | "remove" | "replace";
-		path: string;
-		value?: JsonValue;
-	}> = [];
-
-	for (const entry of entries) {
-		if (entry.type === "unchanged") continue;
-
-		const path = "/" + entry.path.join("/");
-
-		switch (entry.type) {
-			case "added":
-				operations.push({
-					op: "add",
-					path,
-					value: entry.rightValue,
-				});
-				break;
-
-			case "removed":
-				operations.push({
-					op: "remove",
-					path,
-				});
-				break;
-
-			case "modified":
-				operations.push({
-					op: "replace",
-					path,
-					value: entry.rightValue,
-				});
-				break;
-		}
-	}
+	return stringifyLossless(generatePatch(entries), 2);
+};
 
-	return JSON.stringify(operations, null, 2);
+/**
+ * Formats diff as JSON Merge Patch (RFC 7396)
+ *
+ * Changes the patch cannot express exactly are not part of the output; see
+ * `generateMergePatch` for its warnings.
+ */
+const formatAsMergePatch = (entries: readonly DiffEntry[]): string => {
+	return stringifyLossless(generateMergePatch(entries).patch, 2);
 };
 
 /**
@@ -287,6 +473,117 @@ const formatPath = (path: readonly string[]): string => {
 	);
 };
 
+/**
+ * Returns the index-based locations of an entry that differ from its
+ * human-readable path, e.g. for items of arrays matched by key
+ */
+const getIndexLocations = (
+	entry: DiffEntry,
+): Array<{ side: "left" | "right"; path: string }> => {
+	const locations: Array<{ side: "left" | "right"; path: string }> = [];
+	const leftPath = formatPath(getLeftPath(entry));
+	const rightPath = formatPath(getRightPath(entry));
+
+	if (
+		entry.leftValue !== undefined &&
+		leftPath !== formatPath(entry.fromPath ?? entry.path)
+	) {
+		locations.push({ side: "left", path: leftPath });
+	}
+	if (entry.rightValue !== undefined && rightPath !== formatPath(entry.path)) {
+		locations.push({ side: "right", path: rightPath });
+	}
+
+	return locations;
+};
+
+/**
+ * Returns the lines at which the values of an entry start in the inputs
+ */
+const getEntryLines = (
+	entry: DiffEntry,
+	locate: ExportOptions["locate"],
+): { left?: number; right?: number } => ({
+	left:
+		entry.leftValue === undefined
+			? undefined
+			: locate?.("left", getLeftPath(entry))?.line,
+	right:
+		entry.rightValue === undefined
+			? undefined
+			: locate?.("right", getRightPath(entry))?.line,
+});
+
+/**
+ * Formats the lines of an entry to follow its path, e.g. " (left line 3)"
+ */
+const formatLineNumbers = (lines: {
+	left?: number;
+	right?: number;
+}): string => {
+	const parts = [
+		lines.left !== undefined && `left line ${lines.left}`,
+		lines.right !== undefined && `right line ${lines.right}`,
+	].filter(Boolean);
+	return parts.length > 0 ? ` (${parts.join(", ")})` : "";
+};
+
+/**
+ * Formats the source and destination of a moved entry
+ *
+ * Items reordered within a keyed array keep their key-based path, which is
+ * then shown only once.
+ */
+const formatMovePaths = (
+	entry: DiffEntry,
+	wrap: (path: string) => string,
+): string => {
+	const from = formatPath(entry.fromPath ?? entry.path);
+	const to = formatPath(entry.path);
+	return from === to ? wrap(to) : `${wrap(from)} → ${wrap(to)}`;
+};
+
+/**
+ * Describes the overrides of a comparison rule
+ */
+const describeRule = (rule: CompareRule): string => {
+	const parts: string[] = [];
+	if (rule.keyField !== undefined) {
+		parts.push(`key field "${formatKeyField(rule.keyField)}"`);
+	}
+	if (rule.floatTolerance !== undefined) {
+		parts.push(`float tolerance ${rule.floatTolerance}`);
+	}
+	if (rule.ignoreArrayOrder !== undefined) {
+		parts.push(rule.ignoreArrayOrder ? "unordered arrays" : "ordered arrays");
+	}
+	return parts.length > 0 ? parts.join(", ") : "no overrides";
+};
+
+/**
+ * Formats an inline string diff with <del> and <ins> markup
+ *
+ * Used by both HTML and Markdown exports; GitHub-flavored Markdown renders
+ * these tags inside a <pre> block.
+ */
+const formatStringDiffHtml = (
+	segments: readonly StringDiffSegment[],
+): string => {
+	return segments
+		.map((segment) => {
+			const text = escapeHtml(segment.text);
+			switch (segment.type) {
+				case "equal":
+					return text;
+				case "delete":
+					return `<del>${text}</del>`;
+				case "insert":
+					return `<ins>${text}</ins>`;
+			}
+		})
+		.join("");
+};
+
 /**
  * Escapes HTML special characters
  */
@@ -301,36 +598,124 @@ const escapeHtml = (text: string): string => {
 	return text.replace(/[&<>"']/g, (char) => map[char]);
 };
 
+/**
+ * Number literals, and digits in strings, which only cost a slower parse
+ */
+const NUMBER_TEXT = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/g;
+
+/**
+ * Whether any number in the text would be written differently once read as
+ * a double, e.g. `9007199254740993`, `1.50` or `1e2`
+ */
+const hasInexactNumbers = (input: string): boolean => {
+	for (const [text] of input.matchAll(NUMBER_TEXT)) {
+		if (String(Number(text)) !== text) {
+			return true;
+		}
+	}
+	return false;
+};
+
 /**
  * Formats JSON string with specified settings
  *
+ * JSONC and JSON5 input is re-emitted as JSONC with its comments, YAML input
+ * as YAML with its comments. NDJSON keeps one compact record per line, so
+ * only `sortKeys` applies to it. Numbers keep their text in every dialect:
+ * they are read as LosslessNumbers when requested or when a double would
+ * change them, and with `JSON.parse` otherwise.
+ *
+ * In canonical mode, input of every dialect is written as canonical JSON, one
+ * record per line for NDJSON; duplicate keys are rejected, as the scheme
+ * leaves them undefined.
+ *
  * @param input - JSON string to format
  * @param settings - Format settings
+ * @param dialect - Syntax of the input
+ * @param options - `losslessNumbers` reads every number as a LosslessNumber
  * @returns Formatted JSON string or error
  */
 export const formatJson = (
 	input: string,
 	settings: FormatSettings,
+	dialect: JsonDialect = "json",
+	options: Pick<ParseOptions, "losslessNumbers"> = {},
 ): Result<string, ValidationError> => {
-	try {
-		// 1. Parse JSON
-		const parsed = JSON.parse(input);
-
-		// 2. Sort keys if requested
-		const sorted = settings.sortKeys ? sortObjectKeys(parsed) : parsed;
-
-		// 3. Format with specified indent
-		const space = settings.indent === "\t" ? "\t" : settings.indent;
-		const formatted = JSON.stringify(sorted, null, space);
-
-		return ok(formatted);
-	} catch (error) {
-		return err(
-			ValidationError.parse(
-				error instanceof Error ? error.message : "Unknown parse error",
-			),
+	if (settings.canonical) {
+		return formatCanonicalJson(input, dialect);
+	}
+	if (dialect === "yaml") {
+		return formatYaml(input, settings);
+	}
+	const losslessNumbers =
+		options.losslessNumbers === true || hasInexactNumbers(input);
+	const stringify = losslessNumbers
+		? stringifyLossless
+		: (value: unknown, space?: string | number) =>
+				JSON.stringify(value, null, space);
+	if (dialect === "ndjson") {
+		const result = parseNdjson(input, { losslessNumbers });
+		if (!result.ok) {
+			return result;
+		}
+		return ok(
+			result.value
+				.map((record) =>
+					stringify(settings.sortKeys ? sortObjectKeys(record) : record),
+				)
+				.join("\n"),
 		);
 	}
+	if (dialect !== "json") {
+		const result = parseSyntaxTree(input, dialect, { losslessNumbers });
+		return result.ok ? ok(printSyntaxTree(result.value, settings)) : result;
+	}
+
+	// 1. Parse JSON
+	const parsed = parseStrictJson(input, { losslessNumbers });
+	if (!parsed.ok) {
+		return parsed;
+	}
+
+	// 2. Sort keys if requested
+	const sorted = settings.sortKeys
+		? sortObjectKeys(parsed.value)
+		: parsed.value;
+
+	// 3. Format with specified indent
+	const space = settings.indent === "\t" ? "\t" : settings.indent;
+	const formatted = stringify(sorted, space);
+
+	return ok(formatted);
+};
+
+/**
+ * Formats text of a dialect as canonical JSON
+ */
+const formatCanonicalJson = (
+	input: string,
+	dialect: JsonDialect,
+): Result<string, ValidationError> => {
+	const parsed = parseJsonText(input, dialect, {
+		losslessNumbers: true,
+		strict: true,
+	});
+	if (!parsed.ok) {
+		return parsed;
+	}
+	if (dialect !== "ndjson" || !Array.isArray(parsed.value)) {
+		return canonicalizeJson(parsed.value);
+	}
+
+	const lines: string[] = [];
+	for (const record of parsed.value) {
+		const result = canonicalizeJson(record);
+		if (!result.ok) {
+			return result;
+		}
+		lines.push(result.value);
+	}
+	return ok(lines.join("\n"));
 };
 
 /**
@@ -340,7 +725,11 @@ export const formatJson = (
  * @returns Value with sorted keys
  */
 const sortObjectKeys = (value: unknown): unknown => {
-	if (value === null || typeof value !== "object") {
+	if (
+		value === null ||
+		typeof value !== "object" ||
+		LosslessNumber.isLosslessNumber(value)
+	) {
 		return value;
 	}
 
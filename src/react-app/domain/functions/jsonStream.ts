@@ -0,0 +1,450 @@
+import type { JsonValue, ParseOptions } from "../types/json";
+import type { Result } from "../types/result";
+import { ok, err } from "../types/result";
+import { ValidationError } from "../value-objects/ValidationError";
+import type { ParseErrorDetails } from "../value-objects/ValidationError";
+import { LosslessNumber } from "../value-objects/LosslessNumber";
+import { JSON_ESCAPES } from "./jsonSyntax";
+
+/**
+ * Incremental parser for strict JSON text
+ */
+export interface JsonStreamParser {
+	/**
+	 * Parses a chunk of text
+	 *
+	 * Chunks may end anywhere, also in the middle of a token.
+	 */
+	push(chunk: string): Result<void, ValidationError>;
+	/**
+	 * Ends the text and returns its value
+	 */
+	end(): Result<JsonValue, ValidationError>;
+}
+
+/**
+ * Tokens the parser accepts next
+ */
+type Expecting =
+	| "value"
+	| "value-or-close"
+	| "key"
+	| "key-or-close"
+	| "colon"
+	| "comma-or-close"
+	| "end";
+
+/**
+ * Container being parsed; `key` is the one of the member being parsed
+ */
+type Frame =
+	| { readonly kind: "array"; readonly items: JsonValue[] }
+	| {
+			readonly kind: "object";
+			readonly members: Record<string, JsonValue>;
+			key: string;
+	  };
+
+/**
+ * Token that may continue in the next chunk
+ *
+ * `escape` is the escape sequence a string is in the middle of, if any.
+ */
+type Token =
+	| { readonly kind: "string"; readonly parts: string[]; escape: string }
+	| { readonly kind: "number" | "literal"; text: string };
+
+const WHITESPACE = /[ \t]+/y;
+// Characters other than quotes, backslashes and control characters
+const STRING_CHARS = /[ !#-[\]-\uffff]+/y;
+const NUMBER_CHARS = /[0-9eE+\-.]+/y;
+const LETTERS = /[a-zA-Z]+/y;
+const JSON_NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const LITERAL = /true|false|null/y;
+const HEX = /^[0-9a-fA-F]{4}$/;
+
+/**
+ * Creates an incremental parser for strict JSON
+ *
+ * Only the value built so far and the current token are held, so the text
+ * can be streamed without being held in memory as a whole, and nesting is
+ * not limited by the call stack. Errors read as those of `parseSyntaxTree`;
+ * duplicate keys are reported as set in `options`, locations are not.
+ * Whitespace-only text is an "empty" error.
+ */
+export const createJsonStreamParser = (
+	options: ParseOptions = {},
+): JsonStreamParser => {
+	const stack: Frame[] = [];
+	let root: JsonValue | undefined;
+	let expecting: Expecting = "value";
+	let token: Token | undefined;
+	let tokenOffset = 0;
+	let failure: ValidationError | undefined;
+
+	// Offset of the current chunk in the whole text, and the current line
+	let chunkOffset = 0;
+	let line = 1;
+	let lineStart = 0;
+	let afterCarriageReturn = false;
+
+	// Tokens do not span lines, so errors are located on the current line
+	const fail = (
+		message: string,
+		offset: number,
+		token?: Pick<ParseErrorDetails, "expected" | "found">,
+	): never => {
+		const details: ParseErrorDetails = {
+			line,
+			column: offset - lineStart + 1,
+			offset,
+			...token,
+		};
+		throw ValidationError.parse(
+			`${message} at line ${details.line}, column ${details.column}`,
+			details,
+		);
+	};
+
+	const describeExpected = (): string => {
+		switch (expecting) {
+			case "value":
+			case "value-or-close":
+				return "a value";
+			case "key":
+			case "key-or-close":
+				return "a property name";
+			case "colon":
+				return '":"';
+			case "comma-or-close":
+				return stack[stack.length - 1]?.kind === "object"
+					? '"," or "}"'
+					: '"," or "]"';
+			case "end":
+				return "end of input";
+		}
+	};
+
+	// Fails at a character, or at the end of input, that is not expected
+	const unexpected = (offset: number, char: string | undefined): never => {
+		const expected = describeExpected();
+		const found = char === undefined ? "end of input" : JSON.stringify(char);
+		return fail(`Expected ${expected} but found ${found}`, offset, {
+			expected,
+			found,
+		});
+	};
+
+	const isValueExpected = () =>
+		expecting === "value" || expecting === "value-or-close";
+
+	const isKeyExpected = () =>
+		expecting === "key" || expecting === "key-or-close";
+
+	const reportDuplicateKey = (key: string) => {
+		if (!options.strict && !options.onWarning) {
+			return;
+		}
+		const path = stack.map((frame) =>
+			frame.kind === "array" ? String(frame.items.length) : frame.key,
+		);
+		path[path.length - 1] = key;
+		const error = ValidationError.duplicateKey({
+			line,
+			column: tokenOffset - lineStart + 1,
+			offset: tokenOffset,
+			key,
+			path,
+		});
+		if (options.strict) {
+			throw error;
+		}
+		options.onWarning?.(error);
+	};
+
+	const completeValue = (value: JsonValue) => {
+		const frame = stack[stack.length - 1];
+		if (!frame) {
+			root = value;
+			expecting = "end";
+			return;
+		}
+		if (frame.kind === "array") {
+			frame.items.push(value);
+		} else if (frame.key === "__proto__") {
+			// Becomes an own property, as with `JSON.parse`
+			Object.defineProperty(frame.members, frame.key, {
+				value,
+				enumerable: true,
+				writable: true,
+				configurable: true,
+			});
+		} else {
+			frame.members[frame.key] = value;
+		}
+		expecting = "comma-or-close";
+	};
+
+	const completeString = (text: string) => {
+		const frame = stack[stack.length - 1];
+		if (isKeyExpected() && frame?.kind === "object") {
+			if (Object.prototype.hasOwnProperty.call(frame.members, text)) {
+				reportDuplicateKey(text);
+			}
+			frame.key = text;
+			expecting = "colon";
+			return;
+		}
+		completeValue(text);
+	};
+
+	// A token may be followed by characters its pattern does not match, e.g.
+	// "01" is the number 0 followed by an unexpected "1"
+	const completeToken = (kind: "number" | "literal", text: string) => {
+		const pattern = kind === "number" ? JSON_NUMBER : LITERAL;
+		pattern.lastIndex = 0;
+		const match = pattern.exec(text);
+		if (!match) {
+			return unexpected(tokenOffset, text[0]);
+		}
+		completeValue(
+			kind === "literal"
+				? (JSON.parse(match[0]) as JsonValue)
+				: options.losslessNumbers
+					? LosslessNumber.fromText(match[0])
+					: Number(match[0]),
+		);
+		if (match[0].length < text.length) {
+			unexpected(tokenOffset + match[0].length, text[match[0].length]);
+		}
+	};
+
+	const startToken = (next: Token, offset: number) => {
+		token = next;
+		tokenOffset = offset;
+	};
+
+	// Continues the current token at `index`; returns the index after it
+	const continueToken = (current: Token, text: string, index: number) => {
+		let i = index;
+		if (current.kind !== "string") {
+			const pattern = current.kind === "number" ? NUMBER_CHARS : LETTERS;
+			pattern.lastIndex = i;
+			const match = pattern.exec(text);
+			if (match) {
+				current.text += match[0];
+				i += match[0].length;
+			}
+			if (i < text.length) {
+				token = undefined;
+				completeToken(current.kind, current.text);
+			}
+			return i;
+		}
+
+		while (i < text.length) {
+			if (current.escape) {
+				const char = text[i];
+				current.escape += char;
+				i++;
+				if (current.escape.length === 2 && char !== "u") {
+					if (!Object.prototype.hasOwnProperty.call(JSON_ESCAPES, char)) {
+						fail("Invalid escape sequence", chunkOffset + i - 1);
+					}
+					current.parts.push(JSON_ESCAPES[char]);
+					current.escape = "";
+				} else if (current.escape.length === 6) {
+					const hex = current.escape.slice(2);
+					if (!HEX.test(hex)) {
+						fail("Invalid escape sequence", chunkOffset + i - 4);
+					}
+					current.parts.push(String.fromCharCode(Number.parseInt(hex, 16)));
+					current.escape = "";
+				}
+				continue;
+			}
+
+			STRING_CHARS.lastIndex = i;
+			const match = STRING_CHARS.exec(text);
+			if (match) {
+				current.parts.push(match[0]);
+				i += match[0].length;
+				continue;
+			}
+
+			const char = text[i];
+			if (char === '"') {
+				token = undefined;
+				completeString(current.parts.join(""));
+				return i + 1;
+			}
+			if (char === "\\") {
+				current.escape = "\\";
+				i++;
+				continue;
+			}
+			fail(
+				char === "\n" || char === "\r"
+					? "Unterminated string"
+					: "Invalid control character in string",
+				chunkOffset + i,
+			);
+		}
+		return i;
+	};
+
+	const closeContainer = (
+		kind: Frame["kind"],
+		offset: number,
+		char: string,
+	) => {
+		const frame = stack[stack.length - 1];
+		const isOpen = frame?.kind === kind;
+		if (
+			isOpen &&
+			(expecting === "comma-or-close" ||
+				expecting === (kind === "object" ? "key-or-close" : "value-or-close"))
+		) {
+			stack.pop();
+			completeValue(frame.kind === "array" ? frame.items : frame.members);
+			return;
+		}
+		if (isOpen && expecting === (kind === "object" ? "key" : "value")) {
+			fail("Trailing comma", offset);
+		}
+		unexpected(offset, char);
+	};
+
+	const scan = (text: string) => {
+		let i = 0;
+		while (i < text.length) {
+			if (token) {
+				i = continueToken(token, text, i);
+				continue;
+			}
+
+			const char = text[i];
+			if (char === "\n") {
+				if (!afterCarriageReturn) {
+					line++;
+				}
+				lineStart = chunkOffset + i + 1;
+				afterCarriageReturn = false;
+				i++;
+				continue;
+			}
+			afterCarriageReturn = char === "\r";
+			if (afterCarriageReturn) {
+				line++;
+				lineStart = chunkOffset + i + 1;
+				i++;
+				continue;
+			}
+			if (char === " " || char === "\t") {
+				WHITESPACE.lastIndex = i;
+				i += WHITESPACE.exec(text)?.[0].length ?? 1;
+				continue;
+			}
+
+			const offset = chunkOffset + i;
+			switch (char) {
+				case "{":
+					if (!isValueExpected()) {
+						unexpected(offset, char);
+					}
+					stack.push({ kind: "object", members: {}, key: "" });
+					expecting = "key-or-close";
+					break;
+				case "[":
+					if (!isValueExpected()) {
+						unexpected(offset, char);
+					}
+					stack.push({ kind: "array", items: [] });
+					expecting = "value-or-close";
+					break;
+				case "}":
+					closeContainer("object", offset, char);
+					break;
+				case "]":
+					closeContainer("array", offset, char);
+					break;
+				case ":":
+					if (expecting !== "colon") {
+						unexpected(offset, char);
+					}
+					expecting = "value";
+					break;
+				case ",":
+					if (expecting !== "comma-or-close") {
+						unexpected(offset, char);
+					}
+					expecting =
+						stack[stack.length - 1]?.kind === "object" ? "key" : "value";
+					break;
+				case '"':
+					if (!isValueExpected() && !isKeyExpected()) {
+						unexpected(offset, char);
+					}
+					startToken({ kind: "string", parts: [], escape: "" }, offset);
+					break;
+				default:
+					if (!isValueExpected()) {
+						unexpected(offset, char);
+					}
+					if (char === "-" || (char >= "0" && char <= "9")) {
+						startToken({ kind: "number", text: "" }, offset);
+						// The token starts with this character
+						continue;
+					}
+					if (/[a-zA-Z]/.test(char)) {
+						startToken({ kind: "literal", text: "" }, offset);
+						continue;
+					}
+					unexpected(offset, char);
+			}
+			i++;
+		}
+	};
+
+	const run = <T>(parse: () => T): Result<T, ValidationError> => {
+		if (failure) {
+			return err(failure);
+		}
+		try {
+			return ok(parse());
+		} catch (e) {
+			if (e instanceof ValidationError) {
+				failure = e;
+				return err(e);
+			}
+			throw e;
+		}
+	};
+
+	return {
+		push(chunk) {
+			return run(() => {
+				scan(chunk);
+				chunkOffset += chunk.length;
+			});
+		},
+		end() {
+			return run(() => {
+				if (token?.kind === "string") {
+					fail("Unterminated string", chunkOffset);
+				} else if (token) {
+					const { kind, text } = token;
+					token = undefined;
+					completeToken(kind, text);
+				}
+				if (root === undefined && expecting === "value" && stack.length === 0) {
+					throw ValidationError.empty();
+				}
+				if (expecting !== "end") {
+					unexpected(chunkOffset, undefined);
+				}
+				return root as JsonValue;
+			});
+		},
+	};
+};
@@ -0,0 +1,711 @@
+import type { FormatSettings } from "../types/diff";
+import type {
+	JsonDialect,
+	JsonObject,
+	JsonPrimitive,
+	JsonValue,
+	ParseOptions,
+	SourceLocation,
+} from "../types/json";
+import type { Result } from "../types/result";
+import { ok, err } from "../types/result";
+import { ValidationError } from "../value-objects/ValidationError";
+import type {
+	ParseErrorDetails,
+	ParseErrorPosition,
+} from "../value-objects/ValidationError";
+import { LosslessNumber } from "../value-objects/LosslessNumber";
+import { stringifyLossless } from "./stringify";
+
+/**
+ * Value in a syntax tree
+ *
+ * `comments` of a container are the ones after its last element.
+ */
+export type SyntaxNode =
+	| { readonly kind: "value"; readonly value: JsonPrimitive }
+	| {
+			readonly kind: "object";
+			readonly members: readonly SyntaxMember[];
+			readonly comments: readonly string[];
+	  }
+	| {
+			readonly kind: "array";
+			readonly items: readonly SyntaxElement[];
+			readonly comments: readonly string[];
+	  };
+
+/**
+ * Array item or document root with the comments around it
+ *
+ * Comments keep their delimiters. `trailingComment` is the comment on the same
+ * line after the value; the others before it are `leadingComments`.
+ */
+export interface SyntaxElement {
+	readonly leadingComments: readonly string[];
+	readonly value: SyntaxNode;
+	readonly trailingComment?: string;
+}
+
+/**
+ * Object member with the comments around it
+ */
+export interface SyntaxMember extends SyntaxElement {
+	readonly key: string;
+}
+
+/**
+ * Parsed document; `comments` are the ones after the root value
+ */
+export interface SyntaxTree {
+	readonly root: SyntaxElement;
+	readonly comments: readonly string[];
+}
+
+interface PendingComment {
+	readonly text: string;
+	readonly start: number;
+}
+
+const IDENTIFIER =
+	/(?:[$_\p{ID_Start}]|\\u[0-9a-fA-F]{4})(?:[$_\u200C\u200D\p{ID_Continue}]|\\u[0-9a-fA-F]{4})*/uy;
+const JSON_NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const JSON5_NUMBER =
+	/[+-]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:(?:0|[1-9]\d*)(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?)/y;
+const LITERAL = /true|false|null/y;
+const LINE_BREAK = /[\n\r\u2028\u2029]/;
+const LINE_END = /\r\n?|\n/g;
+
+/**
+ * Returns the offsets at which the lines of a text start
+ */
+const getLineStarts = (input: string): number[] => {
+	const starts = [0];
+	LINE_END.lastIndex = 0;
+	for (let match = LINE_END.exec(input); match; match = LINE_END.exec(input)) {
+		starts.push(match.index + match[0].length);
+	}
+	return starts;
+};
+
+/**
+ * Characters of the single-character escape sequences of JSON strings
+ */
+export const JSON_ESCAPES: Readonly<Record<string, string>> = {
+	'"': '"',
+	"\\": "\\",
+	"/": "/",
+	b: "\b",
+	f: "\f",
+	n: "\n",
+	r: "\r",
+	t: "\t",
+};
+
+/**
+ * Parses JSON text into a syntax tree that keeps its comments
+ *
+ * - "json": strict JSON
+ * - "jsonc": JSON with comments and trailing commas, as in tsconfig.json
+ * - "json5": JSON5, i.e. additionally single-quoted strings, unquoted keys,
+ *   hexadecimal, signed and non-finite numbers and escaped line breaks
+ *
+ * With `losslessNumbers`, hexadecimal numbers become LosslessNumbers of their
+ * decimal value; non-finite numbers stay plain numbers. Duplicate keys are
+ * kept in the tree and reported as set in `options`, as are the locations of
+ * values.
+ */
+export const parseSyntaxTree = (
+	input: string,
+	dialect: JsonDialect,
+	options: ParseOptions = {},
+): Result<SyntaxTree, ValidationError> => {
+	const isJson5 = dialect === "json5";
+	const isExtended = dialect !== "json";
+	let position = 0;
+	let pending: PendingComment[] = [];
+	// Path of the value being parsed
+	const path: string[] = [];
+	let lineStarts: number[] | undefined;
+
+	const locate = (offset: number): ParseErrorPosition => {
+		lineStarts ??= getLineStarts(input);
+		// Last line starting at or before the offset
+		let low = 0;
+		let high = lineStarts.length - 1;
+		while (low < high) {
+			const middle = Math.ceil((low + high) / 2);
+			if (lineStarts[middle] <= offset) {
+				low = middle;
+			} else {
+				high = middle - 1;
+			}
+		}
+		return { line: low + 1, column: offset - lineStarts[low] + 1, offset };
+	};
+
+	const fail = (
+		message: string,
+		token?: Pick<ParseErrorDetails, "expected" | "found">,
+	): never => {
+		const details: ParseErrorDetails = { ...locate(position), ...token };
+		throw ValidationError.parse(
+			`${message} at line ${details.line}, column ${details.column}`,
+			details,
+		);
+	};
+
+	const reportDuplicateKey = (key: string, offset: number) => {
+		if (!options.strict && !options.onWarning) {
+			return;
+		}
+		const error = ValidationError.duplicateKey({
+			...locate(offset),
+			key,
+			path: [...path, key],
+		});
+		if (options.strict) {
+			throw error;
+		}
+		options.onWarning?.(error);
+	};
+
+	// Fails at the current character, which does not match `expected`
+	const unexpected = (expected: string): never => {
+		const found =
+			position >= input.length
+				? "end of input"
+				: JSON.stringify(input[position]);
+		return fail(`Expected ${expected} but found ${found}`, { expected, found });
+	};
+
+	const isWhitespace = (char: string): boolean =>
+		isJson5
+			? /\s/.test(char)
+			: char === " " || char === "\t" || char === "\n" || char === "\r";
+
+	const skipTrivia = () => {
+		while (position < input.length) {
+			const char = input[position];
+			if (isWhitespace(char)) {
+				position++;
+			} else if (isExtended && input.startsWith("//", position)) {
+				const start = position;
+				while (position < input.length && !LINE_BREAK.test(input[position])) {
+					position++;
+				}
+				pending.push({ text: input.slice(start, position), start });
+			} else if (isExtended && input.startsWith("/*", position)) {
+				const start = position;
+				const end = input.indexOf("*/", position + 2);
+				if (end < 0) {
+					fail("Unterminated comment");
+				}
+				position = end + 2;
+				pending.push({ text: input.slice(start, position), start });
+			} else {
+				return;
+			}
+		}
+	};
+
+	const takeComments = (): string[] => {
+		const comments = pending.map((comment) => comment.text);
+		pending = [];
+		return comments;
+	};
+
+	// A comment is trailing when nothing but the comma separates it from the value
+	const takeTrailingComment = (valueEnd: number): string | undefined => {
+		const [first] = pending;
+		if (first && !LINE_BREAK.test(input.slice(valueEnd, first.start))) {
+			pending = pending.slice(1);
+			return first.text;
+		}
+		return undefined;
+	};
+
+	const expect = (char: string, expected = JSON.stringify(char)) => {
+		if (input[position] !== char) {
+			unexpected(expected);
+		}
+		position++;
+	};
+
+	const parseHex = (length: number): string => {
+		const hex = input.slice(position, position + length);
+		if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+			fail("Invalid escape sequence");
+		}
+		position += length;
+		return String.fromCharCode(Number.parseInt(hex, 16));
+	};
+
+	const parseEscape = (): string => {
+		position++;
+		const char = input[position];
+		if (char === undefined) {
+			return fail("Unterminated string");
+		}
+		if (char === "u") {
+			position++;
+			return parseHex(4);
+		}
+		if (Object.prototype.hasOwnProperty.call(JSON_ESCAPES, char)) {
+			position++;
+			return JSON_ESCAPES[char];
+		}
+		if (!isJson5) {
+			return fail("Invalid escape sequence");
+		}
+
+		position++;
+		switch (char) {
+			case "x":
+				return parseHex(2);
+			case "v":
+				return "\v";
+			case "0":
+				if (/[0-9]/.test(input[position] ?? "")) {
+					position--;
+					return fail("Invalid escape sequence");
+				}
+				return "\0";
+			case "\r":
+				// Escaped line break
+				if (input[position] === "\n") {
+					position++;
+				}
+				return "";
+			case "\n":
+			case "\u2028":
+			case "\u2029":
+				return "";
+			default:
+				if (/[1-9]/.test(char)) {
+					position--;
+					return fail("Invalid escape sequence");
+				}
+				return char;
+		}
+	};
+
+	const parseString = (): string => {
+		const quote = input[position];
+		position++;
+		let result = "";
+		let start = position;
+		while (true) {
+			if (position >= input.length) {
+				return fail("Unterminated string");
+			}
+			const char = input[position];
+			if (char === quote) {
+				result += input.slice(start, position);
+				position++;
+				return result;
+			}
+			if (char === "\\") {
+				result += input.slice(start, position);
+				result += parseEscape();
+				start = position;
+			} else if (char === "\n" || char === "\r") {
+				return fail("Unterminated string");
+			} else if (!isJson5 && char < " ") {
+				return fail("Invalid control character in string");
+			} else {
+				position++;
+			}
+		}
+	};
+
+	const parseKey = (): string => {
+		const char = input[position];
+		if (char === '"' || (isJson5 && char === "'")) {
+			return parseString();
+		}
+		if (isJson5) {
+			IDENTIFIER.lastIndex = position;
+			const match = IDENTIFIER.exec(input);
+			if (match) {
+				position += match[0].length;
+				return match[0].replace(/\\u([0-9a-fA-F]{4})/g, (_, hex: string) =>
+					String.fromCharCode(Number.parseInt(hex, 16)),
+				);
+			}
+		}
+		return unexpected("a property name");
+	};
+
+	const parseNumber = (): number | LosslessNumber | undefined => {
+		const pattern = isJson5 ? JSON5_NUMBER : JSON_NUMBER;
+		pattern.lastIndex = position;
+		const match = pattern.exec(input);
+		if (!match) {
+			return undefined;
+		}
+		position += match[0].length;
+
+		const text = match[0];
+		const sign = text.startsWith("-") ? -1 : 1;
+		const unsigned = text.replace(/^[+-]/, "");
+		if (/^0[xX]/.test(unsigned)) {
+			return options.losslessNumbers
+				? LosslessNumber.fromText(
+						`${sign < 0 ? "-" : ""}${BigInt(unsigned.toLowerCase())}`,
+					)
+				: sign * Number.parseInt(unsigned.slice(2), 16);
+		}
+		if (unsigned === "Infinity") {
+			return sign * Number.POSITIVE_INFINITY;
+		}
+		if (unsigned === "NaN") {
+			return Number.NaN;
+		}
+		return options.losslessNumbers
+			? LosslessNumber.fromText(text)
+			: Number(text);
+	};
+
+	const parseElements = <T extends SyntaxElement>(
+		close: "}" | "]",
+		parseElement: (leadingComments: string[]) => T,
+	): { elements: T[]; comments: string[] } => {
+		position++;
+		const elements: T[] = [];
+		skipTrivia();
+		while (input[position] !== close) {
+			const element = parseElement(takeComments());
+			const valueEnd = position;
+			skipTrivia();
+			const hasComma = input[position] === ",";
+			if (hasComma) {
+				position++;
+				skipTrivia();
+			}
+			const trailingComment = takeTrailingComment(valueEnd);
+			elements.push(
+				trailingComment === undefined
+					? element
+					: { ...element, trailingComment },
+			);
+
+			if (!hasComma) {
+				break;
+			}
+			if (input[position] === close && !isExtended) {
+				fail("Trailing comma");
+			}
+		}
+		const comments = takeComments();
+		expect(close, `"," or ${JSON.stringify(close)}`);
+		return { elements, comments };
+	};
+
+	const parseValue = (): SyntaxNode => {
+		const start = position;
+		const node = parseNode();
+		if (options.onLocation) {
+			const { line, column } = locate(start);
+			const location: SourceLocation = {
+				line,
+				column,
+				range: [start, position],
+			};
+			options.onLocation([...path], location);
+		}
+		return node;
+	};
+
+	const parseNode = (): SyntaxNode => {
+		const char = input[position];
+		if (char === "{") {
+			const keys = new Set<string>();
+			const { elements, comments } = parseElements("}", (leadingComments) => {
+				const keyStart = position;
+				const key = parseKey();
+				if (keys.has(key)) {
+					reportDuplicateKey(key, keyStart);
+				}
+				keys.add(key);
+				skipTrivia();
+				expect(":");
+				skipTrivia();
+				// Comments between the key and the value move before the member
+				const innerComments = takeComments();
+				path.push(key);
+				const value = parseValue();
+				path.pop();
+				return {
+					key,
+					leadingComments: [...leadingComments, ...innerComments],
+					value,
+				};
+			});
+			return { kind: "object", members: elements, comments };
+		}
+		if (char === "[") {
+			let index = 0;
+			const { elements, comments } = parseElements("]", (leadingComments) => {
+				path.push(String(index++));
+				const value = parseValue();
+				path.pop();
+				return { leadingComments, value };
+			});
+			return { kind: "array", items: elements, comments };
+		}
+		if (char === '"' || (isJson5 && char === "'")) {
+			return { kind: "value", value: parseString() };
+		}
+
+		LITERAL.lastIndex = position;
+		const literal = LITERAL.exec(input);
+		if (literal) {
+			position += literal[0].length;
+			return { kind: "value", value: JSON.parse(literal[0]) as JsonPrimitive };
+		}
+		const number = parseNumber();
+		if (number !== undefined) {
+			return { kind: "value", value: number };
+		}
+		return unexpected("a value");
+	};
+
+	try {
+		skipTrivia();
+		const leadingComments = takeComments();
+		const value = parseValue();
+		const valueEnd = position;
+		skipTrivia();
+		const trailingComment = takeTrailingComment(valueEnd);
+		if (position < input.length) {
+			unexpected("end of input");
+		}
+
+		return ok({
+			root: {
+				leadingComments,
+				value,
+				...(trailingComment !== undefined && { trailingComment }),
+			},
+			comments: takeComments(),
+		});
+	} catch (e) {
+		if (e instanceof ValidationError) {
+			return err(e);
+		}
+		// The call stack ran out on deeply nested input
+		if (e instanceof RangeError) {
+			return err(ValidationError.parse("Input is nested too deeply to parse"));
+		}
+		throw e;
+	}
+};
+
+/**
+ * Parses strict JSON text
+ *
+ * Valid input goes through `JSON.parse`. Its error messages differ between
+ * engines and rarely locate the error, so invalid input is parsed again for a
+ * message and `ParseErrorDetails` of our own. Lossless numbers and locations
+ * need our own parser in any case.
+ *
+ * `JSON.parse` silently drops all but the last of duplicate keys, so when
+ * duplicates are looked for and the parsed value has fewer members than the
+ * text has keys, the text is parsed again to locate them.
+ */
+export const parseStrictJson = (
+	input: string,
+	options: ParseOptions = {},
+): Result<JsonValue, ValidationError> => {
+	if (options.losslessNumbers || options.onLocation) {
+		const result = parseSyntaxTree(input, "json", options);
+		return result.ok ? ok(toJsonValue(result.value.root.value)) : result;
+	}
+
+	let value: JsonValue;
+	try {
+		value = JSON.parse(input) as JsonValue;
+	} catch (e) {
+		try {
+			const result = parseSyntaxTree(input, "json");
+			if (!result.ok) {
+				return result;
+			}
+		} catch {
+			// E.g. too deeply nested for the syntax tree parser
+		}
+		const message = e instanceof Error ? e.message : "Unknown parse error";
+		return err(ValidationError.parse(message));
+	}
+
+	if (
+		(options.strict || options.onWarning) &&
+		countMembers(value) !== countKeys(input)
+	) {
+		const result = parseSyntaxTree(input, "json", options);
+		if (!result.ok) {
+			return result;
+		}
+	}
+	return ok(value);
+};
+
+// Strings followed by a colon are keys; matching every string keeps colons
+// inside strings from being taken for one
+const JSON_STRING = /"(?:[^"\\]|\\.)*"(\s*:)?/g;
+
+/**
+ * Counts the object keys in valid JSON text
+ */
+const countKeys = (input: string): number => {
+	let count = 0;
+	JSON_STRING.lastIndex = 0;
+	for (
+		let match = JSON_STRING.exec(input);
+		match;
+		match = JSON_STRING.exec(input)
+	) {
+		if (match[1] !== undefined) {
+			count++;
+		}
+	}
+	return count;
+};
+
+/**
+ * Counts the object members in a JSON value
+ */
+const countMembers = (value: JsonValue): number => {
+	if (value === null || typeof value !== "object") {
+		return 0;
+	}
+	let count = 0;
+	if (Array.isArray(value)) {
+		for (const item of value) {
+			count += countMembers(item);
+		}
+		return count;
+	}
+	for (const key of Object.keys(value)) {
+		count += 1 + countMembers((value as JsonObject)[key]);
+	}
+	return count;
+};
+
+/**
+ * Returns the JSON value of a syntax tree node
+ *
+ * As with `JSON.parse`, the last of duplicate keys wins.
+ */
+export const toJsonValue = (node: SyntaxNode): JsonValue => {
+	switch (node.kind) {
+		case "value":
+			return node.value;
+		case "array":
+			return node.items.map((item) => toJsonValue(item.value));
+		case "object": {
+			const object: Record<string, JsonValue> = {};
+			for (const member of node.members) {
+				// Keys such as "__proto__" become own properties
+				Object.defineProperty(object, member.key, {
+					value: toJsonValue(member.value),
+					enumerable: true,
+					writable: true,
+					configurable: true,
+				});
+			}
+			return object;
+		}
+	}
+};
+
+/**
+ * Prints a syntax tree as JSONC, keeping its comments
+ *
+ * Trailing commas are dropped and strings are double-quoted. Non-finite
+ * numbers, which only JSON5 can express, are printed as in JSON5.
+ */
+export const printSyntaxTree = (
+	tree: SyntaxTree,
+	settings: FormatSettings,
+): string => {
+	const unit = settings.indent === "\t" ? "\t" : " ".repeat(settings.indent);
+
+	const printNode = (node: SyntaxNode, depth: number): string => {
+		switch (node.kind) {
+			case "value":
+				return typeof node.value === "number" && !Number.isFinite(node.value)
+					? String(node.value)
+					: stringifyLossless(node.value);
+			case "array":
+				return printContainer(
+					"[",
+					"]",
+					node.items.map((item) => ({ prefix: "", element: item })),
+					node.comments,
+					depth,
+				);
+			case "object": {
+				const members = settings.sortKeys
+					? [...node.members].sort((a, b) =>
+							a.key < b.key ? -1 : a.key > b.key ? 1 : 0,
+						)
+					: node.members;
+				return printContainer(
+					"{",
+					"}",
+					members.map((member) => ({
+						prefix: `${JSON.stringify(member.key)}: `,
+						element: member,
+					})),
+					node.comments,
+					depth,
+				);
+			}
+		}
+	};
+
+	const printContainer = (
+		open: string,
+		close: string,
+		elements: readonly { prefix: string; element: SyntaxElement }[],
+		comments: readonly string[],
+		depth: number,
+	): string => {
+		if (elements.length === 0 && comments.length === 0) {
+			return open + close;
+		}
+
+		const indent = unit.repeat(depth + 1);
+		const lines: string[] = [];
+		elements.forEach(({ prefix, element }, index) => {
+			for (const comment of element.leadingComments) {
+				lines.push(indent + comment);
+			}
+			const comma = index < elements.length - 1 ? "," : "";
+			const trailing = element.trailingComment
+				? ` ${element.trailingComment}`
+				: "";
+			lines.push(
+				indent +
+					prefix +
+					printNode(element.value, depth + 1) +
+					comma +
+					trailing,
+			);
+		});
+		for (const comment of comments) {
+			lines.push(indent + comment);
+		}
+		return `${open}\n${lines.join("\n")}\n${unit.repeat(depth)}${close}`;
+	};
+
+	const { root } = tree;
+	return [
+		...root.leadingComments,
+		printNode(root.value, 0) +
+			(root.trailingComment ? ` ${root.trailingComment}` : ""),
+		...tree.comments,
+	].join("\n");
+};
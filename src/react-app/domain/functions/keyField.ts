@@ -0,0 +1,80 @@
+import type { JsonValue } from "../types/json";
+import { isJsonObject } from "../types/json";
+import type { KeyField } from "../types/diff";
+import { structuralHash } from "./structuralHash";
+import { stringifyLossless } from "./stringify";
+
+/**
+ * Key extracted from an array item
+ */
+export interface ItemKey {
+	/** Collision-free identity used for matching */
+	readonly id: string;
+	/** Human-readable path segment, e.g. "id=42" or "tenant=acme,id=42" */
+	readonly label: string;
+}
+
+/**
+ * Splits a key field into its nested field paths
+ * Example: ["tenant", "meta.id"] -> [["tenant"], ["meta", "id"]]
+ */
+export const getKeyPaths = (keyField: KeyField): readonly string[][] => {
+	const fields = typeof keyField === "string" ? [keyField] : keyField;
+	return fields.map((field) => field.split("."));
+};
+
+/**
+ * Extracts the key of an array item
+ *
+ * @returns The key, or null if the item is not an object or lacks a key field
+ */
+export const extractItemKey = (
+	item: JsonValue,
+	keyPaths: readonly (readonly string[])[],
+): ItemKey | null => {
+	const values: JsonValue[] = [];
+
+	for (const keyPath of keyPaths) {
+		let current: JsonValue = item;
+		for (const segment of keyPath) {
+			if (!isJsonObject(current) || !(segment in current)) {
+				return null;
+			}
+			current = current[segment];
+		}
+		values.push(current);
+	}
+
+	return {
+		id: structuralHash(values),
+		label: values
+			.map(
+				(value, index) =>
+					`${keyPaths[index].join(".")}=${typeof value === "string" ? value : stringifyLossless(value)}`,
+			)
+			.join(","),
+	};
+};
+
+/**
+ * Parses user input into a key field
+ * Example: "tenant, id" -> ["tenant", "id"], "meta.id" -> "meta.id"
+ */
+export const parseKeyField = (input: string): KeyField | undefined => {
+	const fields = input
+		.split(",")
+		.map((field) => field.trim())
+		.filter((field) => field.length > 0);
+
+	if (fields.length === 0) {
+		return undefined;
+	}
+	return fields.length === 1 ? fields[0] : fields;
+};
+
+/**
+ * Formats a key field for display
+ */
+export const formatKeyField = (keyField: KeyField): string => {
+	return typeof keyField === "string" ? keyField : keyField.join(", ");
+};
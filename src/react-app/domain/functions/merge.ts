@@ -0,0 +1,537 @@
+import type { CompareSettings, DiffEntry } from "../types/diff";
+import type { JsonArray, JsonObject, JsonValue } from "../types/json";
+import { isJsonArray, isJsonObject } from "../types/json";
+import type {
+	ConflictEntry,
+	ConflictResolution,
+	MergeResult,
+} from "../types/merge";
+import { applyRules, computeDiff, getLeftPath, getRightPath } from "./differ";
+import { extractItemKey, getKeyPaths } from "./keyField";
+import { alignSequences } from "./sequence";
+import { structuralHash } from "./structuralHash";
+
+/**
+ * Locations one edit changed, by serialized path
+ */
+interface ChangeSet {
+	/** Locations of added, removed, modified and moved values */
+	readonly changed: Set<string>;
+	/** Changed locations and all their ancestors */
+	readonly touched: Set<string>;
+	/** Arrays whose items were added, removed or reordered */
+	readonly restructured: Set<string>;
+}
+
+/**
+ * State shared while merging
+ */
+interface MergeContext {
+	readonly ours: ChangeSet;
+	readonly theirs: ChangeSet;
+	readonly conflicts: ConflictEntry[];
+}
+
+/**
+ * Index in an edited array of each item of the base array, null where the
+ * edit removed the item
+ */
+type ItemPairing = readonly (number | null)[];
+
+/**
+ * Merges two edits of a base document (three-way merge)
+ *
+ * Both edits are diffed against the base with `computeDiff`, so settings such
+ * as `ignorePaths` and `floatTolerance` decide what counts as a change. Where
+ * only one edit changed a location, its value is taken; where both did, objects
+ * are merged member by member and arrays item by item (see `mergeItems`).
+ * Anything else both edits changed in different ways is a conflict, which
+ * keeps "ours" in the merged document.
+ */
+export const threeWayMerge = (
+	base: JsonValue,
+	ours: JsonValue,
+	theirs: JsonValue,
+	settings: CompareSettings,
+): MergeResult => {
+	const context: MergeContext = {
+		ours: collectChanges(computeDiff(base, ours, settings)),
+		theirs: collectChanges(computeDiff(base, theirs, settings)),
+		conflicts: [],
+	};
+
+	const merged = mergeValues(base, ours, theirs, [], context, settings);
+
+	return { merged: merged ?? null, conflicts: context.conflicts };
+};
+
+/**
+ * Applies the choices made for the conflicts of a merge
+ *
+ * @param resolutions - One choice per conflict, in order; conflicts without
+ *   a choice keep "ours"
+ */
+export const resolveConflicts = (
+	result: MergeResult,
+	resolutions: readonly (ConflictResolution | null)[],
+): JsonValue => {
+	let merged = result.merged;
+	result.conflicts.forEach((conflict, index) => {
+		const resolution = resolutions[index];
+		if (resolution) {
+			merged =
+				setValue(
+					merged,
+					conflict.path,
+					getResolvedValue(conflict, resolution),
+				) ?? null;
+		}
+	});
+	return merged;
+};
+
+/**
+ * Returns the value a choice puts at a conflicting location
+ */
+export const getResolvedValue = (
+	conflict: ConflictEntry,
+	resolution: ConflictResolution,
+): JsonValue | undefined => {
+	switch (resolution.type) {
+		case "ours":
+			return conflict.oursValue;
+		case "theirs":
+			return conflict.theirsValue;
+		case "edit":
+			return resolution.value;
+	}
+};
+
+/**
+ * Serializes a path for lookups
+ */
+const pathKey = (path: readonly string[]): string => JSON.stringify(path);
+
+/**
+ * Collects the locations the entries of a diff changed
+ */
+const collectChanges = (entries: readonly DiffEntry[]): ChangeSet => {
+	const changes: ChangeSet = {
+		changed: new Set(),
+		touched: new Set(),
+		restructured: new Set(),
+	};
+
+	const addChange = (path: readonly string[]) => {
+		changes.changed.add(pathKey(path));
+		for (let depth = 0; depth <= path.length; depth++) {
+			changes.touched.add(pathKey(path.slice(0, depth)));
+		}
+	};
+
+	for (const entry of entries) {
+		const leftPath =
+			entry.leftValue !== undefined && entry.type !== "added"
+				? getLeftPath(entry)
+				: null;
+		const rightPath =
+			entry.rightValue !== undefined && entry.type !== "removed"
+				? getRightPath(entry)
+				: null;
+
+		if (rightPath && (entry.type === "added" || entry.type === "moved")) {
+			changes.restructured.add(pathKey(rightPath.slice(0, -1)));
+		}
+		if (leftPath && (entry.type === "removed" || entry.type === "moved")) {
+			changes.restructured.add(pathKey(leftPath.slice(0, -1)));
+		}
+		if (leftPath && rightPath) {
+			// Items paired across different indices were reordered
+			const depth = leftPath.findIndex(
+				(segment, index) => segment !== rightPath[index],
+			);
+			if (depth >= 0) {
+				changes.restructured.add(pathKey(leftPath.slice(0, depth)));
+			}
+		}
+
+		if (entry.type !== "unchanged" && entry.type !== "ignored") {
+			for (const path of [leftPath, rightPath]) {
+				if (path) {
+					addChange(path);
+				}
+			}
+		}
+	}
+
+	return changes;
+};
+
+/**
+ * Checks if an edit changed a location, a value inside it or around it
+ */
+const isChanged = (changes: ChangeSet, path: readonly string[]): boolean => {
+	if (changes.touched.has(pathKey(path))) {
+		return true;
+	}
+	for (let depth = 0; depth < path.length; depth++) {
+		if (changes.changed.has(pathKey(path.slice(0, depth)))) {
+			return true;
+		}
+	}
+	return false;
+};
+
+/**
+ * Merges the values of a location; undefined means the location is absent
+ *
+ * @param path - Location in the merged document
+ */
+const mergeValues = (
+	base: JsonValue | undefined,
+	ours: JsonValue | undefined,
+	theirs: JsonValue | undefined,
+	path: readonly string[],
+	context: MergeContext,
+	inheritedSettings: CompareSettings,
+): JsonValue | undefined => {
+	if (!isChanged(context.theirs, path)) {
+		return ours;
+	}
+	if (!isChanged(context.ours, path)) {
+		return theirs;
+	}
+	if (
+		ours === undefined || theirs === undefined
+			? ours === theirs
+			: structuralHash(ours) === structuralHash(theirs)
+	) {
+		return ours;
+	}
+
+	const settings = applyRules(path, inheritedSettings);
+	if (
+		base !== undefined &&
+		ours !== undefined &&
+		theirs !== undefined &&
+		isJsonObject(base) &&
+		isJsonObject(ours) &&
+		isJsonObject(theirs)
+	) {
+		const keys = new Set([
+			...Object.keys(base),
+			...Object.keys(ours),
+			...Object.keys(theirs),
+		]);
+		const members = new Map<string, JsonValue>();
+		for (const key of keys) {
+			const value = mergeValues(
+				getMember(base, key),
+				getMember(ours, key),
+				getMember(theirs, key),
+				[...path, key],
+				context,
+				settings,
+			);
+			if (value !== undefined) {
+				members.set(key, value);
+			}
+		}
+		return Object.fromEntries(members);
+	}
+
+	if (
+		base !== undefined &&
+		ours !== undefined &&
+		theirs !== undefined &&
+		isJsonArray(base) &&
+		isJsonArray(ours) &&
+		isJsonArray(theirs) &&
+		ours.length === base.length &&
+		theirs.length === base.length &&
+		!context.ours.restructured.has(pathKey(path)) &&
+		!context.theirs.restructured.has(pathKey(path))
+	) {
+		return base.map(
+			(item, index) =>
+				mergeValues(
+					item,
+					ours[index],
+					theirs[index],
+					[...path, String(index)],
+					context,
+					settings,
+				) ?? null,
+		);
+	}
+
+	const items =
+		base !== undefined &&
+		ours !== undefined &&
+		theirs !== undefined &&
+		isJsonArray(base) &&
+		isJsonArray(ours) &&
+		isJsonArray(theirs)
+			? mergeItems(base, ours, theirs, path, context, settings)
+			: null;
+	if (items) {
+		return items;
+	}
+
+	context.conflicts.push({
+		type: "conflict",
+		path,
+		...(base !== undefined && { baseValue: base }),
+		...(ours !== undefined && { oursValue: ours }),
+		...(theirs !== undefined && { theirsValue: theirs }),
+	});
+	return ours;
+};
+
+/**
+ * Merges two edits of an array that added, removed or reordered items
+ *
+ * The items of each edit are paired with the base items (see `pairItems`).
+ * Items paired on both sides are merged with diffs of their own, since their
+ * indices may differ between the documents, and items one edit inserted are
+ * placed after the base item they follow in that edit.
+ *
+ * @returns The merged items, or null when the edits overlap: items were
+ *   reordered, an item was removed on one side and changed on the other, or
+ *   different items were inserted at the same place
+ */
+const mergeItems = (
+	base: JsonArray,
+	ours: JsonArray,
+	theirs: JsonArray,
+	path: readonly string[],
+	context: MergeContext,
+	settings: CompareSettings,
+): JsonValue[] | null => {
+	const oursPairing = pairItems(base, ours, settings);
+	const theirsPairing = pairItems(base, theirs, settings);
+	if (!oursPairing || !theirsPairing) {
+		return null;
+	}
+	const oursInsertions = groupInsertions(ours, oursPairing);
+	const theirsInsertions = groupInsertions(theirs, theirsPairing);
+
+	const isRemovedAndChanged = (
+		item: JsonValue,
+		removedIndex: number | null,
+		keptIndex: number | null,
+		kept: JsonArray,
+	) =>
+		removedIndex === null &&
+		keptIndex !== null &&
+		structuralHash(item) !== structuralHash(kept[keptIndex]);
+	if (
+		base.some(
+			(item, index) =>
+				isRemovedAndChanged(
+					item,
+					oursPairing[index],
+					theirsPairing[index],
+					theirs,
+				) ||
+				isRemovedAndChanged(
+					item,
+					theirsPairing[index],
+					oursPairing[index],
+					ours,
+				),
+		) ||
+		oursInsertions.some(
+			(items, gap) =>
+				items.length > 0 &&
+				theirsInsertions[gap].length > 0 &&
+				structuralHash(items) !== structuralHash(theirsInsertions[gap]),
+		)
+	) {
+		return null;
+	}
+
+	const merged: JsonValue[] = [];
+	for (let gap = 0; gap <= base.length; gap++) {
+		const inserted =
+			oursInsertions[gap].length > 0
+				? oursInsertions[gap]
+				: theirsInsertions[gap];
+		for (const item of inserted) {
+			merged.push(item);
+		}
+		if (gap === base.length) {
+			break;
+		}
+
+		const oursIndex = oursPairing[gap];
+		const theirsIndex = theirsPairing[gap];
+		if (oursIndex !== null && theirsIndex !== null) {
+			const itemPath = [...path, String(merged.length)];
+			const item = mergeValues(
+				base[gap],
+				ours[oursIndex],
+				theirs[theirsIndex],
+				itemPath,
+				{
+					ours: collectChanges(
+						computeDiff(base[gap], ours[oursIndex], settings, itemPath),
+					),
+					theirs: collectChanges(
+						computeDiff(base[gap], theirs[theirsIndex], settings, itemPath),
+					),
+					conflicts: context.conflicts,
+				},
+				settings,
+			);
+			merged.push(item ?? null);
+		}
+	}
+	return merged;
+};
+
+/**
+ * Pairs the items of a base array with the items of an edit
+ *
+ * Items are matched by `keyField` when every item has a distinct key.
+ * Otherwise equal items are aligned as in an ordered diff, and the items left
+ * between two aligned ones are paired in order as replacements.
+ *
+ * @returns The pairing, or null when keyed items were reordered
+ */
+const pairItems = (
+	base: JsonArray,
+	edit: JsonArray,
+	settings: CompareSettings,
+): ItemPairing | null => {
+	if (settings.keyField) {
+		const keyPaths = getKeyPaths(settings.keyField);
+		const baseIds = getItemIds(base, keyPaths);
+		const editIds = getItemIds(edit, keyPaths);
+		if (baseIds && editIds) {
+			const editIndices = new Map(editIds.map((id, index) => [id, index]));
+			const pairing = baseIds.map((id) => editIndices.get(id) ?? null);
+			const kept = pairing.filter((index) => index !== null);
+			return kept.every((index, i) => i === 0 || index > kept[i - 1])
+				? pairing
+				: null;
+		}
+	}
+
+	const baseHashes = base.map((item) => structuralHash(item));
+	const editHashes = edit.map((item) => structuralHash(item));
+	const pairing: (number | null)[] = base.map(() => null);
+	const removed: number[] = [];
+	const inserted: number[] = [];
+	const pairReplacements = () => {
+		removed.forEach((baseIndex, i) => {
+			if (i < inserted.length) {
+				pairing[baseIndex] = inserted[i];
+			}
+		});
+		removed.length = 0;
+		inserted.length = 0;
+	};
+	for (const op of alignSequences(
+		base.length,
+		edit.length,
+		(baseIndex, editIndex) => baseHashes[baseIndex] === editHashes[editIndex],
+	)) {
+		if (op.type === "equal") {
+			pairReplacements();
+			pairing[op.leftIndex] = op.rightIndex;
+		} else if (op.type === "delete") {
+			removed.push(op.leftIndex);
+		} else {
+			inserted.push(op.rightIndex);
+		}
+	}
+	pairReplacements();
+	return pairing;
+};
+
+/**
+ * Returns the key identity of every item, or null when an item has no key or
+ * shares its key with another item
+ */
+const getItemIds = (
+	items: JsonArray,
+	keyPaths: readonly (readonly string[])[],
+): string[] | null => {
+	const ids = new Set<string>();
+	for (const item of items) {
+		const key = extractItemKey(item, keyPaths);
+		if (!key || ids.has(key.id)) {
+			return null;
+		}
+		ids.add(key.id);
+	}
+	return [...ids];
+};
+
+/**
+ * Groups the items an edit inserted by the number of base items before them
+ */
+const groupInsertions = (
+	edit: JsonArray,
+	pairing: ItemPairing,
+): JsonValue[][] => {
+	const baseIndices = new Map<number, number>();
+	pairing.forEach((editIndex, baseIndex) => {
+		if (editIndex !== null) {
+			baseIndices.set(editIndex, baseIndex);
+		}
+	});
+
+	const groups: JsonValue[][] = Array.from(
+		{ length: pairing.length + 1 },
+		() => [],
+	);
+	let gap = 0;
+	edit.forEach((item, editIndex) => {
+		const baseIndex = baseIndices.get(editIndex);
+		if (baseIndex === undefined) {
+			groups[gap].push(item);
+		} else {
+			gap = baseIndex + 1;
+		}
+	});
+	return groups;
+};
+
+/**
+ * Returns an object member, or undefined when the object does not have it
+ */
+const getMember = (object: JsonObject, key: string): JsonValue | undefined =>
+	Object.prototype.hasOwnProperty.call(object, key) ? object[key] : undefined;
+
+/**
+ * Returns a copy of a document with the value at a location replaced, or
+ * removed when the value is undefined
+ */
+const setValue = (
+	document: JsonValue | undefined,
+	path: readonly string[],
+	value: JsonValue | undefined,
+): JsonValue | undefined => {
+	if (path.length === 0) {
+		return value;
+	}
+
+	const [key, ...rest] = path;
+	if (document !== undefined && isJsonArray(document)) {
+		const copy = [...document];
+		copy[Number(key)] = setValue(copy[Number(key)], rest, value) ?? null;
+		return copy;
+	}
+
+	const object =
+		document !== undefined && isJsonObject(document) ? document : {};
+	const { [key]: current, ...others } = object;
+	const updated = setValue(
+		Object.prototype.hasOwnProperty.call(object, key) ? current : undefined,
+		rest,
+		value,
+	);
+	return updated === undefined ? others : { ...object, [key]: updated };
+};
@@ -0,0 +1,398 @@
+import type { DiffEntry } from "../types/diff";
+import type { JsonObject, JsonValue } from "../types/json";
+import { isJsonArray, isJsonObject } from "../types/json";
+import type { MergePatchResult, MergePatchWarning } from "../types/patch";
+import { getLeftPath, getRightPath } from "./differ";
+
+/**
+ * Location in one of the documents, as far as the entries reveal it
+ */
+interface LocationNode {
+	readonly children: Map<string, LocationNode>;
+	/** Whether entries locate array items below this location */
+	isArray: boolean;
+	/** Complete value at this location, if an entry holds it */
+	value: JsonValue | undefined;
+	/** Whether the value no longer exists in the right document */
+	isGone: boolean;
+	/** Location of the same value in the other document, if known */
+	counterpart: LocationNode | null;
+}
+
+/**
+ * Applies a JSON Merge Patch (RFC 7396) to a document
+ *
+ * Object members of the patch are merged recursively and null members remove
+ * the member; any other patch value replaces the target as a whole. The
+ * input document is not mutated.
+ */
+export const applyMergePatch = (
+	target: JsonValue,
+	patch: JsonValue,
+): JsonValue => {
+	if (!isJsonObject(patch)) {
+		return patch;
+	}
+
+	let result: JsonObject = isJsonObject(target) ? target : {};
+	for (const [key, value] of Object.entries(patch)) {
+		if (value === null) {
+			const { [key]: _, ...rest } = result;
+			result = rest;
+		} else {
+			const current = Object.prototype.hasOwnProperty.call(result, key)
+				? result[key]
+				: null;
+			result = { ...result, [key]: applyMergePatch(current, value) };
+		}
+	}
+	return result;
+};
+
+/**
+ * Generates a JSON Merge Patch (RFC 7396) that turns the left document of a
+ * diff into its right document
+ *
+ * Merge patches address object members only. A change inside an array
+ * replaces the outermost array containing it, rebuilt from the entries, and
+ * members set to null are left out because null means removal. Both cases are
+ * reported as warnings. Documents that are not objects are replaced as a
+ * whole.
+ *
+ * @param entries - Entries of a diff; unchanged entries hold kept values
+ */
+export const generateMergePatch = (
+	entries: readonly DiffEntry[],
+): MergePatchResult => {
+	const leftRoot = createLocationNode();
+	const rightRoot = createLocationNode();
+
+	for (const entry of entries) {
+		const leftPath =
+			entry.leftValue !== undefined && entry.type !== "added"
+				? getLeftPath(entry)
+				: null;
+		const rightPath =
+			entry.rightValue !== undefined && entry.type !== "removed"
+				? getRightPath(entry)
+				: null;
+		const left = leftPath && locationAt(leftRoot, leftPath);
+		const right = rightPath && locationAt(rightRoot, rightPath);
+
+		// Mark the arrays the entry passes through
+		if (leftPath) {
+			for (const segment of entry.leftIndexSegments ?? []) {
+				locationAt(leftRoot, leftPath.slice(0, segment)).isArray = true;
+			}
+		}
+		if (rightPath) {
+			for (const segment of entry.rightIndexSegments ?? []) {
+				locationAt(rightRoot, rightPath.slice(0, segment)).isArray = true;
+			}
+		}
+		if (left) {
+			left.value = entry.leftValue;
+			left.isGone = !right;
+		}
+		if (right) {
+			right.value = entry.rightValue;
+		}
+		if (!left || !right || !leftPath || !rightPath) {
+			continue;
+		}
+
+		// Moved values may change parents, so only the value itself is paired
+		const pairedDepth =
+			entry.type === "moved" || leftPath.length !== rightPath.length
+				? leftPath.length
+				: 0;
+		for (let depth = pairedDepth; depth <= leftPath.length; depth++) {
+			const source = locationAt(leftRoot, leftPath.slice(0, depth));
+			const target = locationAt(rightRoot, rightPath.slice(0, depth));
+			if (!source.counterpart && !target.counterpart) {
+				source.counterpart = target;
+				target.counterpart = source;
+			}
+		}
+	}
+
+	let patch: JsonValue = {};
+	const warnings: MergePatchWarning[] = [];
+	const replacedArrays = new Set<string>();
+
+	const setMember = (path: readonly string[], value: JsonValue): void => {
+		if (path.length === 0) {
+			patch = value;
+			return;
+		}
+		const update = (node: JsonValue, depth: number): JsonValue => {
+			const members = isJsonObject(node) ? node : {};
+			const key = path[depth];
+			return {
+				...members,
+				[key]:
+					depth === path.length - 1
+						? value
+						: update(
+								Object.prototype.hasOwnProperty.call(members, key)
+									? members[key]
+									: {},
+								depth + 1,
+							),
+			};
+		};
+		patch = update(patch, 0);
+	};
+
+	// Values moved away from object members are removed first, so that
+	// values moved or added to their old location take its place
+	for (const entry of entries) {
+		const leftPath = getLeftPath(entry);
+		if (
+			entry.type === "moved" &&
+			!findOutermostArray(leftRoot, rightRoot, leftPath)
+		) {
+			setMember(leftPath, null);
+		}
+	}
+
+	for (const entry of entries) {
+		if (entry.type === "unchanged" || entry.type === "ignored") {
+			continue;
+		}
+
+		const paths = [
+			entry.type !== "added" ? getLeftPath(entry) : null,
+			entry.type !== "removed" ? getRightPath(entry) : null,
+		];
+		let isInArray = false;
+		let isRightInArray = false;
+		for (const [index, path] of paths.entries()) {
+			const arrayPath = path && findOutermostArray(leftRoot, rightRoot, path);
+			if (!arrayPath) {
+				continue;
+			}
+			isInArray = true;
+			isRightInArray = index === 1;
+			const id = JSON.stringify(arrayPath);
+			if (!replacedArrays.has(id)) {
+				replacedArrays.add(id);
+				setMember(
+					arrayPath,
+					rebuild(
+						findLocation(rightRoot, arrayPath),
+						findLocation(leftRoot, arrayPath),
+					),
+				);
+				warnings.push({
+					type: "array-replaced",
+					path: arrayPath,
+					message:
+						"Array items cannot be patched, so the whole array is replaced",
+				});
+			}
+		}
+		// Arrays a value moved into are replaced as a whole; object members it
+		// moved out of were already removed
+		if (entry.type === "moved" ? isRightInArray : isInArray) {
+			continue;
+		}
+
+		if (entry.type === "removed") {
+			setMember(getLeftPath(entry), null);
+			continue;
+		}
+
+		const path = getRightPath(entry);
+		const value = entry.rightValue ?? null;
+		for (const nullPath of findNullMembers(value, path)) {
+			warnings.push({
+				type: "null-value",
+				path: nullPath,
+				message:
+					"Members cannot be set to null in a merge patch, so this member is left out",
+			});
+		}
+		if (value !== null || path.length === 0) {
+			setMember(path, value);
+		}
+	}
+
+	// Patches other than objects replace the target as a whole, so documents
+	// that are not objects are patched with their complete right value
+	const isObjectRoot =
+		rightRoot.value !== undefined
+			? isJsonObject(rightRoot.value)
+			: !isArrayLocation(rightRoot, leftRoot);
+	if (!isObjectRoot) {
+		patch = rebuild(rightRoot, leftRoot);
+	}
+
+	return { patch, warnings };
+};
+
+/**
+ * Creates a document location
+ */
+const createLocationNode = (): LocationNode => ({
+	children: new Map(),
+	isArray: false,
+	value: undefined,
+	isGone: false,
+	counterpart: null,
+});
+
+/**
+ * Returns the location at a path, creating it if needed
+ */
+const locationAt = (
+	root: LocationNode,
+	path: readonly string[],
+): LocationNode => {
+	let node = root;
+	for (const key of path) {
+		let child = node.children.get(key);
+		if (!child) {
+			child = createLocationNode();
+			node.children.set(key, child);
+		}
+		node = child;
+	}
+	return node;
+};
+
+/**
+ * Returns the location at a path, if any entry reaches it
+ */
+const findLocation = (
+	root: LocationNode,
+	path: readonly string[],
+): LocationNode | undefined => {
+	let node: LocationNode | undefined = root;
+	for (const key of path) {
+		node = node?.children.get(key);
+	}
+	return node;
+};
+
+/**
+ * Checks if the value at a location is an array
+ *
+ * Values held by entries decide; otherwise the array items the entries
+ * locate on either side do.
+ */
+const isArrayLocation = (
+	right: LocationNode | undefined,
+	left: LocationNode | undefined,
+): boolean => {
+	const value = right?.value !== undefined ? right.value : left?.value;
+	if (value !== undefined) {
+		return isJsonArray(value);
+	}
+	return Boolean(right?.isArray || left?.isArray);
+};
+
+/**
+ * Finds the outermost array containing a location
+ *
+ * Only object members lead to it, so its path is the same in both documents.
+ */
+const findOutermostArray = (
+	leftRoot: LocationNode,
+	rightRoot: LocationNode,
+	path: readonly string[],
+): readonly string[] | null => {
+	for (let depth = 0; depth < path.length; depth++) {
+		const prefix = path.slice(0, depth);
+		if (
+			isArrayLocation(
+				findLocation(rightRoot, prefix),
+				findLocation(leftRoot, prefix),
+			)
+		) {
+			return prefix;
+		}
+	}
+	return null;
+};
+
+/**
+ * Rebuilds the right document value at a location
+ *
+ * Kept values without any entry on the right side only had their content
+ * removed; they are rebuilt from what is left of the left side value. Array
+ * items the entries do not pair are matched up in order, like the items of an
+ * index-based diff.
+ */
+const rebuild = (
+	right: LocationNode | undefined,
+	left: LocationNode | undefined,
+): JsonValue => {
+	if (right?.value !== undefined) {
+		return right.value;
+	}
+	const source = right?.counterpart ?? left;
+
+	if (isArrayLocation(right, source)) {
+		// Left items no entry locates keep their position as null
+		const leftLength = Math.max(
+			0,
+			...[...(source?.children.keys() ?? [])].map((key) => Number(key) + 1),
+		);
+		const unpaired = Array.from(
+			{ length: leftLength },
+			(_, index) => source?.children.get(String(index)) ?? null,
+		).filter((child) => !child?.isGone && !child?.counterpart);
+		const rightKeys = right ? [...right.children.keys()].map(Number) : [];
+		const length = Math.max(0, ...rightKeys.map((key) => key + 1));
+
+		const items: JsonValue[] = [];
+		for (let index = 0; index < length; index++) {
+			const child = right?.children.get(String(index));
+			items.push(
+				child?.value !== undefined || child?.counterpart
+					? rebuild(child, undefined)
+					: rebuild(child, unpaired.shift() ?? undefined),
+			);
+		}
+		for (const child of unpaired) {
+			if (child) {
+				items.push(rebuild(undefined, child));
+			}
+		}
+		return items;
+	}
+
+	const members = new Map<string, JsonValue>();
+	for (const [key, child] of source?.children ?? []) {
+		if (!child.isGone) {
+			members.set(key, rebuild(right?.children.get(key), child));
+		}
+	}
+	for (const [key, child] of right?.children ?? []) {
+		if (!members.has(key)) {
+			members.set(key, rebuild(child, undefined));
+		}
+	}
+	return Object.fromEntries(members);
+};
+
+/**
+ * Lists the object members set to null within a value
+ *
+ * Arrays replace their target as a whole, so nulls inside them are kept.
+ */
+const findNullMembers = (
+	value: JsonValue,
+	path: readonly string[],
+): (readonly string[])[] => {
+	if (value === null) {
+		return path.length > 0 ? [path] : [];
+	}
+	if (!isJsonObject(value)) {
+		return [];
+	}
+	return Object.entries(value).flatMap(([key, member]) =>
+		findNullMembers(member, [...path, key]),
+	);
+};
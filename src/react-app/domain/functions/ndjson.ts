@@ -0,0 +1,131 @@
+import type { JsonValue, ParseOptions } from "../types/json";
+import type { Result } from "../types/result";
+import { ok, err } from "../types/result";
+import { ValidationError } from "../value-objects/ValidationError";
+import type {
+	DuplicateKeyDetails,
+	ParseErrorDetails,
+} from "../value-objects/ValidationError";
+import { parseStrictJson } from "./jsonSyntax";
+
+/**
+ * Incremental parser for newline-delimited JSON (NDJSON / JSON Lines)
+ */
+export interface NdjsonParser {
+	/**
+	 * Parses the lines completed by a chunk of text
+	 *
+	 * Chunks may end anywhere, also in the middle of a line.
+	 */
+	push(chunk: string): Result<void, ValidationError>;
+	/**
+	 * Parses the last line and returns one record per non-blank line
+	 */
+	end(): Result<JsonValue[], ValidationError>;
+}
+
+/**
+ * Creates an incremental NDJSON parser
+ *
+ * Only the current unfinished line is buffered, so the text can be streamed
+ * without being held in memory as a whole. Blank lines are skipped; parse
+ * errors, duplicate keys and values are located in the whole text, not in
+ * their line, and the paths of duplicate keys and values start with the index
+ * of their record.
+ */
+export const createNdjsonParser = (
+	options: ParseOptions = {},
+): NdjsonParser => {
+	const records: JsonValue[] = [];
+	let buffer = "";
+	let line = 0;
+	// Offset of the current line in the whole text
+	let lineOffset = 0;
+
+	// The line was parsed on its own, so positions in it are on line 1
+	const relocate = (
+		error: ValidationError,
+		offset: number,
+	): ValidationError => {
+		const position = error.getPosition();
+		if (!position) {
+			return ValidationError.parse(`${error.getMessage()} at line ${line}`);
+		}
+
+		if (error.getType() === "duplicate-key") {
+			const details = error.getDetails() as DuplicateKeyDetails;
+			return ValidationError.duplicateKey({
+				...details,
+				line,
+				offset: offset + position.offset,
+				path: [String(records.length), ...details.path],
+			});
+		}
+		const details = error.getDetails() as ParseErrorDetails;
+		const message = error.getMessage().replace(/ at line 1, column \d+$/, "");
+		return ValidationError.parse(
+			`${message} at line ${line}, column ${position.column}`,
+			{ ...details, line, offset: offset + position.offset },
+		);
+	};
+
+	const parseLine = (text: string): Result<void, ValidationError> => {
+		line++;
+		const offset = lineOffset;
+		lineOffset += text.length + 1;
+		if (text.trim().length === 0) {
+			return ok(undefined);
+		}
+
+		const { onWarning, onLocation } = options;
+		const result = parseStrictJson(text, {
+			...options,
+			onWarning:
+				onWarning && ((warning) => onWarning(relocate(warning, offset))),
+			onLocation:
+				onLocation &&
+				((path, { column, range: [start, end] }) =>
+					onLocation([String(records.length), ...path], {
+						line,
+						column,
+						range: [offset + start, offset + end],
+					})),
+		});
+		if (!result.ok) {
+			return err(relocate(result.error, offset));
+		}
+		records.push(result.value);
+		return ok(undefined);
+	};
+
+	return {
+		push(chunk) {
+			const lines = (buffer + chunk).split("\n");
+			buffer = lines.pop() ?? "";
+			for (const text of lines) {
+				const result = parseLine(text);
+				if (!result.ok) {
+					return result;
+				}
+			}
+			return ok(undefined);
+		},
+		end() {
+			const result = parseLine(buffer);
+			buffer = "";
+			return result.ok ? ok(records) : result;
+		},
+	};
+};
+
+/**
+ * Parses NDJSON text into an array with one item per record
+ */
+export const parseNdjson = (
+	input: string,
+	options: ParseOptions = {},
+): Result<JsonValue[], ValidationError> => {
+	const parser = createNdjsonParser(options);
+	const result = parser.push(input);
+	return result.ok ? parser.end() : result;
+};
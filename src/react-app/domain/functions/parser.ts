@@ -1,18 +1,48 @@
-import type { JsonValue } from "../types/json";
+import type { JsonDialect, JsonValue, ParseOptions } from "../types/json";
 import type { Result } from "../types/result";
 import { ok, err } from "../types/result";
 import { ValidationError } from "../value-objects/ValidationError";
+import { parseStrictJson, parseSyntaxTree, toJsonValue } from "./jsonSyntax";
+import { parseYaml } from "./yaml";
+import { parseNdjson } from "./ndjson";
+import { stringifyLossless } from "./stringify";
 
 /**
- * Maximum size for JSON input (10MB)
+ * Default maximum size for JSON input (10MB), see `ParseOptions.maxSize`
  */
 export const MAX_JSON_SIZE = 10 * 1024 * 1024;
 
+/**
+ * Parses JSON text of a dialect, without checking its size
+ *
+ * Parse errors of every dialect carry `ParseErrorDetails`.
+ */
+export const parseJsonText = (
+	input: string,
+	dialect: JsonDialect = "json",
+	options: ParseOptions = {},
+): Result<JsonValue, ValidationError> => {
+	if (dialect === "yaml") {
+		return parseYaml(input, options);
+	}
+	if (dialect === "ndjson") {
+		return parseNdjson(input, options);
+	}
+	if (dialect !== "json") {
+		const result = parseSyntaxTree(input, dialect, options);
+		return result.ok ? ok(toJsonValue(result.value.root.value)) : result;
+	}
+
+	return parseStrictJson(input, options);
+};
+
 /**
  * Parses a JSON string into a JsonValue
  */
 export const parseJson = (
 	input: string,
+	dialect: JsonDialect = "json",
+	options: ParseOptions = {},
 ): Result<JsonValue, ValidationError> => {
 	// Check if empty
 	if (!input || input.trim().length === 0) {
@@ -20,26 +50,21 @@ export const parseJson = (
 	}
 
 	// Check size
+	const maxSize = options.maxSize ?? MAX_JSON_SIZE;
 	const size = new Blob([input]).size;
-	if (size > MAX_JSON_SIZE) {
-		return err(ValidationError.tooLarge(MAX_JSON_SIZE, size));
+	if (size > maxSize) {
+		return err(ValidationError.tooLarge(maxSize, size));
 	}
 
 	// Parse JSON
-	try {
-		const data = JSON.parse(input) as JsonValue;
-		return ok(data);
-	} catch (e) {
-		const message = e instanceof Error ? e.message : "Unknown parse error";
-		return err(ValidationError.parse(message, e));
-	}
+	return parseJsonText(input, dialect, options);
 };
 
 /**
- * Stringifies a JsonValue to a JSON string
+ * Stringifies a JsonValue to a JSON string, keeping lossless numbers
  */
 export const stringifyJson = (value: JsonValue, pretty = false): string => {
-	return JSON.stringify(value, null, pretty ? 2 : 0);
+	return stringifyLossless(value, pretty ? 2 : 0);
 };
 
 /**
@@ -47,6 +72,7 @@ export const stringifyJson = (value: JsonValue, pretty = false): string => {
  */
 export const validateJsonString = (
 	input: string,
+	dialect: JsonDialect = "json",
 ): Result<void, ValidationError> => {
 	if (!input || input.trim().length === 0) {
 		return err(ValidationError.empty());
@@ -57,24 +83,73 @@ export const validateJsonString = (
 		return err(ValidationError.tooLarge(MAX_JSON_SIZE, size));
 	}
 
-	try {
-		JSON.parse(input);
-		return ok(undefined);
-	} catch (e) {
-		const message = e instanceof Error ? e.message : "Unknown parse error";
-		return err(ValidationError.parse(message, e));
-	}
+	const result = parseJsonText(input, dialect);
+	return result.ok ? ok(undefined) : result;
 };
 
 /**
- * Normalizes JSON by parsing and re-stringifying (removes whitespace)
+ * Normalizes JSON by parsing and re-stringifying (removes whitespace and
+ * comments); numbers keep their text
  */
 export const normalizeJson = (
 	input: string,
+	dialect: JsonDialect = "json",
 ): Result<string, ValidationError> => {
-	const result = parseJson(input);
+	const result = parseJson(input, dialect, { losslessNumbers: true });
 	if (!result.ok) {
 		return result;
 	}
 	return ok(stringifyJson(result.value));
 };
+
+const FILE_DIALECTS: ReadonlyMap<string, JsonDialect> = new Map<
+	string,
+	JsonDialect
+>([
+	["jsonc", "jsonc"],
+	["json5", "json5"],
+	["yaml", "yaml"],
+	["yml", "yaml"],
+	["ndjson", "ndjson"],
+	["jsonl", "ndjson"],
+]);
+
+/**
+ * Returns the dialect of a file by its extension, strict JSON by default
+ */
+export const getFileDialect = (fileName: string): JsonDialect => {
+	const extension = /\.([^.]+)$/.exec(fileName)?.[1].toLowerCase();
+	return (extension && FILE_DIALECTS.get(extension)) || "json";
+};
+
+const DETECTABLE_JSON_DIALECTS: readonly JsonDialect[] = [
+	"json",
+	"jsonc",
+	"json5",
+	"ndjson",
+];
+
+/**
+ * Guesses the dialect of pasted text
+ *
+ * The most restrictive JSON dialect that parses the text wins. Other text is
+ * YAML when it holds a mapping, a sequence or several documents; a lone YAML
+ * scalar is more likely broken JSON, so undefined is returned for it.
+ */
+export const detectDialect = (input: string): JsonDialect | undefined => {
+	if (!input || input.trim().length === 0) {
+		return undefined;
+	}
+
+	const dialect = DETECTABLE_JSON_DIALECTS.find(
+		(candidate) => parseJsonText(input, candidate).ok,
+	);
+	if (dialect) {
+		return dialect;
+	}
+
+	const yaml = parseYaml(input);
+	return yaml.ok && yaml.value !== null && typeof yaml.value === "object"
+		? "yaml"
+		: undefined;
+};
@@ -0,0 +1,355 @@
+import type { JsonValue, JsonArray, JsonObject } from "../types/json";
+import { isJsonArray, isJsonObject } from "../types/json";
+import type {
+	JsonPatch,
+	JsonPatchError,
+	JsonPatchOperation,
+} from "../types/patch";
+import type { Result } from "../types/result";
+import { ok, err } from "../types/result";
+import { JsonPointer } from "../value-objects/JsonPointer";
+import { structuralHash } from "./structuralHash";
+
+/**
+ * Patch error before the failing operation is known
+ */
+type OperationError = Omit<JsonPatchError, "index">;
+
+/**
+ * Validates a parsed JSON value as a JSON Patch document
+ */
+export const parsePatch = (
+	value: JsonValue,
+): Result<JsonPatch, JsonPatchError> => {
+	if (!isJsonArray(value)) {
+		return err({
+			type: "invalid-operation",
+			index: -1,
+			message: "A JSON Patch must be an array of operations",
+		});
+	}
+
+	const operations: JsonPatchOperation[] = [];
+	for (let index = 0; index < value.length; index++) {
+		const operation = parseOperation(value[index]);
+		if (!operation.ok) {
+			return err({ ...operation.error, index });
+		}
+		operations.push(operation.value);
+	}
+
+	return ok(operations);
+};
+
+/**
+ * Applies a JSON Patch (RFC 6902) to a document
+ *
+ * Operations are applied in order without mutating the input. Application
+ * stops at the first failing operation.
+ *
+ * @returns The patched document, or the error of the failing operation
+ */
+export const applyPatch = (
+	document: JsonValue,
+	patch: JsonPatch,
+): Result<JsonValue, JsonPatchError> => {
+	let current = document;
+
+	for (let index = 0; index < patch.length; index++) {
+		const result = applyOperation(current, patch[index]);
+		if (!result.ok) {
+			return err({ ...result.error, index });
+		}
+		current = result.value;
+	}
+
+	return ok(current);
+};
+
+/**
+ * Applies a single operation
+ */
+const applyOperation = (
+	document: JsonValue,
+	operation: JsonPatchOperation,
+): Result<JsonValue, OperationError> => {
+	const path = parsePointer(operation.path);
+	if (!path.ok) {
+		return path;
+	}
+	const tokens = path.value.getTokens();
+
+	switch (operation.op) {
+		case "add":
+			return addValue(document, tokens, operation.value);
+
+		case "remove":
+			return removeValue(document, tokens);
+
+		case "replace": {
+			const removed = removeValue(document, tokens);
+			return removed.ok
+				? addValue(removed.value, tokens, operation.value)
+				: path.value.isRoot()
+					? ok(operation.value)
+					: removed;
+		}
+
+		case "move":
+		case "copy": {
+			const from = parsePointer(operation.from);
+			if (!from.ok) {
+				return from;
+			}
+			const value = getValue(document, from.value.getTokens());
+			if (!value.ok) {
+				return value;
+			}
+			if (operation.op === "copy") {
+				return addValue(document, tokens, value.value);
+			}
+			if (from.value.isAncestorOf(path.value)) {
+				return err({
+					type: "invalid-path",
+					message: `Cannot move "${operation.from}" into its own child "${operation.path}"`,
+				});
+			}
+			const removed = removeValue(document, from.value.getTokens());
+			return removed.ok
+				? addValue(removed.value, tokens, value.value)
+				: removed;
+		}
+
+		case "test": {
+			const value = getValue(document, tokens);
+			if (!value.ok) {
+				return value;
+			}
+			return structuralHash(value.value) === structuralHash(operation.value)
+				? ok(document)
+				: err({
+						type: "test-failed",
+						message: `Value at "${operation.path}" does not match`,
+					});
+		}
+	}
+};
+
+/**
+ * Validates a single operation object
+ */
+const parseOperation = (
+	value: JsonValue,
+): Result<JsonPatchOperation, OperationError> => {
+	if (!isJsonObject(value)) {
+		return invalidOperation("Operation must be an object");
+	}
+	if (typeof value.path !== "string") {
+		return invalidOperation('Operation is missing a string "path"');
+	}
+
+	switch (value.op) {
+		case "add":
+		case "replace":
+		case "test":
+			return "value" in value
+				? ok({ op: value.op, path: value.path, value: value.value })
+				: invalidOperation(`"${value.op}" operation is missing "value"`);
+
+		case "remove":
+			return ok({ op: value.op, path: value.path });
+
+		case "move":
+		case "copy":
+			return typeof value.from === "string"
+				? ok({ op: value.op, from: value.from, path: value.path })
+				: invalidOperation(
+						`"${value.op}" operation is missing a string "from"`,
+					);
+
+		default:
+			return invalidOperation(`Unknown operation "${String(value.op)}"`);
+	}
+};
+
+/**
+ * Creates an invalid operation error
+ */
+const invalidOperation = <T>(message: string): Result<T, OperationError> =>
+	err({ type: "invalid-operation", message });
+
+/**
+ * Parses a JSON Pointer (RFC 6901)
+ */
+const parsePointer = (pointer: string): Result<JsonPointer, OperationError> => {
+	const result = JsonPointer.fromString(pointer);
+	return result.ok
+		? result
+		: err({ type: "invalid-path", message: result.error.getMessage() });
+};
+
+/**
+ * Resolves an array index token
+ *
+ * @param allowEnd - Accept "-" and the array length (positions to append at)
+ */
+const resolveIndex = (
+	array: JsonArray,
+	token: string,
+	allowEnd: boolean,
+): Result<number, OperationError> => {
+	if (token === "-" && allowEnd) {
+		return ok(array.length);
+	}
+	if (!/^(0|[1-9]\d*)$/.test(token)) {
+		return err({
+			type: "invalid-path",
+			message: `"${token}" is not a valid array index`,
+		});
+	}
+
+	const index = Number(token);
+	if (index > array.length || (index === array.length && !allowEnd)) {
+		return err({
+			type: "path-not-found",
+			message: `Array index ${index} is out of bounds`,
+		});
+	}
+	return ok(index);
+};
+
+/**
+ * Returns the value at a location
+ */
+const getValue = (
+	document: JsonValue,
+	tokens: readonly string[],
+): Result<JsonValue, OperationError> => {
+	let current = document;
+
+	for (const token of tokens) {
+		if (isJsonArray(current)) {
+			const index = resolveIndex(current, token, false);
+			if (!index.ok) {
+				return index;
+			}
+			current = current[index.value];
+		} else if (
+			isJsonObject(current) &&
+			Object.prototype.hasOwnProperty.call(current, token)
+		) {
+			current = current[token];
+		} else {
+			return err({
+				type: "path-not-found",
+				message: `Path "${JsonPointer.fromTokens(tokens).toString()}" does not exist`,
+			});
+		}
+	}
+
+	return ok(current);
+};
+
+/**
+ * Replaces the container at `parentTokens` with the result of `update`,
+ * copying every container along the way
+ */
+const updateParent = (
+	document: JsonValue,
+	parentTokens: readonly string[],
+	update: (parent: JsonValue) => Result<JsonValue, OperationError>,
+): Result<JsonValue, OperationError> => {
+	if (parentTokens.length === 0) {
+		return update(document);
+	}
+
+	const [token, ...rest] = parentTokens;
+	const child = getValue(document, [token]);
+	if (!child.ok) {
+		return child;
+	}
+
+	const updated = updateParent(child.value, rest, update);
+	if (!updated.ok) {
+		return updated;
+	}
+
+	if (isJsonArray(document)) {
+		const copy = [...document];
+		copy[Number(token)] = updated.value;
+		return ok(copy);
+	}
+	return ok({ ...(document as JsonObject), [token]: updated.value });
+};
+
+/**
+ * Adds a value at a location (RFC 6902 "add")
+ */
+const addValue = (
+	document: JsonValue,
+	tokens: readonly string[],
+	value: JsonValue,
+): Result<JsonValue, OperationError> => {
+	if (tokens.length === 0) {
+		return ok(value);
+	}
+
+	const key = tokens[tokens.length - 1];
+	return updateParent(document, tokens.slice(0, -1), (parent) => {
+		if (isJsonArray(parent)) {
+			const index = resolveIndex(parent, key, true);
+			if (!index.ok) {
+				return index;
+			}
+			return ok([
+				...parent.slice(0, index.value),
+				value,
+				...parent.slice(index.value),
+			]);
+		}
+		if (isJsonObject(parent)) {
+			return ok({ ...parent, [key]: value });
+		}
+		return err({
+			type: "invalid-path",
+			message: `Cannot add "${key}" to a primitive value`,
+		});
+	});
+};
+
+/**
+ * Removes the value at a location (RFC 6902 "remove")
+ */
+const removeValue = (
+	document: JsonValue,
+	tokens: readonly string[],
+): Result<JsonValue, OperationError> => {
+	if (tokens.length === 0) {
+		return err({
+			type: "invalid-path",
+			message: "Cannot remove the document root",
+		});
+	}
+
+	const key = tokens[tokens.length - 1];
+	return updateParent(document, tokens.slice(0, -1), (parent) => {
+		if (isJsonArray(parent)) {
+			const index = resolveIndex(parent, key, false);
+			if (!index.ok) {
+				return index;
+			}
+			return ok(parent.filter((_, i) => i !== index.value));
+		}
+		if (
+			isJsonObject(parent) &&
+			Object.prototype.hasOwnProperty.call(parent, key)
+		) {
+			const { [key]: _removed, ...rest } = parent;
+			return ok(rest);
+		}
+		return err({
+			type: "path-not-found",
+			message: `Path "${JsonPointer.fromTokens(tokens).toString()}" does not exist`,
+		});
+	});
+};
@@ -0,0 +1,409 @@
+import type { DiffEntry } from "../types/diff";
+import type { JsonPatchOperation, JsonPatch } from "../types/patch";
+import { JsonPointer } from "../value-objects/JsonPointer";
+import { getLeftPath, getRightPath } from "./differ";
+
+/**
+ * Value of the document being patched, tracked while operations are generated
+ *
+ * Starts out as the shape of the left document as far as the entries reveal
+ * it, and follows every generated operation so that pointers can be computed
+ * against the document as it is at that point of the patch.
+ */
+interface PatchedNode {
+	parent: PatchedNode | null;
+	/** Object key, or array index in the left document */
+	key: string;
+	isArray: boolean;
+	/** Object members, or array items of the left document by index */
+	members: Map<string, PatchedNode>;
+	/** Array items in current order */
+	items: PatchedNode[];
+	/** Location in the right document this value ends up at, if known */
+	target: TargetNode | null;
+}
+
+/**
+ * Location in the right document
+ */
+interface TargetNode {
+	readonly children: Map<string, TargetNode>;
+	isArray: boolean;
+	/** Added or modified entry located here */
+	entry: DiffEntry | null;
+	/** Value of the left document that ends up here, if known */
+	source: PatchedNode | null;
+}
+
+/**
+ * Generates a JSON Patch (RFC 6902) that turns the left document of a diff
+ * into its right document
+ *
+ * Removals come first, then the right document is rebuilt in document order:
+ * array items are added, moved and replaced at increasing indices, so every
+ * index refers to the array as it is when the operation applies. Pointers
+ * are escaped as described in RFC 6901.
+ *
+ * @param entries - Entries of a diff; unchanged entries locate kept values
+ */
+export const generatePatch = (entries: readonly DiffEntry[]): JsonPatch => {
+	const leftRoot = createPatchedNode(null, "");
+	const rightRoot = createTargetNode();
+	leftRoot.target = rightRoot;
+	rightRoot.source = leftRoot;
+
+	for (const entry of entries) {
+		const leftPath = getEntryLeftPath(entry);
+		const rightPath = getEntryRightPath(entry);
+		const left = leftPath && nodeAt(leftRoot, leftPath);
+		const right = rightPath && targetAt(rightRoot, rightPath);
+
+		// Paths do not tell array indices from object keys, entries do
+		if (leftPath) {
+			for (const segment of entry.leftIndexSegments ?? []) {
+				nodeAt(leftRoot, leftPath.slice(0, segment)).isArray = true;
+			}
+		}
+		if (rightPath) {
+			for (const segment of entry.rightIndexSegments ?? []) {
+				targetAt(rightRoot, rightPath.slice(0, segment)).isArray = true;
+			}
+		}
+		if (right && (entry.type === "added" || entry.type === "modified")) {
+			right.entry = entry;
+		}
+		if (!left || !right || !leftPath || !rightPath) {
+			continue;
+		}
+
+		// Moved values may change parents, so only the value itself is paired
+		const pairedDepth =
+			entry.type === "moved" || leftPath.length !== rightPath.length
+				? leftPath.length
+				: 0;
+		for (let depth = pairedDepth; depth <= leftPath.length; depth++) {
+			const source = nodeAt(leftRoot, leftPath.slice(0, depth));
+			const target =
+				depth === leftPath.length
+					? right
+					: targetAt(rightRoot, rightPath.slice(0, depth));
+			if (!source.target && !target.source) {
+				source.target = target;
+				target.source = source;
+			}
+		}
+	}
+
+	resolveItems(leftRoot);
+
+	const operations: JsonPatchOperation[] = [];
+
+	// 1. Remove values in reverse document order
+	for (let i = entries.length - 1; i >= 0; i--) {
+		const entry = entries[i];
+		const leftPath = getEntryLeftPath(entry);
+		if (entry.type === "removed" && leftPath) {
+			const node = nodeAt(leftRoot, leftPath);
+			operations.push({ op: "remove", path: pointerOf(node).toString() });
+			detach(node);
+		}
+	}
+
+	// 2. Rebuild the right document in document order
+	rebuild(rightRoot, leftRoot, JsonPointer.root(), operations);
+
+	return operations;
+};
+
+/**
+ * Returns the location of the value an entry reads from the left document
+ */
+const getEntryLeftPath = (entry: DiffEntry): readonly string[] | null =>
+	entry.type === "added" ||
+	(entry.type === "ignored" && entry.leftValue === undefined)
+		? null
+		: getLeftPath(entry);
+
+/**
+ * Returns the location of the value an entry writes to the right document
+ */
+const getEntryRightPath = (entry: DiffEntry): readonly string[] | null =>
+	entry.type === "removed" ||
+	(entry.type === "ignored" && entry.rightValue === undefined)
+		? null
+		: getRightPath(entry);
+
+/**
+ * Creates a tracked value
+ */
+const createPatchedNode = (
+	parent: PatchedNode | null,
+	key: string,
+): PatchedNode => ({
+	parent,
+	key,
+	isArray: false,
+	members: new Map(),
+	items: [],
+	target: null,
+});
+
+/**
+ * Creates a right document location
+ */
+const createTargetNode = (): TargetNode => ({
+	children: new Map(),
+	isArray: false,
+	entry: null,
+	source: null,
+});
+
+/**
+ * Returns the tracked left value at a path, creating it if needed
+ */
+const nodeAt = (root: PatchedNode, path: readonly string[]): PatchedNode => {
+	let node = root;
+	for (const key of path) {
+		let child = node.members.get(key);
+		if (!child) {
+			child = createPatchedNode(node, key);
+			node.members.set(key, child);
+		}
+		node = child;
+	}
+	return node;
+};
+
+/**
+ * Returns the right document location at a path, creating it if needed
+ */
+const targetAt = (root: TargetNode, path: readonly string[]): TargetNode => {
+	let node = root;
+	for (const key of path) {
+		let child = node.children.get(key);
+		if (!child) {
+			child = createTargetNode();
+			node.children.set(key, child);
+		}
+		node = child;
+	}
+	return node;
+};
+
+/**
+ * Orders the items of tracked arrays
+ *
+ * Gaps among the items of an array are filled with items that are kept
+ * without entries on the left side.
+ */
+const resolveItems = (node: PatchedNode): void => {
+	const leftKeys = [...node.members.keys()];
+	if (node.isArray) {
+		const length = Math.max(0, ...leftKeys.map(Number)) + 1;
+		node.items = Array.from(
+			{ length: leftKeys.length > 0 ? length : 0 },
+			(_, index) =>
+				node.members.get(String(index)) ??
+				createPatchedNode(node, String(index)),
+		);
+	}
+	for (const child of node.members.values()) {
+		resolveItems(child);
+	}
+};
+
+/**
+ * Returns the current location of a tracked value
+ */
+const pointerOf = (node: PatchedNode): JsonPointer => {
+	const tokens: string[] = [];
+	for (let current = node; current.parent; current = current.parent) {
+		tokens.push(
+			current.parent.isArray
+				? String(indexOfItem(current.parent, current))
+				: current.key,
+		);
+	}
+	return JsonPointer.fromTokens(tokens.reverse());
+};
+
+/**
+ * Returns the current index of an array item
+ */
+const indexOfItem = (parent: PatchedNode, item: PatchedNode): number => {
+	// Items usually still sit at the index they were last placed at
+	const index = Number(item.key);
+	return parent.items[index] === item ? index : parent.items.indexOf(item);
+};
+
+/**
+ * Removes a tracked value from its parent
+ */
+const detach = (node: PatchedNode): void => {
+	const parent = node.parent;
+	if (!parent) {
+		return;
+	}
+	if (parent.isArray) {
+		parent.items.splice(indexOfItem(parent, node), 1);
+	} else if (parent.members.get(node.key) === node) {
+		parent.members.delete(node.key);
+	}
+	node.parent = null;
+};
+
+/**
+ * Places a tracked value into an array or object
+ */
+const attach = (
+	node: PatchedNode,
+	parent: PatchedNode,
+	key: string | number,
+): void => {
+	node.parent = parent;
+	node.key = String(key);
+	if (parent.isArray) {
+		parent.items.splice(Number(key), 0, node);
+	} else {
+		parent.members.set(node.key, node);
+	}
+};
+
+/**
+ * Emits the operations that turn a tracked value into its right document
+ * location, recursing into its children
+ */
+const rebuild = (
+	target: TargetNode,
+	node: PatchedNode,
+	pointer: JsonPointer,
+	operations: JsonPatchOperation[],
+): void => {
+	if (target.entry?.type === "modified") {
+		operations.push({
+			op: "replace",
+			path: pointer.toString(),
+			value: target.entry.rightValue ?? null,
+		});
+		return;
+	}
+	if (target.children.size === 0) {
+		return;
+	}
+
+	if (node.members.size === 0) {
+		// Values only known from the right document take its shape
+		node.isArray = target.isArray;
+	}
+
+	const place = (child: TargetNode, key: string | number): PatchedNode => {
+		const childPointer = pointer.append(key);
+
+		if (child.entry?.type === "added") {
+			operations.push({
+				op: "add",
+				path: childPointer.toString(),
+				value: child.entry.rightValue ?? null,
+			});
+			const added = createPatchedNode(null, String(key));
+			attach(added, node, key);
+			return added;
+		}
+
+		const source =
+			child.source ??
+			findUnpairedChild(node, key) ??
+			trackUnseenChild(node, key);
+
+		const isInPlace = node.isArray
+			? node.items[Number(key)] === source
+			: source.parent === node && source.key === String(key);
+		if (!isInPlace) {
+			const from = pointerOf(source);
+			operations.push({
+				op: "move",
+				from: from.toString(),
+				path: childPointer.toString(),
+			});
+			detach(source);
+			attach(source, node, key);
+		} else {
+			source.key = String(key);
+		}
+		return source;
+	};
+
+	if (node.isArray) {
+		const length = Math.max(
+			getRebuiltLength(target, node),
+			...[...target.children.keys()].map((key) => Number(key) + 1),
+		);
+		for (let index = 0; index < length; index++) {
+			const child = target.children.get(String(index)) ?? createTargetNode();
+			rebuild(child, place(child, index), pointer.append(index), operations);
+		}
+	} else {
+		for (const [key, child] of target.children) {
+			rebuild(child, place(child, key), pointer.append(key), operations);
+		}
+	}
+};
+
+/**
+ * Counts the items an array holds once rebuilt
+ *
+ * Kept items the entries do not locate on the right side are included.
+ */
+const getRebuiltLength = (target: TargetNode, node: PatchedNode): number => {
+	const targets = new Set(target.children.values());
+	let length = 0;
+	for (const item of node.items) {
+		if (!item.target || targets.has(item.target)) {
+			length++;
+		}
+	}
+	for (const child of targets) {
+		if (
+			child.entry?.type === "added" ||
+			(child.source && child.source.parent !== node)
+		) {
+			length++;
+		}
+	}
+	return length;
+};
+
+/**
+ * Finds a kept child with no known right document location
+ *
+ * Array items are taken in order from the first position not yet rebuilt.
+ */
+const findUnpairedChild = (
+	node: PatchedNode,
+	key: string | number,
+): PatchedNode | undefined => {
+	if (!node.isArray) {
+		const member = node.members.get(String(key));
+		return member && !member.target ? member : undefined;
+	}
+	for (let index = Number(key); index < node.items.length; index++) {
+		if (!node.items[index].target) {
+			return node.items[index];
+		}
+	}
+	return undefined;
+};
+
+/**
+ * Starts tracking a kept child that no entry locates on the left side
+ *
+ * Such array items come after every tracked item.
+ */
+const trackUnseenChild = (
+	node: PatchedNode,
+	key: string | number,
+): PatchedNode => {
+	const child = createPatchedNode(null, "");
+	attach(child, node, node.isArray ? node.items.length : key);
+	return child;
+};
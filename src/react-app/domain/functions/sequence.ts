@@ -0,0 +1,190 @@
+/**
+ * Single step of an alignment between two sequences
+ */
+export type SequenceOp =
+	| {
+			readonly type: "equal";
+			readonly leftIndex: number;
+			readonly rightIndex: number;
+	  }
+	| { readonly type: "delete"; readonly leftIndex: number }
+	| { readonly type: "insert"; readonly rightIndex: number };
+
+/**
+ * Maximum edit distance explored before giving up on a minimal alignment
+ */
+export const MAX_EDIT_DISTANCE = 4096;
+
+/**
+ * Aligns two sequences using Myers' O(ND) shortest edit script algorithm
+ *
+ * Common prefixes and suffixes are matched up front. When the remaining
+ * sequences differ by more than `maxEditDistance` edits, the middle part is
+ * reported as fully deleted and inserted instead of searching further.
+ *
+ * @param leftLength - Length of the left sequence
+ * @param rightLength - Length of the right sequence
+ * @param equals - Compares the left item at one index with the right item at another
+ * @param maxEditDistance - Upper bound for the edit distance search
+ * @returns Operations in left-to-right order
+ */
+export const alignSequences = (
+	leftLength: number,
+	rightLength: number,
+	equals: (leftIndex: number, rightIndex: number) => boolean,
+	maxEditDistance = MAX_EDIT_DISTANCE,
+): readonly SequenceOp[] => {
+	// 1. Match common prefix
+	let start = 0;
+	while (start < leftLength && start < rightLength && equals(start, start)) {
+		start++;
+	}
+
+	// 2. Match common suffix
+	let leftEnd = leftLength;
+	let rightEnd = rightLength;
+	while (
+		leftEnd > start &&
+		rightEnd > start &&
+		equals(leftEnd - 1, rightEnd - 1)
+	) {
+		leftEnd--;
+		rightEnd--;
+	}
+
+	const ops: SequenceOp[] = [];
+	for (let i = 0; i < start; i++) {
+		ops.push({ type: "equal", leftIndex: i, rightIndex: i });
+	}
+
+	// 3. Align the middle part
+	const middle = shortestEditScript(
+		start,
+		leftEnd,
+		start,
+		rightEnd,
+		equals,
+		maxEditDistance,
+	);
+	if (middle) {
+		ops.push(...middle);
+	} else {
+		for (let i = start; i < leftEnd; i++) {
+			ops.push({ type: "delete", leftIndex: i });
+		}
+		for (let j = start; j < rightEnd; j++) {
+			ops.push({ type: "insert", rightIndex: j });
+		}
+	}
+
+	for (let i = leftEnd, j = rightEnd; i < leftLength; i++, j++) {
+		ops.push({ type: "equal", leftIndex: i, rightIndex: j });
+	}
+
+	return ops;
+};
+
+/**
+ * Runs Myers' algorithm on a window of both sequences
+ *
+ * @returns Operations for the window, or null if the edit distance exceeds the limit
+ */
+const shortestEditScript = (
+	leftStart: number,
+	leftEnd: number,
+	rightStart: number,
+	rightEnd: number,
+	equals: (leftIndex: number, rightIndex: number) => boolean,
+	maxEditDistance: number,
+): SequenceOp[] | null => {
+	const n = leftEnd - leftStart;
+	const m = rightEnd - rightStart;
+	const max = n + m;
+
+	if (max === 0) {
+		return [];
+	}
+
+	const offset = max + 1;
+	const v = new Int32Array(2 * max + 3);
+	// trace[d] holds v for diagonals -d-1..d+1 as it was before step d
+	const trace: Int32Array[] = [];
+
+	for (let d = 0; d <= max; d++) {
+		if (d > maxEditDistance) {
+			return null;
+		}
+
+		trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+		for (let k = -d; k <= d; k += 2) {
+			let x =
+				k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+					? v[offset + k + 1]
+					: v[offset + k - 1] + 1;
+			let y = x - k;
+
+			while (x < n && y < m && equals(leftStart + x, rightStart + y)) {
+				x++;
+				y++;
+			}
+
+			v[offset + k] = x;
+
+			if (x >= n && y >= m) {
+				return backtrack(trace, n, m, leftStart, rightStart);
+			}
+		}
+	}
+
+	return null;
+};
+
+/**
+ * Walks the Myers trace backwards to recover the edit script
+ */
+const backtrack = (
+	trace: readonly Int32Array[],
+	n: number,
+	m: number,
+	leftStart: number,
+	rightStart: number,
+): SequenceOp[] => {
+	const ops: SequenceOp[] = [];
+	let x = n;
+	let y = m;
+
+	for (let d = trace.length - 1; d >= 0; d--) {
+		const v = trace[d];
+		const at = (k: number) => v[k + d + 1];
+		const k = x - y;
+
+		const prevK =
+			k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+		const prevX = at(prevK);
+		const prevY = prevX - prevK;
+
+		while (x > prevX && y > prevY) {
+			x--;
+			y--;
+			ops.push({
+				type: "equal",
+				leftIndex: leftStart + x,
+				rightIndex: rightStart + y,
+			});
+		}
+
+		if (d > 0) {
+			if (x === prevX) {
+				ops.push({ type: "insert", rightIndex: rightStart + prevY });
+			} else {
+				ops.push({ type: "delete", leftIndex: leftStart + prevX });
+			}
+		}
+
+		x = prevX;
+		y = prevY;
+	}
+
+	return ops.reverse();
+};
@@ -0,0 +1,118 @@
+import type { JsonValue } from "../types/json";
+import { isJsonArray, isJsonObject, isJsonPrimitive } from "../types/json";
+
+/**
+ * Maximum number of item pairs scored when pairing by similarity
+ *
+ * Larger unmatched remainders are reported as removed and added instead.
+ */
+export const MAX_SIMILARITY_PAIRS = 250_000;
+
+/**
+ * Computes the structural similarity of two JSON values
+ *
+ * - Primitives score 1 when equal and 0 otherwise
+ * - Objects score the average similarity over the union of their keys, where
+ *   keys present on one side only score 0
+ * - Arrays score the average similarity of items at the same index over the
+ *   longer length
+ * - Values of different kinds score 0
+ *
+ * @param left - Left value
+ * @param right - Right value
+ * @param primitivesEqual - Compares two primitives (e.g. with float tolerance)
+ * @returns Score between 0 (unrelated) and 1 (identical)
+ */
+export const computeSimilarity = (
+	left: JsonValue,
+	right: JsonValue,
+	primitivesEqual: (left: JsonValue, right: JsonValue) => boolean,
+): number => {
+	if (isJsonPrimitive(left) || isJsonPrimitive(right)) {
+		return isJsonPrimitive(left) &&
+			isJsonPrimitive(right) &&
+			primitivesEqual(left, right)
+			? 1
+			: 0;
+	}
+
+	if (isJsonArray(left) && isJsonArray(right)) {
+		const length = Math.max(left.length, right.length);
+		if (length === 0) {
+			return 1;
+		}
+
+		let total = 0;
+		for (let i = 0; i < Math.min(left.length, right.length); i++) {
+			total += computeSimilarity(left[i], right[i], primitivesEqual);
+		}
+		return total / length;
+	}
+
+	if (isJsonObject(left) && isJsonObject(right)) {
+		const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+		if (keys.size === 0) {
+			return 1;
+		}
+
+		let total = 0;
+		for (const key of keys) {
+			if (key in left && key in right) {
+				total += computeSimilarity(left[key], right[key], primitivesEqual);
+			}
+		}
+		return total / keys.size;
+	}
+
+	return 0;
+};
+
+/**
+ * Pairs left and right items by descending similarity
+ *
+ * Candidate pairs are taken greedily from the highest score down, so every
+ * item ends up in at most one pair with its best still-available partner.
+ *
+ * @param leftCount - Number of left items
+ * @param rightCount - Number of right items
+ * @param score - Similarity of the left item at one index and the right item at another
+ * @param threshold - Minimum score for a pair to be accepted
+ * @returns Accepted pairs as [leftIndex, rightIndex]
+ */
+export const pairBySimilarity = (
+	leftCount: number,
+	rightCount: number,
+	score: (leftIndex: number, rightIndex: number) => number,
+	threshold: number,
+): ReadonlyArray<readonly [number, number]> => {
+	if (leftCount * rightCount > MAX_SIMILARITY_PAIRS) {
+		return [];
+	}
+
+	const candidates: Array<{ left: number; right: number; score: number }> = [];
+	for (let i = 0; i < leftCount; i++) {
+		for (let j = 0; j < rightCount; j++) {
+			const value = score(i, j);
+			if (value >= threshold) {
+				candidates.push({ left: i, right: j, score: value });
+			}
+		}
+	}
+
+	// Stable sort keeps document order among equally similar candidates
+	candidates.sort((a, b) => b.score - a.score);
+
+	const pairedLeft = new Set<number>();
+	const pairedRight = new Set<number>();
+	const pairs: Array<readonly [number, number]> = [];
+	for (const candidate of candidates) {
+		if (pairedLeft.has(candidate.left) || pairedRight.has(candidate.right)) {
+			continue;
+		}
+		pairedLeft.add(candidate.left);
+		pairedRight.add(candidate.right);
+		pairs.push([candidate.left, candidate.right]);
+	}
+
+	return pairs;
+};
@@ -0,0 +1,164 @@
+import type { DiffEntry } from "../types/diff";
+import { alignSequences } from "./sequence";
+
+/**
+ * Piece of an inline string diff
+ * - "equal": text present in both strings
+ * - "delete": text only in the left string
+ * - "insert": text only in the right string
+ */
+export interface StringDiffSegment {
+	readonly type: "equal" | "delete" | "insert";
+	readonly text: string;
+}
+
+/**
+ * Unit the strings are split into before aligning
+ * - "word": runs of word characters, whitespace and single punctuation marks
+ * - "char": single characters
+ * - "auto": words when the text contains whitespace, characters otherwise
+ *   (e.g. identifiers, base64)
+ */
+export type StringDiffGranularity = "word" | "char" | "auto";
+
+/**
+ * Maximum number of token edits explored before reporting a full replacement
+ */
+export const MAX_STRING_EDIT_DISTANCE = 1000;
+
+/**
+ * Computes an inline diff of two strings
+ *
+ * Within every changed region, deleted text is listed before inserted text;
+ * whitespace separating two changes is folded into them.
+ * When the strings differ by more than `MAX_STRING_EDIT_DISTANCE` tokens the
+ * changed region is reported as a single deletion and insertion.
+ */
+export const diffStrings = (
+	left: string,
+	right: string,
+	granularity: StringDiffGranularity = "auto",
+): readonly StringDiffSegment[] => {
+	const useWords =
+		granularity === "word" ||
+		(granularity === "auto" && /\s/.test(left + right));
+	const leftTokens = useWords ? tokenizeWords(left) : Array.from(left);
+	const rightTokens = useWords ? tokenizeWords(right) : Array.from(right);
+
+	const ops = alignSequences(
+		leftTokens.length,
+		rightTokens.length,
+		(i, j) => leftTokens[i] === rightTokens[j],
+		MAX_STRING_EDIT_DISTANCE,
+	);
+
+	const segments: StringDiffSegment[] = [];
+	const push = (type: StringDiffSegment["type"], text: string) => {
+		if (text.length === 0) return;
+		const last = segments[segments.length - 1];
+		if (last?.type === type) {
+			segments[segments.length - 1] = { type, text: last.text + text };
+		} else {
+			segments.push({ type, text });
+		}
+	};
+
+	let deleted = "";
+	let inserted = "";
+	// Whitespace matched between two changes, merged into them for readability
+	let space = "";
+	const flush = () => {
+		// Whitespace shared by both sides of a change stays unhighlighted
+		let prefix = 0;
+		while (
+			prefix < deleted.length &&
+			prefix < inserted.length &&
+			deleted[prefix] === inserted[prefix] &&
+			/\s/.test(deleted[prefix])
+		) {
+			prefix++;
+		}
+		let suffix = 0;
+		while (
+			suffix < deleted.length - prefix &&
+			suffix < inserted.length - prefix &&
+			deleted[deleted.length - 1 - suffix] ===
+				inserted[inserted.length - 1 - suffix] &&
+			/\s/.test(deleted[deleted.length - 1 - suffix])
+		) {
+			suffix++;
+		}
+
+		push("equal", deleted.slice(0, prefix));
+		push("delete", deleted.slice(prefix, deleted.length - suffix));
+		push("insert", inserted.slice(prefix, inserted.length - suffix));
+		push("equal", deleted.slice(deleted.length - suffix));
+		push("equal", space);
+		deleted = "";
+		inserted = "";
+		space = "";
+	};
+
+	for (const op of ops) {
+		if (op.type === "equal") {
+			const token = leftTokens[op.leftIndex];
+			if ((deleted || inserted) && /^\s+$/.test(token)) {
+				space += token;
+				continue;
+			}
+			flush();
+			push("equal", token);
+			continue;
+		}
+
+		deleted += space;
+		inserted += space;
+		space = "";
+		if (op.type === "delete") {
+			deleted += leftTokens[op.leftIndex];
+		} else {
+			inserted += rightTokens[op.rightIndex];
+		}
+	}
+	flush();
+
+	return segments;
+};
+
+/**
+ * Inline diffs computed lazily per entry
+ */
+const stringDiffCache = new WeakMap<DiffEntry, readonly StringDiffSegment[]>();
+
+/**
+ * Returns the inline diff of a modified entry whose values are both strings
+ *
+ * @returns The segments, or null for any other entry
+ */
+export const getEntryStringDiff = (
+	entry: DiffEntry,
+): readonly StringDiffSegment[] | null => {
+	if (
+		entry.type !== "modified" ||
+		typeof entry.leftValue !== "string" ||
+		typeof entry.rightValue !== "string"
+	) {
+		return null;
+	}
+
+	const cached = stringDiffCache.get(entry);
+	if (cached) {
+		return cached;
+	}
+
+	const segments = diffStrings(entry.leftValue, entry.rightValue);
+	stringDiffCache.set(entry, segments);
+	return segments;
+};
+
+/**
+ * Splits text into word, whitespace and punctuation tokens
+ */
+const tokenizeWords = (text: string): string[] => {
+	return text.match(/\w+|\s+|[^\w\s]/gu) ?? [];
+};
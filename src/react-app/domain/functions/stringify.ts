@@ -0,0 +1,77 @@
+import { LosslessNumber } from "../value-objects/LosslessNumber";
+
+/**
+ * Stringifies a value like `JSON.stringify`, writing LosslessNumbers with
+ * their source text
+ *
+ * @param space - Indentation, as for `JSON.stringify`
+ */
+export const stringifyLossless = (
+	value: unknown,
+	space?: string | number,
+): string => {
+	const unit =
+		typeof space === "number"
+			? " ".repeat(Math.max(0, Math.min(10, Math.floor(space))))
+			: (space ?? "").slice(0, 10);
+
+	const write = (value: unknown, indent: string): string | undefined => {
+		if (LosslessNumber.isLosslessNumber(value)) {
+			return value.toString();
+		}
+		const json =
+			value !== null &&
+			typeof value === "object" &&
+			"toJSON" in value &&
+			typeof value.toJSON === "function"
+				? (value.toJSON() as unknown)
+				: value;
+
+		switch (typeof json) {
+			case "string":
+				return JSON.stringify(json);
+			case "number":
+				return Number.isFinite(json) ? String(json) : "null";
+			case "boolean":
+				return String(json);
+			case "bigint":
+				throw new TypeError("Do not know how to serialize a BigInt");
+			case "undefined":
+			case "function":
+			case "symbol":
+				return undefined;
+		}
+		if (json === null) {
+			return "null";
+		}
+
+		const inner = indent + unit;
+		const join = (items: readonly string[], open: string, close: string) =>
+			items.length === 0
+				? open + close
+				: unit
+					? `${open}\n${inner}${items.join(`,\n${inner}`)}\n${indent}${close}`
+					: `${open}${items.join(",")}${close}`;
+
+		if (Array.isArray(json)) {
+			return join(
+				json.map((item: unknown) => write(item, inner) ?? "null"),
+				"[",
+				"]",
+			);
+		}
+		const record = json as Record<string, unknown>;
+		return join(
+			Object.keys(record).flatMap((key) => {
+				const text = write(record[key], inner);
+				return text === undefined
+					? []
+					: [`${JSON.stringify(key)}:${unit ? " " : ""}${text}`];
+			}),
+			"{",
+			"}",
+		);
+	};
+
+	return write(value, "") ?? "null";
+};
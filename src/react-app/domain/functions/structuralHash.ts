@@ -0,0 +1,53 @@
+import type { JsonValue } from "../types/json";
+import { isJsonArray } from "../types/json";
+import { LosslessNumber } from "../value-objects/LosslessNumber";
+
+/**
+ * Computes a canonical structural hash of a JSON value
+ *
+ * The hash is a canonical string: object keys are sorted so that key order
+ * does not matter, while array order does. Values with equal hashes are
+ * structurally equal.
+ *
+ * When `floatTolerance` is set, numbers cannot be hashed exactly (values
+ * within tolerance may straddle any rounding boundary), so all numbers hash
+ * alike. Equal hashes then only mean equal shape and non-numeric content,
+ * and candidates must be confirmed with a tolerance-aware comparison.
+ * Otherwise LosslessNumbers hash by their exact value (see
+ * `LosslessNumber.toKey`).
+ *
+ * @param value - Value to hash
+ * @param floatTolerance - Tolerance used for number comparisons, if any
+ */
+export const structuralHash = (
+	value: JsonValue,
+	floatTolerance?: number,
+): string => {
+	if (value === null) {
+		return "null";
+	}
+	if (LosslessNumber.isLosslessNumber(value)) {
+		return floatTolerance === undefined ? value.toKey() : "#";
+	}
+
+	switch (typeof value) {
+		case "boolean":
+			return value ? "true" : "false";
+		case "number":
+			return floatTolerance === undefined ? String(value) : "#";
+		case "string":
+			return JSON.stringify(value);
+	}
+
+	if (isJsonArray(value)) {
+		return `[${value.map((item) => structuralHash(item, floatTolerance)).join(",")}]`;
+	}
+
+	return `{${Object.keys(value)
+		.sort()
+		.map(
+			(key) =>
+				`${JSON.stringify(key)}:${structuralHash(value[key], floatTolerance)}`,
+		)
+		.join(",")}}`;
+};
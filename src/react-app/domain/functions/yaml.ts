@@ -0,0 +1,222 @@
+import {
+	isMap,
+	isNode,
+	isScalar,
+	isSeq,
+	LineCounter,
+	parseAllDocuments,
+	stringify,
+	visit,
+} from "yaml";
+import type { Document, ScalarTag, Tags } from "yaml";
+import type { FormatSettings } from "../types/diff";
+import { DEFAULT_FORMAT_SETTINGS } from "../types/diff";
+import type { JsonValue, ParseOptions } from "../types/json";
+import type { Result } from "../types/result";
+import { ok, err } from "../types/result";
+import { ValidationError } from "../value-objects/ValidationError";
+import type { ParseErrorDetails } from "../value-objects/ValidationError";
+import { LosslessNumber } from "../value-objects/LosslessNumber";
+
+/**
+ * Reads decimal numbers as LosslessNumbers and writes them with their text
+ *
+ * The pattern is the one of the core schema's decimal integers and floats.
+ */
+const LOSSLESS_NUMBER_TAG: ScalarTag = {
+	identify: LosslessNumber.isLosslessNumber,
+	default: true,
+	tag: "tag:yaml.org,2002:float",
+	test: /^[-+]?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)(?:[eE][-+]?[0-9]+)?$/,
+	resolve: (source) => LosslessNumber.fromText(source),
+	stringify: ({ value }) => String(value),
+};
+
+// Takes precedence over the core schema's number tags
+const withLosslessNumbers = (tags: Tags): Tags => [
+	LOSSLESS_NUMBER_TAG,
+	...tags,
+];
+
+/**
+ * Reports the location of a node and of the values in it, and the duplicate
+ * keys of its mappings
+ *
+ * @throws {ValidationError} For the first duplicate key if `options.strict`
+ */
+const reportNode = (
+	node: unknown,
+	path: readonly string[],
+	lineCounter: LineCounter,
+	options: ParseOptions,
+) => {
+	if (options.onLocation && isNode(node) && node.range) {
+		const [start, end] = node.range;
+		const { line, col } = lineCounter.linePos(start);
+		options.onLocation(path, { line, column: col, range: [start, end] });
+	}
+
+	if (isSeq(node)) {
+		node.items.forEach((item, index) => {
+			reportNode(item, [...path, String(index)], lineCounter, options);
+		});
+		return;
+	}
+	if (!isMap(node)) {
+		return;
+	}
+
+	const keys = new Set<string>();
+	for (const pair of node.items) {
+		const key = String(isScalar(pair.key) ? pair.key.value : pair.key);
+		const offset = isScalar(pair.key) ? pair.key.range?.[0] : undefined;
+		if (keys.has(key) && offset !== undefined) {
+			const { line, col } = lineCounter.linePos(offset);
+			const error = ValidationError.duplicateKey({
+				line,
+				column: col,
+				offset,
+				key,
+				path: [...path, key],
+			});
+			if (options.strict) {
+				throw error;
+			}
+			options.onWarning?.(error);
+		}
+		keys.add(key);
+		reportNode(pair.value, [...path, key], lineCounter, options);
+	}
+};
+
+/**
+ * Parses the documents of a YAML stream, failing on the first error
+ *
+ * Duplicate keys and locations are reported as set in `options`; in a stream
+ * of several documents, their paths start with the index of the document.
+ */
+const parseDocuments = (
+	input: string,
+	options: ParseOptions = {},
+): Result<Document.Parsed[], ValidationError> => {
+	const lineCounter = new LineCounter();
+	const documents = parseAllDocuments(input, {
+		customTags: options.losslessNumbers ? withLosslessNumbers : null,
+		lineCounter,
+		uniqueKeys: false,
+	});
+	if (documents.length === 0) {
+		return err(ValidationError.empty());
+	}
+
+	for (const document of documents) {
+		const [error] = document.errors;
+		if (error) {
+			// The first line of the message ends with the position, the rest is
+			// a code frame
+			const message = error.message.split("\n")[0].replace(/:$/, "");
+			const [start] = error.linePos ?? [];
+			const details: ParseErrorDetails | undefined = start && {
+				line: start.line,
+				column: start.col,
+				offset: error.pos[0],
+			};
+			return err(ValidationError.parse(message, details));
+		}
+	}
+
+	if (options.strict || options.onWarning || options.onLocation) {
+		try {
+			documents.forEach((document, index) => {
+				reportNode(
+					document.contents,
+					documents.length > 1 ? [String(index)] : [],
+					lineCounter,
+					options,
+				);
+			});
+		} catch (e) {
+			if (e instanceof ValidationError) {
+				return err(e);
+			}
+			throw e;
+		}
+	}
+	return ok(documents);
+};
+
+/**
+ * Returns the indentation YAML output uses; YAML does not allow tabs
+ */
+const getIndent = (settings: FormatSettings): number =>
+	settings.indent === "\t" ? 2 : settings.indent;
+
+/**
+ * Parses YAML text into a JsonValue
+ *
+ * A stream of several documents becomes an array with one item per document.
+ * Values are read with the YAML 1.2 core schema, so timestamps stay strings
+ * and values with unknown tags are read without their tag.
+ */
+export const parseYaml = (
+	input: string,
+	options: ParseOptions = {},
+): Result<JsonValue, ValidationError> => {
+	const result = parseDocuments(input, options);
+	if (!result.ok) {
+		return result;
+	}
+
+	const values = result.value.map((document) => document.toJS() as JsonValue);
+	return ok(values.length === 1 ? values[0] : values);
+};
+
+/**
+ * Formats YAML text with specified settings, keeping its comments and the
+ * text of its numbers
+ *
+ * Tab indentation falls back to 2 spaces.
+ */
+export const formatYaml = (
+	input: string,
+	settings: FormatSettings,
+): Result<string, ValidationError> => {
+	const result = parseDocuments(input, { losslessNumbers: true });
+	if (!result.ok) {
+		return result;
+	}
+
+	const documents = result.value;
+	if (settings.sortKeys) {
+		for (const document of documents) {
+			visit(document, {
+				Map: (_, map) => {
+					map.items.sort((a, b) => {
+						const keyA = String(isScalar(a.key) ? a.key.value : a.key);
+						const keyB = String(isScalar(b.key) ? b.key.value : b.key);
+						return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+					});
+				},
+			});
+		}
+	}
+
+	const indent = getIndent(settings);
+	return ok(
+		documents.map((document) => document.toString({ indent })).join(""),
+	);
+};
+
+/**
+ * Stringifies a JsonValue as a YAML document
+ */
+export const stringifyYaml = (
+	value: JsonValue,
+	settings: FormatSettings = DEFAULT_FORMAT_SETTINGS,
+): string => {
+	return stringify(value, {
+		indent: getIndent(settings),
+		sortMapEntries: settings.sortKeys,
+		customTags: withLosslessNumbers,
+	});
+};
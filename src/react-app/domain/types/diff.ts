@@ -1,20 +1,61 @@
-import type { JsonValue } from "./json";
+import type { JsonValue, SourceLocation } from "./json";
 
 /**
  * Type of change in a diff
  */
-export type DiffType = "added" | "removed" | "modified" | "unchanged";
+export type DiffType =
+	| "added"
+	| "removed"
+	| "modified"
+	| "moved"
+	| "unchanged"
+	| "ignored";
 
 /**
  * Represents a single diff entry
+ *
+ * `path` is human-readable: items of arrays matched by `keyField` appear as
+ * key segments such as "id=42". `leftPath` and `rightPath` hold the real
+ * index-based locations in each document and are set for every side the
+ * entry has a value on; when absent, `path` is the location.
+ *
+ * For "moved" entries, `fromPath` is the human-readable source location and
+ * `path` the destination. "ignored" entries mark subtrees excluded from
+ * comparison by `CompareSettings.ignorePaths`.
+ *
+ * Segments such as "0" may be array indices or object keys, so
+ * `leftIndexSegments` and `rightIndexSegments` list the positions of the
+ * segments of `leftPath` and `rightPath` that are array indices. They are
+ * left out when there are none.
  */
 export interface DiffEntry {
 	readonly type: DiffType;
 	readonly path: readonly string[];
+	readonly fromPath?: readonly string[];
+	readonly leftPath?: readonly string[];
+	readonly rightPath?: readonly string[];
+	readonly leftIndexSegments?: readonly number[];
+	readonly rightIndexSegments?: readonly number[];
 	readonly leftValue?: JsonValue;
 	readonly rightValue?: JsonValue;
 }
 
+/**
+ * Kind of warning raised while computing a diff
+ */
+export type DiffWarningType = "missing-key" | "duplicate-key";
+
+/**
+ * Non-fatal issue found while computing a diff
+ */
+export interface DiffWarning {
+	readonly type: DiffWarningType;
+	readonly side: "left" | "right";
+	/** Index path of the affected array item in the document of `side` */
+	readonly path: readonly string[];
+	readonly message: string;
+}
+
 /**
  * Statistics about a diff result
  */
@@ -22,7 +63,9 @@ export interface DiffStats {
 	readonly added: number;
 	readonly removed: number;
 	readonly modified: number;
+	readonly moved: number;
 	readonly unchanged: number;
+	readonly ignored: number;
 	readonly total: number;
 }
 
@@ -42,6 +85,7 @@ export interface DiffMetadata {
 export interface DiffResult {
 	readonly id: string;
 	readonly entries: readonly DiffEntry[];
+	readonly warnings: readonly DiffWarning[];
 	readonly stats: DiffStats;
 	readonly metadata: DiffMetadata;
 }
@@ -52,6 +96,11 @@ export interface DiffResult {
 export interface FormatSettings {
 	readonly indent: 2 | 4 | "\t";
 	readonly sortKeys: boolean;
+	/**
+	 * Writes the JSON Canonicalization Scheme (RFC 8785) instead, for stable
+	 * hashes and signatures; `indent` and `sortKeys` do not apply
+	 */
+	readonly canonical?: boolean;
 }
 
 /**
@@ -60,18 +109,79 @@ export interface FormatSettings {
 export const DEFAULT_FORMAT_SETTINGS: FormatSettings = {
 	indent: 2,
 	sortKeys: false,
+	canonical: false,
 };
 
+/**
+ * Algorithm used to align ordered arrays
+ * - "lcs": longest common subsequence alignment (insertions/deletions are detected)
+ * - "index": elements are paired by index
+ */
+export type ArrayDiffAlgorithm = "lcs" | "index";
+
+/**
+ * Field(s) identifying array items for keyed matching
+ *
+ * A single field name, a dotted nested path (e.g. "meta.id"), or a list of
+ * fields forming a composite key (e.g. ["tenant", "id"]).
+ */
+export type KeyField = string | readonly string[];
+
+/**
+ * Comparison rule overriding global settings for a subtree
+ *
+ * `path` is a JSONPath-style pattern (see `JsonPathPattern`). Unset fields
+ * inherit the value from the enclosing settings.
+ */
+export interface CompareRule {
+	readonly path: string;
+	readonly keyField?: KeyField;
+	readonly floatTolerance?: number;
+	readonly ignoreArrayOrder?: boolean;
+}
+
 /**
  * Settings for JSON comparison
  */
 export interface CompareSettings {
 	readonly ignoreArrayOrder: boolean;
-	readonly keyField?: string;
+	readonly arrayDiffAlgorithm: ArrayDiffAlgorithm;
+	readonly detectMoves: boolean;
+	/** JSONPath-style patterns (e.g. `$.items[*].updatedAt`, `$..traceId`) excluded from comparison */
+	readonly ignorePaths: readonly string[];
+	/** Per-path overrides, applied in order (later rules win) */
+	readonly rules: readonly CompareRule[];
+	readonly keyField?: KeyField;
 	readonly floatTolerance?: number;
+	/**
+	 * Minimum structural similarity (0-1) for two items of an unordered array
+	 * to be reported as one modified element instead of a removal and an
+	 * addition
+	 */
+	readonly similarityThreshold: number;
 	readonly treatNullAsUndefined: boolean;
 	readonly formatBeforeCompare: boolean;
 	readonly formatSettings: FormatSettings;
+	/**
+	 * Keeps the source text of numbers, so that e.g. 64-bit IDs are compared
+	 * exactly (see `ParseOptions.losslessNumbers`)
+	 */
+	readonly losslessNumbers: boolean;
+	/**
+	 * Rejects documents with duplicate object keys instead of warning about
+	 * them (see `ParseOptions.strict`)
+	 */
+	readonly rejectDuplicateKeys: boolean;
+	/**
+	 * Reports an object or array whose contents are all unchanged as one
+	 * unchanged entry instead of one entry per value, which keeps the diff of
+	 * large documents small
+	 */
+	readonly collapseUnchanged: boolean;
+	/** Maximum size in bytes of a pasted input */
+	readonly maxInputSize: number;
+	/** Maximum size in bytes of a file streamed into a comparison */
+	readonly maxFileSize: number;
 }
 
 /**
@@ -79,9 +189,21 @@ export interface CompareSettings {
  */
 export const DEFAULT_COMPARE_SETTINGS: CompareSettings = {
 	ignoreArrayOrder: false,
+	arrayDiffAlgorithm: "lcs",
+	detectMoves: true,
+	ignorePaths: [],
+	rules: [],
+	similarityThreshold: 0.5,
 	treatNullAsUndefined: false,
 	formatBeforeCompare: false,
 	formatSettings: DEFAULT_FORMAT_SETTINGS,
+	losslessNumbers: false,
+	rejectDuplicateKeys: false,
+	collapseUnchanged: false,
+	// 10MB
+	maxInputSize: 10 * 1024 * 1024,
+	// 512MB
+	maxFileSize: 512 * 1024 * 1024,
 };
 
 /**
@@ -92,4 +214,25 @@ export type ViewMode = "side-by-side" | "unified" | "inline";
 /**
  * Export format for diff results
  */
-export type ExportFormat = "json" | "markdown" | "html" | "json-patch";
+export type ExportFormat =
+	| "json"
+	| "markdown"
+	| "html"
+	| "json-patch"
+	| "merge-patch"
+	| "yaml"
+	| "canonical-json";
+
+/**
+ * Options for exporting diff results
+ */
+export interface ExportOptions {
+	/**
+	 * Locates a value in the input of a side; the line of the values of each
+	 * entry is then shown next to its path, except in patches
+	 */
+	readonly locate?: (
+		side: "left" | "right",
+		path: readonly string[],
+	) => SourceLocation | undefined;
+}
@@ -1,10 +1,16 @@
+import { LosslessNumber } from "../value-objects/LosslessNumber";
+import type { ValidationError } from "../value-objects/ValidationError";
+
 /**
  * Represents any valid JSON value
+ *
+ * Numbers are LosslessNumbers when read with `ParseOptions.losslessNumbers`.
  */
 export type JsonValue =
 	| null
 	| boolean
 	| number
+	| LosslessNumber
 	| string
 	| JsonArray
 	| JsonObject;
@@ -22,13 +28,18 @@ export type JsonObject = { readonly [key: string]: JsonValue };
 /**
  * Represents a JSON primitive value
  */
-export type JsonPrimitive = null | boolean | number | string;
+export type JsonPrimitive = null | boolean | number | LosslessNumber | string;
 
 /**
  * Type guard to check if a value is a JSON object
  */
 export const isJsonObject = (value: JsonValue): value is JsonObject => {
-	return value !== null && typeof value === "object" && !Array.isArray(value);
+	return (
+		value !== null &&
+		typeof value === "object" &&
+		!Array.isArray(value) &&
+		!LosslessNumber.isLosslessNumber(value)
+	);
 };
 
 /**
@@ -42,5 +53,75 @@ export const isJsonArray = (value: JsonValue): value is JsonArray => {
  * Type guard to check if a value is a JSON primitive
  */
 export const isJsonPrimitive = (value: JsonValue): value is JsonPrimitive => {
-	return value === null || typeof value !== "object";
+	return (
+		value === null ||
+		typeof value !== "object" ||
+		LosslessNumber.isLosslessNumber(value)
+	);
 };
+
+/**
+ * Type guard to check if a value is a JSON number, plain or lossless
+ */
+export const isJsonNumber = (
+	value: JsonValue,
+): value is number | LosslessNumber => {
+	return typeof value === "number" || LosslessNumber.isLosslessNumber(value);
+};
+
+/**
+ * Syntax accepted when reading JSON text
+ * - "json": strict JSON
+ * - "jsonc": JSON with comments and trailing commas
+ * - "json5": JSON5
+ * - "yaml": YAML 1.2, including multi-document streams
+ * - "ndjson": newline-delimited JSON, read as an array of its records
+ */
+export type JsonDialect = "json" | "jsonc" | "json5" | "yaml" | "ndjson";
+
+/**
+ * Location of a value in the text it was read from
+ *
+ * `line` and `column` are 1-based and locate the first character of the
+ * value; `range` holds the 0-based offsets of its first character and of the
+ * character after its last.
+ */
+export interface SourceLocation {
+	readonly line: number;
+	readonly column: number;
+	readonly range: readonly [start: number, end: number];
+}
+
+/**
+ * Options for reading JSON text
+ */
+export interface ParseOptions {
+	/**
+	 * Reads finite numbers as LosslessNumbers that keep their source text,
+	 * instead of rounding them to doubles
+	 */
+	readonly losslessNumbers?: boolean;
+	/**
+	 * Rejects documents with duplicate object keys instead of reporting them
+	 * as warnings
+	 */
+	readonly strict?: boolean;
+	/**
+	 * Maximum size in bytes of the text; `parseJson` falls back to
+	 * `MAX_JSON_SIZE`, `JsonDocument.fromString` only checks a size that is set
+	 */
+	readonly maxSize?: number;
+	/**
+	 * Receives non-fatal issues: "duplicate-key" errors for keys of which, as
+	 * with `JSON.parse`, only the last is kept
+	 */
+	readonly onWarning?: (warning: ValidationError) => void;
+	/**
+	 * Receives the location of every value with its path; of duplicate keys,
+	 * the last one is located last
+	 */
+	readonly onLocation?: (
+		path: readonly string[],
+		location: SourceLocation,
+	) => void;
+}
@@ -0,0 +1,37 @@
+import type { JsonValue } from "./json";
+
+/**
+ * Location both edits of a three-way merge changed in different ways
+ *
+ * Values are absent on the sides where the location does not exist.
+ */
+export interface ConflictEntry {
+	readonly type: "conflict";
+	/**
+	 * Location in the merged document; array indices may differ from the base
+	 * and the edits where items were added or removed before it
+	 */
+	readonly path: readonly string[];
+	readonly baseValue?: JsonValue;
+	readonly oursValue?: JsonValue;
+	readonly theirsValue?: JsonValue;
+}
+
+/**
+ * Choice made for a conflict
+ * - "ours" / "theirs": keep the value of one edit
+ * - "edit": use a value entered by hand
+ */
+export type ConflictResolution =
+	| { readonly type: "ours" }
+	| { readonly type: "theirs" }
+	| { readonly type: "edit"; readonly value: JsonValue };
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+	/** Merged document; conflicting locations hold "ours" until resolved */
+	readonly merged: JsonValue;
+	readonly conflicts: readonly ConflictEntry[];
+}
@@ -0,0 +1,67 @@
+import type { JsonValue } from "./json";
+
+/**
+ * Single JSON Patch (RFC 6902) operation
+ *
+ * `path` and `from` are JSON Pointers (RFC 6901).
+ */
+export type JsonPatchOperation =
+	| { readonly op: "add"; readonly path: string; readonly value: JsonValue }
+	| { readonly op: "remove"; readonly path: string }
+	| { readonly op: "replace"; readonly path: string; readonly value: JsonValue }
+	| { readonly op: "move"; readonly from: string; readonly path: string }
+	| { readonly op: "copy"; readonly from: string; readonly path: string }
+	| { readonly op: "test"; readonly path: string; readonly value: JsonValue };
+
+/**
+ * JSON Patch document: operations applied in order
+ */
+export type JsonPatch = readonly JsonPatchOperation[];
+
+/**
+ * Kind of error raised while applying a JSON Patch
+ * - "invalid-operation": malformed operation object
+ * - "invalid-path": malformed pointer, or a location that cannot be written
+ * - "path-not-found": pointer to a value that does not exist
+ * - "test-failed": a "test" operation did not match
+ */
+export type JsonPatchErrorType =
+	| "invalid-operation"
+	| "invalid-path"
+	| "path-not-found"
+	| "test-failed";
+
+/**
+ * Error raised while applying a JSON Patch
+ */
+export interface JsonPatchError {
+	readonly type: JsonPatchErrorType;
+	/** Index of the failing operation in the patch */
+	readonly index: number;
+	readonly message: string;
+}
+
+/**
+ * Kind of change a JSON Merge Patch cannot express exactly
+ * - "array-replaced": an array item changed, so the whole array is replaced
+ * - "null-value": a member set to null, which a merge patch reads as removal
+ */
+export type MergePatchWarningType = "array-replaced" | "null-value";
+
+/**
+ * Change a generated JSON Merge Patch does not express exactly
+ */
+export interface MergePatchWarning {
+	readonly type: MergePatchWarningType;
+	/** Location in the right document */
+	readonly path: readonly string[];
+	readonly message: string;
+}
+
+/**
+ * JSON Merge Patch (RFC 7396) generated from a diff
+ */
+export interface MergePatchResult {
+	readonly patch: JsonValue;
+	readonly warnings: readonly MergePatchWarning[];
+}
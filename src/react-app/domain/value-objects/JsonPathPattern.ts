@@ -0,0 +1,122 @@
+/**
+ * Segment of a JSONPath-style pattern
+ */
+type PatternSegment =
+	| { readonly kind: "key"; readonly value: string }
+	| { readonly kind: "wildcard" }
+	| { readonly kind: "descendant" };
+
+/**
+ * Value object representing a JSONPath-style pattern that matches paths
+ *
+ * Supported syntax:
+ * - `$.foo.bar` / `$['foo']` - exact keys
+ * - `$.items[0]` - array index
+ * - `$.items[*]` / `$.*` - any single segment
+ * - `$..traceId` - any number of segments (recursive descent)
+ */
+export class JsonPathPattern {
+	constructor(
+		private readonly source: string,
+		private readonly segments: readonly PatternSegment[],
+	) {}
+
+	/**
+	 * Creates a JsonPathPattern from its string representation
+	 * Example: "$.items[*].updatedAt" -> [items, *, updatedAt]
+	 */
+	static fromString(pattern: string): JsonPathPattern {
+		const input = pattern.trim();
+		const segments: PatternSegment[] = [];
+		let index = input.startsWith("$") ? 1 : 0;
+
+		const readName = (): string => {
+			const start = index;
+			while (
+				index < input.length &&
+				input[index] !== "." &&
+				input[index] !== "["
+			) {
+				index++;
+			}
+			return input.slice(start, index);
+		};
+
+		const pushName = (name: string) => {
+			if (name === "*") {
+				segments.push({ kind: "wildcard" });
+			} else if (name.length > 0) {
+				segments.push({ kind: "key", value: name });
+			}
+		};
+
+		while (index < input.length) {
+			if (input.startsWith("..", index)) {
+				segments.push({ kind: "descendant" });
+				index += 2;
+				if (input[index] !== "[") {
+					pushName(readName());
+				}
+			} else if (input[index] === ".") {
+				index++;
+				pushName(readName());
+			} else if (input[index] === "[") {
+				const end = input.indexOf("]", index);
+				const content = input.slice(index + 1, end === -1 ? undefined : end);
+				index = end === -1 ? input.length : end + 1;
+				pushName(content.trim().replace(/^['"]|['"]$/g, ""));
+			} else {
+				pushName(readName());
+			}
+		}
+
+		return new JsonPathPattern(input, segments);
+	}
+
+	/**
+	 * Checks if the pattern matches a path exactly
+	 */
+	matches(path: readonly string[]): boolean {
+		return this.matchFrom(0, path, 0);
+	}
+
+	/**
+	 * Returns the original pattern string
+	 */
+	toString(): string {
+		return this.source;
+	}
+
+	private matchFrom(
+		segmentIndex: number,
+		path: readonly string[],
+		pathIndex: number,
+	): boolean {
+		if (segmentIndex === this.segments.length) {
+			return pathIndex === path.length;
+		}
+
+		const segment = this.segments[segmentIndex];
+
+		switch (segment.kind) {
+			case "descendant":
+				for (let i = pathIndex; i <= path.length; i++) {
+					if (this.matchFrom(segmentIndex + 1, path, i)) {
+						return true;
+					}
+				}
+				return false;
+			case "wildcard":
+				return (
+					pathIndex < path.length &&
+					this.matchFrom(segmentIndex + 1, path, pathIndex + 1)
+				);
+			case "key":
+				return (
+					pathIndex < path.length &&
+					path[pathIndex] === segment.value &&
+					this.matchFrom(segmentIndex + 1, path, pathIndex + 1)
+				);
+		}
+	}
+}
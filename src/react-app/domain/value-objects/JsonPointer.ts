@@ -0,0 +1,146 @@
+import type { Result } from "../types/result";
+import { ok, err } from "../types/result";
+import { JsonPath } from "./JsonPath";
+import { ValidationError } from "./ValidationError";
+
+/**
+ * Value object representing a JSON Pointer (RFC 6901)
+ *
+ * Tokens are stored unescaped; `~` and `/` are only escaped (as `~0` and
+ * `~1`) in the string representation.
+ */
+export class JsonPointer {
+	constructor(private readonly tokens: readonly string[]) {}
+
+	/**
+	 * Creates a JsonPointer from unescaped reference tokens
+	 */
+	static fromTokens(tokens: readonly string[]): JsonPointer {
+		return new JsonPointer(tokens);
+	}
+
+	/**
+	 * Creates a JsonPointer addressing the same location as a JsonPath
+	 */
+	static fromPath(path: JsonPath): JsonPointer {
+		return new JsonPointer(path.getSegments());
+	}
+
+	/**
+	 * Parses the string representation of a JSON Pointer
+	 * Example: "/a~1b/0" -> ["a/b", "0"]
+	 */
+	static fromString(pointer: string): Result<JsonPointer, ValidationError> {
+		if (pointer === "") {
+			return ok(new JsonPointer([]));
+		}
+		if (!pointer.startsWith("/")) {
+			return err(
+				ValidationError.invalidStructure(
+					`JSON Pointer "${pointer}" must start with "/"`,
+				),
+			);
+		}
+		if (/~[^01]|~$/.test(pointer)) {
+			return err(
+				ValidationError.invalidStructure(
+					`JSON Pointer "${pointer}" contains an invalid escape sequence`,
+				),
+			);
+		}
+
+		return ok(
+			new JsonPointer(
+				pointer
+					.slice(1)
+					.split("/")
+					.map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~")),
+			),
+		);
+	}
+
+	/**
+	 * Creates a pointer to the whole document
+	 */
+	static root(): JsonPointer {
+		return new JsonPointer([]);
+	}
+
+	/**
+	 * Returns the unescaped reference tokens of this pointer
+	 */
+	getTokens(): readonly string[] {
+		return this.tokens;
+	}
+
+	/**
+	 * Creates a new pointer by appending a token
+	 */
+	append(token: string | number): JsonPointer {
+		return new JsonPointer([...this.tokens, String(token)]);
+	}
+
+	/**
+	 * Returns the parent pointer (all tokens except the last)
+	 */
+	parent(): JsonPointer | null {
+		if (this.tokens.length === 0) {
+			return null;
+		}
+		return new JsonPointer(this.tokens.slice(0, -1));
+	}
+
+	/**
+	 * Returns the last token of this pointer
+	 */
+	lastToken(): string | null {
+		if (this.tokens.length === 0) {
+			return null;
+		}
+		return this.tokens[this.tokens.length - 1];
+	}
+
+	/**
+	 * Checks if this pointer references the whole document
+	 */
+	isRoot(): boolean {
+		return this.tokens.length === 0;
+	}
+
+	/**
+	 * Checks if this pointer references a strict ancestor of another pointer
+	 */
+	isAncestorOf(other: JsonPointer): boolean {
+		return (
+			this.tokens.length < other.tokens.length &&
+			this.tokens.every((token, index) => token === other.tokens[index])
+		);
+	}
+
+	/**
+	 * Converts this pointer to a JsonPath
+	 */
+	toPath(): JsonPath {
+		return JsonPath.fromSegments(this.tokens);
+	}
+
+	/**
+	 * Returns the escaped string representation
+	 * Example: ["a/b", "m~n"] -> "/a~1b/m~0n"
+	 */
+	toString(): string {
+		return this.tokens
+			.map((token) => `/${token.replace(/~/g, "~0").replace(/\//g, "~1")}`)
+			.join("");
+	}
+
+	/**
+	 * Checks equality with another JsonPointer
+	 */
+	equals(other: JsonPointer): boolean {
+		if (this.tokens.length !== other.tokens.length) {
+			return false;
+		}
+		return this.tokens.every((token, index) => token === other.tokens[index]);
+	}
+}
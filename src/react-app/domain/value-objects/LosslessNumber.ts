@@ -0,0 +1,228 @@
+/**
+ * Decimal value of a number: `digits` × 10^`exponent`
+ *
+ * `digits` has no leading or trailing zeros and is empty for zero.
+ */
+interface Decimal {
+	readonly negative: boolean;
+	readonly digits: string;
+	readonly exponent: number;
+}
+
+const ZERO: Decimal = { negative: false, digits: "", exponent: 0 };
+
+const JSON_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+const DECIMAL_NUMBER = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+/**
+ * Exponent gap above which numbers are subtracted as doubles; the exact
+ * difference would need as many digits
+ */
+const MAX_EXACT_EXPONENT_GAP = 1000;
+
+const parseDecimal = (text: string): Decimal => {
+	const match = DECIMAL_NUMBER.exec(text);
+	if (!match) {
+		throw new RangeError(`Not a decimal number: ${text}`);
+	}
+	const [, sign, integer, fraction = "", exponent = "0"] = match;
+	const significant = (integer + fraction).replace(/^0+/, "");
+	const digits = significant.replace(/0+$/, "");
+	if (digits.length === 0) {
+		return ZERO;
+	}
+	return {
+		negative: sign === "-",
+		digits,
+		exponent:
+			Number(exponent) - fraction.length + (significant.length - digits.length),
+	};
+};
+
+const fromBigInt = (value: bigint, exponent: number): Decimal =>
+	parseDecimal(`${value}e${exponent}`);
+
+const compareDecimals = (left: Decimal, right: Decimal): number => {
+	const signum = (decimal: Decimal) =>
+		decimal.digits.length === 0 ? 0 : decimal.negative ? -1 : 1;
+	if (signum(left) !== signum(right) || signum(left) === 0) {
+		return Math.sign(signum(left) - signum(right));
+	}
+
+	// Compare the positions of the leading digits, then the digits themselves
+	const direction = left.negative ? -1 : 1;
+	const leftOrder = left.digits.length + left.exponent;
+	const rightOrder = right.digits.length + right.exponent;
+	if (leftOrder !== rightOrder) {
+		return leftOrder < rightOrder ? -direction : direction;
+	}
+	const length = Math.max(left.digits.length, right.digits.length);
+	const leftDigits = left.digits.padEnd(length, "0");
+	const rightDigits = right.digits.padEnd(length, "0");
+	return leftDigits === rightDigits
+		? 0
+		: leftDigits < rightDigits
+			? -direction
+			: direction;
+};
+
+const toDecimal = (value: number | LosslessNumber): Decimal =>
+	parseDecimal(value.toString());
+
+/**
+ * Value object representing a number with the text it was read from
+ *
+ * `JSON.parse` rounds every number to a double, so 64-bit IDs such as
+ * `9007199254740993` and decimals with many digits lose precision. A
+ * LosslessNumber keeps the exact text instead and compares as an exact
+ * decimal. Only finite numbers are held; the text is valid JSON.
+ */
+export class LosslessNumber {
+	private constructor(private readonly text: string) {}
+
+	/**
+	 * Creates a LosslessNumber from number text
+	 *
+	 * JSON5 and YAML forms such as `+1`, `.5` and `5.` are rewritten as JSON
+	 * numbers with the same digits; JSON numbers are kept as they are.
+	 *
+	 * @throws {RangeError} If the text is not a finite decimal number
+	 */
+	static fromText(text: string): LosslessNumber {
+		if (JSON_NUMBER.test(text)) {
+			return new LosslessNumber(text);
+		}
+
+		const match = DECIMAL_NUMBER.exec(text);
+		if (!match || (match[2] === "" && !match[3])) {
+			throw new RangeError(`Not a decimal number: ${text}`);
+		}
+		const [, sign, integer, fraction, exponent] = match;
+		return new LosslessNumber(
+			(sign === "-" ? "-" : "") +
+				(integer.replace(/^0+(?=\d)/, "") || "0") +
+				(fraction ? `.${fraction}` : "") +
+				(exponent === undefined ? "" : `e${exponent}`),
+		);
+	}
+
+	/**
+	 * Creates a LosslessNumber from a finite number, as written by `String`
+	 */
+	static fromNumber(value: number): LosslessNumber {
+		return new LosslessNumber(String(value));
+	}
+
+	/**
+	 * Type guard for LosslessNumbers
+	 */
+	static isLosslessNumber(value: unknown): value is LosslessNumber {
+		return value instanceof LosslessNumber;
+	}
+
+	/**
+	 * Checks whether two numbers are equal
+	 *
+	 * LosslessNumbers are compared as exact decimals, so `1.50` equals `1.5`
+	 * while `9007199254740993` differs from `9007199254740992`. A plain number
+	 * counts as the decimal `String` writes for it.
+	 */
+	static equals(
+		left: number | LosslessNumber,
+		right: number | LosslessNumber,
+	): boolean {
+		if (typeof left === "number" && typeof right === "number") {
+			return left === right;
+		}
+		if (!Number.isFinite(Number(left)) || !Number.isFinite(Number(right))) {
+			return Number(left) === Number(right);
+		}
+		return compareDecimals(toDecimal(left), toDecimal(right)) === 0;
+	}
+
+	/**
+	 * Checks whether two numbers differ by at most `tolerance`
+	 *
+	 * The difference of LosslessNumbers is computed exactly unless their
+	 * magnitudes are too far apart for it to matter.
+	 */
+	static isWithin(
+		left: number | LosslessNumber,
+		right: number | LosslessNumber,
+		tolerance: number,
+	): boolean {
+		const isExact =
+			(typeof left !== "number" || typeof right !== "number") &&
+			Number.isFinite(Number(left)) &&
+			Number.isFinite(Number(right)) &&
+			Number.isFinite(tolerance);
+		if (!isExact) {
+			return Math.abs(Number(left) - Number(right)) <= tolerance;
+		}
+
+		const leftDecimal = toDecimal(left);
+		const rightDecimal = toDecimal(right);
+		if (
+			Math.abs(leftDecimal.exponent - rightDecimal.exponent) >
+			MAX_EXACT_EXPONENT_GAP
+		) {
+			return Math.abs(Number(left) - Number(right)) <= tolerance;
+		}
+
+		const exponent = Math.min(leftDecimal.exponent, rightDecimal.exponent);
+		const scale = (decimal: Decimal): bigint => {
+			const magnitude =
+				BigInt(decimal.digits || "0") *
+				10n ** BigInt(decimal.exponent - exponent);
+			return decimal.negative ? -magnitude : magnitude;
+		};
+		const difference = scale(leftDecimal) - scale(rightDecimal);
+		return (
+			compareDecimals(
+				fromBigInt(difference < 0n ? -difference : difference, exponent),
+				parseDecimal(String(tolerance)),
+			) <= 0
+		);
+	}
+
+	/**
+	 * Returns a key that is equal for equal numbers, plain or lossless
+	 *
+	 * It is the `String` of the nearest double when that string has the same
+	 * decimal value, so a LosslessNumber and a plain number share keys when
+	 * `equals` says they are equal.
+	 */
+	toKey(): string {
+		const value = Number(this.text);
+		const decimal = parseDecimal(this.text);
+		if (
+			Number.isFinite(value) &&
+			compareDecimals(parseDecimal(String(value)), decimal) === 0
+		) {
+			return String(value);
+		}
+		return `${decimal.negative ? "-" : ""}${decimal.digits}e${decimal.exponent}`;
+	}
+
+	/**
+	 * Returns the number text
+	 */
+	toString(): string {
+		return this.text;
+	}
+
+	/**
+	 * Returns the nearest double, which may have lost precision
+	 */
+	valueOf(): number {
+		return Number(this.text);
+	}
+
+	/**
+	 * Returns the nearest double for `JSON.stringify`; use `stringifyLossless`
+	 * to keep the text
+	 */
+	toJSON(): number {
+		return this.valueOf();
+	}
+}
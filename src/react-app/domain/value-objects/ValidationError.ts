@@ -6,7 +6,42 @@ export type ValidationErrorType =
 	| "empty"
 	| "invalid-json"
 	| "invalid-structure"
-	| "too-large";
+	| "too-large"
+	| "duplicate-key";
+
+/**
+ * Location of a parse error in the input text
+ *
+ * `line` and `column` are 1-based; `offset` is the 0-based index of the
+ * offending character.
+ */
+export interface ParseErrorPosition {
+	readonly line: number;
+	readonly column: number;
+	readonly offset: number;
+}
+
+/**
+ * Details of a parse error
+ *
+ * `expected` and `found` describe the token the parser stopped at, e.g.
+ * `"," or "}"` and `"2"`.
+ */
+export interface ParseErrorDetails extends ParseErrorPosition {
+	readonly expected?: string;
+	readonly found?: string;
+}
+
+/**
+ * Details of a duplicate object key
+ *
+ * The position is the one of the repeated key; `path` is the path of the
+ * member its value collapses into, since the last of duplicate keys wins.
+ */
+export interface DuplicateKeyDetails extends ParseErrorPosition {
+	readonly key: string;
+	readonly path: readonly string[];
+}
 
 /**
  * Value object representing a validation error
@@ -57,6 +92,30 @@ export class ValidationError {
 		);
 	}
 
+	/**
+	 * Creates a duplicate key error
+	 *
+	 * Duplicate keys are reported as warnings unless parsing is strict.
+	 */
+	static duplicateKey(details: DuplicateKeyDetails): ValidationError {
+		return new ValidationError(
+			"duplicate-key",
+			`Duplicate key ${JSON.stringify(details.key)} at line ${details.line}, column ${details.column}`,
+			details,
+		);
+	}
+
+	/**
+	 * Restores a ValidationError from its plain object representation
+	 */
+	static fromObject(object: {
+		type: ValidationErrorType;
+		message: string;
+		details?: unknown;
+	}): ValidationError {
+		return new ValidationError(object.type, object.message, object.details);
+	}
+
 	/**
 	 * Returns the error type
 	 */
@@ -78,6 +137,30 @@ export class ValidationError {
 		return this.details;
 	}
 
+	/**
+	 * Returns where in the input a parse error or duplicate key occurred, if
+	 * known
+	 */
+	getPosition(): ParseErrorPosition | undefined {
+		if (
+			(this.type !== "parse" && this.type !== "duplicate-key") ||
+			!isParseErrorPosition(this.details)
+		) {
+			return undefined;
+		}
+		const { line, column, offset } = this.details;
+		return { line, column, offset };
+	}
+
+	/**
+	 * Returns the path a duplicate key collapses into
+	 */
+	getDuplicateKeyPath(): readonly string[] | undefined {
+		return this.type === "duplicate-key"
+			? (this.details as DuplicateKeyDetails).path
+			: undefined;
+	}
+
 	/**
 	 * Returns a plain object representation
 	 */
@@ -107,3 +190,20 @@ export class ValidationError {
 		return `ValidationError [${this.type}]: ${this.message}`;
 	}
 }
+
+/**
+ * Checks whether error details hold a parse error position
+ */
+const isParseErrorPosition = (
+	details: unknown,
+): details is ParseErrorPosition => {
+	if (details === null || typeof details !== "object") {
+		return false;
+	}
+	const { line, column, offset } = details as Record<string, unknown>;
+	return (
+		typeof line === "number" &&
+		typeof column === "number" &&
+		typeof offset === "number"
+	);
+};
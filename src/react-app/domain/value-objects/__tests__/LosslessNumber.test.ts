@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { LosslessNumber } from "../LosslessNumber";
+
+const n = (text: string) => LosslessNumber.fromText(text);
+
+describe("LosslessNumber", () => {
+	describe("fromText", () => {
+		it("should keep JSON number text as written", () => {
+			expect(n("9007199254740993").toString()).toBe("9007199254740993");
+			expect(n("1.50").toString()).toBe("1.50");
+			expect(n("-0.1E+3").toString()).toBe("-0.1E+3");
+		});
+
+		it("should rewrite JSON5 and YAML forms as JSON numbers", () => {
+			expect(n("+1").toString()).toBe("1");
+			expect(n(".5").toString()).toBe("0.5");
+			expect(n("5.").toString()).toBe("5");
+			expect(n("007").toString()).toBe("7");
+		});
+
+		it("should reject text that is not a decimal number", () => {
+			expect(() => n("Infinity")).toThrow(RangeError);
+			expect(() => n(".")).toThrow(RangeError);
+		});
+	});
+
+	describe("equals", () => {
+		it("should compare exact decimal values", () => {
+			expect(
+				LosslessNumber.equals(n("9007199254740993"), n("9007199254740992")),
+			).toBe(false);
+			expect(LosslessNumber.equals(n("1.50"), n("15e-1"))).toBe(true);
+			expect(LosslessNumber.equals(n("0.0"), n("-0"))).toBe(true);
+		});
+
+		it("should compare with plain numbers by their shortest text", () => {
+			expect(LosslessNumber.equals(n("0.10"), 0.1)).toBe(true);
+			expect(
+				LosslessNumber.equals(n("9007199254740993"), 9007199254740992),
+			).toBe(false);
+			expect(LosslessNumber.equals(1, 1)).toBe(true);
+		});
+	});
+
+	describe("isWithin", () => {
+		it("should compute the difference exactly", () => {
+			expect(LosslessNumber.isWithin(n("0.3"), n("0.1"), 0.2)).toBe(true);
+			expect(
+				LosslessNumber.isWithin(n("0.30000000000000000001"), n("0.1"), 0.2),
+			).toBe(false);
+			expect(
+				LosslessNumber.isWithin(
+					n("9007199254740993"),
+					n("9007199254740992"),
+					1,
+				),
+			).toBe(true);
+		});
+
+		it("should fall back to doubles for magnitudes far apart", () => {
+			expect(LosslessNumber.isWithin(n("1e-2000"), n("1e2000"), 1)).toBe(false);
+			expect(LosslessNumber.isWithin(n("1e-2000"), n("1e-3000"), 1)).toBe(true);
+		});
+	});
+
+	describe("toKey", () => {
+		it("should match the key of an equal plain number", () => {
+			expect(n("1.50").toKey()).toBe(String(1.5));
+			expect(n("1e21").toKey()).toBe(String(1e21));
+		});
+
+		it("should distinguish numbers a double cannot tell apart", () => {
+			expect(n("9007199254740993").toKey()).not.toBe(
+				n("9007199254740992").toKey(),
+			);
+			expect(n("90071992547409930").toKey()).toBe(
+				n("9.007199254740993e16").toKey(),
+			);
+		});
+	});
+});
@@ -85,7 +85,11 @@ export class ExportAdapter implements ExportPort {
 			case "html":
 				return "html";
 			case "json-patch":
+			case "merge-patch":
+			case "canonical-json":
 				return "json";
+			case "yaml":
+				return "yaml";
 			default:
 				return "txt";
 		}
@@ -94,6 +98,7 @@ export class ExportAdapter implements ExportPort {
 	private getMimeType(format: string): string {
 		switch (format) {
 			case "json":
+			case "canonical-json":
 				return "application/json";
 			case "markdown":
 				return "text/markdown";
@@ -101,6 +106,10 @@ export class ExportAdapter implements ExportPort {
 				return "text/html";
 			case "json-patch":
 				return "application/json-patch+json";
+			case "merge-patch":
+				return "application/merge-patch+json";
+			case "yaml":
+				return "application/yaml";
 			default:
 				return "text/plain";
 		}
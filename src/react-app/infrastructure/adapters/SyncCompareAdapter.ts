@@ -0,0 +1,56 @@
+import type {
+	ComparePort,
+	CompareError,
+	CompareOptions,
+} from "../../application/ports/ComparePort";
+import type {
+	CompareJsonInput,
+	CompareJsonOutput,
+} from "../../application/use-cases/compareJson";
+import { compareJson } from "../../application/use-cases/compareJson";
+import type { CompareFilesInput } from "../../application/use-cases/compareFiles";
+import { compareFiles } from "../../application/use-cases/compareFiles";
+import type { Result } from "../../domain/types/result";
+import { err } from "../../domain/types/result";
+
+/**
+ * Compare adapter running comparisons on the calling thread
+ *
+ * Used where Web Workers are unavailable. Cancellation is only observed
+ * before the comparison starts and after it finishes.
+ */
+export class SyncCompareAdapter implements ComparePort {
+	async compare(
+		input: CompareJsonInput,
+		options: CompareOptions = {},
+	): Promise<Result<CompareJsonOutput, CompareError>> {
+		if (options.signal?.aborted) {
+			return err({ type: "CANCELLED" });
+		}
+
+		try {
+			const result = compareJson(input, options.onProgress);
+			return options.signal?.aborted ? err({ type: "CANCELLED" }) : result;
+		} catch (e) {
+			const message = e instanceof Error ? e.message : "Comparison failed";
+			return err({ type: "COMPARE_ERROR", message });
+		}
+	}
+
+	async compareFiles(
+		input: CompareFilesInput,
+		options: CompareOptions = {},
+	): Promise<Result<CompareJsonOutput, CompareError>> {
+		if (options.signal?.aborted) {
+			return err({ type: "CANCELLED" });
+		}
+
+		try {
+			const result = await compareFiles(input, options.onProgress);
+			return options.signal?.aborted ? err({ type: "CANCELLED" }) : result;
+		} catch (e) {
+			const message = e instanceof Error ? e.message : "Comparison failed";
+			return err({ type: "COMPARE_ERROR", message });
+		}
+	}
+}
@@ -0,0 +1,151 @@
+import type {
+	ComparePort,
+	CompareError,
+	CompareOptions,
+} from "../../application/ports/ComparePort";
+import type {
+	CompareJsonInput,
+	CompareJsonOutput,
+	CompareProgress,
+} from "../../application/use-cases/compareJson";
+import type { CompareFilesInput } from "../../application/use-cases/compareFiles";
+import type { Result } from "../../domain/types/result";
+import { err } from "../../domain/types/result";
+import type {
+	CompareWorkerRequest,
+	CompareWorkerResponse,
+} from "../workers/compareWorkerProtocol";
+import { deserializeCompareResult } from "../workers/compareWorkerProtocol";
+
+/**
+ * Comparison waiting for a response from the worker
+ */
+interface PendingComparison {
+	readonly settle: (result: Result<CompareJsonOutput, CompareError>) => void;
+	readonly onProgress?: (progress: CompareProgress) => void;
+}
+
+/**
+ * Compare adapter running comparisons in a Web Worker
+ *
+ * One worker is reused across comparisons and processes them in order.
+ * Cancelling terminates the worker, which stops the computation immediately
+ * and cancels every comparison still queued on it; a fresh worker is
+ * started on demand.
+ */
+export class WorkerCompareAdapter implements ComparePort {
+	private worker: Worker | null = null;
+	private nextId = 0;
+	private readonly pending = new Map<number, PendingComparison>();
+
+	constructor(
+		private readonly createWorker: () => Worker = () =>
+			new Worker(new URL("../workers/compare.worker.ts", import.meta.url), {
+				type: "module",
+			}),
+	) {}
+
+	compare(
+		input: CompareJsonInput,
+		options: CompareOptions = {},
+	): Promise<Result<CompareJsonOutput, CompareError>> {
+		return this.request((id) => ({ type: "json", id, input }), options);
+	}
+
+	compareFiles(
+		input: CompareFilesInput,
+		options: CompareOptions = {},
+	): Promise<Result<CompareJsonOutput, CompareError>> {
+		return this.request((id) => ({ type: "files", id, input }), options);
+	}
+
+	/**
+	 * Stops the worker and cancels all pending comparisons
+	 */
+	terminate(): void {
+		this.worker?.terminate();
+		this.worker = null;
+		this.settleAll(err({ type: "CANCELLED" }));
+	}
+
+	private request(
+		createRequest: (id: number) => CompareWorkerRequest,
+		options: CompareOptions,
+	): Promise<Result<CompareJsonOutput, CompareError>> {
+		const { onProgress, signal } = options;
+
+		if (signal?.aborted) {
+			return Promise.resolve(err({ type: "CANCELLED" }));
+		}
+
+		const worker = this.getWorker();
+		const id = this.nextId++;
+
+		return new Promise((resolve) => {
+			const handleAbort = () => this.terminate();
+
+			this.pending.set(id, {
+				settle: (result) => {
+					this.pending.delete(id);
+					signal?.removeEventListener("abort", handleAbort);
+					resolve(result);
+				},
+				onProgress,
+			});
+			signal?.addEventListener("abort", handleAbort);
+
+			worker.postMessage(createRequest(id));
+		});
+	}
+
+	private getWorker(): Worker {
+		if (!this.worker) {
+			const worker = this.createWorker();
+			worker.addEventListener("message", this.handleMessage);
+			worker.addEventListener("error", this.handleError);
+			this.worker = worker;
+		}
+		return this.worker;
+	}
+
+	private readonly handleMessage = (
+		event: MessageEvent<CompareWorkerResponse>,
+	) => {
+		const response = event.data;
+		const pending = this.pending.get(response.id);
+		if (!pending) {
+			return;
+		}
+
+		switch (response.type) {
+			case "progress":
+				pending.onProgress?.(response.progress);
+				break;
+			case "result":
+				pending.settle(deserializeCompareResult(response.result));
+				break;
+			case "error":
+				pending.settle(
+					err({ type: "COMPARE_ERROR", message: response.message }),
+				);
+				break;
+		}
+	};
+
+	private readonly handleError = (event: ErrorEvent) => {
+		this.worker?.terminate();
+		this.worker = null;
+		this.settleAll(
+			err({
+				type: "COMPARE_ERROR",
+				message: event.message || "Compare worker failed",
+			}),
+		);
+	};
+
+	private settleAll(result: Result<CompareJsonOutput, CompareError>): void {
+		for (const pending of [...this.pending.values()]) {
+			pending.settle(result);
+		}
+	}
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { WorkerCompareAdapter } from "../WorkerCompareAdapter";
+import type {
+	CompareWorkerRequest,
+	CompareWorkerResponse,
+} from "../../workers/compareWorkerProtocol";
+import { serializeCompareResult } from "../../workers/compareWorkerProtocol";
+import type {
+	CompareJsonInput,
+	CompareProgress,
+} from "../../../application/use-cases/compareJson";
+import { compareJson } from "../../../application/use-cases/compareJson";
+import { DEFAULT_COMPARE_SETTINGS } from "../../../domain/types/diff";
+
+/**
+ * Worker answering only when told to
+ */
+class FakeWorker extends EventTarget {
+	readonly requests: CompareWorkerRequest[] = [];
+	isTerminated = false;
+
+	postMessage(request: CompareWorkerRequest) {
+		this.requests.push(request);
+	}
+
+	terminate() {
+		this.isTerminated = true;
+	}
+
+	respond(response: CompareWorkerResponse) {
+		this.dispatchEvent(new MessageEvent("message", { data: response }));
+	}
+
+	fail(message: string) {
+		this.dispatchEvent(Object.assign(new Event("error"), { message }));
+	}
+}
+
+const input: CompareJsonInput = {
+	leftJson: '{"a": 1}',
+	rightJson: '{"a": 2}',
+	settings: DEFAULT_COMPARE_SETTINGS,
+};
+
+const createAdapter = () => {
+	const workers: FakeWorker[] = [];
+	const adapter = new WorkerCompareAdapter(() => {
+		const worker = new FakeWorker();
+		workers.push(worker);
+		return worker as unknown as Worker;
+	});
+	return { adapter, workers };
+};
+
+describe("WorkerCompareAdapter", () => {
+	it("should resolve with the result of the worker", async () => {
+		const { adapter, workers } = createAdapter();
+		const stages: CompareProgress["stage"][] = [];
+
+		const pending = adapter.compare(input, {
+			onProgress: (progress) => stages.push(progress.stage),
+		});
+		const [worker] = workers;
+		const [request] = worker.requests;
+		worker.respond({
+			type: "progress",
+			id: request.id,
+			progress: { stage: "parsing", completed: 1, total: 3 },
+		});
+		worker.respond({
+			type: "result",
+			id: request.id,
+			result: serializeCompareResult(compareJson(input)),
+		});
+		const result = await pending;
+
+		expect(request.type).toBe("json");
+		expect(stages).toEqual(["parsing"]);
+		expect(result.ok && result.value.diffResult.getStats().modified).toBe(1);
+	});
+
+	it("should cancel through the signal and terminate the worker", async () => {
+		const { adapter, workers } = createAdapter();
+		const abortController = new AbortController();
+
+		const pending = adapter.compare(input, {
+			signal: abortController.signal,
+		});
+		const queued = adapter.compare(input);
+		abortController.abort();
+
+		expect(await pending).toEqual({ ok: false, error: { type: "CANCELLED" } });
+		expect(await queued).toEqual({ ok: false, error: { type: "CANCELLED" } });
+		expect(workers[0].isTerminated).toBe(true);
+
+		// A fresh worker runs the next comparison
+		void adapter.compare(input);
+		expect(workers).toHaveLength(2);
+		expect(workers[1].requests).toHaveLength(1);
+	});
+
+	it("should not start a comparison for an aborted signal", async () => {
+		const { adapter, workers } = createAdapter();
+
+		const result = await adapter.compare(input, {
+			signal: AbortSignal.abort(),
+		});
+
+		expect(result).toEqual({ ok: false, error: { type: "CANCELLED" } });
+		expect(workers).toHaveLength(0);
+	});
+
+	it("should turn worker errors into compare errors", async () => {
+		const { adapter, workers } = createAdapter();
+
+		const thrown = adapter.compare(input);
+		workers[0].respond({
+			type: "error",
+			id: workers[0].requests[0].id,
+			message: "Out of memory",
+		});
+		const crashed = adapter.compare(input);
+		workers[0].fail("Script error");
+
+		expect(await thrown).toEqual({
+			ok: false,
+			error: { type: "COMPARE_ERROR", message: "Out of memory" },
+		});
+		expect(await crashed).toEqual({
+			ok: false,
+			error: { type: "COMPARE_ERROR", message: "Script error" },
+		});
+		expect(workers[0].isTerminated).toBe(true);
+	});
+});
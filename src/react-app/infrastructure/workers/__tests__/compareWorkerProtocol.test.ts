@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+	deserializeCompareResult,
+	serializeCompareResult,
+} from "../compareWorkerProtocol";
+import { compareJson } from "../../../application/use-cases/compareJson";
+import type { CompareJsonInput } from "../../../application/use-cases/compareJson";
+import { DEFAULT_COMPARE_SETTINGS } from "../../../domain/types/diff";
+import { LosslessNumber } from "../../../domain/value-objects/LosslessNumber";
+
+// Results cross the worker boundary as structured clones
+const roundTrip = (input: CompareJsonInput) =>
+	deserializeCompareResult(
+		structuredClone(serializeCompareResult(compareJson(input))),
+	);
+
+describe("compare worker protocol", () => {
+	it("should restore lossless numbers in documents and entries", () => {
+		const result = roundTrip({
+			leftJson: '{"id": 9007199254740993, "n": "1"}',
+			rightJson: '{"id": 9007199254740992, "n": "1"}',
+			settings: { ...DEFAULT_COMPARE_SETTINGS, losslessNumbers: true },
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			const data = result.value.leftDocument.getData() as {
+				id: unknown;
+				n: unknown;
+			};
+			expect(LosslessNumber.isLosslessNumber(data.id)).toBe(true);
+			expect(String(data.id)).toBe("9007199254740993");
+			expect(data.n).toBe("1");
+
+			const [entry] = result.value.diffResult.getEntriesByType("modified");
+			expect(LosslessNumber.isLosslessNumber(entry.rightValue)).toBe(true);
+			expect(String(entry.rightValue)).toBe("9007199254740992");
+		}
+	});
+
+	it("should keep warnings and locations", () => {
+		const result = roundTrip({
+			leftJson: '{"a": 1, "a": 2, "items": [{"id": 1}, {"v": 2}]}',
+			rightJson: '{\n  "items": [{"id": 1}]\n}',
+			settings: {
+				...DEFAULT_COMPARE_SETTINGS,
+				ignoreArrayOrder: true,
+				keyField: "id",
+			},
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			const [warning] = result.value.leftDocument.getWarnings();
+			expect(warning.getDuplicateKeyPath()).toEqual(["a"]);
+			expect(
+				result.value.diffResult.getWarnings().map((warning) => warning.type),
+			).toEqual(["missing-key"]);
+			expect(result.value.rightDocument.getLocation(["items", "0"])).toEqual({
+				line: 2,
+				column: 13,
+				range: [14, 23],
+			});
+		}
+	});
+
+	it("should send locations along with the documents", () => {
+		const result = serializeCompareResult(
+			compareJson({
+				leftJson: "[1]",
+				rightJson: '{\n  "items": [1]\n}',
+				settings: DEFAULT_COMPARE_SETTINGS,
+			}),
+		);
+
+		expect(
+			result.ok && result.value.rightDocument.locations?.get("/items"),
+		).toEqual({ line: 2, column: 12, range: [13, 16] });
+	});
+
+	it("should keep the formatted inputs", () => {
+		const result = roundTrip({
+			leftJson: "[1]",
+			rightJson: "[2]",
+			settings: { ...DEFAULT_COMPARE_SETTINGS, losslessNumbers: true },
+			formatInputs: true,
+		});
+
+		expect(result.ok && result.value.leftJson).toBe("[\n  1\n]");
+	});
+
+	it("should restore parse errors", () => {
+		const result = roundTrip({
+			leftJson: "{}",
+			rightJson: "[1,",
+			settings: DEFAULT_COMPARE_SETTINGS,
+		});
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.type).toBe("RIGHT_PARSE_ERROR");
+			expect(result.error.error.getPosition()).toEqual({
+				line: 1,
+				column: 4,
+				offset: 3,
+			});
+		}
+	});
+});
@@ -0,0 +1,36 @@
+import { compareJson } from "../../application/use-cases/compareJson";
+import type { CompareProgress } from "../../application/use-cases/compareJson";
+import { compareFiles } from "../../application/use-cases/compareFiles";
+import type {
+	CompareWorkerRequest,
+	CompareWorkerResponse,
+} from "./compareWorkerProtocol";
+import { serializeCompareResult } from "./compareWorkerProtocol";
+
+/**
+ * Web Worker running comparisons off the main thread
+ */
+const respond = (response: CompareWorkerResponse) => {
+	self.postMessage(response);
+};
+
+self.addEventListener(
+	"message",
+	async (event: MessageEvent<CompareWorkerRequest>) => {
+		const request = event.data;
+		const { id } = request;
+		const onProgress = (progress: CompareProgress) =>
+			respond({ type: "progress", id, progress });
+
+		try {
+			const result =
+				request.type === "files"
+					? await compareFiles(request.input, onProgress)
+					: compareJson(request.input, onProgress);
+			respond({ type: "result", id, result: serializeCompareResult(result) });
+		} catch (e) {
+			const message = e instanceof Error ? e.message : "Comparison failed";
+			respond({ type: "error", id, message });
+		}
+	},
+);
@@ -0,0 +1,185 @@
+import type { Result } from "../../domain/types/result";
+import { ok, err } from "../../domain/types/result";
+import type { DiffResult as DiffResultObject } from "../../domain/types/diff";
+import { DiffResult } from "../../domain/entities/DiffResult";
+import type { JsonDocumentObject } from "../../domain/entities/JsonDocument";
+import { JsonDocument } from "../../domain/entities/JsonDocument";
+import type { JsonValue } from "../../domain/types/json";
+import { ValidationError } from "../../domain/value-objects/ValidationError";
+import { LosslessNumber } from "../../domain/value-objects/LosslessNumber";
+import type {
+	CompareJsonError,
+	CompareJsonInput,
+	CompareJsonOutput,
+	CompareProgress,
+} from "../../application/use-cases/compareJson";
+import type { CompareFilesInput } from "../../application/use-cases/compareFiles";
+
+/**
+ * Structured-clone friendly comparison output
+ */
+export interface SerializedCompareOutput {
+	readonly leftDocument: JsonDocumentObject;
+	readonly rightDocument: JsonDocumentObject;
+	readonly diffResult: DiffResultObject;
+	readonly leftJson?: string;
+	readonly rightJson?: string;
+}
+
+/**
+ * Structured-clone friendly comparison error
+ */
+export type SerializedCompareError = {
+	type: CompareJsonError["type"];
+	error: ReturnType<ValidationError["toObject"]>;
+};
+
+/**
+ * Message sent to the compare worker
+ */
+export type CompareWorkerRequest =
+	| {
+			readonly type: "json";
+			readonly id: number;
+			readonly input: CompareJsonInput;
+	  }
+	| {
+			readonly type: "files";
+			readonly id: number;
+			readonly input: CompareFilesInput;
+	  };
+
+/**
+ * Message sent back by the compare worker
+ */
+export type CompareWorkerResponse =
+	| {
+			readonly type: "progress";
+			readonly id: number;
+			progress: CompareProgress;
+	  }
+	| {
+			readonly type: "result";
+			readonly id: number;
+			readonly result: Result<SerializedCompareOutput, SerializedCompareError>;
+	  }
+	| { readonly type: "error"; readonly id: number; readonly message: string };
+
+/**
+ * Replaces values anywhere in a JSON value
+ */
+const replaceValues = (
+	value: unknown,
+	replace: (value: unknown) => unknown,
+): unknown => {
+	const replaced = replace(value);
+	if (replaced !== value || value === null || typeof value !== "object") {
+		return replaced;
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => replaceValues(item, replace));
+	}
+	return Object.fromEntries(
+		Object.entries(value).map(([key, item]) => [
+			key,
+			replaceValues(item, replace),
+		]),
+	);
+};
+
+/**
+ * Replaces values in the documents and diff entries of an output
+ *
+ * LosslessNumbers lose their class when cloned, so they cross the worker
+ * boundary as boxed strings, which JSON values cannot contain otherwise.
+ */
+const replaceOutputValues = (
+	output: SerializedCompareOutput,
+	replace: (value: unknown) => unknown,
+): SerializedCompareOutput => {
+	if (!output.diffResult.metadata.settings.losslessNumbers) {
+		return output;
+	}
+
+	const replaceJson = (value: JsonValue) =>
+		replaceValues(value, replace) as JsonValue;
+	return {
+		...output,
+		leftDocument: {
+			...output.leftDocument,
+			data: replaceJson(output.leftDocument.data),
+		},
+		rightDocument: {
+			...output.rightDocument,
+			data: replaceJson(output.rightDocument.data),
+		},
+		diffResult: {
+			...output.diffResult,
+			entries: output.diffResult.entries.map((entry) => ({
+				...entry,
+				...(entry.leftValue !== undefined && {
+					leftValue: replaceJson(entry.leftValue),
+				}),
+				...(entry.rightValue !== undefined && {
+					rightValue: replaceJson(entry.rightValue),
+				}),
+			})),
+		},
+	};
+};
+
+const boxLosslessNumber = (value: unknown): unknown =>
+	LosslessNumber.isLosslessNumber(value) ? new String(value.toString()) : value;
+
+const unboxLosslessNumber = (value: unknown): unknown =>
+	value instanceof String ? LosslessNumber.fromText(value.valueOf()) : value;
+
+/**
+ * Converts a comparison result into plain objects
+ */
+export const serializeCompareResult = (
+	result: Result<CompareJsonOutput, CompareJsonError>,
+): Result<SerializedCompareOutput, SerializedCompareError> => {
+	if (!result.ok) {
+		return err({
+			type: result.error.type,
+			error: result.error.error.toObject(),
+		});
+	}
+
+	return ok(
+		replaceOutputValues(
+			{
+				leftDocument: result.value.leftDocument.toObject(),
+				rightDocument: result.value.rightDocument.toObject(),
+				diffResult: result.value.diffResult.toObject(),
+				leftJson: result.value.leftJson,
+				rightJson: result.value.rightJson,
+			},
+			boxLosslessNumber,
+		),
+	);
+};
+
+/**
+ * Restores entities from a serialized comparison result
+ */
+export const deserializeCompareResult = (
+	result: Result<SerializedCompareOutput, SerializedCompareError>,
+): Result<CompareJsonOutput, CompareJsonError> => {
+	if (!result.ok) {
+		return err({
+			type: result.error.type,
+			error: ValidationError.fromObject(result.error.error),
+		});
+	}
+
+	const output = replaceOutputValues(result.value, unboxLosslessNumber);
+	return ok({
+		leftDocument: JsonDocument.fromObject(output.leftDocument),
+		rightDocument: JsonDocument.fromObject(output.rightDocument),
+		diffResult: DiffResult.fromObject(output.diffResult),
+		leftJson: output.leftJson,
+		rightJson: output.rightJson,
+	});
+};
@@ -1,4 +1,55 @@
-import type { TextareaHTMLAttributes } from "react";
+import { useEffect, useRef, useState } from "react";
+import type { TextareaHTMLAttributes, UIEvent } from "react";
+import { Button } from "./Button";
+
+/**
+ * Position in the text of a TextArea
+ *
+ * `line` and `column` are 1-based; `offset` is the 0-based index into the
+ * value.
+ */
+export interface TextPosition {
+	readonly line: number;
+	readonly column: number;
+	readonly offset: number;
+}
+
+/**
+ * Range of text in a TextArea, starting on `line`
+ *
+ * `start` and `end` are 0-based offsets into the value; `end` is exclusive.
+ */
+export interface TextRange {
+	readonly line: number;
+	readonly start: number;
+	readonly end: number;
+}
+
+/**
+ * Scrolls a textarea to center a line
+ */
+const scrollToLine = (textarea: HTMLTextAreaElement, line: number) => {
+	const lineHeight = Number.parseFloat(getComputedStyle(textarea).lineHeight);
+	textarea.scrollTop = Math.max(
+		0,
+		(line - 1) * lineHeight - textarea.clientHeight / 2,
+	);
+};
+
+/**
+ * Counts the lines of a range of text
+ */
+const countLines = (text: string, start: number, end: number): number => {
+	let count = 1;
+	for (
+		let index = text.indexOf("\n", start);
+		index >= 0 && index < end;
+		index = text.indexOf("\n", index + 1)
+	) {
+		count++;
+	}
+	return count;
+};
 
 /**
  * TextArea props
@@ -8,18 +59,67 @@ export interface TextAreaProps
 	label?: string;
 	error?: string;
 	helperText?: string;
+	/** Marks the line of an error and offers to jump to it */
+	errorPosition?: TextPosition;
+	/** Marks the lines of a range of text and scrolls to it when it changes */
+	highlight?: TextRange;
 }
 
 /**
  * TextArea component
+ *
+ * While an error position or a highlight is shown, lines are not wrapped so
+ * that the markers cover exactly the lines they mark.
  */
 export const TextArea = ({
 	label,
 	error,
 	helperText,
+	errorPosition,
+	highlight,
 	className = "",
+	onScroll,
 	...props
 }: TextAreaProps) => {
+	const textareaRef = useRef<HTMLTextAreaElement>(null);
+	const [scrollTop, setScrollTop] = useState(0);
+	const highlightLine = highlight?.line;
+	const highlightStart = highlight?.start;
+	const highlightEnd = highlight?.end;
+
+	useEffect(() => {
+		const textarea = textareaRef.current;
+		if (
+			!textarea ||
+			highlightLine === undefined ||
+			highlightStart === undefined ||
+			highlightEnd === undefined
+		) {
+			return;
+		}
+		// Selected for when the textarea gets the focus
+		textarea.setSelectionRange(highlightStart, highlightEnd);
+		scrollToLine(textarea, highlightLine);
+	}, [highlightLine, highlightStart, highlightEnd]);
+
+	const handleScroll = (e: UIEvent<HTMLTextAreaElement>) => {
+		setScrollTop(e.currentTarget.scrollTop);
+		onScroll?.(e);
+	};
+
+	const jumpToError = () => {
+		const textarea = textareaRef.current;
+		if (!textarea || !errorPosition) {
+			return;
+		}
+
+		textarea.focus();
+		textarea.setSelectionRange(errorPosition.offset, errorPosition.offset + 1);
+		scrollToLine(textarea, errorPosition.line);
+	};
+
+	const hasError = Boolean(error) || errorPosition !== undefined;
+
 	const styles = {
 		container: {
 			display: "flex",
@@ -32,6 +132,10 @@ export const TextArea = ({
 			fontWeight: 500,
 			color: "var(--fg-primary)",
 		},
+		editor: {
+			position: "relative" as const,
+			overflow: "hidden",
+		},
 		textarea: {
 			width: "100%",
 			padding: "var(--spacing-md)",
@@ -39,7 +143,7 @@ export const TextArea = ({
 			fontFamily: "var(--font-mono)",
 			color: "var(--fg-primary)",
 			backgroundColor: "var(--bg-secondary)",
-			border: error
+			border: hasError
 				? "1px solid var(--accent-red)"
 				: "1px solid var(--bg-tertiary)",
 			borderRadius: "var(--radius-md)",
@@ -47,6 +151,34 @@ export const TextArea = ({
 			minHeight: "200px",
 			lineHeight: 1.5,
 		},
+		// Follows the line box of the textarea: border, padding, then lines
+		errorLine: errorPosition && {
+			position: "absolute" as const,
+			left: "1px",
+			right: "1px",
+			top: `calc(1px + var(--spacing-md) + ${errorPosition.line - 1} * 1.5 * var(--font-sm) - ${scrollTop}px)`,
+			height: "calc(1.5 * var(--font-sm))",
+			backgroundColor: "var(--diff-removed-bg)",
+			borderLeft: "3px solid var(--accent-red)",
+			pointerEvents: "none" as const,
+		},
+		highlightLines: highlight && {
+			position: "absolute" as const,
+			left: "1px",
+			right: "1px",
+			top: `calc(1px + var(--spacing-md) + ${highlight.line - 1} * 1.5 * var(--font-sm) - ${scrollTop}px)`,
+			height: `calc(${typeof props.value === "string" ? countLines(props.value, highlight.start, highlight.end) : 1} * 1.5 * var(--font-sm))`,
+			backgroundColor: "var(--diff-modified-bg)",
+			borderLeft: "3px solid var(--accent-cyan)",
+			pointerEvents: "none" as const,
+		},
+		errorBar: {
+			display: "flex",
+			alignItems: "center",
+			gap: "var(--spacing-sm)",
+			fontSize: "var(--font-xs)",
+			color: "var(--accent-red)",
+		},
 		error: {
 			fontSize: "var(--font-xs)",
 			color: "var(--accent-red)",
@@ -60,7 +192,30 @@ export const TextArea = ({
 	return (
 		<div style={styles.container}>
 			{label && <label style={styles.label}>{label}</label>}
-			<textarea style={styles.textarea} className={className} {...props} />
+			<div style={styles.editor}>
+				<textarea
+					ref={textareaRef}
+					style={styles.textarea}
+					className={className}
+					wrap={errorPosition || highlight ? "off" : undefined}
+					onScroll={handleScroll}
+					{...props}
+				/>
+				{styles.highlightLines && (
+					<div style={styles.highlightLines} aria-hidden />
+				)}
+				{styles.errorLine && <div style={styles.errorLine} aria-hidden />}
+			</div>
+			{errorPosition && (
+				<div style={styles.errorBar}>
+					<span>
+						Error at line {errorPosition.line}, column {errorPosition.column}
+					</span>
+					<Button variant="ghost" size="sm" onClick={jumpToError}>
+						Jump to line
+					</Button>
+				</div>
+			)}
 			{error && <span style={styles.error}>{error}</span>}
 			{helperText && !error && (
 				<span style={styles.helperText}>{helperText}</span>
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import type { JsonDocument } from "../../../domain/entities/JsonDocument";
+import type { Result } from "../../../domain/types/result";
+import type { ValidationError } from "../../../domain/value-objects/ValidationError";
+import { computeCanonicalDigest } from "../../../domain/functions/canonical";
+import { Button } from "../atoms/Button";
+
+export interface CanonicalDigestsProps {
+	readonly leftDocument: JsonDocument;
+	readonly rightDocument: JsonDocument;
+	/** Computes the digests right away instead of when asked to */
+	readonly computeOnMount?: boolean;
+}
+
+type Digest = Result<string, ValidationError>;
+
+/**
+ * SHA-256 digests of the canonical JSON (RFC 8785) of two documents, telling
+ * whether they are byte-identical when canonicalized
+ *
+ * The documents are canonicalized on the main thread, so for large documents
+ * the digests are only computed when asked for.
+ */
+export const CanonicalDigests = ({
+	leftDocument,
+	rightDocument,
+	computeOnMount = false,
+}: CanonicalDigestsProps) => {
+	const [isRequested, setIsRequested] = useState(computeOnMount);
+	const [digests, setDigests] = useState<readonly [Digest, Digest] | null>(
+		null,
+	);
+	const [failure, setFailure] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!isRequested) {
+			return;
+		}
+		// Digests of documents replaced in the meantime, or of an unmounted
+		// panel, are dropped
+		let isCurrent = true;
+		setDigests(null);
+		setFailure(null);
+		Promise.all([
+			computeCanonicalDigest(leftDocument.getData()),
+			computeCanonicalDigest(rightDocument.getData()),
+		])
+			.then((results) => {
+				if (isCurrent) {
+					setDigests(results);
+				}
+			})
+			.catch((e: unknown) => {
+				if (isCurrent) {
+					setFailure(
+						e instanceof Error ? e.message : "Digests could not be computed",
+					);
+				}
+			});
+		return () => {
+			isCurrent = false;
+		};
+	}, [isRequested, leftDocument, rightDocument]);
+
+	const styles = {
+		container: {
+			display: "grid",
+			gridTemplateColumns: "auto 1fr",
+			gap: "var(--spacing-xs) var(--spacing-sm)",
+			padding: "var(--spacing-sm) var(--spacing-md)",
+			fontSize: "var(--font-xs)",
+			color: "var(--fg-secondary)",
+		},
+		digest: {
+			fontFamily: "var(--font-mono)",
+			overflowWrap: "anywhere" as const,
+		},
+		verdict: (isIdentical: boolean) => ({
+			gridColumn: "1 / -1",
+			color: isIdentical ? "var(--diff-added)" : "var(--diff-modified)",
+		}),
+	};
+
+	if (!isRequested) {
+		return (
+			<div style={styles.container}>
+				<Button variant="ghost" size="sm" onClick={() => setIsRequested(true)}>
+					🔏 Compute canonical digests
+				</Button>
+			</div>
+		);
+	}
+	if (failure !== null) {
+		return (
+			<div style={styles.container}>
+				<span style={styles.verdict(false)}>
+					Canonical digests unavailable: {failure}
+				</span>
+			</div>
+		);
+	}
+	if (!digests) {
+		return <div style={styles.container}>Computing canonical digests…</div>;
+	}
+
+	const [left, right] = digests;
+	const isIdentical = left.ok && right.ok && left.value === right.value;
+	const show = (digest: Digest) =>
+		digest.ok ? digest.value : digest.error.getMessage();
+
+	return (
+		<div
+			style={styles.container}
+			title="SHA-256 of the JSON Canonicalization Scheme (RFC 8785) form"
+		>
+			<span>Left SHA-256:</span>
+			<span style={styles.digest}>{show(left)}</span>
+			<span>Right SHA-256:</span>
+			<span style={styles.digest}>{show(right)}</span>
+			{left.ok && right.ok && (
+				<span style={styles.verdict(isIdentical)}>
+					{isIdentical ? "✓ Canonically identical" : "≠ Canonical forms differ"}
+				</span>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,151 @@
+import type { CompareRule } from "../../../domain/types/diff";
+import { Button } from "../atoms/Button";
+import { KeyFieldInput } from "./KeyFieldInput";
+
+export interface CompareRulesEditorProps {
+	readonly rules: readonly CompareRule[];
+	readonly onChange: (rules: readonly CompareRule[]) => void;
+}
+
+/**
+ * Editor for per-path comparison rules
+ */
+export const CompareRulesEditor = ({
+	rules,
+	onChange,
+}: CompareRulesEditorProps) => {
+	const updateRule = (index: number, patch: Partial<CompareRule>) => {
+		onChange(
+			rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)),
+		);
+	};
+
+	const removeRule = (index: number) => {
+		onChange(rules.filter((_, i) => i !== index));
+	};
+
+	const addRule = () => {
+		onChange([...rules, { path: "" }]);
+	};
+
+	const styles = {
+		container: {
+			display: "flex",
+			flexDirection: "column" as const,
+			gap: "var(--spacing-sm)",
+		},
+		row: {
+			display: "grid",
+			gridTemplateColumns: "2fr 1fr 1fr 1fr auto",
+			gap: "var(--spacing-sm)",
+			alignItems: "center",
+		},
+		headerCell: {
+			fontSize: "var(--font-xs)",
+			color: "var(--fg-secondary)",
+		},
+		input: {
+			backgroundColor: "var(--bg-primary)",
+			color: "var(--fg-primary)",
+			border: "1px solid var(--border-color)",
+			borderRadius: "var(--radius-md)",
+			padding: "var(--spacing-sm)",
+			fontSize: "var(--font-sm)",
+			fontFamily: "inherit",
+			minWidth: 0,
+		},
+		empty: {
+			fontSize: "var(--font-xs)",
+			color: "var(--fg-tertiary)",
+		},
+	};
+
+	return (
+		<div style={styles.container}>
+			{rules.length === 0 ? (
+				<div style={styles.empty}>No rules defined</div>
+			) : (
+				<div style={styles.row}>
+					<span style={styles.headerCell}>Path pattern</span>
+					<span style={styles.headerCell}>Key field</span>
+					<span style={styles.headerCell}>Float tolerance</span>
+					<span style={styles.headerCell}>Array order</span>
+					<span />
+				</div>
+			)}
+
+			{rules.map((rule, index) => (
+				<div key={index} style={styles.row}>
+					<input
+						type="text"
+						aria-label="Path pattern"
+						placeholder="e.g., $.users"
+						value={rule.path}
+						onChange={(e) => updateRule(index, { path: e.target.value })}
+						style={{ ...styles.input, fontFamily: "var(--font-mono)" }}
+					/>
+					<KeyFieldInput
+						aria-label="Key field"
+						placeholder="inherit"
+						value={rule.keyField}
+						onChange={(keyField) => updateRule(index, { keyField })}
+						style={styles.input}
+					/>
+					<input
+						type="number"
+						aria-label="Float tolerance"
+						placeholder="inherit"
+						step="any"
+						min="0"
+						value={rule.floatTolerance ?? ""}
+						onChange={(e) =>
+							updateRule(index, {
+								floatTolerance: e.target.value
+									? parseFloat(e.target.value)
+									: undefined,
+							})
+						}
+						style={styles.input}
+					/>
+					<select
+						aria-label="Array order"
+						value={
+							rule.ignoreArrayOrder === undefined
+								? "inherit"
+								: rule.ignoreArrayOrder
+									? "unordered"
+									: "ordered"
+						}
+						onChange={(e) =>
+							updateRule(index, {
+								ignoreArrayOrder:
+									e.target.value === "inherit"
+										? undefined
+										: e.target.value === "unordered",
+							})
+						}
+						style={styles.input}
+					>
+						<option value="inherit">Inherit</option>
+						<option value="ordered">Ordered</option>
+						<option value="unordered">Unordered</option>
+					</select>
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={() => removeRule(index)}
+						aria-label="Remove rule"
+					>
+						✕
+					</Button>
+				</div>
+			))}
+
+			<div>
+				<Button variant="secondary" size="sm" onClick={addRule}>
+					+ Add rule
+				</Button>
+			</div>
+		</div>
+	);
+};
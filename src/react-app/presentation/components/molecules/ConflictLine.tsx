@@ -0,0 +1,195 @@
+import { useState } from "react";
+import type {
+	ConflictEntry,
+	ConflictResolution,
+} from "../../../domain/types/merge";
+import type { JsonValue } from "../../../domain/types/json";
+import { JsonDocument } from "../../../domain/entities/JsonDocument";
+import { getResolvedValue } from "../../../domain/functions/merge";
+import { stringifyLossless } from "../../../domain/functions/stringify";
+import { Button } from "../atoms/Button";
+
+export interface ConflictLineProps {
+	readonly conflict: ConflictEntry;
+	readonly resolution: ConflictResolution | null;
+	readonly onResolve: (resolution: ConflictResolution | null) => void;
+}
+
+const formatValue = (value: JsonValue | undefined): string =>
+	value === undefined ? "(absent)" : stringifyLossless(value, 2);
+
+export const ConflictLine = ({
+	conflict,
+	resolution,
+	onResolve,
+}: ConflictLineProps) => {
+	const [editText, setEditText] = useState<string | null>(null);
+	const [editError, setEditError] = useState<string | null>(null);
+
+	const startEdit = () => {
+		const current = getResolvedValue(conflict, resolution ?? { type: "ours" });
+		setEditText(stringifyLossless(current ?? null, 2));
+		setEditError(null);
+	};
+
+	const applyEdit = () => {
+		if (editText === null) {
+			return;
+		}
+		// Edited numbers keep their text, like those of lossless documents
+		const result = JsonDocument.fromString(editText, undefined, "json", {
+			losslessNumbers: true,
+		});
+		if (!result.ok) {
+			setEditError(result.error.getMessage());
+			return;
+		}
+		onResolve({ type: "edit", value: result.value.getData() });
+		setEditText(null);
+	};
+
+	const styles = {
+		container: {
+			borderLeft: `4px solid ${resolution ? "var(--accent-green)" : "var(--accent-red)"}`,
+			backgroundColor: "var(--bg-primary)",
+			borderRadius: "var(--radius-sm)",
+			padding: "var(--spacing-sm) var(--spacing-md)",
+			marginBottom: "var(--spacing-sm)",
+			display: "flex",
+			flexDirection: "column" as const,
+			gap: "var(--spacing-sm)",
+		},
+		header: {
+			display: "flex",
+			justifyContent: "space-between",
+			alignItems: "center",
+			gap: "var(--spacing-md)",
+			flexWrap: "wrap" as const,
+		},
+		path: {
+			fontFamily: "var(--font-mono)",
+			fontSize: "var(--font-sm)",
+			fontWeight: 600,
+			color: "var(--fg-primary)",
+		},
+		status: {
+			fontSize: "var(--font-xs)",
+			color: resolution ? "var(--accent-green)" : "var(--accent-red)",
+		},
+		actions: {
+			display: "flex",
+			gap: "var(--spacing-xs)",
+		},
+		values: {
+			display: "grid",
+			gridTemplateColumns: "repeat(3, 1fr)",
+			gap: "var(--spacing-sm)",
+		},
+		valueLabel: {
+			fontSize: "var(--font-xs)",
+			color: "var(--fg-secondary)",
+		},
+		value: {
+			fontFamily: "var(--font-mono)",
+			fontSize: "var(--font-xs)",
+			color: "var(--fg-primary)",
+			whiteSpace: "pre-wrap" as const,
+			wordBreak: "break-all" as const,
+			margin: 0,
+		},
+		editor: {
+			width: "100%",
+			minHeight: "80px",
+			fontFamily: "var(--font-mono)",
+			fontSize: "var(--font-xs)",
+			color: "var(--fg-primary)",
+			backgroundColor: "var(--bg-secondary)",
+			border: editError
+				? "1px solid var(--accent-red)"
+				: "1px solid var(--bg-tertiary)",
+			borderRadius: "var(--radius-sm)",
+			padding: "var(--spacing-sm)",
+		},
+		error: {
+			fontSize: "var(--font-xs)",
+			color: "var(--accent-red)",
+		},
+	};
+
+	const statusText =
+		resolution === null
+			? "Unresolved (keeping ours)"
+			: resolution.type === "edit"
+				? "Edited"
+				: `Took ${resolution.type}`;
+
+	return (
+		<div style={styles.container}>
+			<div style={styles.header}>
+				<span style={styles.path}>{conflict.path.join(".") || "(root)"}</span>
+				<span style={styles.status}>{statusText}</span>
+				<div style={styles.actions}>
+					<Button
+						variant={resolution?.type === "ours" ? "primary" : "secondary"}
+						size="sm"
+						onClick={() => onResolve({ type: "ours" })}
+					>
+						Take Ours
+					</Button>
+					<Button
+						variant={resolution?.type === "theirs" ? "primary" : "secondary"}
+						size="sm"
+						onClick={() => onResolve({ type: "theirs" })}
+					>
+						Take Theirs
+					</Button>
+					<Button
+						variant={resolution?.type === "edit" ? "primary" : "secondary"}
+						size="sm"
+						onClick={startEdit}
+					>
+						Edit
+					</Button>
+				</div>
+			</div>
+
+			<div style={styles.values}>
+				{(
+					[
+						["Base", conflict.baseValue],
+						["Ours", conflict.oursValue],
+						["Theirs", conflict.theirsValue],
+					] as const
+				).map(([label, value]) => (
+					<div key={label}>
+						<div style={styles.valueLabel}>{label}</div>
+						<pre style={styles.value}>{formatValue(value)}</pre>
+					</div>
+				))}
+			</div>
+
+			{editText !== null && (
+				<>
+					<textarea
+						style={styles.editor}
+						value={editText}
+						onChange={(e) => setEditText(e.target.value)}
+					/>
+					{editError && <span style={styles.error}>{editError}</span>}
+					<div style={styles.actions}>
+						<Button variant="primary" size="sm" onClick={applyEdit}>
+							Apply
+						</Button>
+						<Button
+							variant="secondary"
+							size="sm"
+							onClick={() => setEditText(null)}
+						>
+							Cancel
+						</Button>
+					</div>
+				</>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,61 @@
+import type { JsonDialect } from "../../../domain/types/json";
+
+export interface DialectSelectProps {
+	readonly id: string;
+	readonly value: JsonDialect;
+	readonly onChange: (dialect: JsonDialect) => void;
+}
+
+const DIALECT_LABELS: Readonly<Record<JsonDialect, string>> = {
+	json: "JSON",
+	jsonc: "JSONC (comments, trailing commas)",
+	json5: "JSON5",
+	yaml: "YAML",
+	ndjson: "NDJSON (one record per line)",
+};
+
+/**
+ * Select for the syntax an input is parsed with
+ */
+export const DialectSelect = ({ id, value, onChange }: DialectSelectProps) => {
+	const styles = {
+		container: {
+			display: "flex",
+			alignItems: "center",
+			gap: "var(--spacing-sm)",
+		},
+		label: {
+			fontSize: "var(--font-xs)",
+			color: "var(--fg-secondary)",
+		},
+		select: {
+			backgroundColor: "var(--bg-primary)",
+			color: "var(--fg-primary)",
+			border: "1px solid var(--border-color)",
+			borderRadius: "var(--radius-md)",
+			padding: "var(--spacing-xs) var(--spacing-sm)",
+			fontSize: "var(--font-xs)",
+			fontFamily: "inherit",
+		},
+	};
+
+	return (
+		<div style={styles.container}>
+			<label htmlFor={id} style={styles.label}>
+				Syntax
+			</label>
+			<select
+				id={id}
+				value={value}
+				onChange={(e) => onChange(e.target.value as JsonDialect)}
+				style={styles.select}
+			>
+				{(Object.keys(DIALECT_LABELS) as JsonDialect[]).map((dialect) => (
+					<option key={dialect} value={dialect}>
+						{DIALECT_LABELS[dialect]}
+					</option>
+				))}
+			</select>
+		</div>
+	);
+};
@@ -1,11 +1,27 @@
+import type { KeyboardEvent } from "react";
 import type { DiffEntry } from "../../../domain/types/diff";
+import { getLeftPath, getRightPath } from "../../../domain/functions/differ";
+import { getEntryStringDiff } from "../../../domain/functions/stringDiff";
+import { stringifyLossless } from "../../../domain/functions/stringify";
+import { InlineStringDiff } from "./InlineStringDiff";
 
 export interface DiffLineProps {
 	readonly entry: DiffEntry;
 	readonly viewMode?: "side-by-side" | "unified" | "inline";
+	/** Duplicate keys collapsed into the value(s) of the entry */
+	readonly duplicateKeys?: readonly string[];
+	/** Makes the line selectable, e.g. to locate the entry in the inputs */
+	readonly onSelect?: () => void;
+	readonly isSelected?: boolean;
 }
 
-export const DiffLine = ({ entry, viewMode = "unified" }: DiffLineProps) => {
+export const DiffLine = ({
+	entry,
+	viewMode = "unified",
+	duplicateKeys = [],
+	onSelect,
+	isSelected = false,
+}: DiffLineProps) => {
 	const getTypeColor = (type: DiffEntry["type"]) => {
 		switch (type) {
 			case "added":
@@ -14,8 +30,12 @@ export const DiffLine = ({ entry, viewMode = "unified" }: DiffLineProps) => {
 				return "var(--diff-removed)";
 			case "modified":
 				return "var(--diff-modified)";
+			case "moved":
+				return "var(--diff-moved)";
 			case "unchanged":
 				return "var(--fg-secondary)";
+			case "ignored":
+				return "var(--fg-tertiary)";
 		}
 	};
 
@@ -27,8 +47,12 @@ export const DiffLine = ({ entry, viewMode = "unified" }: DiffLineProps) => {
 				return "- ";
 			case "modified":
 				return "± ";
+			case "moved":
+				return "↷ ";
 			case "unchanged":
 				return "  ";
+			case "ignored":
+				return "⊘ ";
 		}
 	};
 
@@ -36,11 +60,24 @@ export const DiffLine = ({ entry, viewMode = "unified" }: DiffLineProps) => {
 		if (value === null) return "null";
 		if (value === undefined) return "undefined";
 		if (typeof value === "string") return `"${value}"`;
-		if (typeof value === "object") return JSON.stringify(value, null, 2);
+		if (typeof value === "object") return stringifyLossless(value, 2);
 		return String(value);
 	};
 
-	const pathStr = entry.path.join(".");
+	const fromPathStr = (entry.fromPath ?? entry.path).join(".");
+	const pathStr =
+		entry.type === "moved" && fromPathStr !== entry.path.join(".")
+			? `${fromPathStr} → ${entry.path.join(".")}`
+			: entry.path.join(".");
+	const leftPathStr = getLeftPath(entry).join(".");
+	const rightPathStr = getRightPath(entry).join(".");
+	const locationTitle = [
+		entry.leftValue !== undefined && `left: ${leftPathStr}`,
+		entry.rightValue !== undefined && `right: ${rightPathStr}`,
+	]
+		.filter(Boolean)
+		.join("\n");
+	const stringDiff = getEntryStringDiff(entry);
 	const color = getTypeColor(entry.type);
 	const symbol = getTypeSymbol(entry.type);
 
@@ -51,10 +88,14 @@ export const DiffLine = ({ entry, viewMode = "unified" }: DiffLineProps) => {
 			padding: "var(--spacing-xs) var(--spacing-md)",
 			borderLeft: `4px solid ${color}`,
 			backgroundColor:
-				entry.type === "unchanged" ? "transparent" : `${color}10`,
+				entry.type === "unchanged" || entry.type === "ignored"
+					? "transparent"
+					: `${color}10`,
 			marginBottom: "1px",
 			display: "flex",
 			gap: "var(--spacing-md)",
+			cursor: onSelect ? "pointer" : undefined,
+			outline: isSelected ? "1px solid var(--accent-cyan)" : undefined,
 		},
 		symbol: {
 			color,
@@ -72,23 +113,56 @@ export const DiffLine = ({ entry, viewMode = "unified" }: DiffLineProps) => {
 			wordBreak: "break-all" as const,
 			flex: 1,
 		},
+		duplicateKeys: {
+			color: "var(--accent-yellow)",
+			fontSize: "var(--font-xs)",
+			whiteSpace: "nowrap" as const,
+		},
+	};
+
+	const duplicateKeysBadge = duplicateKeys.length > 0 && (
+		<span style={styles.duplicateKeys} title={duplicateKeys.join("\n")}>
+			⚠️ duplicate key
+		</span>
+	);
+
+	const selectProps = onSelect && {
+		role: "button",
+		tabIndex: 0,
+		"aria-pressed": isSelected,
+		onClick: onSelect,
+		onKeyDown: (e: KeyboardEvent) => {
+			if (e.key === "Enter" || e.key === " ") {
+				e.preventDefault();
+				onSelect();
+			}
+		},
 	};
 
 	if (viewMode === "side-by-side" && entry.type === "modified") {
 		return (
-			<div style={{ ...styles.line, flexDirection: "column" }}>
+			<div style={{ ...styles.line, flexDirection: "column" }} {...selectProps}>
 				<div style={{ display: "flex", gap: "var(--spacing-md)" }}>
 					<span style={styles.symbol}>-</span>
-					<span style={styles.path}>{pathStr}</span>
+					<span style={styles.path}>{leftPathStr}</span>
+					{duplicateKeysBadge}
 					<span style={{ ...styles.value, color: "var(--diff-removed)" }}>
-						{formatValue(entry.leftValue)}
+						{stringDiff ? (
+							<InlineStringDiff segments={stringDiff} side="left" />
+						) : (
+							formatValue(entry.leftValue)
+						)}
 					</span>
 				</div>
 				<div style={{ display: "flex", gap: "var(--spacing-md)" }}>
 					<span style={styles.symbol}>+</span>
-					<span style={styles.path}>{pathStr}</span>
+					<span style={styles.path}>{rightPathStr}</span>
 					<span style={{ ...styles.value, color: "var(--diff-added)" }}>
-						{formatValue(entry.rightValue)}
+						{stringDiff ? (
+							<InlineStringDiff segments={stringDiff} side="right" />
+						) : (
+							formatValue(entry.rightValue)
+						)}
 					</span>
 				</div>
 			</div>
@@ -96,9 +170,12 @@ export const DiffLine = ({ entry, viewMode = "unified" }: DiffLineProps) => {
 	}
 
 	return (
-		<div style={styles.line}>
+		<div style={styles.line} {...selectProps}>
 			<span style={styles.symbol}>{symbol}</span>
-			<span style={styles.path}>{pathStr}</span>
+			<span style={styles.path} title={locationTitle}>
+				{pathStr}
+			</span>
+			{duplicateKeysBadge}
 			{entry.type === "added" && (
 				<span style={styles.value}>{formatValue(entry.rightValue)}</span>
 			)}
@@ -107,12 +184,26 @@ export const DiffLine = ({ entry, viewMode = "unified" }: DiffLineProps) => {
 			)}
 			{entry.type === "modified" && (
 				<span style={styles.value}>
-					{formatValue(entry.leftValue)} → {formatValue(entry.rightValue)}
+					{stringDiff ? (
+						<InlineStringDiff segments={stringDiff} />
+					) : (
+						<>
+							{formatValue(entry.leftValue)} → {formatValue(entry.rightValue)}
+						</>
+					)}
 				</span>
 			)}
+			{entry.type === "moved" && (
+				<span style={styles.value}>{formatValue(entry.rightValue)}</span>
+			)}
 			{entry.type === "unchanged" && (
 				<span style={styles.value}>{formatValue(entry.leftValue)}</span>
 			)}
+			{entry.type === "ignored" && (
+				<span style={{ ...styles.value, color: "var(--fg-secondary)" }}>
+					(ignored)
+				</span>
+			)}
 		</div>
 	);
 };
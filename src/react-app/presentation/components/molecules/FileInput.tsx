@@ -0,0 +1,59 @@
+import { Button } from "../atoms/Button";
+
+export interface FileInputProps {
+	readonly id: string;
+	readonly file: File | null;
+	readonly onChange: (file: File | null) => void;
+	readonly accept?: string;
+}
+
+/**
+ * Picker for a file that is read directly instead of through the text area
+ */
+export const FileInput = ({ id, file, onChange, accept }: FileInputProps) => {
+	const styles = {
+		container: {
+			display: "flex",
+			alignItems: "center",
+			gap: "var(--spacing-sm)",
+			fontSize: "var(--font-xs)",
+			color: "var(--fg-secondary)",
+		},
+		label: {
+			cursor: "pointer",
+			color: "var(--accent-cyan)",
+		},
+		input: {
+			display: "none",
+		},
+	};
+
+	return (
+		<div style={styles.container}>
+			<label htmlFor={id} style={styles.label}>
+				📂 Load file
+			</label>
+			<input
+				id={id}
+				type="file"
+				accept={accept}
+				style={styles.input}
+				onChange={(e) => {
+					onChange(e.target.files?.[0] ?? null);
+					// Allow choosing the same file again
+					e.target.value = "";
+				}}
+			/>
+			{file && (
+				<>
+					<span>
+						{file.name} ({file.size.toLocaleString()} bytes)
+					</span>
+					<Button variant="ghost" size="sm" onClick={() => onChange(null)}>
+						✕
+					</Button>
+				</>
+			)}
+		</div>
+	);
+};
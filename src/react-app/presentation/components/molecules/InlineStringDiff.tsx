@@ -0,0 +1,52 @@
+import type { StringDiffSegment } from "../../../domain/functions/stringDiff";
+
+export interface InlineStringDiffProps {
+	readonly segments: readonly StringDiffSegment[];
+	/** Restricts the output to the text of one side; both sides by default */
+	readonly side?: "left" | "right";
+}
+
+/**
+ * Renders a string with deleted and inserted parts highlighted
+ */
+export const InlineStringDiff = ({ segments, side }: InlineStringDiffProps) => {
+	const styles = {
+		delete: {
+			backgroundColor: "var(--diff-removed-bg)",
+			color: "var(--diff-removed)",
+			textDecoration: "line-through",
+		},
+		insert: {
+			backgroundColor: "var(--diff-added-bg)",
+			color: "var(--diff-added)",
+			textDecoration: "none",
+		},
+	};
+
+	return (
+		<>
+			"
+			{segments.map((segment, index) => {
+				if (segment.type === "equal") {
+					return <span key={index}>{segment.text}</span>;
+				}
+				if (segment.type === "delete" && side !== "right") {
+					return (
+						<del key={index} style={styles.delete}>
+							{segment.text}
+						</del>
+					);
+				}
+				if (segment.type === "insert" && side !== "left") {
+					return (
+						<ins key={index} style={styles.insert}>
+							{segment.text}
+						</ins>
+					);
+				}
+				return null;
+			})}
+			"
+		</>
+	);
+};
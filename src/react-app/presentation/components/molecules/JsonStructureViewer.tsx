@@ -1,6 +1,10 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import type { JsonValue } from "../../../domain/types/json";
+import { isJsonNumber } from "../../../domain/types/json";
 import type { DiffEntry } from "../../../domain/types/diff";
+import { getLeftPath, getRightPath } from "../../../domain/functions/differ";
+import { getEntryStringDiff } from "../../../domain/functions/stringDiff";
+import { InlineStringDiff } from "./InlineStringDiff";
 
 export interface JsonStructureViewerProps {
 	readonly leftData: JsonValue;
@@ -26,16 +30,24 @@ const pathToKey = (path: readonly (string | number)[]): string => {
 
 /**
  * Finds the diff entry for a given path
+ *
+ * Entries are matched by their index-based location in the document shown
+ * on the given side, so that moved items and items of arrays matched by key
+ * are highlighted where they actually are.
  */
 const findDiffEntry = (
 	path: readonly (string | number)[],
 	diffEntries: readonly DiffEntry[],
+	side: "left" | "right",
 ): DiffEntry | undefined => {
-	return diffEntries.find(
-		(entry) =>
-			entry.path.length === path.length &&
-			entry.path.every((p, i) => p === path[i]),
-	);
+	return diffEntries.find((entry) => {
+		const entryPath =
+			side === "left" ? getLeftPath(entry) : getRightPath(entry);
+		return (
+			entryPath.length === path.length &&
+			entryPath.every((p, i) => p === String(path[i]))
+		);
+	});
 };
 
 /**
@@ -45,7 +57,9 @@ const getDiffBackground = (
 	diffType: DiffEntry["type"] | undefined,
 	side: "left" | "right",
 ): string => {
-	if (!diffType || diffType === "unchanged") return "transparent";
+	if (!diffType || diffType === "unchanged" || diffType === "ignored") {
+		return "transparent";
+	}
 
 	if (diffType === "added") {
 		return side === "right" ? "var(--diff-added-bg)" : "transparent";
@@ -56,6 +70,9 @@ const getDiffBackground = (
 	if (diffType === "modified") {
 		return "var(--diff-modified-bg)";
 	}
+	if (diffType === "moved") {
+		return "var(--diff-moved-bg)";
+	}
 
 	return "transparent";
 };
@@ -74,7 +91,7 @@ const JsonNode = ({
 	const pathKey = pathToKey(path);
 	const isExpanded = expandedState.get(pathKey) ?? true;
 
-	const diffEntry = findDiffEntry(path, diffEntries);
+	const diffEntry = findDiffEntry(path, diffEntries, side);
 	const bgColor = getDiffBackground(diffEntry?.type, side);
 
 	const styles = {
@@ -142,17 +159,24 @@ const JsonNode = ({
 
 	// Primitive types
 	if (typeof value === "string") {
+		const stringDiff = diffEntry && getEntryStringDiff(diffEntry);
 		return (
 			<div style={{ ...styles.node, ...styles.line }}>
-				<span style={styles.string}>"{value}"</span>
+				<span style={styles.string}>
+					{stringDiff ? (
+						<InlineStringDiff segments={stringDiff} side={side} />
+					) : (
+						`"${value}"`
+					)}
+				</span>
 			</div>
 		);
 	}
 
-	if (typeof value === "number") {
+	if (isJsonNumber(value)) {
 		return (
 			<div style={{ ...styles.node, ...styles.line }}>
-				<span style={styles.number}>{value}</span>
+				<span style={styles.number}>{String(value)}</span>
 			</div>
 		);
 	}
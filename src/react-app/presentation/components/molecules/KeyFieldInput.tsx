@@ -0,0 +1,47 @@
+import { useState } from "react";
+import type { InputHTMLAttributes } from "react";
+import type { KeyField } from "../../../domain/types/diff";
+import {
+	formatKeyField,
+	parseKeyField,
+} from "../../../domain/functions/keyField";
+
+export interface KeyFieldInputProps
+	extends Omit<InputHTMLAttributes<HTMLInputElement>, "value" | "onChange"> {
+	readonly value: KeyField | undefined;
+	readonly onChange: (value: KeyField | undefined) => void;
+}
+
+/**
+ * Text input for key fields
+ *
+ * Accepts comma-separated composite keys ("tenant, id") and dotted nested
+ * paths ("meta.id"). The raw text is kept while typing so that separators are
+ * not swallowed by normalization.
+ */
+export const KeyFieldInput = ({
+	value,
+	onChange,
+	...props
+}: KeyFieldInputProps) => {
+	const [draft, setDraft] = useState(() =>
+		value === undefined ? "" : formatKeyField(value),
+	);
+
+	// Resynchronize when the value is changed from outside
+	if (JSON.stringify(parseKeyField(draft)) !== JSON.stringify(value)) {
+		setDraft(value === undefined ? "" : formatKeyField(value));
+	}
+
+	return (
+		<input
+			type="text"
+			{...props}
+			value={draft}
+			onChange={(e) => {
+				setDraft(e.target.value);
+				onChange(parseKeyField(e.target.value));
+			}}
+		/>
+	);
+};
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import type { JsonValue } from "../../../domain/types/json";
+import { stringifyLossless } from "../../../domain/functions/stringify";
+import type { ComparisonMatrix } from "../../../application/use-cases/compareDocuments";
+
+export interface ComparisonTableProps {
+	readonly matrix: ComparisonMatrix;
+}
+
+const formatValue = (value: JsonValue | undefined): string =>
+	value === undefined ? "—" : stringifyLossless(value);
+
+/**
+ * Table of values per path, with one column per document
+ *
+ * Cells that differ from the first document are highlighted.
+ */
+export const ComparisonTable = ({ matrix }: ComparisonTableProps) => {
+	const [showAll, setShowAll] = useState(false);
+
+	const differentCount = matrix.rows.filter((row) => row.isDifferent).length;
+	const rows = showAll
+		? matrix.rows
+		: matrix.rows.filter((row) => row.isDifferent);
+
+	const styles = {
+		container: {
+			backgroundColor: "var(--bg-secondary)",
+			borderRadius: "var(--radius-lg)",
+			overflow: "hidden",
+			marginBottom: "var(--spacing-lg)",
+		},
+		header: {
+			padding: "var(--spacing-lg)",
+			borderBottom: "1px solid var(--border-color)",
+			display: "flex",
+			justifyContent: "space-between",
+			alignItems: "center",
+			flexWrap: "wrap" as const,
+			gap: "var(--spacing-md)",
+		},
+		title: {
+			fontSize: "var(--font-lg)",
+			fontWeight: 700,
+			color: "var(--fg-primary)",
+		},
+		summary: {
+			fontSize: "var(--font-sm)",
+			color:
+				differentCount > 0 ? "var(--accent-yellow)" : "var(--accent-green)",
+		},
+		toggle: {
+			display: "flex",
+			alignItems: "center",
+			gap: "var(--spacing-sm)",
+			fontSize: "var(--font-sm)",
+			color: "var(--fg-secondary)",
+			cursor: "pointer",
+		},
+		tableWrapper: {
+			maxHeight: "600px",
+			overflow: "auto" as const,
+		},
+		table: {
+			width: "100%",
+			borderCollapse: "collapse" as const,
+			fontFamily: "var(--font-mono)",
+			fontSize: "var(--font-xs)",
+		},
+		headerCell: {
+			position: "sticky" as const,
+			top: 0,
+			padding: "var(--spacing-sm) var(--spacing-md)",
+			backgroundColor: "var(--bg-tertiary)",
+			color: "var(--fg-primary)",
+			textAlign: "left" as const,
+			fontWeight: 600,
+		},
+		pathCell: {
+			padding: "var(--spacing-sm) var(--spacing-md)",
+			borderTop: "1px solid var(--border-color)",
+			color: "var(--fg-primary)",
+			fontWeight: 600,
+			whiteSpace: "nowrap" as const,
+		},
+		cell: (isChanged: boolean) => ({
+			padding: "var(--spacing-sm) var(--spacing-md)",
+			borderTop: "1px solid var(--border-color)",
+			color: "var(--fg-primary)",
+			backgroundColor: isChanged ? "var(--diff-modified-bg)" : undefined,
+			wordBreak: "break-all" as const,
+		}),
+		empty: {
+			padding: "var(--spacing-lg)",
+			textAlign: "center" as const,
+			color: "var(--fg-secondary)",
+		},
+	};
+
+	return (
+		<div style={styles.container}>
+			<div style={styles.header}>
+				<h2 style={styles.title}>Comparison</h2>
+				<span style={styles.summary}>
+					{differentCount === 0
+						? `All ${matrix.documentIds.length} documents match`
+						: `${differentCount} differing path(s) across ${matrix.documentIds.length} documents`}
+				</span>
+				<label style={styles.toggle}>
+					<input
+						type="checkbox"
+						checked={showAll}
+						onChange={(e) => setShowAll(e.target.checked)}
+					/>
+					Show matching paths
+				</label>
+			</div>
+
+			{rows.length === 0 ? (
+				<div style={styles.empty}>No differences</div>
+			) : (
+				<div style={styles.tableWrapper}>
+					<table style={styles.table}>
+						<thead>
+							<tr>
+								<th style={styles.headerCell}>Path</th>
+								{matrix.documentIds.map((id, index) => (
+									<th key={index} style={styles.headerCell}>
+										{id}
+									</th>
+								))}
+							</tr>
+						</thead>
+						<tbody>
+							{rows.map((row) => {
+								const reference = formatValue(row.values[0]);
+								return (
+									<tr
+										key={`${row.isAdded ? "+" : ""}${row.path.join("\u0000")}`}
+									>
+										<td style={styles.pathCell}>
+											{row.path.join(".") || "(root)"}
+											{row.isAdded && " (added)"}
+										</td>
+										{row.values.map((value, index) => {
+											const text = formatValue(value);
+											return (
+												<td
+													key={index}
+													style={styles.cell(index > 0 && text !== reference)}
+												>
+													{text}
+												</td>
+											);
+										})}
+									</tr>
+								);
+							})}
+						</tbody>
+					</table>
+				</div>
+			)}
+		</div>
+	);
+};
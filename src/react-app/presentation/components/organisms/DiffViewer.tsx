@@ -1,41 +1,106 @@
 import { useState } from "react";
 import type { DiffResult } from "../../../domain/entities/DiffResult";
 import type { JsonDocument } from "../../../domain/entities/JsonDocument";
-import type { ViewMode, ExportFormat } from "../../../domain/types/diff";
+import type {
+	DiffEntry,
+	ViewMode,
+	ExportFormat,
+} from "../../../domain/types/diff";
 import { DiffLine } from "../molecules/DiffLine";
 import { JsonStructureViewer } from "../molecules/JsonStructureViewer";
+import { CanonicalDigests } from "../molecules/CanonicalDigests";
 import { Button } from "../atoms/Button";
+import { generateMergePatch } from "../../../domain/functions/mergePatch";
+import { getLeftPath, getRightPath } from "../../../domain/functions/differ";
 import { ExportAdapter } from "../../../infrastructure/adapters/ExportAdapter";
 import {
 	createExportDiffUseCase,
 	createCopyDiffUseCase,
 } from "../../../application/use-cases/exportDiff";
+import type { ExportLineNumbers } from "../../../application/use-cases/exportDiff";
 
 export interface DiffViewerProps {
 	readonly diffResult: DiffResult;
 	readonly leftDocument?: JsonDocument | null;
 	readonly rightDocument?: JsonDocument | null;
+	/** Makes entries selectable, e.g. to locate them in the inputs */
+	readonly onSelectEntry?: (entry: DiffEntry) => void;
+	readonly selectedEntry?: DiffEntry | null;
+	/**
+	 * Computes the canonical digests of the documents right away instead of
+	 * when asked to; meant for documents small enough to hash without delay
+	 */
+	readonly computeDigests?: boolean;
 }
 
+interface DuplicateKey {
+	readonly side: "left" | "right";
+	readonly path: readonly string[];
+	readonly message: string;
+}
+
+const getDuplicateKeys = (
+	side: DuplicateKey["side"],
+	document: JsonDocument | null | undefined,
+): DuplicateKey[] =>
+	(document?.getWarnings() ?? []).flatMap((warning) => {
+		const path = warning.getDuplicateKeyPath();
+		return path ? [{ side, path, message: warning.getMessage() }] : [];
+	});
+
+const startsWith = (path: readonly string[], prefix: readonly string[]) =>
+	prefix.length <= path.length &&
+	prefix.every((segment, index) => path[index] === segment);
+
+/**
+ * Returns the duplicate keys collapsed into the values of an entry
+ */
+const getCollapsedKeys = (
+	entry: DiffEntry,
+	duplicateKeys: readonly DuplicateKey[],
+): string[] =>
+	duplicateKeys
+		.filter(({ side, path }) =>
+			side === "left"
+				? entry.leftValue !== undefined && startsWith(path, getLeftPath(entry))
+				: entry.rightValue !== undefined &&
+					startsWith(path, getRightPath(entry)),
+		)
+		.map(({ side, message }) => `${side}: ${message}`);
+
 export const DiffViewer = ({
 	diffResult,
 	leftDocument,
 	rightDocument,
+	onSelectEntry,
+	selectedEntry,
+	computeDigests = false,
 }: DiffViewerProps) => {
 	const [viewMode, setViewMode] = useState<ViewMode>("unified");
 	const [showUnchanged, setShowUnchanged] = useState(false);
 	const [isExporting, setIsExporting] = useState(false);
+	const [includeLineNumbers, setIncludeLineNumbers] = useState(false);
+
+	const lineNumbers: ExportLineNumbers | undefined =
+		includeLineNumbers && leftDocument && rightDocument
+			? { leftDocument, rightDocument }
+			: undefined;
 
 	const exportAdapter = new ExportAdapter();
 	const exportDiffUseCase = createExportDiffUseCase(exportAdapter);
 	const copyDiffUseCase = createCopyDiffUseCase(exportAdapter);
 
 	const handleExport = async (format: ExportFormat) => {
+		if (format === "merge-patch" && !confirmMergePatchWarnings()) {
+			return;
+		}
+
 		setIsExporting(true);
 		try {
 			const result = await exportDiffUseCase({
 				diffResult,
 				format,
+				lineNumbers,
 			});
 
 			if (!result.ok) {
@@ -51,7 +116,7 @@ export const DiffViewer = ({
 	};
 
 	const handleCopy = async (format: ExportFormat) => {
-		const result = await copyDiffUseCase(diffResult, format);
+		const result = await copyDiffUseCase(diffResult, format, lineNumbers);
 		if (result.ok) {
 			alert("Copied to clipboard!");
 		} else {
@@ -63,12 +128,33 @@ export const DiffViewer = ({
 		}
 	};
 
+	const confirmMergePatchWarnings = (): boolean => {
+		const { warnings } = generateMergePatch(diffResult.getEntries());
+		if (warnings.length === 0) {
+			return true;
+		}
+		const lines = warnings.map(
+			(warning) =>
+				`- ${warning.path.join(".") || "(root)"}: ${warning.message}`,
+		);
+		return confirm(
+			`The merge patch cannot express every change:\n${lines.join("\n")}\n\nExport anyway?`,
+		);
+	};
+
 	const entries = diffResult.getEntries();
 	const visibleEntries = showUnchanged
 		? entries
-		: entries.filter((entry) => entry.type !== "unchanged");
+		: entries.filter(
+				(entry) => entry.type !== "unchanged" && entry.type !== "ignored",
+			);
 
 	const stats = diffResult.getStats();
+	const warnings = diffResult.getWarnings();
+	const duplicateKeys = [
+		...getDuplicateKeys("left", leftDocument),
+		...getDuplicateKeys("right", rightDocument),
+	];
 
 	const styles = {
 		container: {
@@ -118,6 +204,14 @@ export const DiffViewer = ({
 			fontSize: "var(--font-xs)",
 			padding: "var(--spacing-xs) var(--spacing-sm)",
 		},
+		checkboxLabel: {
+			display: "flex",
+			alignItems: "center",
+			gap: "var(--spacing-xs)",
+			fontSize: "var(--font-xs)",
+			color: "var(--fg-secondary)",
+			cursor: "pointer",
+		},
 		stats: {
 			display: "flex",
 			gap: "var(--spacing-lg)",
@@ -136,6 +230,17 @@ export const DiffViewer = ({
 			fontWeight: 700,
 			fontSize: "var(--font-md)",
 		},
+		warnings: {
+			padding: "var(--spacing-sm) var(--spacing-lg)",
+			backgroundColor: "var(--bg-primary)",
+			borderBottom: "1px solid var(--border-color)",
+			color: "var(--accent-yellow)",
+			fontSize: "var(--font-xs)",
+			fontFamily: "var(--font-mono)",
+			listStyle: "none",
+			maxHeight: "120px",
+			overflowY: "auto" as const,
+		},
 		entriesContainer: {
 			maxHeight: "600px",
 			overflowY: "auto" as const,
@@ -182,6 +287,18 @@ export const DiffViewer = ({
 					>
 						{showUnchanged ? "Hide" : "Show"} Unchanged
 					</Button>
+					<label
+						style={styles.checkboxLabel}
+						title="Show the lines of the values in the inputs next to the paths of an export"
+					>
+						<input
+							type="checkbox"
+							checked={includeLineNumbers}
+							onChange={(e) => setIncludeLineNumbers(e.target.checked)}
+							disabled={!leftDocument || !rightDocument}
+						/>
+						Line numbers
+					</label>
 					<div style={{ position: "relative" as const }}>
 						<Button
 							variant="primary"
@@ -208,6 +325,39 @@ export const DiffViewer = ({
 					>
 						🌐 HTML
 					</Button>
+					<Button
+						variant="secondary"
+						size="sm"
+						onClick={() => handleExport("json-patch")}
+						disabled={isExporting}
+					>
+						🩹 JSON Patch
+					</Button>
+					<Button
+						variant="secondary"
+						size="sm"
+						onClick={() => handleExport("merge-patch")}
+						disabled={isExporting}
+					>
+						🔀 Merge Patch
+					</Button>
+					<Button
+						variant="secondary"
+						size="sm"
+						onClick={() => handleExport("yaml")}
+						disabled={isExporting}
+					>
+						📝 YAML
+					</Button>
+					<Button
+						variant="secondary"
+						size="sm"
+						onClick={() => handleExport("canonical-json")}
+						disabled={isExporting}
+						title="JSON Canonicalization Scheme (RFC 8785)"
+					>
+						🔏 Canonical JSON
+					</Button>
 					<Button
 						variant="secondary"
 						size="sm"
@@ -231,16 +381,43 @@ export const DiffViewer = ({
 					<span>Modified:</span>
 					<span style={styles.count}>{stats.modified}</span>
 				</div>
+				<div style={styles.stat("var(--diff-moved)")}>
+					<span>Moved:</span>
+					<span style={styles.count}>{stats.moved}</span>
+				</div>
 				<div style={styles.stat("var(--fg-secondary)")}>
 					<span>Unchanged:</span>
 					<span style={styles.count}>{stats.unchanged}</span>
 				</div>
+				<div style={styles.stat("var(--fg-secondary)")}>
+					<span>Ignored:</span>
+					<span style={styles.count}>{stats.ignored}</span>
+				</div>
 				<div style={styles.stat("var(--fg-primary)")}>
 					<span>Total:</span>
 					<span style={styles.count}>{stats.total}</span>
 				</div>
 			</div>
 
+			{leftDocument && rightDocument && (
+				<CanonicalDigests
+					key={diffResult.getId()}
+					leftDocument={leftDocument}
+					rightDocument={rightDocument}
+					computeOnMount={computeDigests}
+				/>
+			)}
+
+			{warnings.length + duplicateKeys.length > 0 && (
+				<ul style={styles.warnings}>
+					{[...duplicateKeys, ...warnings].map((warning, index) => (
+						<li key={index}>
+							⚠️ {warning.path.join(".")} ({warning.side}): {warning.message}
+						</li>
+					))}
+				</ul>
+			)}
+
 			<div style={styles.entriesContainer}>
 				{visibleEntries.length === 0 ? (
 					<div style={styles.noChanges}>
@@ -254,7 +431,14 @@ export const DiffViewer = ({
 					/>
 				) : (
 					visibleEntries.map((entry, index) => (
-						<DiffLine key={index} entry={entry} viewMode={viewMode} />
+						<DiffLine
+							key={index}
+							entry={entry}
+							viewMode={viewMode}
+							duplicateKeys={getCollapsedKeys(entry, duplicateKeys)}
+							onSelect={onSelectEntry && (() => onSelectEntry(entry))}
+							isSelected={entry === selectedEntry}
+						/>
 					))
 				)}
 			</div>
@@ -0,0 +1,102 @@
+import type { DocumentInput } from "../../../application/use-cases/compareDocuments";
+import { Button } from "../atoms/Button";
+import { TextArea } from "../atoms/TextArea";
+import { DialectSelect } from "../molecules/DialectSelect";
+
+export interface DocumentInputListProps {
+	readonly inputs: readonly DocumentInput[];
+	readonly onChange: (index: number, input: Partial<DocumentInput>) => void;
+	readonly onAdd: () => void;
+	readonly onRemove: (index: number) => void;
+}
+
+/**
+ * Named inputs for comparing several documents
+ *
+ * The first document is the one the others are compared against.
+ */
+export const DocumentInputList = ({
+	inputs,
+	onChange,
+	onAdd,
+	onRemove,
+}: DocumentInputListProps) => {
+	const styles = {
+		container: {
+			display: "grid",
+			gridTemplateColumns: "repeat(auto-fit, minmax(280px, 1fr))",
+			gap: "var(--spacing-lg)",
+			marginBottom: "var(--spacing-lg)",
+		},
+		item: {
+			display: "flex",
+			flexDirection: "column" as const,
+			gap: "var(--spacing-sm)",
+		},
+		header: {
+			display: "flex",
+			gap: "var(--spacing-sm)",
+			alignItems: "center",
+		},
+		labelInput: {
+			flex: 1,
+			backgroundColor: "var(--bg-primary)",
+			color: "var(--fg-primary)",
+			border: "1px solid var(--border-color)",
+			borderRadius: "var(--radius-md)",
+			padding: "var(--spacing-sm)",
+			fontSize: "var(--font-sm)",
+			fontFamily: "inherit",
+		},
+		add: {
+			display: "flex",
+			alignItems: "center",
+			justifyContent: "center",
+		},
+	};
+
+	return (
+		<div style={styles.container}>
+			{inputs.map((input, index) => (
+				<div key={index} style={styles.item}>
+					<div style={styles.header}>
+						<input
+							type="text"
+							aria-label={`Name of document ${index + 1}`}
+							value={input.label}
+							onChange={(e) => onChange(index, { label: e.target.value })}
+							style={styles.labelInput}
+						/>
+						<Button
+							variant="secondary"
+							size="sm"
+							onClick={() => onRemove(index)}
+							disabled={inputs.length <= 2}
+						>
+							✕
+						</Button>
+					</div>
+					<TextArea
+						placeholder={
+							index === 0
+								? "Paste the reference JSON here..."
+								: "Paste a JSON to compare here..."
+						}
+						value={input.json}
+						onChange={(e) => onChange(index, { json: e.target.value })}
+					/>
+					<DialectSelect
+						id={`documentDialect${index}`}
+						value={input.dialect ?? "json"}
+						onChange={(dialect) => onChange(index, { dialect })}
+					/>
+				</div>
+			))}
+			<div style={styles.add}>
+				<Button variant="secondary" size="sm" onClick={onAdd}>
+					+ Add Document
+				</Button>
+			</div>
+		</div>
+	);
+};
@@ -0,0 +1,169 @@
+import type { JsonDocument } from "../../../domain/entities/JsonDocument";
+import type {
+	ConflictResolution,
+	MergeResult,
+} from "../../../domain/types/merge";
+import { ConflictLine } from "../molecules/ConflictLine";
+import { Button } from "../atoms/Button";
+import { TextArea } from "../atoms/TextArea";
+import { ExportAdapter } from "../../../infrastructure/adapters/ExportAdapter";
+import {
+	createExportDocumentUseCase,
+	createCopyDocumentUseCase,
+} from "../../../application/use-cases/exportDocument";
+import type { DocumentExportFormat } from "../../../application/use-cases/exportDocument";
+
+export interface MergeViewerProps {
+	readonly mergeResult: MergeResult;
+	readonly resolutions: readonly (ConflictResolution | null)[];
+	readonly mergedDocument: JsonDocument;
+	readonly onResolve: (
+		index: number,
+		resolution: ConflictResolution | null,
+	) => void;
+}
+
+export const MergeViewer = ({
+	mergeResult,
+	resolutions,
+	mergedDocument,
+	onResolve,
+}: MergeViewerProps) => {
+	const exportAdapter = new ExportAdapter();
+	const exportDocumentUseCase = createExportDocumentUseCase(exportAdapter);
+	const copyDocumentUseCase = createCopyDocumentUseCase(exportAdapter);
+
+	const { conflicts } = mergeResult;
+	const unresolved = resolutions.filter(
+		(resolution) => resolution === null,
+	).length;
+
+	const handleExport = async (format: DocumentExportFormat) => {
+		const result = await exportDocumentUseCase({
+			document: mergedDocument,
+			format,
+		});
+		if (!result.ok) {
+			const message =
+				result.error.type === "unsupported-format"
+					? `Unsupported format: ${result.error.format}`
+					: result.error.message;
+			alert(`Export failed: ${message}`);
+		}
+	};
+
+	const handleCopy = async () => {
+		const result = await copyDocumentUseCase(mergedDocument);
+		if (result.ok) {
+			alert("Copied to clipboard!");
+		} else {
+			const message =
+				result.error.type === "unsupported-format"
+					? `Unsupported format: ${result.error.format}`
+					: result.error.message;
+			alert(`Copy failed: ${message}`);
+		}
+	};
+
+	const styles = {
+		container: {
+			backgroundColor: "var(--bg-secondary)",
+			borderRadius: "var(--radius-lg)",
+			overflow: "hidden",
+			marginBottom: "var(--spacing-lg)",
+		},
+		header: {
+			padding: "var(--spacing-lg)",
+			borderBottom: "1px solid var(--border-color)",
+			display: "flex",
+			justifyContent: "space-between",
+			alignItems: "center",
+			flexWrap: "wrap" as const,
+			gap: "var(--spacing-md)",
+		},
+		title: {
+			fontSize: "var(--font-lg)",
+			fontWeight: 700,
+			color: "var(--fg-primary)",
+		},
+		summary: {
+			fontSize: "var(--font-sm)",
+			color: unresolved > 0 ? "var(--accent-yellow)" : "var(--accent-green)",
+		},
+		controls: {
+			display: "flex",
+			gap: "var(--spacing-md)",
+			alignItems: "center",
+		},
+		conflicts: {
+			maxHeight: "400px",
+			overflowY: "auto" as const,
+			padding: "var(--spacing-md)",
+			borderBottom: "1px solid var(--border-color)",
+		},
+		merged: {
+			padding: "var(--spacing-md)",
+		},
+	};
+
+	return (
+		<div style={styles.container}>
+			<div style={styles.header}>
+				<h2 style={styles.title}>Merge Result</h2>
+				<span style={styles.summary}>
+					{conflicts.length === 0
+						? "Merged without conflicts"
+						: `${conflicts.length} conflict(s), ${unresolved} unresolved`}
+				</span>
+				<div style={styles.controls}>
+					<Button
+						variant="primary"
+						size="sm"
+						onClick={() => handleExport("json")}
+					>
+						📥 Export Merged
+					</Button>
+					<Button
+						variant="secondary"
+						size="sm"
+						onClick={() => handleExport("yaml")}
+					>
+						📄 YAML
+					</Button>
+					<Button
+						variant="secondary"
+						size="sm"
+						onClick={() => handleExport("canonical-json")}
+						title="JSON Canonicalization Scheme (RFC 8785)"
+					>
+						🔏 Canonical
+					</Button>
+					<Button variant="secondary" size="sm" onClick={handleCopy}>
+						📋 Copy
+					</Button>
+				</div>
+			</div>
+
+			{conflicts.length > 0 && (
+				<div style={styles.conflicts}>
+					{conflicts.map((conflict, index) => (
+						<ConflictLine
+							key={conflict.path.join("\u0000")}
+							conflict={conflict}
+							resolution={resolutions[index] ?? null}
+							onResolve={(resolution) => onResolve(index, resolution)}
+						/>
+					))}
+				</div>
+			)}
+
+			<div style={styles.merged}>
+				<TextArea
+					label="Merged Document"
+					value={mergedDocument.toString(true)}
+					readOnly
+				/>
+			</div>
+		</div>
+	);
+};
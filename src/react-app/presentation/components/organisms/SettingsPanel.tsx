@@ -1,4 +1,11 @@
-import type { CompareSettings } from "../../../domain/types/diff";
+import type {
+	ArrayDiffAlgorithm,
+	CompareSettings,
+} from "../../../domain/types/diff";
+import { CompareRulesEditor } from "../molecules/CompareRulesEditor";
+import { KeyFieldInput } from "../molecules/KeyFieldInput";
+
+const MEGABYTE = 1024 * 1024;
 
 export interface SettingsPanelProps {
 	readonly settings: CompareSettings;
@@ -46,7 +53,7 @@ export const SettingsPanel = ({
 			transform: isOpen ? "rotate(180deg)" : "rotate(0deg)",
 		},
 		content: {
-			maxHeight: isOpen ? "1000px" : "0",
+			maxHeight: isOpen ? "2000px" : "0",
 			opacity: isOpen ? 1 : 0,
 			transition: "max-height 0.4s ease, opacity 0.3s ease, padding 0.3s ease",
 			padding: isOpen
@@ -145,6 +152,51 @@ export const SettingsPanel = ({
 						</div>
 					</div>
 
+					<div style={styles.field}>
+						<label htmlFor="arrayDiffAlgorithm" style={styles.label}>
+							Array Diff Algorithm
+						</label>
+						<select
+							id="arrayDiffAlgorithm"
+							value={settings.arrayDiffAlgorithm}
+							onChange={(e) =>
+								onChange({
+									...settings,
+									arrayDiffAlgorithm: e.target.value as ArrayDiffAlgorithm,
+								})
+							}
+							disabled={settings.ignoreArrayOrder}
+							style={styles.input}
+						>
+							<option value="lcs">Longest common subsequence</option>
+							<option value="index">Index by index</option>
+						</select>
+						<div style={styles.description}>
+							How ordered arrays are aligned before comparing elements
+						</div>
+					</div>
+
+					<div style={styles.field}>
+						<div style={styles.checkboxContainer}>
+							<input
+								type="checkbox"
+								id="detectMoves"
+								checked={settings.detectMoves}
+								onChange={(e) =>
+									onChange({ ...settings, detectMoves: e.target.checked })
+								}
+								style={styles.checkbox}
+							/>
+							<label htmlFor="detectMoves" style={styles.label}>
+								Detect Moves
+							</label>
+						</div>
+						<div style={styles.description}>
+							Relocated array elements and subtrees are reported as moves
+							instead of a removal plus an addition
+						</div>
+					</div>
+
 					<div style={styles.field}>
 						<div style={styles.checkboxContainer}>
 							<input
@@ -168,25 +220,98 @@ export const SettingsPanel = ({
 						</div>
 					</div>
 
+					<div style={styles.field}>
+						<div style={styles.checkboxContainer}>
+							<input
+								type="checkbox"
+								id="losslessNumbers"
+								checked={settings.losslessNumbers}
+								onChange={(e) =>
+									onChange({
+										...settings,
+										losslessNumbers: e.target.checked,
+									})
+								}
+								style={styles.checkbox}
+							/>
+							<label htmlFor="losslessNumbers" style={styles.label}>
+								Lossless Numbers
+							</label>
+						</div>
+						<div style={styles.description}>
+							Compare numbers exactly as written, e.g. 64-bit IDs and
+							high-precision decimals
+						</div>
+					</div>
+
+					<div style={styles.field}>
+						<div style={styles.checkboxContainer}>
+							<input
+								type="checkbox"
+								id="rejectDuplicateKeys"
+								checked={settings.rejectDuplicateKeys}
+								onChange={(e) =>
+									onChange({
+										...settings,
+										rejectDuplicateKeys: e.target.checked,
+									})
+								}
+								style={styles.checkbox}
+							/>
+							<label htmlFor="rejectDuplicateKeys" style={styles.label}>
+								Reject Duplicate Keys
+							</label>
+						</div>
+						<div style={styles.description}>
+							Fail on objects with a repeated key instead of keeping its last
+							value with a warning
+						</div>
+					</div>
+
+					<div style={styles.field}>
+						<div style={styles.checkboxContainer}>
+							<input
+								type="checkbox"
+								id="collapseUnchanged"
+								checked={settings.collapseUnchanged}
+								onChange={(e) =>
+									onChange({
+										...settings,
+										collapseUnchanged: e.target.checked,
+									})
+								}
+								style={styles.checkbox}
+							/>
+							<label htmlFor="collapseUnchanged" style={styles.label}>
+								Collapse Unchanged
+							</label>
+						</div>
+						<div style={styles.description}>
+							Show an object or array without changes as one line; always on for
+							loaded files
+						</div>
+					</div>
+
 					<div style={styles.field}>
 						<label htmlFor="keyField" style={styles.label}>
 							Array Key Field
 						</label>
-						<input
-							type="text"
+						<KeyFieldInput
 							id="keyField"
 							placeholder="e.g., id"
-							value={settings.keyField ?? ""}
-							onChange={(e) =>
+							value={settings.keyField}
+							onChange={(keyField) =>
 								onChange({
 									...settings,
-									keyField: e.target.value || undefined,
+									keyField,
 								})
 							}
 							style={styles.input}
 						/>
 						<div style={styles.description}>
-							Field to use for matching array elements (e.g., "id")
+							Field to use for matching array elements (e.g., "id"). Use commas
+							for composite keys ("tenant, id") and dots for nested fields
+							("meta.id")
 						</div>
 					</div>
 
@@ -215,6 +340,129 @@ export const SettingsPanel = ({
 							Tolerance for floating point comparisons
 						</div>
 					</div>
+
+					<div style={styles.field}>
+						<label htmlFor="similarityThreshold" style={styles.label}>
+							Similarity Threshold
+						</label>
+						<input
+							type="number"
+							id="similarityThreshold"
+							step="0.05"
+							min="0"
+							max="1"
+							value={settings.similarityThreshold}
+							onChange={(e) => {
+								const value = parseFloat(e.target.value);
+								if (!Number.isNaN(value)) {
+									onChange({
+										...settings,
+										similarityThreshold: Math.min(1, Math.max(0, value)),
+									});
+								}
+							}}
+							style={styles.input}
+						/>
+						<div style={styles.description}>
+							Unordered array items at least this similar (0-1) are compared as
+							the same element instead of a removal and an addition
+						</div>
+					</div>
+
+					<div style={styles.field}>
+						<label htmlFor="maxInputSize" style={styles.label}>
+							Max Input Size (MB)
+						</label>
+						<input
+							type="number"
+							id="maxInputSize"
+							step="1"
+							min="1"
+							value={settings.maxInputSize / MEGABYTE}
+							onChange={(e) => {
+								const value = parseFloat(e.target.value);
+								if (value > 0) {
+									onChange({
+										...settings,
+										maxInputSize: Math.round(value * MEGABYTE),
+									});
+								}
+							}}
+							style={styles.input}
+						/>
+						<div style={styles.description}>
+							Largest pasted input that is compared
+						</div>
+					</div>
+
+					<div style={styles.field}>
+						<label htmlFor="maxFileSize" style={styles.label}>
+							Max File Size (MB)
+						</label>
+						<input
+							type="number"
+							id="maxFileSize"
+							step="1"
+							min="1"
+							value={settings.maxFileSize / MEGABYTE}
+							onChange={(e) => {
+								const value = parseFloat(e.target.value);
+								if (value > 0) {
+									onChange({
+										...settings,
+										maxFileSize: Math.round(value * MEGABYTE),
+									});
+								}
+							}}
+							style={styles.input}
+						/>
+						<div style={styles.description}>
+							Largest loaded file that is compared; JSON and NDJSON files are
+							streamed
+						</div>
+					</div>
+				</div>
+
+				<div style={{ ...styles.header, marginTop: "var(--spacing-lg)" }}>
+					<span>🚫</span>
+					<span>Ignored Paths</span>
+				</div>
+
+				<div style={styles.field}>
+					<label htmlFor="ignorePaths" style={styles.label}>
+						Patterns (one per line)
+					</label>
+					<textarea
+						id="ignorePaths"
+						placeholder={"$.items[*].updatedAt\n$..traceId"}
+						value={settings.ignorePaths.join("\n")}
+						onChange={(e) =>
+							onChange({
+								...settings,
+								ignorePaths: e.target.value.split("\n"),
+							})
+						}
+						rows={3}
+						style={{ ...styles.input, fontFamily: "var(--font-mono)" }}
+					/>
+					<div style={styles.description}>
+						Matching subtrees are skipped and reported as ignored. Supports [*]
+						and .* wildcards and .. for any depth
+					</div>
+				</div>
+
+				<div style={{ ...styles.header, marginTop: "var(--spacing-lg)" }}>
+					<span>🎯</span>
+					<span>Per-Path Rules</span>
+				</div>
+
+				<CompareRulesEditor
+					rules={settings.rules}
+					onChange={(rules) => onChange({ ...settings, rules })}
+				/>
+				<div style={styles.description}>
+					Override key field, float tolerance and array order for matching
+					subtrees. Later rules take precedence
 				</div>
 
 				<div style={{ ...styles.header, marginTop: "var(--spacing-lg)" }}>
@@ -307,6 +555,33 @@ export const SettingsPanel = ({
 									Sort all object keys in alphabetical order
 								</div>
 							</div>
+
+							<div style={styles.field}>
+								<div style={styles.checkboxContainer}>
+									<input
+										type="checkbox"
+										id="canonical"
+										checked={settings.formatSettings.canonical ?? false}
+										onChange={(e) =>
+											onChange({
+												...settings,
+												formatSettings: {
+													...settings.formatSettings,
+													canonical: e.target.checked,
+												},
+											})
+										}
+										style={styles.checkbox}
+									/>
+									<label htmlFor="canonical" style={styles.label}>
+										Canonical JSON (RFC 8785)
+									</label>
+								</div>
+								<div style={styles.description}>
+									Write inputs in the JSON Canonicalization Scheme, e.g. for
+									hashes and signatures; overrides indent and key order
+								</div>
+							</div>
 						</>
 					)}
 				</div>
@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useDiff } from "../useDiff";
+import type {
+	CompareError,
+	ComparePort,
+} from "../../../application/ports/ComparePort";
+import type {
+	CompareJsonInput,
+	CompareJsonOutput,
+} from "../../../application/use-cases/compareJson";
+import { compareJson } from "../../../application/use-cases/compareJson";
+import type { Result } from "../../../domain/types/result";
+
+/**
+ * Compare port answering only when told to
+ */
+class PendingComparePort implements ComparePort {
+	readonly inputs: CompareJsonInput[] = [];
+	private resolve?: (result: Result<CompareJsonOutput, CompareError>) => void;
+
+	compare(input: CompareJsonInput) {
+		this.inputs.push(input);
+		return new Promise<Result<CompareJsonOutput, CompareError>>((resolve) => {
+			this.resolve = resolve;
+		});
+	}
+
+	compareFiles(): never {
+		throw new Error("Not supported");
+	}
+
+	respond() {
+		this.resolve?.(compareJson(this.inputs[this.inputs.length - 1]));
+	}
+}
+
+describe("useDiff", () => {
+	describe("compare", () => {
+		it("should format the inputs that were compared", async () => {
+			const port = new PendingComparePort();
+			const { result } = renderHook(() => useDiff(undefined, port));
+			act(() => {
+				result.current.actions.setLeftInput('{"a":1}');
+				result.current.actions.setRightInput('{"a":2}');
+			});
+
+			await act(async () => {
+				const comparison = result.current.actions.compare();
+				port.respond();
+				await comparison;
+			});
+
+			expect(result.current.state.leftInput).toBe('{\n  "a": 1\n}');
+			expect(result.current.state.rightInput).toBe('{\n  "a": 2\n}');
+			expect(result.current.state.diffResult?.getEntries()).toHaveLength(1);
+		});
+
+		it("should keep inputs edited while the comparison is pending", async () => {
+			const port = new PendingComparePort();
+			const { result } = renderHook(() => useDiff(undefined, port));
+			act(() => {
+				result.current.actions.setLeftInput('{"a":1}');
+				result.current.actions.setRightInput('{"a":2}');
+			});
+
+			let comparison: Promise<void> = Promise.resolve();
+			act(() => {
+				comparison = result.current.actions.compare();
+			});
+			act(() => {
+				result.current.actions.setLeftInput('{"a":3}');
+			});
+			await act(async () => {
+				port.respond();
+				await comparison;
+			});
+
+			expect(result.current.state.leftInput).toBe('{"a":3}');
+			expect(result.current.state.rightInput).toBe('{\n  "a": 2\n}');
+		});
+	});
+});
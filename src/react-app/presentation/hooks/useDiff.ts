@@ -1,17 +1,49 @@
-import { useReducer, useCallback } from "react";
+import { useReducer, useCallback, useRef, useState } from "react";
 import { appReducer, initialState } from "../../application/state/reducer";
 import type { CompareSettings } from "../../domain/types/diff";
-import { compareJson } from "../../application/use-cases/compareJson";
+import type { JsonDialect } from "../../domain/types/json";
+import type { Result } from "../../domain/types/result";
+import type {
+	ComparePort,
+	CompareError,
+	CompareOptions,
+} from "../../application/ports/ComparePort";
+import type { CompareJsonOutput } from "../../application/use-cases/compareJson";
+import type { AppMode } from "../../application/state/types";
+import type { ConflictResolution } from "../../domain/types/merge";
+import type { DocumentInput } from "../../application/use-cases/compareDocuments";
+import { applyJsonPatch } from "../../application/use-cases/applyJsonPatch";
+import { mergeJson, resolveMerge } from "../../application/use-cases/mergeJson";
+import { compareDocumentsJson } from "../../application/use-cases/compareDocuments";
 import { formatJson } from "../../domain/functions/formatter";
+import { detectDialect } from "../../domain/functions/parser";
+import { WorkerCompareAdapter } from "../../infrastructure/adapters/WorkerCompareAdapter";
+import { SyncCompareAdapter } from "../../infrastructure/adapters/SyncCompareAdapter";
+
+/**
+ * Creates the compare adapter, preferring a Web Worker when available
+ */
+const createComparePort = (): ComparePort =>
+	typeof Worker !== "undefined"
+		? new WorkerCompareAdapter()
+		: new SyncCompareAdapter();
 
 /**
  * Custom hook for managing diff state and operations
+ *
+ * @param comparePort - Runs comparisons; defaults to a Web Worker adapter
  */
-export const useDiff = (initialSettings?: CompareSettings) => {
+export const useDiff = (
+	initialSettings?: CompareSettings,
+	comparePort?: ComparePort,
+) => {
 	const [state, dispatch] = useReducer(appReducer, {
 		...initialState,
 		settings: initialSettings ?? initialState.settings,
 	});
+	const [defaultComparePort] = useState(createComparePort);
+	const port = comparePort ?? defaultComparePort;
+	const abortControllerRef = useRef<AbortController | null>(null);
 
 	const setLeftInput = useCallback((input: string) => {
 		dispatch({ type: "SET_LEFT_INPUT", payload: input });
@@ -21,45 +53,149 @@ export const useDiff = (initialSettings?: CompareSettings) => {
 		dispatch({ type: "SET_RIGHT_INPUT", payload: input });
 	}, []);
 
+	const setBaseInput = useCallback((input: string) => {
+		dispatch({ type: "SET_BASE_INPUT", payload: input });
+	}, []);
+
+	const setLeftDialect = useCallback((dialect: JsonDialect) => {
+		dispatch({ type: "SET_LEFT_DIALECT", payload: dialect });
+	}, []);
+
+	const setRightDialect = useCallback((dialect: JsonDialect) => {
+		dispatch({ type: "SET_RIGHT_DIALECT", payload: dialect });
+	}, []);
+
+	const setBaseDialect = useCallback((dialect: JsonDialect) => {
+		dispatch({ type: "SET_BASE_DIALECT", payload: dialect });
+	}, []);
+
+	const setLeftFile = useCallback((file: File | null) => {
+		dispatch({ type: "SET_LEFT_FILE", payload: file });
+	}, []);
+
+	const setRightFile = useCallback((file: File | null) => {
+		dispatch({ type: "SET_RIGHT_FILE", payload: file });
+	}, []);
+
+	// Pasted text selects the dialect it is written in; the select overrides it
+	const detectLeftDialect = useCallback((text: string) => {
+		const dialect = detectDialect(text);
+		if (dialect) {
+			dispatch({ type: "SET_LEFT_DIALECT", payload: dialect });
+		}
+	}, []);
+
+	const detectRightDialect = useCallback((text: string) => {
+		const dialect = detectDialect(text);
+		if (dialect) {
+			dispatch({ type: "SET_RIGHT_DIALECT", payload: dialect });
+		}
+	}, []);
+
+	const detectBaseDialect = useCallback((text: string) => {
+		const dialect = detectDialect(text);
+		if (dialect) {
+			dispatch({ type: "SET_BASE_DIALECT", payload: dialect });
+		}
+	}, []);
+
+	const setDocumentInput = useCallback(
+		(index: number, input: Partial<DocumentInput>) => {
+			dispatch({ type: "SET_DOCUMENT_INPUT", payload: { index, input } });
+		},
+		[],
+	);
+
+	const addDocumentInput = useCallback(() => {
+		dispatch({ type: "ADD_DOCUMENT_INPUT" });
+	}, []);
+
+	const removeDocumentInput = useCallback((index: number) => {
+		dispatch({ type: "REMOVE_DOCUMENT_INPUT", payload: index });
+	}, []);
+
 	const setSettings = useCallback((settings: Partial<CompareSettings>) => {
 		dispatch({ type: "SET_SETTINGS", payload: settings });
 	}, []);
 
-	const compare = useCallback(() => {
-		dispatch({ type: "COMPARE_START" });
+	const setMode = useCallback((mode: AppMode) => {
+		abortControllerRef.current?.abort();
+		abortControllerRef.current = null;
+		dispatch({ type: "SET_MODE", payload: mode });
+	}, []);
 
-		// Auto-format both inputs before comparing
-		const leftFormatResult = formatJson(
-			state.leftInput,
-			state.settings.formatSettings,
-		);
-		const rightFormatResult = formatJson(
-			state.rightInput,
-			state.settings.formatSettings,
-		);
+	const compare = useCallback(async () => {
+		// Only the latest comparison is kept
+		abortControllerRef.current?.abort();
+		const abortController = new AbortController();
+		abortControllerRef.current = abortController;
+
+		dispatch({ type: "COMPARE_START" });
 
-		const leftJson = leftFormatResult.ok
-			? leftFormatResult.value
-			: state.leftInput;
-		const rightJson = rightFormatResult.ok
-			? rightFormatResult.value
-			: state.rightInput;
+		const options: CompareOptions = {
+			signal: abortController.signal,
+			onProgress: (progress) =>
+				dispatch({ type: "COMPARE_PROGRESS", payload: progress }),
+		};
 
-		// Update inputs with formatted versions if successful
-		if (leftFormatResult.ok) {
-			dispatch({ type: "SET_LEFT_INPUT", payload: leftJson });
-		}
-		if (rightFormatResult.ok) {
-			dispatch({ type: "SET_RIGHT_INPUT", payload: rightJson });
+		let result: Result<CompareJsonOutput, CompareError>;
+		if (state.leftFile || state.rightFile) {
+			// A side without a file is read from its text
+			result = await port.compareFiles(
+				{
+					leftFile: state.leftFile ?? new Blob([state.leftInput]),
+					rightFile: state.rightFile ?? new Blob([state.rightInput]),
+					settings: state.settings,
+					leftDialect: state.leftDialect,
+					rightDialect: state.rightDialect,
+				},
+				options,
+			);
+		} else {
+			// Both inputs are auto-formatted along with the comparison, off the
+			// main thread
+			result = await port.compare(
+				{
+					leftJson: state.leftInput,
+					rightJson: state.rightInput,
+					settings: state.settings,
+					leftDialect: state.leftDialect,
+					rightDialect: state.rightDialect,
+					formatInputs: true,
+				},
+				options,
+			);
 		}
 
-		const result = compareJson({
-			leftJson,
-			rightJson,
-			settings: state.settings,
-		});
+		// Results of cancelled or superseded comparisons are dropped
+		if (abortController.signal.aborted) {
+			return;
+		}
+		abortControllerRef.current = null;
 
 		if (result.ok) {
+			// Update inputs with formatted versions if successful, unless they
+			// were edited meanwhile
+			if (result.value.leftJson !== undefined) {
+				dispatch({
+					type: "SET_FORMATTED_INPUT",
+					payload: {
+						side: "left",
+						input: state.leftInput,
+						formatted: result.value.leftJson,
+					},
+				});
+			}
+			if (result.value.rightJson !== undefined) {
+				dispatch({
+					type: "SET_FORMATTED_INPUT",
+					payload: {
+						side: "right",
+						input: state.rightInput,
+						formatted: result.value.rightJson,
+					},
+				});
+			}
 			dispatch({
 				type: "COMPARE_SUCCESS",
 				payload: {
@@ -68,12 +204,128 @@ export const useDiff = (initialSettings?: CompareSettings) => {
 					diffResult: result.value.diffResult,
 				},
 			});
+		} else if (result.error.type !== "CANCELLED") {
+			dispatch({ type: "COMPARE_ERROR", payload: result.error });
+		}
+	}, [
+		port,
+		state.leftInput,
+		state.rightInput,
+		state.leftDialect,
+		state.rightDialect,
+		state.leftFile,
+		state.rightFile,
+		state.settings,
+	]);
+
+	const applyPatch = useCallback(() => {
+		dispatch({ type: "COMPARE_START" });
+
+		const result = applyJsonPatch({
+			documentJson: state.leftInput,
+			patchJson: state.rightInput,
+			settings: state.settings,
+			documentDialect: state.leftDialect,
+			patchDialect: state.rightDialect,
+		});
+
+		if (result.ok) {
+			dispatch({ type: "COMPARE_SUCCESS", payload: result.value });
+		} else {
+			dispatch({ type: "COMPARE_ERROR", payload: result.error });
+		}
+	}, [
+		state.leftInput,
+		state.rightInput,
+		state.leftDialect,
+		state.rightDialect,
+		state.settings,
+	]);
+
+	const merge = useCallback(() => {
+		dispatch({ type: "COMPARE_START" });
+
+		const result = mergeJson({
+			baseJson: state.baseInput,
+			oursJson: state.leftInput,
+			theirsJson: state.rightInput,
+			settings: state.settings,
+			baseDialect: state.baseDialect,
+			oursDialect: state.leftDialect,
+			theirsDialect: state.rightDialect,
+		});
+
+		if (result.ok) {
+			dispatch({ type: "MERGE_SUCCESS", payload: result.value });
 		} else {
 			dispatch({ type: "COMPARE_ERROR", payload: result.error });
 		}
-	}, [state.leftInput, state.rightInput, state.settings]);
+	}, [
+		state.baseInput,
+		state.leftInput,
+		state.rightInput,
+		state.baseDialect,
+		state.leftDialect,
+		state.rightDialect,
+		state.settings,
+	]);
+
+	const compareMany = useCallback(() => {
+		dispatch({ type: "COMPARE_START" });
+
+		const result = compareDocumentsJson({
+			inputs: state.documentInputs,
+			settings: state.settings,
+		});
+
+		if (result.ok) {
+			dispatch({ type: "COMPARE_MANY_SUCCESS", payload: result.value });
+		} else {
+			dispatch({ type: "COMPARE_ERROR", payload: result.error });
+		}
+	}, [state.documentInputs, state.settings]);
+
+	const resolveConflict = useCallback(
+		(index: number, resolution: ConflictResolution | null) => {
+			if (!state.mergeResult || !state.leftDocument) {
+				return;
+			}
+
+			const resolutions = state.resolutions.map((current, i) =>
+				i === index ? resolution : current,
+			);
+			const output = resolveMerge({
+				baseDocument: state.leftDocument,
+				mergeResult: state.mergeResult,
+				resolutions,
+				settings: state.settings,
+			});
+
+			dispatch({
+				type: "RESOLVE_CONFLICT",
+				payload: {
+					resolutions,
+					rightDocument: output.rightDocument,
+					diffResult: output.diffResult,
+				},
+			});
+		},
+		[state.leftDocument, state.mergeResult, state.resolutions, state.settings],
+	);
+
+	const cancelCompare = useCallback(() => {
+		abortControllerRef.current?.abort();
+		abortControllerRef.current = null;
+		dispatch({ type: "COMPARE_CANCEL" });
+	}, []);
+
+	const swapSides = useCallback(() => {
+		dispatch({ type: "SWAP_SIDES" });
+	}, []);
 
 	const clear = useCallback(() => {
+		abortControllerRef.current?.abort();
+		abortControllerRef.current = null;
 		dispatch({ type: "CLEAR" });
 	}, []);
 
@@ -82,32 +334,71 @@ export const useDiff = (initialSettings?: CompareSettings) => {
 	}, []);
 
 	const formatLeftInput = useCallback(() => {
-		const result = formatJson(state.leftInput, state.settings.formatSettings);
+		const result = formatJson(
+			state.leftInput,
+			state.settings.formatSettings,
+			state.leftDialect,
+			{ losslessNumbers: state.settings.losslessNumbers },
+		);
 		if (result.ok) {
 			dispatch({ type: "SET_LEFT_INPUT", payload: result.value });
 		} else {
 			// Show error or do nothing if format fails
 			alert(`Format failed: ${result.error.getMessage()}`);
 		}
-	}, [state.leftInput, state.settings.formatSettings]);
+	}, [
+		state.leftInput,
+		state.leftDialect,
+		state.settings.formatSettings,
+		state.settings.losslessNumbers,
+	]);
 
 	const formatRightInput = useCallback(() => {
-		const result = formatJson(state.rightInput, state.settings.formatSettings);
+		const result = formatJson(
+			state.rightInput,
+			state.settings.formatSettings,
+			state.rightDialect,
+			{ losslessNumbers: state.settings.losslessNumbers },
+		);
 		if (result.ok) {
 			dispatch({ type: "SET_RIGHT_INPUT", payload: result.value });
 		} else {
 			// Show error or do nothing if format fails
 			alert(`Format failed: ${result.error.getMessage()}`);
 		}
-	}, [state.rightInput, state.settings.formatSettings]);
+	}, [
+		state.rightInput,
+		state.rightDialect,
+		state.settings.formatSettings,
+		state.settings.losslessNumbers,
+	]);
 
 	return {
 		state,
 		actions: {
 			setLeftInput,
 			setRightInput,
+			setBaseInput,
+			setLeftDialect,
+			setRightDialect,
+			setBaseDialect,
+			setLeftFile,
+			setRightFile,
+			detectLeftDialect,
+			detectRightDialect,
+			detectBaseDialect,
+			setDocumentInput,
+			addDocumentInput,
+			removeDocumentInput,
 			setSettings,
+			setMode,
 			compare,
+			applyPatch,
+			merge,
+			compareMany,
+			resolveConflict,
+			cancelCompare,
+			swapSides,
 			clear,
 			clearError,
 			formatLeftInput,
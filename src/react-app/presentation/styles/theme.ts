@@ -24,6 +24,7 @@ export const colors = {
 	diffAdded: "#50fa7b",
 	diffRemoved: "#ff5555",
 	diffModified: "#ffb86c",
+	diffMoved: "#bd93f9",
 	diffUnchanged: "#6272a4",
 } as const;
 
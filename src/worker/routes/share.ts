@@ -10,9 +10,19 @@ interface ShareData {
 	rightJson: string;
 	settings?: {
 		ignoreArrayOrder?: boolean;
-		keyField?: string;
+		arrayDiffAlgorithm?: "lcs" | "index";
+		detectMoves?: boolean;
+		ignorePaths?: string[];
+		keyField?: string | string[];
 		floatTolerance?: number;
+		similarityThreshold?: number;
 		treatNullAsUndefined?: boolean;
+		rules?: Array<{
+			path: string;
+			keyField?: string | string[];
+			floatTolerance?: number;
+			ignoreArrayOrder?: boolean;
+		}>;
 	};
 }
 
@@ -28,6 +38,39 @@ shareRoutes.post("/", async (c) => {
 			return c.json({ error: "leftJson and rightJson are required" }, 400);
 		}
 
+		const ignorePaths = body.settings?.ignorePaths;
+		if (
+			ignorePaths !== undefined &&
+			(!Array.isArray(ignorePaths) ||
+				!ignorePaths.every((pattern) => typeof pattern === "string"))
+		) {
+			return c.json(
+				{ error: "settings.ignorePaths must be a string array" },
+				400,
+			);
+		}
+
+		const rules = body.settings?.rules;
+		if (
+			rules !== undefined &&
+			(!Array.isArray(rules) ||
+				!rules.every((rule) => rule && typeof rule.path === "string"))
+		) {
+			return c.json({ error: "settings.rules must be an array of rules" }, 400);
+		}
+
+		const similarityThreshold = body.settings?.similarityThreshold;
+		if (
+			similarityThreshold !== undefined &&
+			(typeof similarityThreshold !== "number" ||
+				!(similarityThreshold >= 0 && similarityThreshold <= 1))
+		) {
+			return c.json(
+				{ error: "settings.similarityThreshold must be between 0 and 1" },
+				400,
+			);
+		}
+
 		// Generate unique ID
 		const id = crypto.randomUUID();
 
@@ -40,7 +83,13 @@ shareRoutes.post("/", async (c) => {
 			id,
 			leftJson: body.leftJson,
 			rightJson: body.rightJson,
-			settings: body.settings,
+			settings: body.settings && {
+				...body.settings,
+				ignorePaths: ignorePaths?.filter(
+					(pattern) => pattern.trim().length > 0,
+				),
+				rules: rules?.filter((rule) => rule.path.trim().length > 0),
+			},
 			createdAt: new Date().toISOString(),
 			expiresAt: expiresAt.toISOString(),
 		};